@@ -0,0 +1,8 @@
+// Unlinkable anonymous feedback: instead of submitting with their account, a student gets one
+// blind-signed token per course and term and submits with that, so the server never learns who wrote it
+module.exports = {
+  enabled: process.env.UNLINKABLE_FEEDBACK !== 'false',
+
+  // Size of the RSA key each course gets per term for signing tokens
+  keyBits: parseInt(process.env.ANONYMOUS_KEY_BITS, 10) || 2048
+};
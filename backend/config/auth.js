@@ -0,0 +1,60 @@
+// Authentication settings shared by the auth routes, middleware and models
+module.exports = {
+  jwtSecret: process.env.JWT_SECRET || 'fallback_secret',
+
+  // How tokens reach the browser: 'header' returns them in the response body for the client to send
+  // as a Bearer header; 'cookie' sets HttpOnly cookies and requires a CSRF token on changes
+  authMode: process.env.AUTH_MODE === 'cookie' ? 'cookie' : 'header',
+
+  // Cookie mode settings. Use SameSite=none (which forces Secure) when the frontend and API are on
+  // different sites; the API must then be served over HTTPS.
+  cookieSameSite: process.env.AUTH_COOKIE_SAMESITE || 'strict',
+  cookieSecure: process.env.AUTH_COOKIE_SECURE
+    ? process.env.AUTH_COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production' || process.env.AUTH_COOKIE_SAMESITE === 'none',
+  cookieDomain: process.env.AUTH_COOKIE_DOMAIN || undefined,
+
+  // Access tokens are short-lived; clients renew them with a refresh token
+  accessTokenExpire: process.env.JWT_ACCESS_EXPIRE || '15m',
+
+  // Refresh tokens (and the sessions backing them) expire after this many days
+  refreshTokenExpireDays: parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS, 10) || 30,
+
+  // The refresh token just rotated out is still accepted for this many seconds, so two tabs refreshing
+  // at once don't look like a stolen token
+  refreshTokenReuseGraceSeconds: parseInt(process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS, 10) || 10,
+
+  // Rotated-out refresh tokens remembered per session for reuse detection
+  refreshTokenHistoryLimit: parseInt(process.env.REFRESH_TOKEN_HISTORY_LIMIT, 10) || 20,
+
+  // Email verification links expire after this many hours
+  emailVerificationExpireHours: parseInt(process.env.EMAIL_VERIFICATION_EXPIRE_HOURS, 10) || 24,
+
+  // Failed logins allowed before an account is temporarily locked
+  loginLockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD, 10) || 5,
+
+  // First lockout lasts this many minutes and doubles with each further failure, up to the maximum
+  loginLockoutBaseMinutes: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES, 10) || 1,
+  loginLockoutMaxMinutes: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES, 10) || 60,
+
+  // Invitation links expire after this many days unless the admin picks another expiry
+  invitationExpireDays: parseInt(process.env.INVITATION_EXPIRE_DAYS, 10) || 7,
+
+  // When true, admin accounts must enroll in TOTP two-factor authentication before using admin features
+  requireAdminTwoFactor: process.env.REQUIRE_ADMIN_2FA === 'true',
+
+  // Admins viewing the app as a student are returned to their own account after this many minutes
+  impersonationExpireMinutes: parseInt(process.env.IMPERSONATION_EXPIRE_MINUTES, 10) || 30,
+
+  // Issuer name shown in authenticator apps
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'EduFeedback',
+
+  // Time allowed between the password step and the code step of a two-factor login
+  twoFactorChallengeExpire: process.env.TWO_FACTOR_CHALLENGE_EXPIRE || '5m',
+
+  // Optional comma-separated list of domains allowed to register, e.g. "bgscollege.ac.in"
+  allowedEmailDomains: (process.env.ALLOWED_EMAIL_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean)
+};
@@ -0,0 +1,21 @@
+const path = require('path');
+
+// Outgoing mail settings. MAIL_TRANSPORT picks how messages are delivered:
+//   file   - write each message to MAIL_FILE_DIR (default for development)
+//   smtp   - send through an SMTP server, e.g. a local MailHog on port 1025
+//   memory - keep messages in memory (useful in tests)
+module.exports = {
+  transport: process.env.MAIL_TRANSPORT || 'file',
+  from: process.env.MAIL_FROM || 'EduFeedback <no-reply@localhost>',
+  fileDirectory: process.env.MAIL_FILE_DIR || path.join(__dirname, '../temp/mail'),
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT, 10) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS
+  },
+
+  // Frontend base URL used to build links in emails
+  clientUrl: process.env.CLIENT_URL || 'http://localhost:3000'
+};
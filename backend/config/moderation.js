@@ -0,0 +1,6 @@
+// Feedback moderation settings
+module.exports = {
+  // When true, new and edited feedback waits as pending until a moderator approves it; pending and
+  // rejected feedback is left out of statistics and instructor views. When false it is approved right away.
+  enabled: process.env.FEEDBACK_MODERATION === 'true'
+};
@@ -0,0 +1,54 @@
+const permissionConfig = require('./permissions');
+const mailConfig = require('./mail');
+
+// Parse OIDC_ROLE_MAP, e.g. {"faculty": "instructor", "it-staff": "admin"}
+const loadRoleMap = () => {
+  if (!process.env.OIDC_ROLE_MAP) return {};
+
+  const roleMap = JSON.parse(process.env.OIDC_ROLE_MAP);
+  Object.entries(roleMap).forEach(([claimValue, role]) => {
+    if (!permissionConfig.roleNames.includes(role)) {
+      throw new Error(`OIDC_ROLE_MAP maps "${claimValue}" to unknown role "${role}"`);
+    }
+  });
+
+  return roleMap;
+};
+
+const defaultRole = process.env.OIDC_DEFAULT_ROLE || 'student';
+if (!permissionConfig.roleNames.includes(defaultRole)) {
+  throw new Error(`OIDC_DEFAULT_ROLE "${defaultRole}" is not a configured role`);
+}
+
+// OpenID Connect single sign-on. Disabled unless an issuer and client ID are configured.
+module.exports = {
+  enabled: !!(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID),
+
+  // Shown on the login button, e.g. "Sign in with campus account"
+  providerName: process.env.OIDC_PROVIDER_NAME || 'campus account',
+
+  // Issuer URL; its /.well-known/openid-configuration is fetched on first use
+  issuer: (process.env.OIDC_ISSUER || '').replace(/\/$/, ''),
+
+  clientId: process.env.OIDC_CLIENT_ID,
+
+  // Optional: leave empty for a public client that relies on PKCE alone
+  clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+
+  // Must be registered with the provider; the frontend finishes the login on this page
+  redirectUri: process.env.OIDC_REDIRECT_URI || `${mailConfig.clientUrl}/auth/callback`,
+
+  scopes: process.env.OIDC_SCOPES || 'openid email profile',
+
+  // Time allowed between starting a login and coming back from the provider
+  stateExpireMinutes: parseInt(process.env.OIDC_STATE_EXPIRE_MINUTES, 10) || 10,
+
+  // Claim holding the user's groups or roles at the provider (string or array)
+  roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+
+  // Claim values mapped to app roles; the first entry present in the claim wins
+  roleMap: loadRoleMap(),
+
+  // Role for new users whose claims match nothing in the role map
+  defaultRole
+};
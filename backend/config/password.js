@@ -0,0 +1,30 @@
+// Password policy shared by the User model, the auth routes and the policy endpoint
+const parseFlag = (value, defaultValue) => (value === undefined ? defaultValue : value === 'true');
+
+const parseCount = (value, defaultValue) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+};
+
+module.exports = {
+  minLength: parseCount(process.env.PASSWORD_MIN_LENGTH, 8) || 8,
+  maxLength: parseCount(process.env.PASSWORD_MAX_LENGTH, 128) || 128,
+
+  // Character classes a password must contain
+  requireUppercase: parseFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, false),
+  requireLowercase: parseFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, false),
+  requireNumber: parseFlag(process.env.PASSWORD_REQUIRE_NUMBER, true),
+  requireSymbol: parseFlag(process.env.PASSWORD_REQUIRE_SYMBOL, true),
+
+  // A new password can't match any of the last N passwords, including the current one (0 turns this off)
+  historyCount: parseCount(process.env.PASSWORD_HISTORY_COUNT, 5),
+
+  // Passwords older than this many days must be changed before making changes (0 means never)
+  maxAgeDays: parseCount(process.env.PASSWORD_MAX_AGE_DAYS, 0),
+
+  // Reject passwords found in the bundled list of common and breached passwords
+  checkBreached: parseFlag(process.env.PASSWORD_CHECK_BREACHED, true),
+
+  // Optional path to a larger list (one password per line) used instead of the bundled one
+  breachedListFile: process.env.PASSWORD_BREACHED_LIST_FILE || null
+};
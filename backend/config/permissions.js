@@ -0,0 +1,68 @@
+const fs = require('fs');
+const path = require('path');
+
+// Every permission checked by the API. Roles are named sets of these.
+const permissions = {
+  'feedback:submit': 'Submit, edit and delete own feedback',
+  'feedback:read': 'View feedback from all students',
+  'feedback:export': 'Export feedback to CSV',
+  'feedback:moderate': 'Approve and reject feedback in the moderation queue',
+  'feedback:history': 'View every version of edited feedback',
+  'feedback:respond': 'Reply to feedback on any course',
+  'screening:manage': 'Edit the word list used to screen feedback automatically',
+  'dashboard:view': 'View the admin dashboard and statistics',
+  'statistics:exact': 'See ratings and comments on courses with fewer responses than the anonymity minimum',
+  'students:read': 'List student accounts',
+  'students:block': 'Block and unblock students',
+  'students:unlock': 'Clear failed-login lockouts',
+  'students:delete': 'Delete student accounts',
+  'students:impersonate': 'View the app as a student (read-only) for support',
+  'courses:write': 'Create, edit and deactivate courses',
+  'courses:teach': 'Be assigned to courses and view aggregated feedback on them',
+  'invitations:manage': 'Create and revoke invitations',
+  'surveys:manage': 'Create and edit survey templates',
+  'terms:manage': 'Create and edit academic terms and their feedback windows',
+  'audit:read': 'View the audit log of admin actions'
+};
+
+const defaultRoles = {
+  student: ['feedback:submit'],
+  instructor: ['courses:teach'],
+  admin: Object.keys(permissions).filter(
+    permission => !['feedback:submit', 'courses:teach'].includes(permission)
+  )
+};
+
+// Extra roles (or overrides of the defaults) can be loaded from a JSON file named by ROLES_FILE,
+// e.g. { "moderator": ["feedback:read", "students:read", "students:block"] }
+const loadRoles = () => {
+  if (!process.env.ROLES_FILE) return defaultRoles;
+
+  const filePath = path.resolve(process.env.ROLES_FILE);
+  const configuredRoles = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  Object.entries(configuredRoles).forEach(([role, rolePermissions]) => {
+    if (!/^[a-z][a-z0-9-]*$/.test(role) || !Array.isArray(rolePermissions)) {
+      throw new Error(`Invalid role "${role}" in ${filePath}`);
+    }
+
+    const unknown = rolePermissions.filter(permission => !permissions[permission]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown permissions for role "${role}" in ${filePath}: ${unknown.join(', ')}`);
+    }
+  });
+
+  return { ...defaultRoles, ...configuredRoles };
+};
+
+const roles = loadRoles();
+
+// Names of the roles that grant a permission, for querying users by capability
+const rolesWith = (permission) => Object.keys(roles).filter(role => roles[role].includes(permission));
+
+module.exports = {
+  permissions,
+  roles,
+  roleNames: Object.keys(roles),
+  rolesWith
+};
@@ -0,0 +1,24 @@
+// Automatic screening of feedback text for abusive language and personal information
+const parseCount = (value, defaultValue) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+};
+
+module.exports = {
+  enabled: process.env.SCREENING_ENABLED !== 'false',
+
+  // Feedback scoring at least this much is held as pending for a moderator
+  threshold: parseCount(process.env.SCREENING_THRESHOLD, 3) || 3,
+
+  // Score added for each finding, by type
+  weights: {
+    profanity: 2,
+    insult: 3,
+    email: 3,
+    phone: 3,
+    'roll-number': 3
+  },
+
+  // Student roll numbers as the institution writes them (matched case-insensitively), e.g. 1BG21CS045
+  rollNumberPattern: process.env.SCREENING_ROLL_NUMBER_PATTERN || '\\b\\d[A-Z]{2}\\d{2}[A-Z]{2}\\d{3}\\b'
+};
@@ -0,0 +1,11 @@
+// Privacy of course statistics. With only a few responses, an average or distribution gives away
+// individual answers (one response's average is its rating), so below minResponses viewers without
+// statistics:exact only see how many responses there are. Set to 0 to turn this off.
+const parseCount = (value, defaultValue) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
+};
+
+module.exports = {
+  minResponses: parseCount(process.env.STATISTICS_MIN_RESPONSES, 5)
+};
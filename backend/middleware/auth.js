@@ -1,14 +1,20 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Session = require('../models/Session');
+const AuditLog = require('../models/AuditLog');
+const authConfig = require('../config/auth');
+const { getAccessToken, hasValidCsrfToken, sendCsrfError } = require('../utils/authCookies');
+
+// Requests allowed while an admin is viewing the app as another user
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Changes still allowed once the password has expired
+const PASSWORD_EXPIRED_ALLOWED_PATHS = ['/api/auth/change-password', '/api/auth/logout', '/api/auth/logout-all'];
 
 // Protect routes - verify JWT token
 const protect = async (req, res, next) => {
   try {
-    let token;
-
-    if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
-      token = req.headers.authorization.split(' ')[1];
-    }
+    const { token, fromCookie } = getAccessToken(req);
 
     if (!token) {
       return res.status(401).json({
@@ -17,65 +23,136 @@ const protect = async (req, res, next) => {
       });
     }
 
+    // Browsers attach cookies to cross-site requests too, so changes must prove they came from the app
+    if (fromCookie && !hasValidCsrfToken(req)) {
+      return sendCsrfError(res);
+    }
+
+    // Only a bad or expired token is reported as such; other failures below are server errors
+    let decoded;
     try {
-      // Verify token
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
-      
-      // Get user from token
-      const user = await User.findById(decoded.id).select('-password');
-      
-      if (!user) {
+      decoded = jwt.verify(token, authConfig.jwtSecret);
+    } catch (error) {
+      return res.status(401).json({
+        success: false,
+        message: 'Not authorized, token failed'
+      });
+    }
+
+    // Check the session behind the token has not been revoked. Impersonation tokens
+    // ride on the admin's own session.
+    const sessionOwner = decoded.impersonatorId || decoded.id;
+    const session = decoded.sid ? await Session.findById(decoded.sid) : null;
+    if (!session || !session.isActive || session.user.toString() !== sessionOwner) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session has expired or been revoked'
+      });
+    }
+
+    // Get user from token
+    const user = await User.findById(decoded.id).select('-password');
+    
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.isBlocked) {
+      return res.status(403).json({
+        success: false,
+        message: 'Account has been blocked'
+      });
+    }
+
+    req.user = user;
+    req.authSession = session;
+
+    // An expired password still lets the user look around, but nothing else until it is changed
+    if (!decoded.impersonatorId && user.isPasswordExpired()
+      && !READ_ONLY_METHODS.includes(req.method) && !PASSWORD_EXPIRED_ALLOWED_PATHS.includes(req.baseUrl + req.path)) {
+      return res.status(403).json({
+        success: false,
+        code: 'PASSWORD_EXPIRED',
+        message: 'Your password has expired. Please change it on your profile to continue.'
+      });
+    }
+
+    if (decoded.impersonatorId) {
+      const impersonator = await User.findById(decoded.impersonatorId).select('-password');
+
+      if (!impersonator || impersonator.isBlocked || !impersonator.hasPermission('students:impersonate')) {
         return res.status(401).json({
           success: false,
-          message: 'User not found'
+          code: 'IMPERSONATION_ENDED',
+          message: 'Impersonation is no longer allowed'
         });
       }
 
-      if (user.isBlocked) {
+      if (!READ_ONLY_METHODS.includes(req.method)) {
         return res.status(403).json({
           success: false,
-          message: 'Account has been blocked'
+          code: 'IMPERSONATION_READ_ONLY',
+          message: 'Changes are disabled while viewing as another user.'
         });
       }
 
-      req.user = user;
-      next();
-    } catch (error) {
-      return res.status(401).json({
-        success: false,
-        message: 'Not authorized, token failed'
+      // Tag the request with the admin behind it. Every request made while impersonating must be
+      // audited, so one whose audit entry can't be written doesn't go ahead.
+      req.impersonator = impersonator;
+      await AuditLog.record(req, {
+        action: 'impersonation.request',
+        targetType: 'user',
+        target: user,
+        targetLabel: user.email,
+        metadata: { method: req.method, path: req.originalUrl }
       });
     }
   } catch (error) {
+    console.error('Authentication error:', error);
     return res.status(500).json({
       success: false,
       message: 'Server error in authentication'
     });
   }
+
+  // Outside the try, so errors in later handlers aren't reported as authentication failures
+  next();
 };
 
-// Admin access middleware
-const admin = (req, res, next) => {
-  if (req.user && req.user.role === 'admin') {
-    next();
-  } else {
+// Permission middleware - the user's role must grant every listed permission
+const requirePermission = (...permissions) => (req, res, next) => {
+  if (!req.user || !permissions.every(permission => req.user.hasPermission(permission))) {
     return res.status(403).json({
       success: false,
-      message: 'Access denied. Admin privileges required.'
+      message: 'Access denied. You do not have permission to do this.'
     });
   }
+
+  if (req.user.isTwoFactorRequired() && !req.user.twoFactorEnabled) {
+    return res.status(403).json({
+      success: false,
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+      message: 'Set up two-factor authentication on your profile to use admin features.'
+    });
+  }
+
+  next();
 };
 
-// Student access middleware
-const student = (req, res, next) => {
-  if (req.user && req.user.role === 'student') {
+// Verified email middleware
+const verifiedEmail = (req, res, next) => {
+  if (req.user && req.user.emailVerified) {
     next();
   } else {
     return res.status(403).json({
       success: false,
-      message: 'Access denied. Student privileges required.'
+      code: 'EMAIL_NOT_VERIFIED',
+      message: 'Please verify your email address first.'
     });
   }
 };
 
-module.exports = { protect, admin, student };
+module.exports = { protect, requirePermission, verifiedEmail };
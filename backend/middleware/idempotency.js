@@ -0,0 +1,83 @@
+const IdempotencyKey = require('../models/IdempotencyKey');
+
+// How long a response is kept for replays
+const KEY_TTL_HOURS = 24;
+
+const KEY_PATTERN = /^[A-Za-z0-9-]{16,100}$/;
+
+// Idempotency middleware - a request repeated with the same Idempotency-Key header gets the first
+// response back instead of running again. Requests without the header run as usual. Must come after
+// protect, as keys belong to the user who sent them.
+const idempotent = async (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  if (!KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Idempotency-Key must be 16 to 100 letters, digits or dashes'
+    });
+  }
+
+  const filter = { user: req.user._id, key };
+
+  try {
+    const existing = await IdempotencyKey.findOne(filter);
+    if (existing) {
+      if (existing.method !== req.method || existing.path !== req.originalUrl) {
+        return res.status(422).json({
+          success: false,
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message: 'This Idempotency-Key was already used for a different request'
+        });
+      }
+
+      if (!existing.isComplete) {
+        return res.status(409).json({
+          success: false,
+          code: 'REQUEST_IN_PROGRESS',
+          message: 'This request is still being processed. Please try again shortly.'
+        });
+      }
+
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.statusCode).json(existing.body);
+    }
+
+    await IdempotencyKey.create({
+      ...filter,
+      method: req.method,
+      path: req.originalUrl,
+      expiresAt: new Date(Date.now() + KEY_TTL_HOURS * 60 * 60 * 1000)
+    });
+  } catch (error) {
+    // Another request with the same key got there first
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        code: 'REQUEST_IN_PROGRESS',
+        message: 'This request is still being processed. Please try again shortly.'
+      });
+    }
+
+    console.error('Idempotency key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+
+  // Keep the response once it is sent; server errors aren't kept so the request can be retried
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    const saved = res.statusCode >= 500
+      ? IdempotencyKey.deleteOne(filter)
+      : IdempotencyKey.updateOne(filter, { statusCode: res.statusCode, body: JSON.parse(JSON.stringify(body)) });
+    saved.catch(error => console.error('Idempotency key error:', error));
+    return json(body);
+  };
+
+  next();
+};
+
+module.exports = { idempotent };
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+const anonymityConfig = require('../config/anonymity');
+const { generateSigningKey } = require('../utils/blindSignature');
+
+// The key that signs unlinkable feedback tokens for one course in one term. Every student gets
+// the same key, so a token can only be used for the course and term it was issued for.
+const anonymousSigningKeySchema = new mongoose.Schema({
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  term: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Term',
+    required: true
+  },
+  modulus: {
+    type: String,
+    required: true
+  },
+  exponent: {
+    type: String,
+    required: true
+  },
+  privateKey: {
+    type: String,
+    required: true,
+    select: false
+  }
+}, {
+  timestamps: true
+});
+
+anonymousSigningKeySchema.index({ course: 1, term: 1 }, { unique: true });
+
+// Method to get the public half of the key as sent to browsers
+anonymousSigningKeySchema.methods.toPublicJSON = function() {
+  return {
+    id: this._id,
+    modulus: this.modulus,
+    exponent: this.exponent
+  };
+};
+
+// Static method to get the key for a course and term, generating it on first use
+anonymousSigningKeySchema.statics.findOrCreate = async function(courseId, termId) {
+  const existingKey = await this.findOne({ course: courseId, term: termId }).select('+privateKey');
+  if (existingKey) return existingKey;
+
+  const generated = await generateSigningKey(anonymityConfig.keyBits);
+  try {
+    return await this.create({ course: courseId, term: termId, ...generated });
+  } catch (error) {
+    // Another request generated it first; everyone must use the same key
+    if (error.code === 11000) {
+      return this.findOne({ course: courseId, term: termId }).select('+privateKey');
+    }
+    throw error;
+  }
+};
+
+module.exports = mongoose.model('AnonymousSigningKey', anonymousSigningKeySchema);
@@ -0,0 +1,31 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+// Records that a student was given their unlinkable feedback token for a course in a term, so they
+// get only one. It says nothing about the feedback submitted with it, and no time is kept so it
+// can't be matched against when feedback arrived (the ID is random, as ObjectIds contain a timestamp).
+const anonymousTokenIssueSchema = new mongoose.Schema({
+  _id: {
+    type: String,
+    default: () => crypto.randomBytes(12).toString('hex')
+  },
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  term: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Term',
+    required: true
+  }
+});
+
+anonymousTokenIssueSchema.index({ student: 1, course: 1, term: 1 }, { unique: true });
+
+module.exports = mongoose.model('AnonymousTokenIssue', anonymousTokenIssueSchema);
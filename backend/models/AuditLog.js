@@ -0,0 +1,169 @@
+const mongoose = require('mongoose');
+
+// Privileged actions that are written to the audit log
+const AUDIT_ACTIONS = [
+  'student.block',
+  'student.unblock',
+  'student.unlock',
+  'student.delete',
+  'student.impersonate',
+  'impersonation.request',
+  'user.role',
+  'course.create',
+  'course.update',
+  'course.activate',
+  'course.deactivate',
+  'course.delete',
+  'feedback.export',
+  'feedback.approve',
+  'feedback.reject',
+  'feedback.respond',
+  'invitation.create',
+  'invitation.revoke',
+  'survey.create',
+  'survey.update',
+  'survey.delete',
+  'term.create',
+  'term.update',
+  'term.delete',
+  'wordlist.add',
+  'wordlist.remove'
+];
+
+const AUDIT_TARGET_TYPES = ['user', 'course', 'feedback', 'invitation', 'survey', 'term', 'wordlist'];
+
+const auditLogSchema = new mongoose.Schema({
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Copied so the entry still reads correctly after the actor's account is gone
+  actorEmail: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  action: {
+    type: String,
+    enum: AUDIT_ACTIONS,
+    required: true
+  },
+  targetType: {
+    type: String,
+    enum: AUDIT_TARGET_TYPES,
+    required: true
+  },
+  targetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null // Exports act on a filtered set rather than one document
+  },
+  // Human-readable name of the target at the time, e.g. an email or course code
+  targetLabel: {
+    type: String
+  },
+  // Field values before and after the change; updates keep only the fields that changed
+  before: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  after: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  // Extra context such as the filters used for an export
+  metadata: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for the filters on the audit page
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+// Entries are append-only: refuse to change or remove them through the model
+const rejectChange = function(next) {
+  next(new Error('Audit log entries cannot be modified or deleted'));
+};
+
+auditLogSchema.pre('save', function(next) {
+  if (!this.isNew) return rejectChange(next);
+  next();
+});
+auditLogSchema.pre(['updateOne', 'deleteOne'], { document: true, query: true }, rejectChange);
+auditLogSchema.pre(
+  ['updateMany', 'replaceOne', 'findOneAndUpdate', 'findOneAndReplace', 'findOneAndDelete', 'deleteMany'],
+  rejectChange
+);
+
+// Serialize a value so snapshots can be compared and stored as plain JSON
+const normalize = (value) => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (value._id instanceof mongoose.Types.ObjectId) return value._id.toString(); // Populated ref
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+// Static method to copy the given fields of a document for before/after comparison
+auditLogSchema.statics.snapshot = function(doc, fields) {
+  return fields.reduce((snapshot, field) => {
+    snapshot[field] = normalize(doc.get(field));
+    return snapshot;
+  }, {});
+};
+
+// Static method to record a privileged action from a request. The actor is the signed-in user
+// unless given, e.g. for changes made while signing in.
+auditLogSchema.statics.record = function(req, { actor, action, targetType, target, targetLabel, before, after, metadata }) {
+  const userAgent = req.get('user-agent');
+  let changedBefore = before || null;
+  let changedAfter = after || null;
+
+  // For updates keep only the fields whose value actually changed
+  if (before && after) {
+    const changedFields = Object.keys({ ...before, ...after })
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+    const pick = (snapshot) => changedFields.reduce((picked, field) => {
+      picked[field] = snapshot[field] === undefined ? null : snapshot[field];
+      return picked;
+    }, {});
+
+    changedBefore = pick(before);
+    changedAfter = pick(after);
+  }
+
+  // While impersonating, the admin behind the request is the actor
+  const actingUser = actor || req.impersonator || req.user;
+
+  return this.create({
+    actor: actingUser._id,
+    actorEmail: actingUser.email,
+    action,
+    targetType,
+    targetId: target ? target._id : null,
+    targetLabel,
+    before: changedBefore,
+    after: changedAfter,
+    metadata,
+    ipAddress: req.ip,
+    userAgent: userAgent ? userAgent.substring(0, 500) : undefined
+  });
+};
+
+// Ensure virtual fields are serialized
+auditLogSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('AuditLog', auditLogSchema);
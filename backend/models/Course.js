@@ -23,9 +23,9 @@ const courseSchema = new mongoose.Schema({
     trim: true
   },
   instructor: {
-    type: String,
-    trim: true,
-    maxlength: [100, 'Instructor name cannot exceed 100 characters']
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
   },
   department: {
     type: String,
@@ -41,6 +41,12 @@ const courseSchema = new mongoose.Schema({
       message: 'Credits must be a whole number'
     }
   },
+  // Extra questions students answer alongside the overall rating and comments
+  surveyTemplate: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SurveyTemplate',
+    default: null
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -59,6 +65,8 @@ courseSchema.index({ name: 1 });
 courseSchema.index({ code: 1 });
 courseSchema.index({ department: 1 });
 courseSchema.index({ isActive: 1 });
+courseSchema.index({ instructor: 1 });
+courseSchema.index({ surveyTemplate: 1 });
 
 // Virtual for feedback count
 courseSchema.virtual('feedbackCount', {
@@ -74,42 +82,16 @@ courseSchema.virtual('averageRating').get(function() {
   return this._averageRating || 0;
 });
 
-// Method to get course statistics
-courseSchema.methods.getStatistics = async function() {
-  const Feedback = mongoose.model('Feedback');
-  
-  const stats = await Feedback.aggregate([
-    { $match: { course: this._id } },
-    {
-      $group: {
-        _id: null,
-        averageRating: { $avg: '$rating' },
-        totalFeedback: { $sum: 1 },
-        ratingDistribution: {
-          $push: '$rating'
-        }
-      }
-    }
-  ]);
-
-  if (stats.length === 0) {
-    return {
-      averageRating: 0,
-      totalFeedback: 0,
-      ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
-    };
-  }
-
-  const ratingDist = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
-  stats[0].ratingDistribution.forEach(rating => {
-    ratingDist[rating] = (ratingDist[rating] || 0) + 1;
-  });
+// Method to check whether a user is the course's instructor
+courseSchema.methods.isTaughtBy = function(user) {
+  if (!this.instructor || !user) return false;
+  const instructorId = this.instructor._id || this.instructor;
+  return instructorId.equals(user._id);
+};
 
-  return {
-    averageRating: Math.round(stats[0].averageRating * 100) / 100,
-    totalFeedback: stats[0].totalFeedback,
-    ratingDistribution: ratingDist
-  };
+// Method to get course statistics, counted the same way as every other statistics view
+courseSchema.methods.getStatistics = function() {
+  return mongoose.model('Feedback').getRatingStatistics(this._id);
 };
 
 // Ensure virtual fields are serialized
@@ -1,16 +1,52 @@
+const crypto = require('crypto');
 const mongoose = require('mongoose');
+const moderationConfig = require('../config/moderation');
+
+// A reply from an admin or the course's instructor. Public replies are shown to the student;
+// private ones are notes seen only by staff.
+const responseSchema = new mongoose.Schema({
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  authorRole: {
+    type: String,
+    enum: ['admin', 'instructor'],
+    required: true
+  },
+  message: {
+    type: String,
+    required: [true, 'Reply message is required'],
+    trim: true,
+    maxlength: [1000, 'Reply cannot exceed 1000 characters']
+  },
+  visibility: {
+    type: String,
+    enum: ['public', 'private'],
+    default: 'public'
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
 
 const feedbackSchema = new mongoose.Schema({
   student: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
-    required: [true, 'Student reference is required']
+    default: null // Cleared when the student deletes their account
   },
   course: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Course',
     required: [true, 'Course reference is required']
   },
+  // Academic term the feedback was given in (null for feedback from before terms existed)
+  term: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Term',
+    default: null
+  },
   rating: {
     type: Number,
     required: [true, 'Rating is required'],
@@ -28,6 +64,23 @@ const feedbackSchema = new mongoose.Schema({
     minlength: [10, 'Feedback message must be at least 10 characters'],
     maxlength: [1000, 'Feedback message cannot exceed 1000 characters']
   },
+  // Survey the extra answers belong to (the course's template when the feedback was submitted)
+  template: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SurveyTemplate',
+    default: null
+  },
+  answers: [{
+    _id: false,
+    question: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true
+    },
+    value: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true
+    }
+  }],
   isAnonymous: {
     type: Boolean,
     default: false
@@ -41,21 +94,84 @@ const feedbackSchema = new mongoose.Schema({
   status: {
     type: String,
     enum: ['pending', 'approved', 'rejected'],
-    default: 'approved' // Auto-approve for now, can be changed to 'pending' if moderation is needed
+    // Feedback waits for a moderator when moderation is turned on
+    default: () => (moderationConfig.enabled ? 'pending' : 'approved')
   },
+  // Shown to the student as the reason when their feedback is rejected
   moderatorNotes: {
     type: String,
     maxlength: [500, 'Moderator notes cannot exceed 500 characters']
+  },
+  moderatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  moderatedAt: {
+    type: Date,
+    default: null
+  },
+  // What automatic screening found in the text (e.g. profanity, phone), and its score
+  screeningScore: {
+    type: Number,
+    default: 0
+  },
+  screeningFlags: [{
+    type: String
+  }],
+  // Edit history: the current version number, and the rating and answers as first submitted
+  // so statistics can ignore later edits (full versions are kept as FeedbackRevision)
+  version: {
+    type: Number,
+    default: 1
+  },
+  originalRating: {
+    type: Number
+  },
+  originalAnswers: {
+    type: [{
+      _id: false,
+      question: mongoose.Schema.Types.ObjectId,
+      value: mongoose.Schema.Types.Mixed
+    }],
+    default: undefined
+  },
+  responses: [responseSchema],
+  // When the student last read the replies, to tell which are new
+  responsesReadAt: {
+    type: Date,
+    default: null
+  },
+  // Submitted with a blind-signed token instead of an account: there is no student, and the author
+  // edits through a secret receipt kept on their device (only its hash is stored)
+  unlinkable: {
+    type: Boolean,
+    default: false
+  },
+  receiptHash: {
+    type: String,
+    select: false
+  },
+  // Set when the author's account was deleted and the feedback detached from it
+  anonymizedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true
 });
 
-// Compound index to prevent duplicate feedback from same student for same course
-feedbackSchema.index({ student: 1, course: 1 }, { unique: true });
+// Compound index to prevent duplicate feedback from same student for same course in a term
+// (anonymized feedback has no student, so several can exist for one course)
+feedbackSchema.index(
+  { student: 1, course: 1, term: 1 },
+  { unique: true, partialFilterExpression: { student: { $type: 'objectId' } } }
+);
 
 // Index for efficient querying
 feedbackSchema.index({ course: 1, rating: 1 });
+feedbackSchema.index({ course: 1, template: 1 });
+feedbackSchema.index({ term: 1, course: 1 });
 feedbackSchema.index({ student: 1, createdAt: -1 });
 feedbackSchema.index({ status: 1 });
 feedbackSchema.index({ createdAt: -1 });
@@ -81,17 +197,208 @@ feedbackSchema.pre('save', function(next) {
   next();
 });
 
-// Static method to get feedback statistics for a course
-feedbackSchema.statics.getCourseStatistics = async function(courseId) {
+// Pre-save middleware to remember what was first submitted
+feedbackSchema.pre('save', function(next) {
+  if (this.isNew) {
+    this.keepOriginal();
+  }
+  next();
+});
+
+// Method to keep the rating and answers as first submitted, unless they are already kept
+feedbackSchema.methods.keepOriginal = function() {
+  if (this.originalRating !== undefined && this.originalRating !== null) return;
+  this.originalRating = this.rating;
+  this.originalAnswers = this.answers.map(answer => ({ question: answer.question, value: answer.value }));
+};
+
+// Method to start a new version before a student's edit is applied
+feedbackSchema.methods.startRevision = function() {
+  this.keepOriginal();
+  this.version = (this.version || 1) + 1;
+};
+
+const hashReceipt = (receipt) => crypto.createHash('sha256').update(receipt).digest('hex');
+
+// Method to issue the receipt the author of unlinkable feedback edits it with; only its hash is kept
+feedbackSchema.methods.createReceipt = function() {
+  const receipt = crypto.randomBytes(32).toString('hex');
+  this.receiptHash = hashReceipt(receipt);
+  return receipt;
+};
+
+// Method to check a receipt against unlinkable feedback (needs receiptHash selected)
+feedbackSchema.methods.matchesReceipt = function(receipt) {
+  if (!this.unlinkable || !this.receiptHash || typeof receipt !== 'string') return false;
+
+  return crypto.timingSafeEqual(Buffer.from(this.receiptHash, 'hex'), Buffer.from(hashReceipt(receipt), 'hex'));
+};
+
+// Method to add a reply to the feedback's thread
+feedbackSchema.methods.addResponse = function(author, authorRole, { message, visibility }) {
+  this.responses.push({ author: author._id, authorRole, message, visibility });
+  return this.responses[this.responses.length - 1];
+};
+
+// Method to mark the replies as read by the student
+feedbackSchema.methods.markResponsesRead = function() {
+  this.responsesReadAt = new Date();
+};
+
+// Method to get the feedback as staff may see it: the author of anonymous feedback is never included
+feedbackSchema.methods.toStaffJSON = function() {
+  const feedback = this.toJSON();
+  delete feedback.receiptHash;
+  if (this.isAnonymous) {
+    feedback.student = null;
+  }
+  return feedback;
+};
+
+// Method to get the feedback as its student sees it: only public replies, with a count of unread ones
+feedbackSchema.methods.toStudentJSON = function() {
+  const feedback = this.toJSON();
+  const readAt = this.responsesReadAt;
+  delete feedback.receiptHash;
+
+  feedback.responses = feedback.responses.filter(response => response.visibility === 'public');
+  feedback.unreadResponses = feedback.responses
+    .filter(response => !readAt || response.createdAt > readAt).length;
+  return feedback;
+};
+
+// Method to record a moderator's decision
+feedbackSchema.methods.moderate = function(status, notes, moderator) {
+  this.status = status;
+  this.moderatorNotes = notes || undefined;
+  this.moderatedBy = moderator._id;
+  this.moderatedAt = new Date();
+};
+
+// Method to send edited feedback back for review: always when moderation is on, otherwise only if it was rejected
+feedbackSchema.methods.resubmit = function() {
+  if (!moderationConfig.enabled && this.status !== 'rejected') return;
+  this.status = 'pending';
+  this.moderatedBy = null;
+  this.moderatedAt = null;
+};
+
+// Method to record the result of automatic screening, holding flagged feedback for a moderator
+feedbackSchema.methods.applyScreening = function(result) {
+  this.screeningScore = result.score;
+  this.screeningFlags = result.flags;
+
+  if (result.flagged) {
+    this.status = 'pending';
+    this.moderatorNotes = result.notes;
+    this.moderatedBy = null;
+    this.moderatedAt = null;
+  }
+};
+
+// Static method to detach a student's feedback from their account, keeping it for course statistics
+feedbackSchema.statics.anonymizeStudent = async function(studentId) {
+  const result = await this.updateMany(
+    { student: studentId },
+    { $set: { student: null, isAnonymous: true, anonymizedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+// Summarize one question's answers according to its type
+const summarizeQuestion = (question, values) => {
+  const summary = {
+    question: question._id,
+    text: question.text,
+    type: question.type,
+    responses: values.length
+  };
+  const average = values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+    : 0;
+
+  switch (question.type) {
+    case 'likert':
+      summary.average = average;
+      summary.distribution = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+      values.forEach(value => { summary.distribution[value] = (summary.distribution[value] || 0) + 1; });
+      break;
+    case 'numeric':
+      summary.average = average;
+      summary.min = values.length > 0 ? Math.min(...values) : null;
+      summary.max = values.length > 0 ? Math.max(...values) : null;
+      break;
+    case 'multiple-choice':
+      summary.options = question.options.map(option => ({
+        option,
+        count: values.filter(value => value === option).length
+      }));
+      break;
+    case 'yes-no':
+      summary.yes = values.filter(value => value === true).length;
+      summary.no = values.filter(value => value === false).length;
+      break;
+    default:
+      break; // Free text is only counted; the answers themselves are read with the feedback
+  }
+
+  return summary;
+};
+
+// Statistics can count each feedback entry as it is now ('current') or as first submitted ('original').
+// Feedback that was never edited since versions were kept has no original values and counts as it is.
+
+const ratingField = (basis) => (basis === 'original' ? { $ifNull: ['$originalRating', '$rating'] } : '$rating');
+const answersField = (basis) => (basis === 'original' ? { $ifNull: ['$originalAnswers', '$answers'] } : '$answers');
+
+// Static method to get per-question aggregates of a survey template's answers for a course
+feedbackSchema.statics.getQuestionStatistics = async function(courseId, template, { basis = 'current' } = {}) {
+  const answers = await this.aggregate([
+    {
+      $match: {
+        course: new mongoose.Types.ObjectId(courseId),
+        status: 'approved',
+        template: template._id
+      }
+    },
+    { $project: { answers: answersField(basis) } },
+    { $unwind: '$answers' },
+    { $group: { _id: '$answers.question', values: { $push: '$answers.value' } } }
+  ]);
+
+  const valuesByQuestion = new Map(answers.map(entry => [entry._id.toString(), entry.values]));
+
+  return template.questions.map(question =>
+    summarizeQuestion(question, valuesByQuestion.get(question._id.toString()) || []));
+};
+
+// Static method to get feedback statistics for a course, with per-question aggregates
+// when the course uses a survey template
+feedbackSchema.statics.getCourseStatistics = async function(courseId, { surveyTemplate, basis = 'current' } = {}) {
+  const stats = await this.getRatingStatistics(courseId, { basis });
+
+  if (surveyTemplate) {
+    const template = await mongoose.model('SurveyTemplate').findById(surveyTemplate);
+    if (template) {
+      stats.template = { _id: template._id, name: template.name };
+      stats.questions = await this.getQuestionStatistics(courseId, template, { basis });
+    }
+  }
+
+  return stats;
+};
+
+// Static method to get the overall rating statistics for a course
+feedbackSchema.statics.getRatingStatistics = async function(courseId, { basis = 'current' } = {}) {
   const stats = await this.aggregate([
-    { $match: { course: mongoose.Types.ObjectId(courseId), status: 'approved' } },
+    { $match: { course: new mongoose.Types.ObjectId(courseId), status: 'approved' } },
     {
       $group: {
         _id: null,
         totalFeedback: { $sum: 1 },
-        averageRating: { $avg: '$rating' },
+        averageRating: { $avg: ratingField(basis) },
         ratingDistribution: {
-          $push: '$rating'
+          $push: ratingField(basis)
         }
       }
     }
@@ -99,6 +406,7 @@ feedbackSchema.statics.getCourseStatistics = async function(courseId) {
 
   if (stats.length === 0) {
     return {
+      basis,
       totalFeedback: 0,
       averageRating: 0,
       ratingDistribution: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 }
@@ -111,12 +419,23 @@ feedbackSchema.statics.getCourseStatistics = async function(courseId) {
   });
 
   return {
+    basis,
     totalFeedback: stats[0].totalFeedback,
     averageRating: Math.round(stats[0].averageRating * 100) / 100,
     ratingDistribution: ratingDist
   };
 };
 
+// Static method to count the approved feedback on each of some courses, as a map keyed by course ID
+feedbackSchema.statics.countApprovedByCourse = async function(courseIds) {
+  const counts = await this.aggregate([
+    { $match: { course: { $in: courseIds.map(id => new mongoose.Types.ObjectId(id)) }, status: 'approved' } },
+    { $group: { _id: '$course', count: { $sum: 1 } } }
+  ]);
+
+  return new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+};
+
 // Static method to get overall statistics
 feedbackSchema.statics.getOverallStatistics = async function() {
   const stats = await this.aggregate([
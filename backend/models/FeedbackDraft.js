@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+// Feedback a student has started but not submitted, saved as they type so it survives an expired
+// session. There is one draft per student and course, and it is purged when the term's feedback
+// window closes. Fields are kept as typed and only checked properly when the feedback is submitted.
+const feedbackDraftSchema = new mongoose.Schema({
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Student reference is required']
+  },
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: [true, 'Course reference is required']
+  },
+  term: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Term',
+    required: [true, 'Term reference is required']
+  },
+  rating: {
+    type: Number,
+    min: [1, 'Rating must be at least 1'],
+    max: [5, 'Rating cannot exceed 5'],
+    default: null
+  },
+  message: {
+    type: String,
+    maxlength: [1000, 'Feedback message cannot exceed 1000 characters'],
+    default: ''
+  },
+  answers: [{
+    _id: false,
+    question: mongoose.Schema.Types.ObjectId,
+    value: mongoose.Schema.Types.Mixed
+  }],
+  isAnonymous: {
+    type: Boolean,
+    default: false
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tag cannot exceed 50 characters']
+  }],
+  // When the term's feedback window closes
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+feedbackDraftSchema.index({ student: 1, course: 1 }, { unique: true });
+
+// Let MongoDB remove drafts once their feedback window has closed
+feedbackDraftSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static method to save a student's draft for a course in the open term, replacing any earlier one
+feedbackDraftSchema.statics.saveFor = function(studentId, course, term, fields) {
+  return this.findOneAndUpdate(
+    { student: studentId, course: course._id },
+    {
+      ...fields,
+      term: term._id,
+      expiresAt: term.feedbackClosesAt
+    },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Static method to move a term's drafts to its new closing date
+feedbackDraftSchema.statics.rescheduleForTerm = function(term) {
+  return this.updateMany({ term: term._id }, { expiresAt: term.feedbackClosesAt });
+};
+
+// Ensure virtual fields are serialized
+feedbackDraftSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('FeedbackDraft', feedbackDraftSchema);
@@ -0,0 +1,91 @@
+const mongoose = require('mongoose');
+
+// One version of a feedback entry as its student wrote it. Version 1 is what was first submitted
+// and every edit adds the next version, so moderators can see how feedback changed over time.
+const feedbackRevisionSchema = new mongoose.Schema({
+  feedback: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Feedback',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  rating: {
+    type: Number,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  answers: [{
+    _id: false,
+    question: mongoose.Schema.Types.ObjectId,
+    value: mongoose.Schema.Types.Mixed
+  }],
+  isAnonymous: {
+    type: Boolean,
+    default: false
+  },
+  tags: [{
+    type: String
+  }],
+  // When this version was written
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+feedbackRevisionSchema.index({ feedback: 1, version: 1 }, { unique: true });
+
+// Revisions are immutable. They are only removed together with their feedback.
+const rejectChange = function(next) {
+  next(new Error('Feedback revisions cannot be modified'));
+};
+
+feedbackRevisionSchema.pre('save', function(next) {
+  if (!this.isNew) return rejectChange(next);
+  next();
+});
+feedbackRevisionSchema.pre('updateOne', { document: true, query: true }, rejectChange);
+feedbackRevisionSchema.pre(
+  ['updateMany', 'replaceOne', 'findOneAndUpdate', 'findOneAndReplace'],
+  rejectChange
+);
+
+// Static method to store the current state of a feedback entry as its current version
+feedbackRevisionSchema.statics.record = function(feedback, { createdAt } = {}) {
+  return this.create({
+    feedback: feedback._id,
+    version: feedback.version,
+    rating: feedback.rating,
+    message: feedback.message,
+    answers: feedback.answers.map(answer => ({ question: answer.question, value: answer.value })),
+    isAnonymous: feedback.isAnonymous,
+    tags: [...feedback.tags],
+    createdAt: createdAt || new Date()
+  });
+};
+
+// Static method to store the first version of feedback submitted before revisions were kept.
+// Its last saved state is the earliest one known.
+feedbackRevisionSchema.statics.recordOriginal = async function(feedback) {
+  const exists = await this.exists({ feedback: feedback._id });
+  if (exists) return null;
+
+  return this.record(feedback, { createdAt: feedback.updatedAt });
+};
+
+// Static method to remove the history of deleted feedback
+feedbackRevisionSchema.statics.removeForFeedback = function(feedbackId) {
+  return this.deleteMany({ feedback: feedbackId });
+};
+
+// Ensure virtual fields are serialized
+feedbackRevisionSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('FeedbackRevision', feedbackRevisionSchema);
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A request a client sent with an Idempotency-Key header, and the response it got. A client that
+// retries after losing the response (e.g. an offline submission being replayed) gets the same
+// response back instead of the request running twice.
+const idempotencyKeySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User reference is required']
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  // Unset while the first request is still running
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  body: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+idempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+
+// Let MongoDB remove keys once they can no longer be replayed
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Virtual for whether the first request has finished
+idempotencyKeySchema.virtual('isComplete').get(function() {
+  return this.statusCode !== null;
+});
+
+// Ensure virtual fields are serialized
+idempotencyKeySchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('IdempotencyKey', idempotencyKeySchema);
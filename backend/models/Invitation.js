@@ -0,0 +1,121 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const authConfig = require('../config/auth');
+const permissionConfig = require('../config/permissions');
+
+const invitationSchema = new mongoose.Schema({
+  // Optional: when set, only this address can accept the invitation
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+    default: null
+  },
+  role: {
+    type: String,
+    enum: permissionConfig.roleNames,
+    required: [true, 'Role is required']
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Inviting admin is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  acceptedAt: {
+    type: Date,
+    default: null
+  },
+  acceptedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Index for listing invitations newest first
+invitationSchema.index({ createdAt: -1 });
+
+// Virtual for the invitation state shown to admins
+invitationSchema.virtual('status').get(function() {
+  if (this.revokedAt) return 'revoked';
+  if (this.acceptedAt) return 'accepted';
+  if (this.expiresAt <= new Date()) return 'expired';
+  return 'pending';
+});
+
+// Static method to hash an invitation token for storage
+invitationSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Static method to create an invitation and return its token (only the hash is stored).
+// Tokens are "<invitationId>.<secret>" so the invitation can be found without a hash lookup.
+invitationSchema.statics.issue = async function({ email, role, invitedBy, expiresInDays }) {
+  const invitation = new this({
+    email: email || null,
+    role,
+    invitedBy,
+    expiresAt: new Date(
+      Date.now() + (expiresInDays || authConfig.invitationExpireDays) * 24 * 60 * 60 * 1000
+    )
+  });
+
+  const token = `${invitation._id}.${crypto.randomBytes(32).toString('hex')}`;
+  invitation.tokenHash = this.hashToken(token);
+  await invitation.save();
+
+  return { invitation, token };
+};
+
+// Static method to find the pending invitation matching a token
+invitationSchema.statics.findPendingByToken = async function(token) {
+  if (typeof token !== 'string') return null;
+
+  const [invitationId] = token.split('.');
+  if (!mongoose.Types.ObjectId.isValid(invitationId)) return null;
+
+  const invitation = await this.findById(invitationId).select('+tokenHash');
+  if (!invitation || invitation.status !== 'pending') return null;
+
+  const tokenHash = Buffer.from(this.hashToken(token));
+  const storedHash = Buffer.from(invitation.tokenHash);
+  if (!crypto.timingSafeEqual(tokenHash, storedHash)) return null;
+
+  return invitation;
+};
+
+// Method to claim the invitation atomically so it can only be used once
+invitationSchema.methods.claim = async function() {
+  const claimed = await this.constructor.findOneAndUpdate(
+    { _id: this._id, acceptedAt: null, revokedAt: null, expiresAt: { $gt: new Date() } },
+    { acceptedAt: new Date() },
+    { new: true }
+  );
+
+  return !!claimed;
+};
+
+// Method to give the invitation back when registration fails after claiming it
+invitationSchema.methods.release = async function() {
+  await this.constructor.updateOne({ _id: this._id }, { acceptedAt: null, acceptedBy: null });
+};
+
+// Ensure virtual fields are serialized
+invitationSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Invitation', invitationSchema);
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+const { describeUserAgent } = require('../utils/userAgent');
+
+const loginEventSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null // Attempts against unknown emails have no user
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  success: {
+    type: Boolean,
+    required: true
+  },
+  failureReason: {
+    type: String,
+    enum: ['unknown-user', 'invalid-password', 'invalid-two-factor', 'blocked', 'locked']
+  },
+  method: {
+    type: String,
+    enum: ['password', 'oidc'],
+    default: 'password'
+  },
+  session: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session'
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Index for a user's login history
+loginEventSchema.index({ user: 1, createdAt: -1 });
+
+// Keep login history for 90 days
+loginEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// Virtual for a readable device label
+loginEventSchema.virtual('device').get(function() {
+  return describeUserAgent(this.userAgent);
+});
+
+// Static method to record a login attempt from a request
+loginEventSchema.statics.record = function(req, { user, email, success, failureReason, method, session }) {
+  const userAgent = req.get('user-agent');
+
+  return this.create({
+    user: user ? user._id : null,
+    email,
+    success,
+    failureReason,
+    method,
+    session: session ? session._id : undefined,
+    ipAddress: req.ip,
+    userAgent: userAgent ? userAgent.substring(0, 500) : undefined
+  });
+};
+
+// Ensure virtual fields are serialized
+loginEventSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('LoginEvent', loginEventSchema);
@@ -0,0 +1,56 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const oidcConfig = require('../config/oidc');
+
+// A single-use record of an SSO login in progress, found again by its state parameter
+const oidcLoginStateSchema = new mongoose.Schema({
+  stateHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  codeVerifier: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Let MongoDB remove logins that were never finished
+oidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static method to hash a state value for storage
+oidcLoginStateSchema.statics.hashState = function(state) {
+  return crypto.createHash('sha256').update(state).digest('hex');
+};
+
+// Static method to remember a new login attempt
+oidcLoginStateSchema.statics.issue = function({ state, nonce, codeVerifier }) {
+  return this.create({
+    stateHash: this.hashState(state),
+    nonce,
+    codeVerifier,
+    expiresAt: new Date(Date.now() + oidcConfig.stateExpireMinutes * 60 * 1000)
+  });
+};
+
+// Static method to look up and delete a login attempt atomically so a state can only be used once
+oidcLoginStateSchema.statics.consume = function(state) {
+  if (typeof state !== 'string') return null;
+
+  return this.findOneAndDelete({
+    stateHash: this.hashState(state),
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+module.exports = mongoose.model('OidcLoginState', oidcLoginStateSchema);
@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// A word or phrase that makes feedback suspicious when it appears in the text
+const screeningWordSchema = new mongoose.Schema({
+  word: {
+    type: String,
+    required: [true, 'Please provide a word or phrase'],
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Word cannot exceed 50 characters'],
+    unique: true
+  },
+  // profanity is swearing; insult is language aimed at a person
+  category: {
+    type: String,
+    enum: ['profanity', 'insult'],
+    default: 'profanity'
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Ensure virtual fields are serialized
+screeningWordSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('ScreeningWord', screeningWordSchema);
@@ -0,0 +1,152 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const authConfig = require('../config/auth');
+const { describeUserAgent } = require('../utils/userAgent');
+
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User reference is required']
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  // Hashes of the latest refresh tokens rotated out, oldest first; presenting one again means the
+  // token was stolen
+  previousTokenHashes: {
+    type: [String],
+    select: false,
+    default: []
+  },
+  rotatedAt: {
+    type: Date,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    maxlength: [500, 'User agent cannot exceed 500 characters']
+  },
+  ipAddress: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout-all', 'token-reuse', 'password-changed', 'revoked-by-user']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for listing a user's sessions
+sessionSchema.index({ user: 1, revokedAt: 1 });
+
+// Let MongoDB remove sessions once they have expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Virtual for whether the session can still be used
+sessionSchema.virtual('isActive').get(function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+});
+
+// Virtual for a readable device label
+sessionSchema.virtual('device').get(function() {
+  return describeUserAgent(this.userAgent);
+});
+
+// Static method to hash a refresh token for storage
+sessionSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Refresh tokens are "<sessionId>.<secret>" so the session can be found without a hash lookup
+const generateRefreshToken = (sessionId) => {
+  return `${sessionId}.${crypto.randomBytes(40).toString('hex')}`;
+};
+
+// Static method to start a new session and return its first refresh token
+sessionSchema.statics.issue = async function(user, { userAgent, ipAddress } = {}) {
+  const session = new this({
+    user: user._id,
+    userAgent: userAgent ? userAgent.substring(0, 500) : undefined,
+    ipAddress,
+    expiresAt: new Date(Date.now() + authConfig.refreshTokenExpireDays * 24 * 60 * 60 * 1000)
+  });
+
+  const refreshToken = generateRefreshToken(session._id);
+  session.refreshTokenHash = this.hashToken(refreshToken);
+  await session.save();
+
+  return { session, refreshToken };
+};
+
+// Static method to split a refresh token into its session id
+sessionSchema.statics.getSessionId = function(refreshToken) {
+  if (typeof refreshToken !== 'string') return null;
+
+  const [sessionId] = refreshToken.split('.');
+  return mongoose.Types.ObjectId.isValid(sessionId) ? sessionId : null;
+};
+
+// Method to swap the current refresh token for a new one
+sessionSchema.methods.rotate = async function() {
+  const refreshToken = generateRefreshToken(this._id);
+
+  this.previousTokenHashes = [...this.previousTokenHashes, this.refreshTokenHash]
+    .slice(-authConfig.refreshTokenHistoryLimit);
+  this.refreshTokenHash = this.constructor.hashToken(refreshToken);
+  this.rotatedAt = new Date();
+  this.lastUsedAt = this.rotatedAt;
+  await this.save();
+
+  return refreshToken;
+};
+
+// Method to check whether a token is the one rotated out moments ago, e.g. by another tab
+// refreshing at the same time
+sessionSchema.methods.isJustRotated = function(tokenHash) {
+  return Boolean(this.rotatedAt)
+    && this.previousTokenHashes[this.previousTokenHashes.length - 1] === tokenHash
+    && Date.now() - this.rotatedAt.getTime() < authConfig.refreshTokenReuseGraceSeconds * 1000;
+};
+
+// Method to revoke the session
+sessionSchema.methods.revoke = async function(reason) {
+  if (this.revokedAt) return;
+
+  this.revokedAt = new Date();
+  this.revokedReason = reason;
+  await this.save();
+};
+
+// Static method to revoke every active session of a user, optionally keeping one
+sessionSchema.statics.revokeAllForUser = async function(userId, reason, { except } = {}) {
+  const query = { user: userId, revokedAt: null };
+  if (except) query._id = { $ne: except };
+
+  const result = await this.updateMany(query, {
+    revokedAt: new Date(),
+    revokedReason: reason
+  });
+
+  return result.modifiedCount;
+};
+
+// Ensure virtual fields are serialized
+sessionSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Session', sessionSchema);
@@ -0,0 +1,22 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+// Unlinkable feedback tokens that have been used, by hash. Kept apart from the feedback so a token
+// stays spent when its feedback is deleted, and with no time so it can't be matched to the signing.
+const spentAnonymousTokenSchema = new mongoose.Schema({
+  _id: {
+    type: String
+  }
+});
+
+// Static method to hash a token for storage
+spentAnonymousTokenSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Static method to mark a token as used; rejects with a duplicate key error if it already was
+spentAnonymousTokenSchema.statics.spend = function(token) {
+  return this.create({ _id: this.hashToken(token) });
+};
+
+module.exports = mongoose.model('SpentAnonymousToken', spentAnonymousTokenSchema);
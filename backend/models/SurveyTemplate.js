@@ -0,0 +1,166 @@
+const mongoose = require('mongoose');
+
+const QUESTION_TYPES = ['likert', 'multiple-choice', 'numeric', 'text', 'yes-no'];
+
+// Likert questions use the same 1-5 scale as the overall rating
+const LIKERT_MIN = 1;
+const LIKERT_MAX = 5;
+const DEFAULT_TEXT_MAX_LENGTH = 1000;
+
+const questionSchema = new mongoose.Schema({
+  text: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true,
+    maxlength: [300, 'Question text cannot exceed 300 characters']
+  },
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    required: [true, 'Question type is required']
+  },
+  required: {
+    type: Boolean,
+    default: true
+  },
+  // Choices for multiple-choice questions
+  options: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Option cannot exceed 100 characters']
+  }],
+  // Allowed range for numeric questions
+  min: {
+    type: Number
+  },
+  max: {
+    type: Number
+  },
+  // Longest answer accepted for text questions
+  maxLength: {
+    type: Number,
+    min: [1, 'Maximum length must be at least 1'],
+    max: [2000, 'Maximum length cannot exceed 2000']
+  }
+});
+
+const surveyTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please provide a template name'],
+    trim: true,
+    maxlength: [100, 'Template name cannot exceed 100 characters'],
+    unique: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  questions: {
+    type: [questionSchema],
+    validate: {
+      validator: questions => questions.length >= 1 && questions.length <= 30,
+      message: 'A template must have between 1 and 30 questions'
+    }
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+const isMissing = value => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Check one answer against its question; returns the normalized value or an error message
+const checkAnswer = (question, value) => {
+  switch (question.type) {
+    case 'likert': {
+      const rating = Number(value);
+      if (!Number.isInteger(rating) || rating < LIKERT_MIN || rating > LIKERT_MAX) {
+        return { error: `Choose a value from ${LIKERT_MIN} to ${LIKERT_MAX}` };
+      }
+      return { value: rating };
+    }
+    case 'numeric': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: 'Enter a number' };
+      }
+      if (number < question.min || number > question.max) {
+        return { error: `Enter a number from ${question.min} to ${question.max}` };
+      }
+      return { value: number };
+    }
+    case 'multiple-choice':
+      if (!question.options.includes(value)) {
+        return { error: 'Choose one of the listed options' };
+      }
+      return { value };
+    case 'yes-no':
+      if (typeof value !== 'boolean') {
+        return { error: 'Answer yes or no' };
+      }
+      return { value };
+    case 'text': {
+      if (typeof value !== 'string') {
+        return { error: 'Enter a text answer' };
+      }
+      const maxLength = question.maxLength || DEFAULT_TEXT_MAX_LENGTH;
+      if (value.trim().length > maxLength) {
+        return { error: `Answer cannot exceed ${maxLength} characters` };
+      }
+      return { value: value.trim() };
+    }
+    default:
+      return { error: 'Unsupported question type' };
+  }
+};
+
+// Method to validate submitted answers ([{ question, value }]) against the template.
+// Returns the cleaned answers in question order and errors shaped like express-validator's.
+surveyTemplateSchema.methods.checkAnswers = function(submitted = []) {
+  const errors = [];
+  const answers = [];
+  const submittedByQuestion = new Map();
+
+  (Array.isArray(submitted) ? submitted : []).forEach((answer) => {
+    if (answer && answer.question) submittedByQuestion.set(String(answer.question), answer.value);
+  });
+
+  const questionIds = new Set(this.questions.map(question => question._id.toString()));
+  submittedByQuestion.forEach((value, questionId) => {
+    if (!questionIds.has(questionId)) {
+      errors.push({ path: `answers.${questionId}`, msg: 'Answer for an unknown question' });
+    }
+  });
+
+  this.questions.forEach((question) => {
+    const questionId = question._id.toString();
+    const value = submittedByQuestion.get(questionId);
+
+    if (isMissing(value)) {
+      if (question.required) {
+        errors.push({ path: `answers.${questionId}`, msg: `${question.text}: an answer is required` });
+      }
+      return;
+    }
+
+    const result = checkAnswer(question, value);
+    if (result.error) {
+      errors.push({ path: `answers.${questionId}`, msg: `${question.text}: ${result.error}` });
+    } else {
+      answers.push({ question: question._id, value: result.value });
+    }
+  });
+
+  return { errors, answers };
+};
+
+// Ensure virtual fields are serialized
+surveyTemplateSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('SurveyTemplate', surveyTemplateSchema);
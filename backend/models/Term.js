@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+const termSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please provide a term name'],
+    trim: true,
+    maxlength: [50, 'Term name cannot exceed 50 characters'],
+    unique: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Please provide the term start date']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'Please provide the term end date']
+  },
+  // Students can submit and edit feedback for the term only between these two dates
+  feedbackOpensAt: {
+    type: Date,
+    required: [true, 'Please provide the date feedback opens']
+  },
+  feedbackClosesAt: {
+    type: Date,
+    required: [true, 'Please provide the date feedback closes']
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient querying
+termSchema.index({ feedbackOpensAt: 1, feedbackClosesAt: 1 });
+termSchema.index({ startDate: -1 });
+
+// Validate date order
+termSchema.pre('validate', function(next) {
+  if (this.startDate && this.endDate && this.endDate <= this.startDate) {
+    this.invalidate('endDate', 'Term end date must be after its start date');
+  }
+  if (this.feedbackOpensAt && this.feedbackClosesAt && this.feedbackClosesAt <= this.feedbackOpensAt) {
+    this.invalidate('feedbackClosesAt', 'Feedback must close after it opens');
+  }
+  next();
+});
+
+// Virtual for whether the feedback window is open right now
+termSchema.virtual('isFeedbackOpen').get(function() {
+  return this.isFeedbackOpenAt(new Date());
+});
+
+// Method to check if the feedback window is open at a given time
+termSchema.methods.isFeedbackOpenAt = function(date) {
+  return this.feedbackOpensAt <= date && date < this.feedbackClosesAt;
+};
+
+// Static method to find the term whose feedback window is open at a given time
+termSchema.statics.findOpen = function(date = new Date()) {
+  return this.findOne({ feedbackOpensAt: { $lte: date }, feedbackClosesAt: { $gt: date } });
+};
+
+// Static method to find the next term whose feedback window hasn't opened yet
+termSchema.statics.findNext = function(date = new Date()) {
+  return this.findOne({ feedbackOpensAt: { $gt: date } }).sort({ feedbackOpensAt: 1 });
+};
+
+// Static method to find terms whose feedback window overlaps the given one
+termSchema.statics.findOverlapping = function(opensAt, closesAt, excludeId = null) {
+  const query = { feedbackOpensAt: { $lt: closesAt }, feedbackClosesAt: { $gt: opensAt } };
+  if (excludeId) query._id = { $ne: excludeId };
+  return this.find(query);
+};
+
+// Ensure virtual fields are serialized
+termSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Term', termSchema);
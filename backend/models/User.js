@@ -1,6 +1,19 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
+const authConfig = require('../config/auth');
+const permissionConfig = require('../config/permissions');
+const passwordConfig = require('../config/password');
+const totp = require('../utils/totp');
+const { checkPassword } = require('../utils/passwordPolicy');
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code) => crypto
+  .createHash('sha256')
+  .update(String(code).replace(/[\s-]/g, '').toLowerCase())
+  .digest('hex');
 
 const userSchema = new mongoose.Schema({
   name: {
@@ -21,20 +34,28 @@ const userSchema = new mongoose.Schema({
   },
   password: {
     type: String,
-    required: [true, 'Please provide a password'],
-    minlength: [8, 'Password must be at least 8 characters'],
+    // Accounts created through single sign-on have no local password
+    required: [function() { return !this.oidcSubject; }, 'Please provide a password'],
     validate: {
       validator: function(password) {
-        // Check for at least one special character, one number
-        return /^(?=.*[!@#$%^&*(),.?":{}|<>])(?=.*\d).{8,}$/.test(password);
+        return checkPassword(password).length === 0;
       },
-      message: 'Password must contain at least 8 characters, 1 special character, and 1 number'
+      message: props => checkPassword(props.value).join('. ')
     },
     select: false
   },
+  // bcrypt hashes of the most recent passwords, newest (the current one) first
+  passwordHistory: {
+    type: [String],
+    select: false
+  },
+  passwordChangedAt: {
+    type: Date,
+    default: null
+  },
   role: {
     type: String,
-    enum: ['student', 'admin'],
+    enum: permissionConfig.roleNames,
     default: 'student'
   },
   phoneNumber: {
@@ -65,6 +86,57 @@ const userSchema = new mongoose.Schema({
   lastLogin: {
     type: Date,
     default: null
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: {
+    type: Date,
+    default: null
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpire: {
+    type: Date,
+    select: false
+  },
+  resetPasswordToken: {
+    type: String,
+    select: false
+  },
+  resetPasswordExpire: {
+    type: Date,
+    select: false
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  twoFactorRecoveryCodes: {
+    type: [String], // sha256 hashes of unused recovery codes
+    select: false
+  },
+  twoFactorLastUsedStep: {
+    type: Number, // time step of the last accepted code, so a code can't be replayed
+    select: false
+  },
+  // Identity at the single sign-on provider ("iss" and "sub" claims) once linked
+  oidcIssuer: {
+    type: String
+  },
+  oidcSubject: {
+    type: String
   }
 }, {
   timestamps: true
@@ -73,6 +145,12 @@ const userSchema = new mongoose.Schema({
 // Index for email lookups
 userSchema.index({ email: 1 });
 
+// One account per single sign-on identity
+userSchema.index(
+  { oidcIssuer: 1, oidcSubject: 1 },
+  { unique: true, partialFilterExpression: { oidcSubject: { $type: 'string' } } }
+);
+
 // Pre-save middleware to hash password
 userSchema.pre('save', async function(next) {
   // Only hash the password if it has been modified (or is new)
@@ -82,6 +160,14 @@ userSchema.pre('save', async function(next) {
     // Hash password with cost of 12
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
+    this.passwordChangedAt = new Date();
+
+    // Only extend the history when it was loaded, so a partial document can't wipe it
+    if (this.isNew || this.isSelected('passwordHistory')) {
+      this.passwordHistory = passwordConfig.historyCount > 0
+        ? [this.password, ...(this.passwordHistory || [])].slice(0, passwordConfig.historyCount)
+        : [];
+    }
     next();
   } catch (error) {
     next(error);
@@ -90,25 +176,185 @@ userSchema.pre('save', async function(next) {
 
 // Method to compare password
 userSchema.methods.matchPassword = async function(enteredPassword) {
+  if (!this.password) return false;
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
-// Method to generate JWT token
-userSchema.methods.getSignedJwtToken = function() {
+// Method to check a new password against the recent ones (needs +password +passwordHistory selected)
+userSchema.methods.isPasswordReused = async function(candidate) {
+  if (passwordConfig.historyCount === 0) return false;
+
+  const recentHashes = [this.password, ...(this.passwordHistory || [])]
+    .filter(Boolean)
+    .slice(0, passwordConfig.historyCount);
+
+  for (const hash of recentHashes) {
+    if (await bcrypt.compare(candidate, hash)) return true;
+  }
+  return false;
+};
+
+// Method to check whether the password is older than the policy allows.
+// Single sign-on accounts that never set a local password don't expire.
+userSchema.methods.isPasswordExpired = function() {
+  if (passwordConfig.maxAgeDays === 0) return false;
+
+  const changedAt = this.passwordChangedAt || (this.oidcSubject ? null : this.createdAt);
+  if (!changedAt) return false;
+
+  return Date.now() - changedAt.getTime() > passwordConfig.maxAgeDays * 24 * 60 * 60 * 1000;
+};
+
+// Method to generate a short-lived access token bound to a session
+userSchema.methods.getSignedJwtToken = function(sessionId) {
+  return jwt.sign(
+    { id: this._id, role: this.role, sid: sessionId },
+    authConfig.jwtSecret,
+    { expiresIn: authConfig.accessTokenExpire }
+  );
+};
+
+// Method to generate a short-lived, read-only token letting an admin view the app as this user.
+// It is tied to the admin's session, so signing the admin out ends the impersonation too.
+userSchema.methods.getImpersonationToken = function(impersonator, sessionId) {
   return jwt.sign(
-    { id: this._id, role: this.role },
-    process.env.JWT_SECRET || 'fallback_secret',
-    { expiresIn: process.env.JWT_EXPIRE || '7d' }
+    { id: this._id, role: this.role, sid: sessionId, impersonatorId: impersonator._id },
+    authConfig.jwtSecret,
+    { expiresIn: `${authConfig.impersonationExpireMinutes}m` }
+  );
+};
+
+// Method to generate a single-use password reset token (only its hash is stored)
+userSchema.methods.getResetPasswordToken = function() {
+  const resetToken = crypto.randomBytes(32).toString('hex');
+
+  this.resetPasswordToken = crypto.createHash('sha256').update(resetToken).digest('hex');
+  this.resetPasswordExpire = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
+
+  return resetToken;
+};
+
+// Method to generate an email verification token (only its hash is stored)
+userSchema.methods.getEmailVerificationToken = function() {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+
+  this.emailVerificationToken = crypto.createHash('sha256').update(verificationToken).digest('hex');
+  this.emailVerificationExpire = new Date(
+    Date.now() + authConfig.emailVerificationExpireHours * 60 * 60 * 1000
+  );
+
+  return verificationToken;
+};
+
+// Method to count a failed login and lock the account once the threshold is reached.
+// Each failure past the threshold doubles the lockout, capped at loginLockoutMaxMinutes.
+userSchema.methods.registerFailedLogin = async function() {
+  const updated = await this.constructor.findByIdAndUpdate(
+    this._id,
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
   );
+
+  this.failedLoginAttempts = updated.failedLoginAttempts;
+
+  const excessFailures = this.failedLoginAttempts - authConfig.loginLockoutThreshold;
+  if (excessFailures >= 0) {
+    const lockMinutes = Math.min(
+      authConfig.loginLockoutBaseMinutes * 2 ** excessFailures,
+      authConfig.loginLockoutMaxMinutes
+    );
+    this.lockUntil = new Date(Date.now() + lockMinutes * 60 * 1000);
+    await this.constructor.updateOne({ _id: this._id }, { lockUntil: this.lockUntil });
+  }
+};
+
+// Method to clear failed login tracking (caller saves)
+userSchema.methods.resetFailedLogins = function() {
+  this.failedLoginAttempts = 0;
+  this.lockUntil = null;
+};
+
+// Method to generate a short-lived token proving the first step (password or single sign-on)
+// of a two-factor login passed
+userSchema.methods.getTwoFactorChallengeToken = function(method = 'password') {
+  return jwt.sign(
+    { id: this._id, purpose: 'two-factor', method },
+    authConfig.jwtSecret,
+    { expiresIn: authConfig.twoFactorChallengeExpire }
+  );
+};
+
+// Method to check a TOTP code (requires twoFactorSecret and twoFactorLastUsedStep to be selected)
+userSchema.methods.verifyTwoFactorCode = function(code) {
+  if (!this.twoFactorSecret) return false;
+
+  const timeStep = totp.verifyCode(this.twoFactorSecret, code);
+  if (timeStep === null || (this.twoFactorLastUsedStep && timeStep <= this.twoFactorLastUsedStep)) {
+    return false;
+  }
+
+  this.twoFactorLastUsedStep = timeStep;
+  return true;
+};
+
+// Method to consume a recovery code (requires twoFactorRecoveryCodes to be selected)
+userSchema.methods.useTwoFactorRecoveryCode = function(code) {
+  const index = (this.twoFactorRecoveryCodes || []).indexOf(hashRecoveryCode(code));
+  if (index === -1) return false;
+
+  this.twoFactorRecoveryCodes.splice(index, 1);
+  return true;
+};
+
+// Method to replace the recovery codes (only their hashes are stored)
+userSchema.methods.generateTwoFactorRecoveryCodes = function() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  this.twoFactorRecoveryCodes = codes.map(hashRecoveryCode);
+  return codes;
+};
+
+// Method to get the permissions granted by the user's role
+userSchema.methods.getPermissions = function() {
+  return permissionConfig.roles[this.role] || [];
+};
+
+// Method to check whether the user's role grants a permission
+userSchema.methods.hasPermission = function(permission) {
+  return this.getPermissions().includes(permission);
+};
+
+// Method to check whether this account has to use two-factor authentication
+userSchema.methods.isTwoFactorRequired = function() {
+  return this.role === 'admin' && authConfig.requireAdminTwoFactor;
 };
 
 // Method to get public profile (without sensitive data)
 userSchema.methods.getPublicProfile = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.passwordHistory;
+  delete userObject.emailVerificationToken;
+  delete userObject.emailVerificationExpire;
+  delete userObject.resetPasswordToken;
+  delete userObject.resetPasswordExpire;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorRecoveryCodes;
+  delete userObject.twoFactorLastUsedStep;
+  userObject.twoFactorRequired = this.isTwoFactorRequired();
+  userObject.passwordExpired = this.isPasswordExpired();
+  userObject.permissions = this.getPermissions();
   return userObject;
 };
 
+// Virtual for whether the account is temporarily locked after failed logins
+userSchema.virtual('isLocked').get(function() {
+  return !!this.lockUntil && this.lockUntil > new Date();
+});
+
 // Virtual for age calculation
 userSchema.virtual('age').get(function() {
   if (this.dateOfBirth) {
@@ -1,19 +1,102 @@
 const express = require('express');
-const { body, query, validationResult } = require('express-validator');
+const { body, query, param, validationResult } = require('express-validator');
 const createCsvWriter = require('csv-writer').createObjectCsvWriter;
 const path = require('path');
 const fs = require('fs');
 const User = require('../models/User');
 const Course = require('../models/Course');
 const Feedback = require('../models/Feedback');
-const { protect, admin } = require('../middleware/auth');
+const FeedbackRevision = require('../models/FeedbackRevision');
+const Invitation = require('../models/Invitation');
+const AuditLog = require('../models/AuditLog');
+const { protect, requirePermission } = require('../middleware/auth');
+const authConfig = require('../config/auth');
+const mailConfig = require('../config/mail');
+const moderationConfig = require('../config/moderation');
+const statisticsConfig = require('../config/statistics');
+const { canSeeExactStatistics, isBelowMinimum } = require('../utils/statisticsPrivacy');
+const permissionConfig = require('../config/permissions');
+const { sendInvitationEmail, sendFeedbackRejectedEmail } = require('../utils/emails');
+const { deleteAccount } = require('../utils/accountDeletion');
+const { withAuthCookies } = require('../utils/authCookies');
 
 const router = express.Router();
 
+// Student fields captured in the audit log
+const STUDENT_AUDIT_FIELDS = ['name', 'email', 'role', 'isBlocked', 'failedLoginAttempts', 'lockUntil'];
+
+// Feedback fields captured in the audit log when it is moderated
+const MODERATION_AUDIT_FIELDS = ['status', 'moderatorNotes'];
+
+// Most feedback entries one bulk moderation request can change
+const BULK_MODERATION_LIMIT = 100;
+
+const FEEDBACK_STATUSES = ['pending', 'approved', 'rejected'];
+
+// Build the query for the admin feedback filters, shared by the list and the export.
+// Filtering by student must not reveal who wrote anonymous feedback.
+const buildFeedbackQuery = ({ course, term, rating, student, status }) => {
+  const query = {};
+
+  if (course) query.course = course;
+  if (term) query.term = term;
+  if (rating) query.rating = parseInt(rating);
+  if (status) query.status = status;
+
+  if (student) {
+    query.student = student;
+    query.isAnonymous = false;
+  }
+
+  return query;
+};
+
+const moderationRules = [
+  body('status')
+    .isIn(['approved', 'rejected'])
+    .withMessage('Status must be approved or rejected'),
+  body('moderatorNotes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Moderator notes cannot exceed 500 characters'),
+  body('moderatorNotes')
+    .if(body('status').equals('rejected'))
+    .notEmpty()
+    .withMessage('Please give the student a reason for rejecting their feedback')
+];
+
+// Record a moderator's decision on one feedback entry and tell the student when it is rejected.
+// The feedback must have its course and student populated.
+const moderateFeedback = async (req, feedback, { status, moderatorNotes }, metadata) => {
+  const before = AuditLog.snapshot(feedback, MODERATION_AUDIT_FIELDS);
+  feedback.moderate(status, moderatorNotes, req.user);
+  await feedback.save();
+
+  await AuditLog.record(req, {
+    action: status === 'approved' ? 'feedback.approve' : 'feedback.reject',
+    targetType: 'feedback',
+    target: feedback,
+    targetLabel: `Feedback on ${feedback.course.code}`,
+    before,
+    after: AuditLog.snapshot(feedback, MODERATION_AUDIT_FIELDS),
+    metadata
+  });
+
+  // The decision stands even if the email can't be sent
+  if (status === 'rejected' && feedback.student) {
+    try {
+      await sendFeedbackRejectedEmail(feedback.student, feedback);
+    } catch (mailError) {
+      console.error('Feedback rejected email error:', mailError);
+    }
+  }
+};
+
 // @desc    Get admin dashboard statistics
 // @route   GET /api/admin/dashboard
-// @access  Private (Admin)
-router.get('/dashboard', [protect, admin], async (req, res) => {
+// @access  Private (dashboard:view)
+router.get('/dashboard', [protect, requirePermission('dashboard:view')], async (req, res) => {
   try {
     // Get user statistics
     const totalStudents = await User.countDocuments({ role: 'student' });
@@ -75,6 +158,11 @@ router.get('/dashboard', [protect, admin], async (req, res) => {
       { $sort: { feedbackCount: -1 } },
       { $limit: 5 }
     ]);
+    const visibleTopCourses = canSeeExactStatistics(req.user)
+      ? topCourses
+      : topCourses.map(course => (isBelowMinimum(course.feedbackCount)
+        ? { ...course, averageRating: null, suppressed: true }
+        : course));
 
     // Get monthly feedback trends (last 6 months)
     const sixMonthsAgo = new Date();
@@ -134,7 +222,7 @@ router.get('/dashboard', [protect, admin], async (req, res) => {
           recentStudents,
           recentFeedback
         },
-        topCourses,
+        topCourses: visibleTopCourses,
         monthlyTrends
       }
     });
@@ -150,10 +238,10 @@ router.get('/dashboard', [protect, admin], async (req, res) => {
 
 // @desc    Get all students with pagination and filters
 // @route   GET /api/admin/students
-// @access  Private (Admin)
+// @access  Private (students:read)
 router.get('/students', [
   protect,
-  admin,
+  requirePermission('students:read'),
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -169,8 +257,8 @@ router.get('/students', [
     .withMessage('Search term must not be empty'),
   query('status')
     .optional()
-    .isIn(['active', 'blocked', 'all'])
-    .withMessage('Status must be active, blocked, or all'),
+    .isIn(['active', 'blocked', 'locked', 'all'])
+    .withMessage('Status must be active, blocked, locked, or all'),
   query('sortBy')
     .optional()
     .isIn(['name', 'email', 'createdAt', 'lastLogin'])
@@ -207,6 +295,8 @@ router.get('/students', [
       query.isBlocked = false;
     } else if (status === 'blocked') {
       query.isBlocked = true;
+    } else if (status === 'locked') {
+      query.lockUntil = { $gt: new Date() };
     }
 
     // Search functionality
@@ -267,8 +357,8 @@ router.get('/students', [
 
 // @desc    Block/Unblock student
 // @route   PATCH /api/admin/students/:id/toggle-block
-// @access  Private (Admin)
-router.patch('/students/:id/toggle-block', [protect, admin], async (req, res) => {
+// @access  Private (students:block)
+router.patch('/students/:id/toggle-block', [protect, requirePermission('students:block')], async (req, res) => {
   try {
     const student = await User.findById(req.params.id);
 
@@ -293,9 +383,19 @@ router.patch('/students/:id/toggle-block', [protect, admin], async (req, res) =>
       });
     }
 
+    const before = AuditLog.snapshot(student, STUDENT_AUDIT_FIELDS);
     student.isBlocked = !student.isBlocked;
     await student.save();
 
+    await AuditLog.record(req, {
+      action: student.isBlocked ? 'student.block' : 'student.unblock',
+      targetType: 'user',
+      target: student,
+      targetLabel: student.email,
+      before,
+      after: AuditLog.snapshot(student, STUDENT_AUDIT_FIELDS)
+    });
+
     res.status(200).json({
       success: true,
       message: `Student ${student.isBlocked ? 'blocked' : 'unblocked'} successfully`,
@@ -316,10 +416,121 @@ router.patch('/students/:id/toggle-block', [protect, admin], async (req, res) =>
   }
 });
 
+// @desc    Unlock a student locked out after failed logins
+// @route   PATCH /api/admin/students/:id/unlock
+// @access  Private (students:unlock)
+router.patch('/students/:id/unlock', [protect, requirePermission('students:unlock')], async (req, res) => {
+  try {
+    const student = await User.findById(req.params.id);
+
+    if (!student) {
+      return res.status(404).json({
+        success: false,
+        message: 'Student not found'
+      });
+    }
+
+    if (student.role !== 'student') {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only unlock students'
+      });
+    }
+
+    const before = AuditLog.snapshot(student, STUDENT_AUDIT_FIELDS);
+    student.resetFailedLogins();
+    await student.save();
+
+    await AuditLog.record(req, {
+      action: 'student.unlock',
+      targetType: 'user',
+      target: student,
+      targetLabel: student.email,
+      before,
+      after: AuditLog.snapshot(student, STUDENT_AUDIT_FIELDS)
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Student unlocked successfully',
+      student: {
+        id: student._id,
+        name: student.name,
+        email: student.email,
+        isLocked: student.isLocked
+      }
+    });
+
+  } catch (error) {
+    console.error('Unlock student error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Start viewing the app as a student (read-only) for support
+// @route   POST /api/admin/students/:id/impersonate
+// @access  Private (students:impersonate)
+router.post('/students/:id/impersonate', [protect, requirePermission('students:impersonate')], async (req, res) => {
+  try {
+    const student = await User.findById(req.params.id);
+
+    if (!student) {
+      return res.status(404).json({
+        success: false,
+        message: 'Student not found'
+      });
+    }
+
+    if (student.role !== 'student') {
+      return res.status(400).json({
+        success: false,
+        message: 'Can only view as students'
+      });
+    }
+
+    if (student.isBlocked) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot view as a blocked student. Unblock them first.'
+      });
+    }
+
+    const expiresAt = new Date(Date.now() + authConfig.impersonationExpireMinutes * 60 * 1000);
+    const token = student.getImpersonationToken(req.user, req.authSession._id);
+
+    await AuditLog.record(req, {
+      action: 'student.impersonate',
+      targetType: 'user',
+      target: student,
+      targetLabel: student.email,
+      metadata: { expiresAt: expiresAt.toISOString() }
+    });
+
+    // In cookie mode this swaps only the access cookie; the admin's refresh cookie ends the impersonation
+    res.status(200).json(withAuthCookies(res, {
+      success: true,
+      message: `Now viewing as ${student.name}`,
+      token,
+      expiresAt,
+      user: student.getPublicProfile()
+    }));
+
+  } catch (error) {
+    console.error('Impersonate student error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Delete student
 // @route   DELETE /api/admin/students/:id
-// @access  Private (Admin)
-router.delete('/students/:id', [protect, admin], async (req, res) => {
+// @access  Private (students:delete)
+router.delete('/students/:id', [protect, requirePermission('students:delete')], async (req, res) => {
   try {
     const student = await User.findById(req.params.id);
 
@@ -344,21 +555,24 @@ router.delete('/students/:id', [protect, admin], async (req, res) => {
       });
     }
 
-    // Check if student has feedback
-    const feedbackCount = await Feedback.countDocuments({ student: student._id });
-    
-    if (feedbackCount > 0) {
-      return res.status(400).json({
-        success: false,
-        message: `Cannot delete student. They have ${feedbackCount} feedback entries. Consider blocking instead.`
-      });
-    }
+    // The student's feedback is kept, anonymized, so course statistics don't change
+    const anonymizedFeedback = await deleteAccount(student);
 
-    await User.findByIdAndDelete(req.params.id);
+    await AuditLog.record(req, {
+      action: 'student.delete',
+      targetType: 'user',
+      target: student,
+      targetLabel: student.email,
+      before: AuditLog.snapshot(student, STUDENT_AUDIT_FIELDS),
+      metadata: { anonymizedFeedback }
+    });
 
     res.status(200).json({
       success: true,
-      message: 'Student deleted successfully'
+      message: anonymizedFeedback > 0
+        ? `Student deleted successfully. ${anonymizedFeedback} feedback entries were anonymized.`
+        : 'Student deleted successfully',
+      anonymizedFeedback
     });
 
   } catch (error) {
@@ -372,10 +586,10 @@ router.delete('/students/:id', [protect, admin], async (req, res) => {
 
 // @desc    Get all feedback with filters and pagination
 // @route   GET /api/admin/feedback
-// @access  Private (Admin)
+// @access  Private (feedback:read)
 router.get('/feedback', [
   protect,
-  admin,
+  requirePermission('feedback:read'),
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -388,6 +602,10 @@ router.get('/feedback', [
     .optional()
     .isMongoId()
     .withMessage('Course must be a valid ID'),
+  query('term')
+    .optional()
+    .isMongoId()
+    .withMessage('Term must be a valid ID'),
   query('rating')
     .optional()
     .isInt({ min: 1, max: 5 })
@@ -396,6 +614,10 @@ router.get('/feedback', [
     .optional()
     .isMongoId()
     .withMessage('Student must be a valid ID'),
+  query('status')
+    .optional()
+    .isIn(FEEDBACK_STATUSES)
+    .withMessage('Status must be pending, approved or rejected'),
   query('sortBy')
     .optional()
     .isIn(['createdAt', 'rating', 'course'])
@@ -418,17 +640,13 @@ router.get('/feedback', [
 
     const page = parseInt(req.query.page) || 1;
     const limit = parseInt(req.query.limit) || 10;
-    const { course, rating, student } = req.query;
+    const { course, term, rating, student, status } = req.query;
     const sortBy = req.query.sortBy || 'createdAt';
     const sortOrder = req.query.sortOrder === 'asc' ? 1 : -1;
     const skip = (page - 1) * limit;
 
     // Build query
-    let query = {};
-
-    if (course) query.course = course;
-    if (rating) query.rating = parseInt(rating);
-    if (student) query.student = student;
+    const query = buildFeedbackQuery({ course, term, rating, student, status });
 
     // Build sort object
     const sort = {};
@@ -436,18 +654,29 @@ router.get('/feedback', [
 
     // Get feedback with pagination
     const feedback = await Feedback.find(query)
-      .populate('course', 'name code instructor')
+      .populate({
+        path: 'course',
+        select: 'name code instructor',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('term', 'name')
       .populate('student', 'name email')
+      .populate('responses.author', 'name')
       .sort(sort)
       .skip(skip)
       .limit(limit);
 
     // Get total count
     const total = await Feedback.countDocuments(query);
+    const pendingCount = await Feedback.countDocuments({ status: 'pending' });
 
     res.status(200).json({
       success: true,
-      feedback,
+      feedback: feedback.map(item => item.toStaffJSON()),
+      moderation: {
+        enabled: moderationConfig.enabled,
+        pendingCount
+      },
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -467,14 +696,18 @@ router.get('/feedback', [
 
 // @desc    Export feedback to CSV
 // @route   GET /api/admin/feedback/export
-// @access  Private (Admin)
+// @access  Private (feedback:export)
 router.get('/feedback/export', [
   protect,
-  admin,
+  requirePermission('feedback:export'),
   query('course')
     .optional()
     .isMongoId()
     .withMessage('Course must be a valid ID'),
+  query('term')
+    .optional()
+    .isMongoId()
+    .withMessage('Term must be a valid ID'),
   query('rating')
     .optional()
     .isInt({ min: 1, max: 5 })
@@ -483,6 +716,10 @@ router.get('/feedback/export', [
     .optional()
     .isMongoId()
     .withMessage('Student must be a valid ID'),
+  query('status')
+    .optional()
+    .isIn(FEEDBACK_STATUSES)
+    .withMessage('Status must be pending, approved or rejected'),
   query('startDate')
     .optional()
     .isISO8601()
@@ -503,14 +740,10 @@ router.get('/feedback/export', [
       });
     }
 
-    const { course, rating, student, startDate, endDate } = req.query;
+    const { course, term, rating, student, status, startDate, endDate } = req.query;
 
     // Build query
-    let query = {};
-
-    if (course) query.course = course;
-    if (rating) query.rating = parseInt(rating);
-    if (student) query.student = student;
+    const query = buildFeedbackQuery({ course, term, rating, student, status });
 
     // Date range filter
     if (startDate || endDate) {
@@ -521,24 +754,46 @@ router.get('/feedback/export', [
 
     // Get all feedback matching the query
     const feedback = await Feedback.find(query)
-      .populate('course', 'name code instructor department')
+      .populate({
+        path: 'course',
+        select: 'name code instructor department',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('term', 'name')
       .populate('student', 'name email')
       .sort({ createdAt: -1 });
 
+    // Ratings and comments on courses with too few responses are left out for viewers who
+    // can't see exact statistics
+    let smallCourses = new Set();
+    if (!canSeeExactStatistics(req.user)) {
+      const courseIds = [...new Set(feedback.map(item => item.course._id.toString()))];
+      const counts = await Feedback.countApprovedByCourse(courseIds);
+      smallCourses = new Set(courseIds.filter(id => isBelowMinimum(counts.get(id) || 0)));
+    }
+    const suppressedNote = `Hidden: fewer than ${statisticsConfig.minResponses} responses`;
+
+    // Filtering by rating would give the hidden ratings away, so those rows are left out entirely
+    const exported = rating
+      ? feedback.filter(item => !smallCourses.has(item.course._id.toString()))
+      : feedback;
+
     // Prepare data for CSV
-    const csvData = feedback.map(item => ({
+    const csvData = exported.map(item => ({
       'Feedback ID': item._id.toString(),
       'Student Name': item.isAnonymous ? 'Anonymous' : item.student.name,
       'Student Email': item.isAnonymous ? 'Anonymous' : item.student.email,
       'Course Name': item.course.name,
       'Course Code': item.course.code,
-      'Instructor': item.course.instructor || 'N/A',
+      'Instructor': item.course.instructor?.name || 'N/A',
       'Department': item.course.department || 'N/A',
-      'Rating': item.rating,
-      'Message': item.message,
-      'Tags': item.tags.join(', '),
+      'Term': item.term?.name || 'N/A',
+      'Rating': smallCourses.has(item.course._id.toString()) ? '' : item.rating,
+      'Message': smallCourses.has(item.course._id.toString()) ? suppressedNote : item.message,
+      'Tags': smallCourses.has(item.course._id.toString()) ? '' : item.tags.join(', '),
       'Is Anonymous': item.isAnonymous ? 'Yes' : 'No',
       'Status': item.status,
+      'Moderator Notes': item.moderatorNotes || '',
       'Created At': item.createdAt.toISOString(),
       'Updated At': item.updatedAt.toISOString()
     }));
@@ -563,11 +818,13 @@ router.get('/feedback/export', [
         { id: 'Course Code', title: 'Course Code' },
         { id: 'Instructor', title: 'Instructor' },
         { id: 'Department', title: 'Department' },
+        { id: 'Term', title: 'Term' },
         { id: 'Rating', title: 'Rating' },
         { id: 'Message', title: 'Message' },
         { id: 'Tags', title: 'Tags' },
         { id: 'Is Anonymous', title: 'Is Anonymous' },
         { id: 'Status', title: 'Status' },
+        { id: 'Moderator Notes', title: 'Moderator Notes' },
         { id: 'Created At', title: 'Created At' },
         { id: 'Updated At', title: 'Updated At' }
       ]
@@ -575,6 +832,19 @@ router.get('/feedback/export', [
 
     await csvWriter.writeRecords(csvData);
 
+    await AuditLog.record(req, {
+      action: 'feedback.export',
+      targetType: 'feedback',
+      targetLabel: fileName,
+      metadata: {
+        filters: Object.fromEntries(
+          Object.entries({ course, term, rating, student, status, startDate, endDate }).filter(([, value]) => value !== undefined)
+        ),
+        rowCount: csvData.length,
+        suppressedCourses: smallCourses.size
+      }
+    });
+
     // Send file
     res.download(filePath, fileName, (err) => {
       if (err) {
@@ -604,4 +874,486 @@ router.get('/feedback/export', [
   }
 });
 
+// @desc    Approve or reject several feedback entries at once
+// @route   PATCH /api/admin/feedback/moderate
+// @access  Private (feedback:moderate)
+router.patch('/feedback/moderate', [
+  protect,
+  requirePermission('feedback:moderate'),
+  body('ids')
+    .isArray({ min: 1, max: BULK_MODERATION_LIMIT })
+    .withMessage(`Select between 1 and ${BULK_MODERATION_LIMIT} feedback entries`),
+  body('ids.*')
+    .isMongoId()
+    .withMessage('Invalid feedback ID'),
+  ...moderationRules
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { ids, status, moderatorNotes } = req.body;
+
+    const feedbackList = await Feedback.find({ _id: { $in: ids } })
+      .populate('course', 'name code')
+      .populate('student', 'name email');
+
+    if (feedbackList.length !== new Set(ids).size) {
+      return res.status(404).json({
+        success: false,
+        message: 'Some of the selected feedback no longer exists'
+      });
+    }
+
+    for (const feedback of feedbackList) {
+      await moderateFeedback(req, feedback, { status, moderatorNotes }, { bulk: true });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `${feedbackList.length} feedback ${feedbackList.length === 1 ? 'entry' : 'entries'} ${status}`,
+      moderatedCount: feedbackList.length
+    });
+
+  } catch (error) {
+    console.error('Bulk moderate feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Approve or reject a feedback entry
+// @route   PATCH /api/admin/feedback/:id/moderate
+// @access  Private (feedback:moderate)
+router.patch('/feedback/:id/moderate', [
+  protect,
+  requirePermission('feedback:moderate'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid feedback ID'),
+  ...moderationRules
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await Feedback.findById(req.params.id)
+      .populate({
+        path: 'course',
+        select: 'name code instructor',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('student', 'name email');
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    await moderateFeedback(req, feedback, req.body);
+
+    await feedback.populate([
+      { path: 'term', select: 'name' },
+      { path: 'responses.author', select: 'name' }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: `Feedback ${feedback.status}`,
+      feedback: feedback.toStaffJSON()
+    });
+
+  } catch (error) {
+    console.error('Moderate feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get every version of a feedback entry, oldest first
+// @route   GET /api/admin/feedback/:id/history
+// @access  Private (feedback:history)
+router.get('/feedback/:id/history', [
+  protect,
+  requirePermission('feedback:history'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid feedback ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await Feedback.findById(req.params.id).select('version');
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    const revisions = await FeedbackRevision.find({ feedback: feedback._id }).sort({ version: 1 });
+
+    res.status(200).json({
+      success: true,
+      version: feedback.version,
+      count: revisions.length,
+      revisions
+    });
+
+  } catch (error) {
+    console.error('Get feedback history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get the configured roles and the permissions they grant
+// @route   GET /api/admin/roles
+// @access  Private (invitations:manage)
+router.get('/roles', [protect, requirePermission('invitations:manage')], async (req, res) => {
+  res.status(200).json({
+    success: true,
+    roles: Object.entries(permissionConfig.roles).map(([name, permissions]) => ({
+      name,
+      permissions
+    })),
+    permissions: permissionConfig.permissions
+  });
+});
+
+// @desc    Get invitations
+// @route   GET /api/admin/invitations
+// @access  Private (invitations:manage)
+router.get('/invitations', [
+  protect,
+  requirePermission('invitations:manage'),
+  query('status')
+    .optional()
+    .isIn(['pending', 'accepted', 'revoked', 'expired', 'all'])
+    .withMessage('Status must be pending, accepted, revoked, expired, or all')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const status = req.query.status || 'all';
+    const now = new Date();
+
+    // Build query
+    let query = {};
+    if (status === 'pending') {
+      query = { acceptedAt: null, revokedAt: null, expiresAt: { $gt: now } };
+    } else if (status === 'accepted') {
+      query = { acceptedAt: { $ne: null } };
+    } else if (status === 'revoked') {
+      query = { revokedAt: { $ne: null } };
+    } else if (status === 'expired') {
+      query = { acceptedAt: null, revokedAt: null, expiresAt: { $lte: now } };
+    }
+
+    const invitations = await Invitation.find(query)
+      .populate('invitedBy', 'name email')
+      .populate('acceptedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(200);
+
+    res.status(200).json({
+      success: true,
+      count: invitations.length,
+      invitations
+    });
+
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create an invitation link
+// @route   POST /api/admin/invitations
+// @access  Private (invitations:manage)
+router.post('/invitations', [
+  protect,
+  requirePermission('invitations:manage'),
+  body('email')
+    .optional({ checkFalsy: true })
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email'),
+  body('role')
+    .isIn(permissionConfig.roleNames)
+    .withMessage(`Role must be one of: ${permissionConfig.roleNames.join(', ')}`),
+  body('expiresInDays')
+    .optional()
+    .isInt({ min: 1, max: 30 })
+    .withMessage('Expiry must be between 1 and 30 days')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { email, role } = req.body;
+
+    if (email && await User.exists({ email })) {
+      return res.status(400).json({
+        success: false,
+        message: 'User already exists with this email'
+      });
+    }
+
+    const { invitation, token } = await Invitation.issue({
+      email,
+      role,
+      invitedBy: req.user._id,
+      expiresInDays: parseInt(req.body.expiresInDays) || undefined
+    });
+
+    // Email the link when the invitation is tied to an address; the admin can always share it by hand
+    let emailSent = false;
+    if (invitation.email) {
+      try {
+        await sendInvitationEmail(invitation, token, req.user);
+        emailSent = true;
+      } catch (mailError) {
+        console.error('Invitation email error:', mailError);
+      }
+    }
+
+    await AuditLog.record(req, {
+      action: 'invitation.create',
+      targetType: 'invitation',
+      target: invitation,
+      targetLabel: invitation.email || `${invitation.role} invitation link`,
+      after: AuditLog.snapshot(invitation, ['email', 'role', 'expiresAt'])
+    });
+
+    await invitation.populate('invitedBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: emailSent ? `Invitation sent to ${invitation.email}` : 'Invitation created successfully',
+      invitation,
+      inviteUrl: `${mailConfig.clientUrl}/register?invite=${token}`,
+      emailSent
+    });
+
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Revoke an invitation
+// @route   DELETE /api/admin/invitations/:id
+// @access  Private (invitations:manage)
+router.delete('/invitations/:id', [
+  protect,
+  requirePermission('invitations:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invitation must be a valid ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const invitation = await Invitation.findById(req.params.id);
+
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found'
+      });
+    }
+
+    if (invitation.status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: `Invitation is already ${invitation.status}`
+      });
+    }
+
+    invitation.revokedAt = new Date();
+    await invitation.save();
+
+    await AuditLog.record(req, {
+      action: 'invitation.revoke',
+      targetType: 'invitation',
+      target: invitation,
+      targetLabel: invitation.email || `${invitation.role} invitation link`,
+      before: { revokedAt: null },
+      after: AuditLog.snapshot(invitation, ['revokedAt'])
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked successfully'
+    });
+
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get the audit log of admin actions with filters and pagination
+// @route   GET /api/admin/audit
+// @access  Private (audit:read)
+router.get('/audit', [
+  protect,
+  requirePermission('audit:read'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('action')
+    .optional()
+    .isIn(AuditLog.schema.path('action').enumValues)
+    .withMessage('Action is not a recognized audit action'),
+  query('targetType')
+    .optional()
+    .isIn(AuditLog.schema.path('targetType').enumValues)
+    .withMessage('Target type is not recognized'),
+  query('actor')
+    .optional()
+    .isMongoId()
+    .withMessage('Actor must be a valid ID'),
+  query('targetId')
+    .optional()
+    .isMongoId()
+    .withMessage('Target must be a valid ID'),
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const { action, targetType, actor, targetId, startDate, endDate } = req.query;
+    const skip = (page - 1) * limit;
+
+    // Build query
+    let query = {};
+
+    if (action) query.action = action;
+    if (targetType) query.targetType = targetType;
+    if (actor) query.actor = actor;
+    if (targetId) query.targetId = targetId;
+
+    // Date range filter
+    if (startDate || endDate) {
+      query.createdAt = {};
+      if (startDate) query.createdAt.$gte = new Date(startDate);
+      if (endDate) query.createdAt.$lte = new Date(endDate);
+    }
+
+    const logs = await AuditLog.find(query)
+      .populate('actor', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    // Get total count
+    const total = await AuditLog.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      logs,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total,
+        itemsPerPage: limit
+      }
+    });
+
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 module.exports = router;
@@ -1,11 +1,134 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, param, validationResult } = require('express-validator');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
 const User = require('../models/User');
+const Session = require('../models/Session');
+const LoginEvent = require('../models/LoginEvent');
+const Invitation = require('../models/Invitation');
+const OidcLoginState = require('../models/OidcLoginState');
+const AuditLog = require('../models/AuditLog');
 const { protect } = require('../middleware/auth');
+const authConfig = require('../config/auth');
+const oidcConfig = require('../config/oidc');
+const passwordConfig = require('../config/password');
+const { sendPasswordResetEmail, sendVerificationEmail } = require('../utils/emails');
+const totp = require('../utils/totp');
+const oidc = require('../utils/oidc');
+const { passwordPolicyRule, getPublicPolicy } = require('../utils/passwordPolicy');
+const { withAuthCookies, clearAuthCookies, getRefreshToken, hasValidCsrfToken, sendCsrfError } = require('../utils/authCookies');
 
 const router = express.Router();
 
+// Check an email against the configured registration domains (all allowed when none are set)
+const isAllowedEmailDomain = (email) => {
+  if (authConfig.allowedEmailDomains.length === 0) return true;
+
+  const domain = email.split('@').pop().toLowerCase();
+  return authConfig.allowedEmailDomains.includes(domain);
+};
+
+// Generate a fresh verification token for the user and email it
+const sendEmailVerification = async (user) => {
+  const verificationToken = user.getEmailVerificationToken();
+  await user.save();
+  await sendVerificationEmail(user, verificationToken);
+};
+
+// Hidden user fields needed to check two-factor codes
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+// Start a new session for the user and return the access/refresh token pair
+const issueTokens = async (user, req) => {
+  const { session, refreshToken } = await Session.issue(user, {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip
+  });
+
+  return {
+    session,
+    token: user.getSignedJwtToken(session._id),
+    refreshToken
+  };
+};
+
+// Response body for a new password that matches one of the recent ones
+const passwordReusedError = () => ({
+  success: false,
+  code: 'PASSWORD_REUSED',
+  message: `You can't reuse any of your last ${passwordConfig.historyCount} passwords. Please choose a new one.`
+});
+
+// Respond to a login attempt on a temporarily locked account
+const sendAccountLocked = (res, user) => {
+  const retryAfter = Math.max(Math.ceil((user.lockUntil - Date.now()) / 1000), 1);
+  const minutes = Math.ceil(retryAfter / 60);
+
+  res.set('Retry-After', String(retryAfter));
+  return res.status(423).json({
+    success: false,
+    code: 'ACCOUNT_LOCKED',
+    message: `Too many failed login attempts. Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`,
+    lockedUntil: user.lockUntil
+  });
+};
+
+// Finish a successful login: start a session, record it and build the response body
+const completeLogin = async (user, req, { method } = {}) => {
+  user.lastLogin = new Date();
+  user.resetFailedLogins();
+  await user.save();
+
+  const { session, token, refreshToken } = await issueTokens(user, req);
+  await LoginEvent.record(req, { user, email: user.email, success: true, method, session });
+
+  return {
+    success: true,
+    message: 'Login successful',
+    token,
+    refreshToken,
+    user: user.getPublicProfile()
+  };
+};
+
+// Find the account for a single sign-on identity, linking an existing account or creating one on first login.
+// Returns null when an unlinked account already uses the email and the provider hasn't verified it.
+const findOrProvisionOidcUser = async (claims) => {
+  const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : '';
+  const emailVerified = claims.email_verified === true;
+
+  let user = await User.findOne({ oidcIssuer: claims.iss, oidcSubject: claims.sub });
+
+  if (!user && email) {
+    user = await User.findOne({ email });
+    if (user) {
+      if (!emailVerified) return null;
+
+      user.oidcIssuer = claims.iss;
+      user.oidcSubject = claims.sub;
+    }
+  }
+
+  if (!user) {
+    const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ');
+
+    return new User({
+      name: (name || email.split('@')[0]).substring(0, 50),
+      email,
+      role: oidc.mapRole(claims) || oidcConfig.defaultRole,
+      emailVerified,
+      oidcIssuer: claims.iss,
+      oidcSubject: claims.sub
+    });
+  }
+
+  if (emailVerified && user.email === email) user.emailVerified = true;
+
+  return user;
+};
+
 // @desc    Register user
 // @route   POST /api/auth/register
 // @access  Public
@@ -19,18 +142,18 @@ router.post('/register', [
     .isEmail()
     .normalizeEmail()
     .withMessage('Please provide a valid email'),
-  body('password')
-    .isLength({ min: 8 })
-    .withMessage('Password must be at least 8 characters')
-    .matches(/^(?=.*[!@#$%^&*(),.?":{}|<>])(?=.*\d).{8,}$/)
-    .withMessage('Password must contain at least 1 special character and 1 number'),
+  passwordPolicyRule('password'),
   body('confirmPassword')
     .custom((value, { req }) => {
       if (value !== req.body.password) {
         throw new Error('Password confirmation does not match password');
       }
       return true;
-    })
+    }),
+  body('inviteToken')
+    .optional()
+    .isString()
+    .withMessage('Invitation token must be a string')
 ], async (req, res) => {
   try {
     // Check for validation errors
@@ -43,7 +166,31 @@ router.post('/register', [
       });
     }
 
-    const { name, email, password, role } = req.body;
+    const { name, email, password, inviteToken } = req.body;
+
+    // Invited users get the role from their invitation; everyone else registers as a student
+    let invitation = null;
+    if (inviteToken) {
+      invitation = await Invitation.findPendingByToken(inviteToken);
+      if (!invitation) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invitation is invalid or has expired'
+        });
+      }
+
+      if (invitation.email && invitation.email !== email) {
+        return res.status(400).json({
+          success: false,
+          message: 'This invitation was sent to a different email address'
+        });
+      }
+    } else if (!isAllowedEmailDomain(email)) {
+      return res.status(400).json({
+        success: false,
+        message: `Registration is limited to ${authConfig.allowedEmailDomains.join(', ')} email addresses`
+      });
+    }
 
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -54,26 +201,52 @@ router.post('/register', [
       });
     }
 
+    // Claim the invitation before creating the account so it can't be used twice
+    if (invitation && !(await invitation.claim())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invitation is invalid or has expired'
+      });
+    }
+
     // Create user (password will be hashed by pre-save middleware)
-    const user = await User.create({
-      name,
-      email,
-      password,
-      role: role === 'admin' ? 'admin' : 'student' // Only allow admin if explicitly set
-    });
+    let user;
+    try {
+      user = await User.create({
+        name,
+        email,
+        password,
+        role: invitation ? invitation.role : 'student'
+      });
+    } catch (createError) {
+      if (invitation) await invitation.release();
+      throw createError;
+    }
 
-    // Generate JWT token
-    const token = user.getSignedJwtToken();
+    if (invitation) {
+      await Invitation.updateOne({ _id: invitation._id }, { acceptedBy: user._id });
+    }
+
+    // Send the confirmation link; registration still succeeds if the mail fails
+    try {
+      await sendEmailVerification(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
+    // Start a session for the new user
+    const { token, refreshToken } = await issueTokens(user, req);
 
     // Remove password from response
     const userResponse = user.getPublicProfile();
 
-    res.status(201).json({
+    res.status(201).json(withAuthCookies(res, {
       success: true,
       message: 'User registered successfully',
       token,
+      refreshToken,
       user: userResponse
-    });
+    }));
 
   } catch (error) {
     console.error('Registration error:', error);
@@ -93,6 +266,37 @@ router.post('/register', [
   }
 });
 
+// @desc    Look up an invitation before registering with it
+// @route   GET /api/auth/invitations/:token
+// @access  Public
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await Invitation.findPendingByToken(req.params.token);
+
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation is invalid or has expired'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt
+      }
+    });
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Login user
 // @route   POST /api/auth/login
 // @access  Public
@@ -121,6 +325,7 @@ router.post('/login', [
     // Check for user and include password
     const user = await User.findOne({ email }).select('+password');
     if (!user) {
+      await LoginEvent.record(req, { email, success: false, failureReason: 'unknown-user' });
       return res.status(401).json({
         success: false,
         message: 'Invalid credentials'
@@ -129,40 +334,323 @@ router.post('/login', [
 
     // Check if user is blocked
     if (user.isBlocked) {
+      await LoginEvent.record(req, { user, email, success: false, failureReason: 'blocked' });
       return res.status(403).json({
         success: false,
         message: 'Account has been blocked. Please contact administrator.'
       });
     }
 
+    // Don't check the password at all while the account is locked
+    if (user.isLocked) {
+      await LoginEvent.record(req, { user, email, success: false, failureReason: 'locked' });
+      return sendAccountLocked(res, user);
+    }
+
     // Check password
     const isPasswordMatch = await user.matchPassword(password);
     if (!isPasswordMatch) {
+      await LoginEvent.record(req, { user, email, success: false, failureReason: 'invalid-password' });
+      await user.registerFailedLogin();
+
+      if (user.isLocked) {
+        return sendAccountLocked(res, user);
+      }
+
+      const attemptsRemaining = authConfig.loginLockoutThreshold - user.failedLoginAttempts;
       return res.status(401).json({
         success: false,
-        message: 'Invalid credentials'
+        message: attemptsRemaining <= 2
+          ? `Invalid credentials. ${attemptsRemaining} attempt${attemptsRemaining !== 1 ? 's' : ''} left before the account is temporarily locked.`
+          : 'Invalid credentials'
       });
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    // Accounts with two-factor authentication need a code before a session is started
+    if (user.twoFactorEnabled) {
+      return res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: user.getTwoFactorChallengeToken(),
+        message: 'Enter the code from your authenticator app'
+      });
+    }
 
-    // Generate JWT token
-    const token = user.getSignedJwtToken();
+    res.status(200).json(withAuthCookies(res, await completeLogin(user, req)));
 
-    // Remove password from response
-    const userResponse = user.getPublicProfile();
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during login'
+    });
+  }
+});
+
+// @desc    Complete a login with a TOTP or recovery code
+// @route   POST /api/auth/login/two-factor
+// @access  Public
+router.post('/login/two-factor', [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Login challenge is required'),
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    let decoded = null;
+    try {
+      decoded = jwt.verify(req.body.challengeToken, authConfig.jwtSecret);
+    } catch (error) {
+      // Expired or tampered challenge, handled below
+    }
+
+    const user = decoded && decoded.purpose === 'two-factor'
+      ? await User.findById(decoded.id).select(TWO_FACTOR_FIELDS)
+      : null;
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        code: 'LOGIN_CHALLENGE_EXPIRED',
+        message: 'Login has expired. Please sign in again.'
+      });
+    }
+
+    if (user.isBlocked) {
+      await LoginEvent.record(req, {
+        user, email: user.email, success: false, failureReason: 'blocked', method: decoded.method
+      });
+      return res.status(403).json({
+        success: false,
+        message: 'Account has been blocked. Please contact administrator.'
+      });
+    }
+
+    if (user.isLocked) {
+      await LoginEvent.record(req, {
+        user, email: user.email, success: false, failureReason: 'locked', method: decoded.method
+      });
+      return sendAccountLocked(res, user);
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const { code } = req.body;
+    if (!user.verifyTwoFactorCode(code) && !user.useTwoFactorRecoveryCode(code)) {
+      await LoginEvent.record(req, {
+        user, email: user.email, success: false, failureReason: 'invalid-two-factor', method: decoded.method
+      });
+      await user.registerFailedLogin();
+
+      if (user.isLocked) {
+        return sendAccountLocked(res, user);
+      }
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    res.status(200).json(withAuthCookies(res, await completeLogin(user, req, { method: decoded.method })));
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during login'
+    });
+  }
+});
+
+// @desc    Get single sign-on settings for the login page
+// @route   GET /api/auth/oidc/config
+// @access  Public
+router.get('/oidc/config', (req, res) => {
+  res.status(200).json({
+    success: true,
+    enabled: oidcConfig.enabled,
+    providerName: oidcConfig.providerName
+  });
+});
+
+// @desc    Start a single sign-on login and get the provider URL to redirect to
+// @route   POST /api/auth/oidc/authorize
+// @access  Public
+router.post('/oidc/authorize', async (req, res) => {
+  try {
+    if (!oidcConfig.enabled) {
+      return res.status(404).json({
+        success: false,
+        message: 'Single sign-on is not enabled'
+      });
+    }
+
+    const params = oidc.generateLoginParams();
+    const authorizationUrl = await oidc.buildAuthorizationUrl(params);
+    await OidcLoginState.issue(params);
 
     res.status(200).json({
       success: true,
-      message: 'Login successful',
-      token,
-      user: userResponse
+      authorizationUrl,
+      state: params.state
     });
 
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('OIDC authorize error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Single sign-on is unavailable right now. Please try again later.'
+    });
+  }
+});
+
+// @desc    Finish a single sign-on login with the code returned by the provider
+// @route   POST /api/auth/oidc/callback
+// @access  Public
+router.post('/oidc/callback', [
+  body('code')
+    .isString()
+    .notEmpty()
+    .withMessage('Authorization code is required'),
+  body('state')
+    .isString()
+    .notEmpty()
+    .withMessage('Login state is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!oidcConfig.enabled) {
+      return res.status(404).json({
+        success: false,
+        message: 'Single sign-on is not enabled'
+      });
+    }
+
+    const loginState = await OidcLoginState.consume(req.body.state);
+    if (!loginState) {
+      return res.status(400).json({
+        success: false,
+        code: 'SSO_STATE_INVALID',
+        message: 'Sign-in has expired. Please try again.'
+      });
+    }
+
+    let claims;
+    try {
+      claims = await oidc.exchangeCode({
+        code: req.body.code,
+        codeVerifier: loginState.codeVerifier,
+        nonce: loginState.nonce
+      });
+    } catch (oidcError) {
+      console.error('OIDC code exchange error:', oidcError);
+      return res.status(401).json({
+        success: false,
+        code: 'SSO_FAILED',
+        message: `Could not sign in with your ${oidcConfig.providerName}. Please try again.`
+      });
+    }
+
+    if (!claims.email) {
+      return res.status(400).json({
+        success: false,
+        code: 'SSO_FAILED',
+        message: `Your ${oidcConfig.providerName} did not share an email address.`
+      });
+    }
+
+    const user = await findOrProvisionOidcUser(claims);
+    if (!user) {
+      await LoginEvent.record(req, {
+        email: claims.email, success: false, failureReason: 'unknown-user', method: 'oidc'
+      });
+      return res.status(409).json({
+        success: false,
+        code: 'SSO_EMAIL_CONFLICT',
+        message: 'An account with this email already exists. Sign in with your password instead.'
+      });
+    }
+
+    if (user.isBlocked) {
+      await LoginEvent.record(req, {
+        user, email: user.email, success: false, failureReason: 'blocked', method: 'oidc'
+      });
+      return res.status(403).json({
+        success: false,
+        message: 'Account has been blocked. Please contact administrator.'
+      });
+    }
+
+    // The provider stays the source of truth for roles it maps on accounts it already signs in to.
+    // An existing account linked by email keeps its role, and unmapped users keep theirs.
+    const mappedRole = oidc.mapRole(claims);
+    const previousRole = user.role;
+    const isRoleChanged = Boolean(mappedRole) && mappedRole !== previousRole
+      && !user.isNew && !user.isModified('oidcSubject');
+    if (isRoleChanged) user.role = mappedRole;
+
+    await user.save();
+
+    if (isRoleChanged) {
+      await AuditLog.record(req, {
+        actor: user,
+        action: 'user.role',
+        targetType: 'user',
+        target: user,
+        targetLabel: user.email,
+        before: { role: previousRole },
+        after: { role: user.role },
+        metadata: { source: 'oidc', issuer: claims.iss }
+      });
+    }
+
+    // Two-factor authentication still applies to accounts that turned it on
+    if (user.twoFactorEnabled) {
+      return res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: user.getTwoFactorChallengeToken('oidc'),
+        message: 'Enter the code from your authenticator app'
+      });
+    }
+
+    res.status(200).json(withAuthCookies(res, await completeLogin(user, req, { method: 'oidc' })));
+
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+
+    // Handle duplicate key error (two first logins racing for the same identity)
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'Sign-in is already in progress for this account. Please try again.'
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error during login'
@@ -190,6 +678,16 @@ router.get('/me', protect, async (req, res) => {
   }
 });
 
+// @desc    Get the password policy so forms can check passwords as they are typed
+// @route   GET /api/auth/password-policy
+// @access  Public
+router.get('/password-policy', (req, res) => {
+  res.status(200).json({
+    success: true,
+    policy: getPublicPolicy()
+  });
+});
+
 // @desc    Change password
 // @route   PUT /api/auth/change-password
 // @access  Private
@@ -198,11 +696,7 @@ router.put('/change-password', [
   body('currentPassword')
     .notEmpty()
     .withMessage('Current password is required'),
-  body('newPassword')
-    .isLength({ min: 8 })
-    .withMessage('New password must be at least 8 characters')
-    .matches(/^(?=.*[!@#$%^&*(),.?":{}|<>])(?=.*\d).{8,}$/)
-    .withMessage('New password must contain at least 1 special character and 1 number'),
+  passwordPolicyRule('newPassword'),
   body('confirmNewPassword')
     .custom((value, { req }) => {
       if (value !== req.body.newPassword) {
@@ -224,8 +718,8 @@ router.put('/change-password', [
 
     const { currentPassword, newPassword } = req.body;
 
-    // Get user with password
-    const user = await User.findById(req.user.id).select('+password');
+    // Get user with password and the recent ones it can't be changed back to
+    const user = await User.findById(req.user.id).select('+password +passwordHistory');
 
     // Check current password
     const isCurrentPasswordMatch = await user.matchPassword(currentPassword);
@@ -245,10 +739,19 @@ router.put('/change-password', [
       });
     }
 
+    if (await user.isPasswordReused(newPassword)) {
+      return res.status(400).json(passwordReusedError());
+    }
+
     // Update password
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other device that may know the old password
+    await Session.revokeAllForUser(user._id, 'password-changed', {
+      except: req.authSession._id
+    });
+
     res.status(200).json({
       success: true,
       message: 'Password changed successfully'
@@ -263,14 +766,743 @@ router.put('/change-password', [
   }
 });
 
-// @desc    Logout user (client-side token removal)
-// @route   POST /api/auth/logout
-// @access  Private
-router.post('/logout', protect, (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Logged out successfully'
-  });
+// @desc    Confirm an email address with a token from the verification email
+// @route   POST /api/auth/verify-email
+// @access  Public
+router.post('/verify-email', [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Verification token is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const hashedToken = crypto.createHash('sha256').update(req.body.token).digest('hex');
+
+    const user = await User.findOne({
+      emailVerificationToken: hashedToken,
+      emailVerificationExpire: { $gt: new Date() }
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification link is invalid or has expired'
+      });
+    }
+
+    user.emailVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpire = undefined;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Email address verified successfully'
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Send a new verification email to the current user
+// @route   POST /api/auth/resend-verification
+// @access  Private
+router.post('/resend-verification', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id);
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email address is already verified'
+      });
+    }
+
+    await sendEmailVerification(user);
+
+    res.status(200).json({
+      success: true,
+      message: `Verification email sent to ${user.email}`
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Could not send verification email. Please try again later.'
+    });
+  }
+});
+
+// @desc    Request a password reset email
+// @route   POST /api/auth/forgot-password
+// @access  Public
+router.post('/forgot-password', [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Same response whether or not the account exists, so emails can't be enumerated
+    const genericResponse = {
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    };
+
+    const user = await User.findOne({ email: req.body.email });
+    if (!user || user.isBlocked) {
+      return res.status(200).json(genericResponse);
+    }
+
+    const resetToken = user.getResetPasswordToken();
+    await user.save();
+
+    try {
+      await sendPasswordResetEmail(user, resetToken);
+    } catch (mailError) {
+      console.error('Password reset email error:', mailError);
+
+      user.resetPasswordToken = undefined;
+      user.resetPasswordExpire = undefined;
+      await user.save();
+
+      return res.status(500).json({
+        success: false,
+        message: 'Could not send password reset email. Please try again later.'
+      });
+    }
+
+    res.status(200).json(genericResponse);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Reset password with a token from the reset email
+// @route   POST /api/auth/reset-password
+// @access  Public
+router.post('/reset-password', [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  passwordPolicyRule('password'),
+  body('confirmPassword')
+    .custom((value, { req }) => {
+      if (value !== req.body.password) {
+        throw new Error('Password confirmation does not match password');
+      }
+      return true;
+    })
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const hashedToken = crypto.createHash('sha256').update(req.body.token).digest('hex');
+
+    const user = await User.findOne({
+      resetPasswordToken: hashedToken,
+      resetPasswordExpire: { $gt: new Date() }
+    }).select('+password +passwordHistory');
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password reset link is invalid or has expired'
+      });
+    }
+
+    if (await user.isPasswordReused(req.body.password)) {
+      return res.status(400).json(passwordReusedError());
+    }
+
+    // Set new password, consume the token and lift any lockout
+    user.password = req.body.password;
+    user.resetPasswordToken = undefined;
+    user.resetPasswordExpire = undefined;
+    user.resetFailedLogins();
+    await user.save();
+
+    // Sign out every device that may know the old password
+    await Session.revokeAllForUser(user._id, 'password-changed');
+
+    res.status(200).json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Exchange a refresh token for a new access/refresh token pair
+// @route   POST /api/auth/refresh
+// @access  Public (refresh token in the body, or the refresh cookie in cookie mode)
+router.post('/refresh', [
+  body('refreshToken')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { token: refreshToken, fromCookie } = getRefreshToken(req);
+
+    if (!refreshToken) {
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token is required'
+      });
+    }
+
+    if (fromCookie && !hasValidCsrfToken(req)) {
+      return sendCsrfError(res);
+    }
+
+    const sessionId = Session.getSessionId(refreshToken);
+    const session = sessionId
+      ? await Session.findById(sessionId).select('+refreshTokenHash +previousTokenHashes')
+      : null;
+
+    if (!session) {
+      clearAuthCookies(res);
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid refresh token'
+      });
+    }
+
+    const tokenHash = Session.hashToken(refreshToken);
+
+    // Another tab refreshed with the same token a moment ago: give this one an access token only. It
+    // picks up the new refresh token the other tab stored (or the cookie it set).
+    const justRotated = session.isActive && session.isJustRotated(tokenHash);
+
+    // A rotated-out token being presented again means it was leaked: kill the whole session
+    if (!justRotated && session.previousTokenHashes.includes(tokenHash)) {
+      await session.revoke('token-reuse');
+      console.warn(`Refresh token reuse detected for session ${session._id}`);
+
+      clearAuthCookies(res);
+      return res.status(401).json({
+        success: false,
+        message: 'Refresh token has already been used. Please log in again.'
+      });
+    }
+
+    if ((!justRotated && session.refreshTokenHash !== tokenHash) || !session.isActive) {
+      clearAuthCookies(res);
+      return res.status(401).json({
+        success: false,
+        message: 'Session has expired or been revoked'
+      });
+    }
+
+    const user = await User.findById(session.user);
+    if (!user) {
+      clearAuthCookies(res);
+      return res.status(401).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.isBlocked) {
+      await session.revoke('logout');
+      clearAuthCookies(res);
+      return res.status(403).json({
+        success: false,
+        message: 'Account has been blocked. Please contact administrator.'
+      });
+    }
+
+    const newRefreshToken = justRotated ? undefined : await session.rotate();
+
+    res.status(200).json(withAuthCookies(res, {
+      success: true,
+      token: user.getSignedJwtToken(session._id),
+      refreshToken: newRefreshToken
+    }));
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Logout user (revokes the current session)
+// @route   POST /api/auth/logout
+// @access  Private
+router.post('/logout', protect, async (req, res) => {
+  try {
+    await req.authSession.revoke('logout');
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Logout user from every device
+// @route   POST /api/auth/logout-all
+// @access  Private
+router.post('/logout-all', protect, async (req, res) => {
+  try {
+    const revokedCount = await Session.revokeAllForUser(req.user._id, 'logout-all');
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: `Logged out of ${revokedCount} session${revokedCount !== 1 ? 's' : ''}`
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get active sessions of the current user
+// @route   GET /api/auth/sessions
+// @access  Private
+router.get('/sessions', protect, async (req, res) => {
+  try {
+    const sessions = await Session.find({
+      user: req.user._id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      sessions: sessions.map(session => ({
+        _id: session._id,
+        device: session.device,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        isCurrent: session._id.equals(req.authSession._id)
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get recent login attempts of the current user
+// @route   GET /api/auth/sessions/history
+// @access  Private
+router.get('/sessions/history', [
+  protect,
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const limit = parseInt(req.query.limit) || 20;
+
+    const events = await LoginEvent.find({ user: req.user._id })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.status(200).json({
+      success: true,
+      events
+    });
+  } catch (error) {
+    console.error('Get login history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Revoke one of the current user's sessions
+// @route   DELETE /api/auth/sessions/:id
+// @access  Private
+router.delete('/sessions/:id', [
+  protect,
+  param('id')
+    .isMongoId()
+    .withMessage('Session must be a valid ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const session = await Session.findOne({ _id: req.params.id, user: req.user._id });
+
+    if (!session || !session.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    await session.revoke('revoked-by-user');
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get two-factor authentication status of the current user
+// @route   GET /api/auth/two-factor
+// @access  Private
+router.get('/two-factor', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('+twoFactorRecoveryCodes');
+
+    res.status(200).json({
+      success: true,
+      twoFactor: {
+        enabled: user.twoFactorEnabled,
+        required: user.isTwoFactorRequired(),
+        recoveryCodesRemaining: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes || []).length : 0
+      }
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Start two-factor enrollment by generating a new TOTP secret
+// @route   POST /api/auth/two-factor/setup
+// @access  Private
+router.post('/two-factor/setup', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select(TWO_FACTOR_FIELDS);
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    // The secret stays inactive until a code from it is confirmed
+    const secret = totp.generateSecret();
+    user.twoFactorSecret = secret;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+
+    const otpauthUrl = totp.buildOtpAuthUrl({
+      secret,
+      accountName: user.email,
+      issuer: authConfig.twoFactorIssuer
+    });
+
+    res.status(200).json({
+      success: true,
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl)
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Confirm enrollment with a code from the authenticator app
+// @route   POST /api/auth/two-factor/enable
+// @access  Private
+router.post('/two-factor/enable', [
+  protect,
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select(TWO_FACTOR_FIELDS);
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup first'
+      });
+    }
+
+    if (!user.verifyTwoFactorCode(req.body.code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    user.twoFactorEnabled = true;
+    const recoveryCodes = user.generateTwoFactorRecoveryCodes();
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Turn off two-factor authentication
+// @route   POST /api/auth/two-factor/disable
+// @access  Private
+router.post('/two-factor/disable', [
+  protect,
+  body('password')
+    .optional()
+    .isString(),
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select(`+password ${TWO_FACTOR_FIELDS}`);
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (user.isTwoFactorRequired()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is required for admin accounts'
+      });
+    }
+
+    // Accounts created through single sign-on have no password to confirm, so the code alone is checked
+    if (user.password && !(await user.matchPassword(req.body.password || ''))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+    }
+
+    const { code } = req.body;
+    if (!user.verifyTwoFactorCode(code) && !user.useTwoFactorRecoveryCode(code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Replace the recovery codes of the current user
+// @route   POST /api/auth/two-factor/recovery-codes
+// @access  Private
+router.post('/two-factor/recovery-codes', [
+  protect,
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select(TWO_FACTOR_FIELDS);
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (!user.verifyTwoFactorCode(req.body.code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const recoveryCodes = user.generateTwoFactorRecoveryCodes();
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
 });
 
 module.exports = router;
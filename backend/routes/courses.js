@@ -2,10 +2,21 @@ const express = require('express');
 const { body, query, validationResult } = require('express-validator');
 const Course = require('../models/Course');
 const Feedback = require('../models/Feedback');
-const { protect, admin } = require('../middleware/auth');
+const User = require('../models/User');
+const SurveyTemplate = require('../models/SurveyTemplate');
+const AuditLog = require('../models/AuditLog');
+const permissionConfig = require('../config/permissions');
+const { protect, requirePermission } = require('../middleware/auth');
+const { statisticsFor } = require('../utils/statisticsPrivacy');
 
 const router = express.Router();
 
+// Query matching users whose role allows them to teach courses
+const instructorQuery = () => ({ role: { $in: permissionConfig.rolesWith('courses:teach') } });
+
+// Course fields captured in the audit log
+const COURSE_AUDIT_FIELDS = ['name', 'code', 'description', 'instructor', 'department', 'credits', 'surveyTemplate', 'isActive'];
+
 // @desc    Get all courses (for dropdown in feedback form)
 // @route   GET /api/courses
 // @access  Private
@@ -44,16 +55,22 @@ router.get('/', [
 
     // Search functionality
     if (search) {
+      const instructors = await User.find({
+        ...instructorQuery(),
+        name: { $regex: search, $options: 'i' }
+      }).select('_id');
+
       query.$or = [
         { name: { $regex: search, $options: 'i' } },
         { code: { $regex: search, $options: 'i' } },
-        { instructor: { $regex: search, $options: 'i' } },
+        { instructor: { $in: instructors.map(instructor => instructor._id) } },
         { department: { $regex: search, $options: 'i' } }
       ];
     }
 
     const courses = await Course.find(query)
       .populate('createdBy', 'name email')
+      .populate('instructor', 'name email')
       .sort({ name: 1 });
 
     res.status(200).json({
@@ -71,13 +88,38 @@ router.get('/', [
   }
 });
 
-// @desc    Get single course with statistics
+// @desc    Get users who can be assigned as course instructors
+// @route   GET /api/courses/instructors
+// @access  Private (courses:write)
+router.get('/instructors', [protect, requirePermission('courses:write')], async (req, res) => {
+  try {
+    const instructors = await User.find({ ...instructorQuery(), isBlocked: false })
+      .select('name email')
+      .sort({ name: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: instructors.length,
+      instructors
+    });
+
+  } catch (error) {
+    console.error('Get instructors error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get single course, with statistics for users who may view them
 // @route   GET /api/courses/:id
-// @access  Private
+// @access  Private (statistics: feedback:read, or courses:teach for own courses)
 router.get('/:id', protect, async (req, res) => {
   try {
     const course = await Course.findById(req.params.id)
-      .populate('createdBy', 'name email');
+      .populate('createdBy', 'name email')
+      .populate('instructor', 'name email');
 
     if (!course) {
       return res.status(404).json({
@@ -86,6 +128,17 @@ router.get('/:id', protect, async (req, res) => {
       });
     }
 
+    // Instructors may only see statistics for the courses they teach
+    const canViewStats = req.user.hasPermission('feedback:read') ||
+      (req.user.hasPermission('courses:teach') && course.isTaughtBy(req.user));
+
+    if (!canViewStats) {
+      return res.status(200).json({
+        success: true,
+        course: course.toJSON()
+      });
+    }
+
     // Get course statistics
     const stats = await course.getStatistics();
 
@@ -93,7 +146,7 @@ router.get('/:id', protect, async (req, res) => {
       success: true,
       course: {
         ...course.toJSON(),
-        statistics: stats
+        statistics: statisticsFor(req.user, stats)
       }
     });
 
@@ -106,12 +159,44 @@ router.get('/:id', protect, async (req, res) => {
   }
 });
 
+// @desc    Get the survey template students answer for a course
+// @route   GET /api/courses/:id/survey
+// @access  Private
+router.get('/:id/survey', protect, async (req, res) => {
+  try {
+    const course = await Course.findById(req.params.id).select('surveyTemplate');
+
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const template = course.surveyTemplate
+      ? await SurveyTemplate.findById(course.surveyTemplate).select('name description questions')
+      : null;
+
+    res.status(200).json({
+      success: true,
+      template
+    });
+
+  } catch (error) {
+    console.error('Get course survey error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Create course
 // @route   POST /api/courses
-// @access  Private (Admin)
+// @access  Private (courses:write)
 router.post('/', [
   protect,
-  admin,
+  requirePermission('courses:write'),
   body('name')
     .trim()
     .isLength({ min: 2, max: 100 })
@@ -128,10 +213,9 @@ router.post('/', [
     .isLength({ max: 500 })
     .withMessage('Description cannot exceed 500 characters'),
   body('instructor')
-    .optional()
-    .trim()
-    .isLength({ max: 100 })
-    .withMessage('Instructor name cannot exceed 100 characters'),
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Instructor must be a valid user ID'),
   body('department')
     .optional()
     .trim()
@@ -140,7 +224,11 @@ router.post('/', [
   body('credits')
     .optional()
     .isInt({ min: 1, max: 10 })
-    .withMessage('Credits must be between 1 and 10')
+    .withMessage('Credits must be between 1 and 10'),
+  body('surveyTemplate')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Survey template must be a valid template ID')
 ], async (req, res) => {
   try {
     // Check for validation errors
@@ -153,7 +241,7 @@ router.post('/', [
       });
     }
 
-    const { name, code, description, instructor, department, credits } = req.body;
+    const { name, code, description, instructor, department, credits, surveyTemplate } = req.body;
 
     // Check if course with same name or code already exists
     const existingCourse = await Course.findOne({
@@ -170,19 +258,50 @@ router.post('/', [
       });
     }
 
+    // Instructor must be a user whose role can teach
+    let instructorUser = null;
+    if (instructor) {
+      instructorUser = await User.findOne({ ...instructorQuery(), _id: instructor });
+      if (!instructorUser) {
+        return res.status(400).json({
+          success: false,
+          message: 'Instructor not found'
+        });
+      }
+    }
+
+    if (surveyTemplate && !(await SurveyTemplate.exists({ _id: surveyTemplate }))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Survey template not found'
+      });
+    }
+
     // Create course
     const course = await Course.create({
       name: name.trim(),
       code: code.trim().toUpperCase(),
       description: description?.trim(),
-      instructor: instructor?.trim(),
+      instructor: instructorUser ? instructorUser._id : null,
       department: department?.trim(),
       credits,
+      surveyTemplate: surveyTemplate || null,
       createdBy: req.user.id
     });
 
-    // Populate creator info
-    await course.populate('createdBy', 'name email');
+    await AuditLog.record(req, {
+      action: 'course.create',
+      targetType: 'course',
+      target: course,
+      targetLabel: course.code,
+      after: AuditLog.snapshot(course, COURSE_AUDIT_FIELDS)
+    });
+
+    // Populate creator and instructor info
+    await course.populate([
+      { path: 'createdBy', select: 'name email' },
+      { path: 'instructor', select: 'name email' }
+    ]);
 
     res.status(201).json({
       success: true,
@@ -210,10 +329,10 @@ router.post('/', [
 
 // @desc    Update course
 // @route   PUT /api/courses/:id
-// @access  Private (Admin)
+// @access  Private (courses:write)
 router.put('/:id', [
   protect,
-  admin,
+  requirePermission('courses:write'),
   body('name')
     .optional()
     .trim()
@@ -232,10 +351,9 @@ router.put('/:id', [
     .isLength({ max: 500 })
     .withMessage('Description cannot exceed 500 characters'),
   body('instructor')
-    .optional()
-    .trim()
-    .isLength({ max: 100 })
-    .withMessage('Instructor name cannot exceed 100 characters'),
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Instructor must be a valid user ID'),
   body('department')
     .optional()
     .trim()
@@ -245,6 +363,10 @@ router.put('/:id', [
     .optional()
     .isInt({ min: 1, max: 10 })
     .withMessage('Credits must be between 1 and 10'),
+  body('surveyTemplate')
+    .optional({ nullable: true, checkFalsy: true })
+    .isMongoId()
+    .withMessage('Survey template must be a valid template ID'),
   body('isActive')
     .optional()
     .isBoolean()
@@ -270,7 +392,7 @@ router.put('/:id', [
       });
     }
 
-    const { name, code, description, instructor, department, credits, isActive } = req.body;
+    const { name, code, description, instructor, department, credits, surveyTemplate, isActive } = req.body;
 
     // Check for duplicate name/code if changing them
     if (name || code) {
@@ -297,19 +419,51 @@ router.put('/:id', [
       }
     }
 
+    if (instructor) {
+      const instructorUser = await User.findOne({ ...instructorQuery(), _id: instructor });
+      if (!instructorUser) {
+        return res.status(400).json({
+          success: false,
+          message: 'Instructor not found'
+        });
+      }
+    }
+
+    if (surveyTemplate && !(await SurveyTemplate.exists({ _id: surveyTemplate }))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Survey template not found'
+      });
+    }
+
+    const before = AuditLog.snapshot(course, COURSE_AUDIT_FIELDS);
+
     // Update fields if provided
     if (name) course.name = name.trim();
     if (code) course.code = code.trim().toUpperCase();
     if (description !== undefined) course.description = description?.trim();
-    if (instructor !== undefined) course.instructor = instructor?.trim();
+    if (instructor !== undefined) course.instructor = instructor || null;
     if (department !== undefined) course.department = department?.trim();
     if (credits) course.credits = credits;
+    if (surveyTemplate !== undefined) course.surveyTemplate = surveyTemplate || null;
     if (isActive !== undefined) course.isActive = isActive;
 
     await course.save();
 
-    // Populate creator info
-    await course.populate('createdBy', 'name email');
+    await AuditLog.record(req, {
+      action: 'course.update',
+      targetType: 'course',
+      target: course,
+      targetLabel: course.code,
+      before,
+      after: AuditLog.snapshot(course, COURSE_AUDIT_FIELDS)
+    });
+
+    // Populate creator and instructor info
+    await course.populate([
+      { path: 'createdBy', select: 'name email' },
+      { path: 'instructor', select: 'name email' }
+    ]);
 
     res.status(200).json({
       success: true,
@@ -337,8 +491,8 @@ router.put('/:id', [
 
 // @desc    Delete course
 // @route   DELETE /api/courses/:id
-// @access  Private (Admin)
-router.delete('/:id', [protect, admin], async (req, res) => {
+// @access  Private (courses:write)
+router.delete('/:id', [protect, requirePermission('courses:write')], async (req, res) => {
   try {
     const course = await Course.findById(req.params.id);
 
@@ -361,6 +515,14 @@ router.delete('/:id', [protect, admin], async (req, res) => {
 
     await Course.findByIdAndDelete(req.params.id);
 
+    await AuditLog.record(req, {
+      action: 'course.delete',
+      targetType: 'course',
+      target: course,
+      targetLabel: course.code,
+      before: AuditLog.snapshot(course, COURSE_AUDIT_FIELDS)
+    });
+
     res.status(200).json({
       success: true,
       message: 'Course deleted successfully'
@@ -377,8 +539,8 @@ router.delete('/:id', [protect, admin], async (req, res) => {
 
 // @desc    Toggle course active status
 // @route   PATCH /api/courses/:id/toggle-active
-// @access  Private (Admin)
-router.patch('/:id/toggle-active', [protect, admin], async (req, res) => {
+// @access  Private (courses:write)
+router.patch('/:id/toggle-active', [protect, requirePermission('courses:write')], async (req, res) => {
   try {
     const course = await Course.findById(req.params.id);
 
@@ -392,6 +554,15 @@ router.patch('/:id/toggle-active', [protect, admin], async (req, res) => {
     course.isActive = !course.isActive;
     await course.save();
 
+    await AuditLog.record(req, {
+      action: course.isActive ? 'course.activate' : 'course.deactivate',
+      targetType: 'course',
+      target: course,
+      targetLabel: course.code,
+      before: { isActive: !course.isActive },
+      after: { isActive: course.isActive }
+    });
+
     res.status(200).json({
       success: true,
       message: `Course ${course.isActive ? 'activated' : 'deactivated'} successfully`,
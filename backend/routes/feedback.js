@@ -1,17 +1,71 @@
 const express = require('express');
-const { body, query, validationResult } = require('express-validator');
+const { body, param, query, validationResult } = require('express-validator');
 const Feedback = require('../models/Feedback');
+const FeedbackRevision = require('../models/FeedbackRevision');
+const FeedbackDraft = require('../models/FeedbackDraft');
 const Course = require('../models/Course');
-const { protect, student } = require('../middleware/auth');
+const SurveyTemplate = require('../models/SurveyTemplate');
+const Term = require('../models/Term');
+const AnonymousSigningKey = require('../models/AnonymousSigningKey');
+const AnonymousTokenIssue = require('../models/AnonymousTokenIssue');
+const SpentAnonymousToken = require('../models/SpentAnonymousToken');
+const AuditLog = require('../models/AuditLog');
+const { protect, requirePermission, verifiedEmail } = require('../middleware/auth');
+const { idempotent } = require('../middleware/idempotency');
+const anonymityConfig = require('../config/anonymity');
+const { screenText } = require('../utils/contentScreening');
+const { signBlinded, verifySignature } = require('../utils/blindSignature');
+const { statisticsFor } = require('../utils/statisticsPrivacy');
 
 const router = express.Router();
 
-// @desc    Submit feedback
-// @route   POST /api/feedback
-// @access  Private (Student)
-router.post('/', [
-  protect,
-  student,
+// Term fields shown with a feedback entry (enough to tell whether it can still be edited)
+const TERM_FIELDS = 'name feedbackOpensAt feedbackClosesAt';
+
+// A student's own feedback or drafts. An admin viewing the app as the student doesn't get the
+// anonymous ones, as staff must never learn who wrote anonymous feedback.
+const ownEntries = (req) => (req.impersonator
+  ? { student: req.user.id, isAnonymous: false }
+  : { student: req.user.id });
+
+// The text screened for abuse and personal information: the message and any free-text survey answers
+const getScreenedText = (message, answers, template) => {
+  const textQuestions = new Set((template?.questions || [])
+    .filter(question => question.type === 'text')
+    .map(question => question._id.toString()));
+
+  return [
+    message,
+    ...answers.filter(answer => textQuestions.has(answer.question.toString())).map(answer => answer.value)
+  ];
+};
+
+// Statistics are computed on feedback as it is now, or as first submitted (ignoring later edits)
+const STATISTICS_BASES = ['current', 'original'];
+
+// Receipts for unlinkable feedback are "<feedback id>.<secret>"
+const RECEIPT_PATTERN = /^[a-f0-9]{24}\.[a-f0-9]{64}$/;
+
+// Most receipts one lookup can include
+const RECEIPT_LOOKUP_LIMIT = 50;
+
+const RESPONSE_VISIBILITIES = Feedback.schema.path('responses').schema.path('visibility').enumValues;
+
+const sendUnlinkableDisabled = (res) => res.status(400).json({
+  success: false,
+  code: 'UNLINKABLE_FEEDBACK_DISABLED',
+  message: 'Unlinkable anonymous feedback is turned off'
+});
+
+// Feedback can only be given or changed while its term's feedback window is open
+const sendWindowClosed = (res, message) => res.status(400).json({
+  success: false,
+  code: 'FEEDBACK_WINDOW_CLOSED',
+  message
+});
+
+// Validation rules for the content of new feedback
+const submissionRules = [
   body('course')
     .isMongoId()
     .withMessage('Please provide a valid course ID'),
@@ -22,14 +76,165 @@ router.post('/', [
     .trim()
     .isLength({ min: 10, max: 1000 })
     .withMessage('Feedback message must be between 10 and 1000 characters'),
-  body('isAnonymous')
+  body('tags')
     .optional()
-    .isBoolean()
-    .withMessage('isAnonymous must be a boolean'),
+    .isArray()
+    .withMessage('Tags must be an array'),
+  body('answers')
+    .optional()
+    .isArray()
+    .withMessage('Answers must be an array')
+];
+
+// Validation rules for an edit, where every field is optional
+const editRules = [
+  body('rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5'),
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 1000 })
+    .withMessage('Feedback message must be between 10 and 1000 characters'),
   body('tags')
     .optional()
     .isArray()
-    .withMessage('Tags must be an array')
+    .withMessage('Tags must be an array'),
+  body('answers')
+    .optional()
+    .isArray()
+    .withMessage('Answers must be an array')
+];
+
+// Find the course feedback is being submitted for and the term that is open for it.
+// Sends the error response and resolves null when feedback can't be submitted now.
+const findSubmissionTarget = async (res, courseId) => {
+  // Check if course exists and is active
+  const course = await Course.findById(courseId);
+  if (!course) {
+    res.status(404).json({
+      success: false,
+      message: 'Course not found'
+    });
+    return null;
+  }
+
+  if (!course.isActive) {
+    res.status(400).json({
+      success: false,
+      message: 'Cannot submit feedback for inactive course'
+    });
+    return null;
+  }
+
+  const term = await Term.findOpen();
+  if (!term) {
+    sendWindowClosed(res, 'Feedback is not open for any term right now');
+    return null;
+  }
+
+  return { course, term };
+};
+
+// Check answers to the course's survey template against its questions.
+// Sends the error response and resolves null when an answer is invalid.
+const checkSurveyAnswers = async (res, course, answers) => {
+  const template = course.surveyTemplate ? await SurveyTemplate.findById(course.surveyTemplate) : null;
+  if (!template) {
+    return { template: null, answers: [] };
+  }
+
+  const result = template.checkAnswers(answers);
+  if (result.errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: result.errors
+    });
+    return null;
+  }
+
+  return { template, answers: result.answers };
+};
+
+// Find unlinkable feedback by the receipt its author was given.
+// Sends the error response and resolves null when no feedback matches it.
+const findByReceipt = async (res, receipt) => {
+  const [id, secret] = receipt.split('.');
+  const feedback = await Feedback.findById(id).select('+receiptHash');
+
+  if (!feedback || !feedback.matchesReceipt(secret)) {
+    res.status(404).json({
+      success: false,
+      message: 'No feedback matches this receipt'
+    });
+    return null;
+  }
+
+  return feedback;
+};
+
+// Apply a student's edit while the term's feedback window is open, keeping it as a new version.
+// Sends the error response and resolves false when the feedback can't be edited.
+const editFeedback = async (res, feedback, { rating, message, isAnonymous, tags, answers }) => {
+  const term = feedback.term ? await Term.findById(feedback.term) : null;
+  if (!term) {
+    sendWindowClosed(res, 'Feedback given before academic terms were introduced can no longer be edited');
+    return false;
+  }
+  if (!term.isFeedbackOpenAt(new Date())) {
+    sendWindowClosed(res, `The feedback window for ${term.name} is closed`);
+    return false;
+  }
+
+  // Edited answers are checked against the template the feedback was submitted with
+  const template = feedback.template ? await SurveyTemplate.findById(feedback.template) : null;
+  let checkedAnswers = null;
+  if (answers && template) {
+    const result = template.checkAnswers(answers);
+    if (result.errors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: result.errors
+      });
+      return false;
+    }
+    checkedAnswers = result.answers;
+  }
+
+  // Every edit is kept as a new version; feedback from before versions were kept gets its current state as version 1
+  await FeedbackRevision.recordOriginal(feedback);
+  feedback.startRevision();
+
+  // Update fields if provided
+  if (checkedAnswers) feedback.answers = checkedAnswers;
+  if (rating) feedback.rating = rating;
+  if (message) feedback.message = message;
+  if (isAnonymous !== undefined && !feedback.unlinkable) feedback.isAnonymous = isAnonymous;
+  if (tags) feedback.tags = tags;
+  feedback.resubmit();
+  feedback.applyScreening(await screenText(getScreenedText(feedback.message, feedback.answers, template)));
+
+  await feedback.save();
+  await FeedbackRevision.record(feedback, { createdAt: feedback.updatedAt });
+  return true;
+};
+
+// @desc    Submit feedback
+// @route   POST /api/feedback
+// @access  Private (feedback:submit, verified email)
+router.post('/', [
+  protect,
+  requirePermission('feedback:submit'),
+  verifiedEmail,
+  idempotent,
+  ...submissionRules,
+  body('isAnonymous')
+    .optional()
+    .isBoolean()
+    .withMessage('isAnonymous must be a boolean')
 ], async (req, res) => {
   try {
     // Check for validation errors
@@ -42,57 +247,71 @@ router.post('/', [
       });
     }
 
-    const { course, rating, message, isAnonymous, tags } = req.body;
-
-    // Check if course exists and is active
-    const courseDoc = await Course.findById(course);
-    if (!courseDoc) {
-      return res.status(404).json({
-        success: false,
-        message: 'Course not found'
-      });
-    }
+    const { course, rating, message, isAnonymous, tags, answers } = req.body;
 
-    if (!courseDoc.isActive) {
-      return res.status(400).json({
-        success: false,
-        message: 'Cannot submit feedback for inactive course'
-      });
-    }
+    const target = await findSubmissionTarget(res, course);
+    if (!target) return;
+    const { course: courseDoc, term } = target;
 
-    // Check if student has already submitted feedback for this course
+    // Check if student has already submitted feedback for this course this term
     const existingFeedback = await Feedback.findOne({
       student: req.user.id,
-      course: course
+      course: course,
+      term: term._id
     });
 
     if (existingFeedback) {
       return res.status(400).json({
         success: false,
-        message: 'You have already submitted feedback for this course'
+        message: `You have already submitted feedback for this course in ${term.name}`
+      });
+    }
+
+    // A student who took an unlinkable token chose to give this course's feedback that way
+    const tokenIssued = await AnonymousTokenIssue.exists({ student: req.user.id, course, term: term._id });
+    if (tokenIssued) {
+      return res.status(400).json({
+        success: false,
+        message: `You chose unlinkable anonymous feedback for this course in ${term.name}`
       });
     }
 
+    const survey = await checkSurveyAnswers(res, courseDoc, answers);
+    if (!survey) return;
+    const { template, answers: checkedAnswers } = survey;
+
     // Create feedback
-    const feedback = await Feedback.create({
+    const feedback = new Feedback({
       student: req.user.id,
       course,
+      term: term._id,
       rating,
       message,
+      template: template ? template._id : null,
+      answers: checkedAnswers,
       isAnonymous: isAnonymous || false,
       tags: tags || []
     });
 
+    feedback.applyScreening(await screenText(getScreenedText(feedback.message, feedback.answers, template)));
+    await feedback.save();
+    await FeedbackRevision.record(feedback, { createdAt: feedback.createdAt });
+    await FeedbackDraft.deleteOne({ student: req.user.id, course: courseDoc._id });
+
     // Populate course and student info for response
     await feedback.populate([
       { path: 'course', select: 'name code' },
-      { path: 'student', select: 'name email' }
+      { path: 'term', select: TERM_FIELDS },
+      { path: 'student', select: 'name email' },
+      { path: 'responses.author', select: 'name' }
     ]);
 
     res.status(201).json({
       success: true,
-      message: 'Feedback submitted successfully',
-      feedback
+      message: feedback.status === 'pending'
+        ? 'Feedback submitted and waiting for review'
+        : 'Feedback submitted successfully',
+      feedback: feedback.toStudentJSON()
     });
 
   } catch (error) {
@@ -102,7 +321,7 @@ router.post('/', [
     if (error.code === 11000) {
       return res.status(400).json({
         success: false,
-        message: 'You have already submitted feedback for this course'
+        message: 'You have already submitted feedback for this course this term'
       });
     }
 
@@ -115,10 +334,10 @@ router.post('/', [
 
 // @desc    Get user's feedback with pagination
 // @route   GET /api/feedback/my-feedback
-// @access  Private (Student)
+// @access  Private (feedback:submit)
 router.get('/my-feedback', [
   protect,
-  student,
+  requirePermission('feedback:submit'),
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -158,18 +377,24 @@ router.get('/my-feedback', [
     sort[sortBy] = sortOrder;
 
     // Get feedback with pagination
-    const feedback = await Feedback.find({ student: req.user.id })
-      .populate('course', 'name code instructor')
+    const feedback = await Feedback.find(ownEntries(req))
+      .populate({
+        path: 'course',
+        select: 'name code instructor',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('term', TERM_FIELDS)
+      .populate('responses.author', 'name')
       .sort(sort)
       .skip(skip)
       .limit(limit);
 
     // Get total count
-    const total = await Feedback.countDocuments({ student: req.user.id });
+    const total = await Feedback.countDocuments(ownEntries(req));
 
     res.status(200).json({
       success: true,
-      feedback,
+      feedback: feedback.map(item => item.toStudentJSON()),
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -187,37 +412,24 @@ router.get('/my-feedback', [
   }
 });
 
-// @desc    Get single feedback
-// @route   GET /api/feedback/:id
-// @access  Private
-router.get('/:id', protect, async (req, res) => {
+// @desc    Get the student's drafts for the open feedback window
+// @route   GET /api/feedback/drafts
+// @access  Private (feedback:submit)
+router.get('/drafts', [protect, requirePermission('feedback:submit')], async (req, res) => {
   try {
-    const feedback = await Feedback.findById(req.params.id)
-      .populate('course', 'name code instructor department')
-      .populate('student', 'name email');
-
-    if (!feedback) {
-      return res.status(404).json({
-        success: false,
-        message: 'Feedback not found'
-      });
-    }
-
-    // Check if user can view this feedback
-    if (req.user.role === 'student' && feedback.student._id.toString() !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        message: 'Not authorized to view this feedback'
-      });
-    }
+    // Expired drafts may not have been purged yet
+    const drafts = await FeedbackDraft.find({ ...ownEntries(req), expiresAt: { $gt: new Date() } })
+      .populate('course', 'name code')
+      .populate('term', TERM_FIELDS)
+      .sort({ updatedAt: -1 });
 
     res.status(200).json({
       success: true,
-      feedback
+      drafts
     });
 
   } catch (error) {
-    console.error('Get feedback error:', error);
+    console.error('Get feedback drafts error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -225,29 +437,42 @@ router.get('/:id', protect, async (req, res) => {
   }
 });
 
-// @desc    Update feedback
-// @route   PUT /api/feedback/:id
-// @access  Private (Student - own feedback only)
-router.put('/:id', [
+// @desc    Save a draft of feedback on a course, replacing the previous one
+// @route   PUT /api/feedback/drafts/:courseId
+// @access  Private (feedback:submit)
+router.put('/drafts/:courseId', [
   protect,
-  student,
+  requirePermission('feedback:submit'),
+  param('courseId')
+    .isMongoId()
+    .withMessage('Invalid course ID'),
   body('rating')
-    .optional()
+    .optional({ nullable: true })
     .isInt({ min: 1, max: 5 })
     .withMessage('Rating must be between 1 and 5'),
   body('message')
     .optional()
-    .trim()
-    .isLength({ min: 10, max: 1000 })
-    .withMessage('Feedback message must be between 10 and 1000 characters'),
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Feedback message cannot exceed 1000 characters'),
   body('isAnonymous')
     .optional()
     .isBoolean()
     .withMessage('isAnonymous must be a boolean'),
   body('tags')
     .optional()
-    .isArray()
-    .withMessage('Tags must be an array')
+    .isArray({ max: 20 })
+    .withMessage('Tags must be an array of at most 20'),
+  body('answers')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Answers must be an array of at most 100'),
+  body('answers.*.question')
+    .isMongoId()
+    .withMessage('Each answer needs a valid question ID'),
+  body('answers.*.value')
+    .custom(value => ['string', 'number', 'boolean'].includes(typeof value) && String(value).length <= 1000)
+    .withMessage('Each answer must be a short text, number or yes/no value')
 ], async (req, res) => {
   try {
     // Check for validation errors
@@ -260,47 +485,53 @@ router.put('/:id', [
       });
     }
 
-    const feedback = await Feedback.findById(req.params.id);
+    const target = await findSubmissionTarget(res, req.params.courseId);
+    if (!target) return;
+    const { course, term } = target;
 
-    if (!feedback) {
-      return res.status(404).json({
+    const submitted = await Feedback.exists({ student: req.user.id, course: course._id, term: term._id });
+    if (submitted) {
+      return res.status(400).json({
         success: false,
-        message: 'Feedback not found'
+        message: `You have already submitted feedback for this course in ${term.name}`
       });
     }
 
-    // Check if user owns this feedback
-    if (feedback.student.toString() !== req.user.id) {
-      return res.status(403).json({
+    // A draft kept with the account would link unlinkable feedback back to its author
+    const tokenIssued = await AnonymousTokenIssue.exists({ student: req.user.id, course: course._id, term: term._id });
+    if (tokenIssued) {
+      return res.status(400).json({
         success: false,
-        message: 'Not authorized to update this feedback'
+        message: `You chose unlinkable anonymous feedback for this course in ${term.name}`
       });
     }
 
-    const { rating, message, isAnonymous, tags } = req.body;
-
-    // Update fields if provided
-    if (rating) feedback.rating = rating;
-    if (message) feedback.message = message;
-    if (isAnonymous !== undefined) feedback.isAnonymous = isAnonymous;
-    if (tags) feedback.tags = tags;
-
-    await feedback.save();
+    const { rating, message, isAnonymous, tags, answers } = req.body;
 
-    // Populate for response
-    await feedback.populate([
-      { path: 'course', select: 'name code' },
-      { path: 'student', select: 'name email' }
-    ]);
+    const draft = await FeedbackDraft.saveFor(req.user.id, course, term, {
+      rating: rating || null,
+      message: message || '',
+      isAnonymous: isAnonymous || false,
+      tags: tags || [],
+      answers: (answers || []).map(answer => ({ question: answer.question, value: answer.value }))
+    });
 
     res.status(200).json({
       success: true,
-      message: 'Feedback updated successfully',
-      feedback
+      draft
     });
 
   } catch (error) {
-    console.error('Update feedback error:', error);
+    console.error('Save feedback draft error:', error);
+
+    // Two saves of a new draft raced each other
+    if (error.code === 11000) {
+      return res.status(409).json({
+        success: false,
+        message: 'The draft was saved at the same time from elsewhere; try again'
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -308,37 +539,89 @@ router.put('/:id', [
   }
 });
 
-// @desc    Delete feedback
-// @route   DELETE /api/feedback/:id
-// @access  Private (Student - own feedback only)
-router.delete('/:id', [protect, student], async (req, res) => {
+// @desc    Discard the student's draft for a course
+// @route   DELETE /api/feedback/drafts/:courseId
+// @access  Private (feedback:submit)
+router.delete('/drafts/:courseId', [
+  protect,
+  requirePermission('feedback:submit'),
+  param('courseId')
+    .isMongoId()
+    .withMessage('Invalid course ID')
+], async (req, res) => {
   try {
-    const feedback = await Feedback.findById(req.params.id);
-
-    if (!feedback) {
-      return res.status(404).json({
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        message: 'Feedback not found'
+        message: 'Validation failed',
+        errors: errors.array()
       });
     }
 
-    // Check if user owns this feedback
-    if (feedback.student.toString() !== req.user.id) {
-      return res.status(403).json({
+    await FeedbackDraft.deleteOne({ student: req.user.id, course: req.params.courseId });
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft discarded'
+    });
+
+  } catch (error) {
+    console.error('Delete feedback draft error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// Routes under /anonymous must come before /:id, which would otherwise match "anonymous" as an ID
+
+// @desc    Get the key that signs unlinkable feedback tokens for a course in the open term
+// @route   GET /api/feedback/anonymous/key/:courseId
+// @access  Private (feedback:submit)
+router.get('/anonymous/key/:courseId', [
+  protect,
+  requirePermission('feedback:submit'),
+  param('courseId')
+    .isMongoId()
+    .withMessage('Invalid course ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        message: 'Not authorized to delete this feedback'
+        message: 'Validation failed',
+        errors: errors.array()
       });
     }
 
-    await Feedback.findByIdAndDelete(req.params.id);
+    if (!anonymityConfig.enabled) {
+      return sendUnlinkableDisabled(res);
+    }
+
+    const target = await findSubmissionTarget(res, req.params.courseId);
+    if (!target) return;
+
+    const signingKey = await AnonymousSigningKey.findOrCreate(target.course._id, target.term._id);
+    const tokenIssued = await AnonymousTokenIssue.exists({
+      student: req.user.id,
+      course: target.course._id,
+      term: target.term._id
+    });
 
     res.status(200).json({
       success: true,
-      message: 'Feedback deleted successfully'
+      key: signingKey.toPublicJSON(),
+      term: { _id: target.term._id, name: target.term.name },
+      tokenIssued: Boolean(tokenIssued)
     });
 
   } catch (error) {
-    console.error('Delete feedback error:', error);
+    console.error('Get anonymous feedback key error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error'
@@ -346,23 +629,695 @@ router.delete('/:id', [protect, student], async (req, res) => {
   }
 });
 
-// @desc    Get feedback statistics for a course
-// @route   GET /api/feedback/course/:courseId/stats
-// @access  Private
-router.get('/course/:courseId/stats', protect, async (req, res) => {
+// @desc    Sign a blinded token for unlinkable feedback (one per student, course and term)
+// @route   POST /api/feedback/anonymous/tokens
+// @access  Private (feedback:submit, verified email)
+router.post('/anonymous/tokens', [
+  protect,
+  requirePermission('feedback:submit'),
+  verifiedEmail,
+  body('course')
+    .isMongoId()
+    .withMessage('Please provide a valid course ID'),
+  body('blinded')
+    .isString()
+    .matches(/^[a-f0-9]{1,2048}$/)
+    .withMessage('Blinded token must be a hex number')
+], async (req, res) => {
   try {
-    const { courseId } = req.params;
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
 
-    // Check if course exists
-    const course = await Course.findById(courseId);
-    if (!course) {
-      return res.status(404).json({
+    if (!anonymityConfig.enabled) {
+      return sendUnlinkableDisabled(res);
+    }
+
+    const target = await findSubmissionTarget(res, req.body.course);
+    if (!target) return;
+    const { course, term } = target;
+
+    const existingFeedback = await Feedback.exists({ student: req.user.id, course: course._id, term: term._id });
+    if (existingFeedback) {
+      return res.status(400).json({
         success: false,
-        message: 'Course not found'
+        message: `You have already submitted feedback for this course in ${term.name}`
+      });
+    }
+
+    const signingKey = await AnonymousSigningKey.findOrCreate(course._id, term._id);
+
+    let signature;
+    try {
+      signature = signBlinded(signingKey, req.body.blinded);
+    } catch (signError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Blinded token is not valid for this key'
+      });
+    }
+
+    // Only who received a token is recorded, never the token itself
+    await AnonymousTokenIssue.create({ student: req.user.id, course: course._id, term: term._id });
+    await FeedbackDraft.deleteOne({ student: req.user.id, course: course._id });
+
+    res.status(201).json({
+      success: true,
+      keyId: signingKey._id,
+      signature
+    });
+
+  } catch (error) {
+    console.error('Issue anonymous token error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        code: 'TOKEN_ALREADY_ISSUED',
+        message: 'You have already been given a token for this course this term'
       });
     }
 
-    const stats = await Feedback.getCourseStatistics(courseId);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Submit unlinkable feedback with a signed token instead of an account
+// @route   POST /api/feedback/anonymous
+// @access  Public (signed token)
+router.post('/anonymous', [
+  ...submissionRules,
+  body('token')
+    .isString()
+    .matches(/^[a-f0-9]{64}$/)
+    .withMessage('Token must be 32 bytes of hex'),
+  body('signature')
+    .isString()
+    .matches(/^[a-f0-9]{1,2048}$/)
+    .withMessage('Signature must be a hex number')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!anonymityConfig.enabled) {
+      return sendUnlinkableDisabled(res);
+    }
+
+    const { course, rating, message, tags, answers, token, signature } = req.body;
+
+    const target = await findSubmissionTarget(res, course);
+    if (!target) return;
+    const { course: courseDoc, term } = target;
+
+    const signingKey = await AnonymousSigningKey.findOne({ course: courseDoc._id, term: term._id });
+    if (!signingKey || !verifySignature(signingKey, `${signingKey._id}:${token}`, signature)) {
+      return res.status(403).json({
+        success: false,
+        code: 'INVALID_TOKEN',
+        message: 'This token was not issued for this course in the current term'
+      });
+    }
+
+    const survey = await checkSurveyAnswers(res, courseDoc, answers);
+    if (!survey) return;
+    const { template, answers: checkedAnswers } = survey;
+
+    try {
+      await SpentAnonymousToken.spend(token);
+    } catch (spendError) {
+      if (spendError.code === 11000) {
+        return res.status(400).json({
+          success: false,
+          code: 'TOKEN_USED',
+          message: 'This token has already been used'
+        });
+      }
+      throw spendError;
+    }
+
+    const feedback = new Feedback({
+      course: courseDoc._id,
+      term: term._id,
+      rating,
+      message,
+      template: template ? template._id : null,
+      answers: checkedAnswers,
+      isAnonymous: true,
+      unlinkable: true,
+      tags: tags || []
+    });
+    const receipt = `${feedback._id}.${feedback.createReceipt()}`;
+
+    feedback.applyScreening(await screenText(getScreenedText(feedback.message, feedback.answers, template)));
+    try {
+      await feedback.save();
+    } catch (saveError) {
+      // Give the token back so the student can try again
+      await SpentAnonymousToken.deleteOne({ _id: SpentAnonymousToken.hashToken(token) });
+      throw saveError;
+    }
+    await FeedbackRevision.record(feedback, { createdAt: feedback.createdAt });
+
+    await feedback.populate([
+      { path: 'course', select: 'name code' },
+      { path: 'term', select: TERM_FIELDS }
+    ]);
+
+    res.status(201).json({
+      success: true,
+      message: feedback.status === 'pending'
+        ? 'Feedback submitted and waiting for review'
+        : 'Feedback submitted successfully',
+      feedback: feedback.toStudentJSON(),
+      receipt
+    });
+
+  } catch (error) {
+    console.error('Submit anonymous feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get unlinkable feedback by the receipts kept on the author's device
+// @route   POST /api/feedback/anonymous/lookup
+// @access  Public (receipts)
+router.post('/anonymous/lookup', [
+  body('receipts')
+    .isArray({ min: 1, max: RECEIPT_LOOKUP_LIMIT })
+    .withMessage(`Receipts must be a list of 1 to ${RECEIPT_LOOKUP_LIMIT}`),
+  body('receipts.*')
+    .matches(RECEIPT_PATTERN)
+    .withMessage('Invalid receipt')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const secrets = new Map(req.body.receipts.map(receipt => receipt.split('.')));
+
+    const candidates = await Feedback.find({ _id: { $in: [...secrets.keys()] }, unlinkable: true })
+      .select('+receiptHash')
+      .populate({
+        path: 'course',
+        select: 'name code instructor',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('term', TERM_FIELDS)
+      .populate('responses.author', 'name')
+      .sort({ createdAt: -1 });
+
+    // Receipts that no longer match (e.g. the feedback was deleted) are simply left out
+    const feedback = candidates.filter(item => item.matchesReceipt(secrets.get(item._id.toString())));
+
+    res.status(200).json({
+      success: true,
+      feedback: feedback.map(item => item.toStudentJSON())
+    });
+
+  } catch (error) {
+    console.error('Look up anonymous feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update unlinkable feedback
+// @route   PUT /api/feedback/anonymous
+// @access  Public (receipt)
+router.put('/anonymous', [
+  body('receipt')
+    .matches(RECEIPT_PATTERN)
+    .withMessage('Invalid receipt'),
+  ...editRules
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await findByReceipt(res, req.body.receipt);
+    if (!feedback) return;
+
+    const edited = await editFeedback(res, feedback, req.body);
+    if (!edited) return;
+
+    await feedback.populate([
+      { path: 'course', select: 'name code' },
+      { path: 'term', select: TERM_FIELDS },
+      { path: 'responses.author', select: 'name' }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: feedback.status === 'pending'
+        ? 'Feedback updated and sent for review'
+        : 'Feedback updated successfully',
+      feedback: feedback.toStudentJSON()
+    });
+
+  } catch (error) {
+    console.error('Update anonymous feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete unlinkable feedback
+// @route   DELETE /api/feedback/anonymous
+// @access  Public (receipt)
+router.delete('/anonymous', [
+  body('receipt')
+    .matches(RECEIPT_PATTERN)
+    .withMessage('Invalid receipt')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await findByReceipt(res, req.body.receipt);
+    if (!feedback) return;
+
+    // The token stays spent, so the same student can't submit again
+    await Feedback.findByIdAndDelete(feedback._id);
+    await FeedbackRevision.removeForFeedback(feedback._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Feedback deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete anonymous feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Mark the replies to unlinkable feedback as read
+// @route   PATCH /api/feedback/anonymous/responses/read
+// @access  Public (receipt)
+router.patch('/anonymous/responses/read', [
+  body('receipt')
+    .matches(RECEIPT_PATTERN)
+    .withMessage('Invalid receipt')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await findByReceipt(res, req.body.receipt);
+    if (!feedback) return;
+
+    feedback.markResponsesRead();
+    await feedback.save({ timestamps: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'Replies marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark anonymous responses read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get single feedback
+// @route   GET /api/feedback/:id
+// @access  Private
+router.get('/:id', protect, async (req, res) => {
+  try {
+    const feedback = await Feedback.findById(req.params.id)
+      .populate({
+        path: 'course',
+        select: 'name code instructor department',
+        populate: { path: 'instructor', select: 'name' }
+      })
+      .populate('term', TERM_FIELDS)
+      .populate('student', 'name email')
+      .populate('responses.author', 'name');
+
+    // Check if user can view this feedback
+    const isAuthor = feedback?.student?._id.toString() === req.user.id;
+
+    // Looks missing to an admin viewing as its anonymous author
+    if (!feedback || (isAuthor && req.impersonator && feedback.isAnonymous)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+    if (!req.user.hasPermission('feedback:read') && !isAuthor) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this feedback'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      feedback: isAuthor ? feedback.toStudentJSON() : feedback.toStaffJSON()
+    });
+
+  } catch (error) {
+    console.error('Get feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update feedback
+// @route   PUT /api/feedback/:id
+// @access  Private (feedback:submit - own feedback only)
+router.put('/:id', [
+  protect,
+  requirePermission('feedback:submit'),
+  ...editRules,
+  body('isAnonymous')
+    .optional()
+    .isBoolean()
+    .withMessage('isAnonymous must be a boolean')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await Feedback.findById(req.params.id);
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    // Check if user owns this feedback
+    if (feedback.student?.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this feedback'
+      });
+    }
+
+    const edited = await editFeedback(res, feedback, req.body);
+    if (!edited) return;
+
+    // Populate for response
+    await feedback.populate([
+      { path: 'course', select: 'name code' },
+      { path: 'term', select: TERM_FIELDS },
+      { path: 'student', select: 'name email' },
+      { path: 'responses.author', select: 'name' }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: feedback.status === 'pending'
+        ? 'Feedback updated and sent for review'
+        : 'Feedback updated successfully',
+      feedback: feedback.toStudentJSON()
+    });
+
+  } catch (error) {
+    console.error('Update feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete feedback
+// @route   DELETE /api/feedback/:id
+// @access  Private (feedback:submit - own feedback only)
+router.delete('/:id', [protect, requirePermission('feedback:submit')], async (req, res) => {
+  try {
+    const feedback = await Feedback.findById(req.params.id);
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    // Check if user owns this feedback
+    if (feedback.student?.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this feedback'
+      });
+    }
+
+    await Feedback.findByIdAndDelete(req.params.id);
+    await FeedbackRevision.removeForFeedback(feedback._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Feedback deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Reply to feedback
+// @route   POST /api/feedback/:id/responses
+// @access  Private (feedback:respond, or courses:teach for own courses)
+router.post('/:id/responses', [
+  protect,
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid feedback ID'),
+  body('message')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Reply must be between 1 and 1000 characters'),
+  body('visibility')
+    .optional()
+    .isIn(RESPONSE_VISIBILITIES)
+    .withMessage(`Visibility must be one of: ${RESPONSE_VISIBILITIES.join(', ')}`)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const feedback = await Feedback.findById(req.params.id).populate('course', 'code instructor');
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    // Instructors reply to the published feedback on the courses they teach, as they see it
+    const teachesCourse = req.user.hasPermission('courses:teach') && feedback.course?.isTaughtBy(req.user) &&
+      feedback.status === 'approved';
+
+    if (!req.user.hasPermission('feedback:respond') && !teachesCourse) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to reply to this feedback'
+      });
+    }
+
+    const response = feedback.addResponse(req.user, teachesCourse ? 'instructor' : 'admin', {
+      message: req.body.message,
+      visibility: req.body.visibility || 'public'
+    });
+
+    // A reply is not an edit of the feedback itself
+    await feedback.save({ timestamps: false });
+    await feedback.populate('responses.author', 'name');
+
+    await AuditLog.record(req, {
+      action: 'feedback.respond',
+      targetType: 'feedback',
+      target: feedback,
+      targetLabel: feedback.course ? `Feedback on ${feedback.course.code}` : 'Feedback on a deleted course',
+      metadata: { responseId: response._id, authorRole: response.authorRole, visibility: response.visibility }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: response.visibility === 'public' ? 'Reply sent to the student' : 'Private note added',
+      response: feedback.responses.id(response._id)
+    });
+
+  } catch (error) {
+    console.error('Respond to feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Mark the replies to own feedback as read
+// @route   PATCH /api/feedback/:id/responses/read
+// @access  Private (feedback:submit - own feedback only)
+router.patch('/:id/responses/read', [protect, requirePermission('feedback:submit')], async (req, res) => {
+  try {
+    const feedback = await Feedback.findById(req.params.id);
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        message: 'Feedback not found'
+      });
+    }
+
+    // Check if user owns this feedback
+    if (feedback.student?.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this feedback'
+      });
+    }
+
+    feedback.markResponsesRead();
+    await feedback.save({ timestamps: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'Replies marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark responses read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get feedback statistics for a course
+// @route   GET /api/feedback/course/:courseId/stats
+// @access  Private (feedback:read, or courses:teach for own courses)
+router.get('/course/:courseId/stats', [
+  protect,
+  query('basis')
+    .optional()
+    .isIn(STATISTICS_BASES)
+    .withMessage(`Basis must be one of: ${STATISTICS_BASES.join(', ')}`)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { courseId } = req.params;
+
+    // Check if course exists
+    const course = await Course.findById(courseId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    // Instructors may only see statistics for the courses they teach
+    const canViewStats = req.user.hasPermission('feedback:read') ||
+      (req.user.hasPermission('courses:teach') && course.isTaughtBy(req.user));
+
+    if (!canViewStats) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. You can only view statistics for your own courses.'
+      });
+    }
+
+    const stats = await Feedback.getCourseStatistics(courseId, {
+      surveyTemplate: course.surveyTemplate,
+      basis: req.query.basis
+    });
 
     res.status(200).json({
       success: true,
@@ -371,7 +1326,7 @@ router.get('/course/:courseId/stats', protect, async (req, res) => {
         name: course.name,
         code: course.code
       },
-      stats
+      stats: statisticsFor(req.user, stats)
     });
 
   } catch (error) {
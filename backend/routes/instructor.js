@@ -0,0 +1,154 @@
+const express = require('express');
+const { param, query, validationResult } = require('express-validator');
+const Course = require('../models/Course');
+const Feedback = require('../models/Feedback');
+const { protect, requirePermission } = require('../middleware/auth');
+const statisticsConfig = require('../config/statistics');
+const { canSeeExactStatistics, isBelowMinimum, statisticsFor } = require('../utils/statisticsPrivacy');
+
+const router = express.Router();
+
+// Statistics are computed on feedback as it is now, or as first submitted (ignoring later edits)
+const STATISTICS_BASES = ['current', 'original'];
+
+// Fields instructors may see on a feedback entry. Student identity is never included,
+// whether or not the student chose to submit anonymously.
+const ANONYMIZED_FEEDBACK_FIELDS = 'rating message tags template answers responses createdAt';
+
+// @desc    Get the courses taught by the current user with feedback statistics
+// @route   GET /api/instructor/courses
+// @access  Private (courses:teach)
+router.get('/courses', [
+  protect,
+  requirePermission('courses:teach'),
+  query('basis')
+    .optional()
+    .isIn(STATISTICS_BASES)
+    .withMessage(`Basis must be one of: ${STATISTICS_BASES.join(', ')}`)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const courses = await Course.find({ instructor: req.user.id }).sort({ name: 1 });
+
+    const coursesWithStats = await Promise.all(
+      courses.map(async (course) => ({
+        ...course.toJSON(),
+        statistics: statisticsFor(req.user, await Feedback.getCourseStatistics(course._id, {
+          surveyTemplate: course.surveyTemplate,
+          basis: req.query.basis
+        }))
+      }))
+    );
+
+    res.status(200).json({
+      success: true,
+      count: coursesWithStats.length,
+      courses: coursesWithStats
+    });
+
+  } catch (error) {
+    console.error('Get instructor courses error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get anonymized feedback for a course taught by the current user
+// @route   GET /api/instructor/courses/:id/feedback
+// @access  Private (courses:teach)
+router.get('/courses/:id/feedback', [
+  protect,
+  requirePermission('courses:teach'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid course ID'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const course = await Course.findById(req.params.id);
+    if (!course || !course.isTaughtBy(req.user)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 10;
+    const skip = (page - 1) * limit;
+
+    const feedbackQuery = { course: course._id, status: 'approved' };
+    const total = await Feedback.countDocuments(feedbackQuery);
+
+    // With only a few responses, the comments could be matched to the students who wrote them
+    if (isBelowMinimum(total) && !canSeeExactStatistics(req.user)) {
+      return res.status(200).json({
+        success: true,
+        feedback: [],
+        suppressed: true,
+        minResponses: statisticsConfig.minResponses,
+        pagination: {
+          currentPage: page,
+          totalPages: 0,
+          totalItems: total,
+          itemsPerPage: limit
+        }
+      });
+    }
+
+    const feedback = await Feedback.find(feedbackQuery)
+      .select(ANONYMIZED_FEEDBACK_FIELDS)
+      .populate('responses.author', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    res.status(200).json({
+      success: true,
+      feedback,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total,
+        itemsPerPage: limit
+      }
+    });
+
+  } catch (error) {
+    console.error('Get instructor course feedback error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,208 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const ScreeningWord = require('../models/ScreeningWord');
+const AuditLog = require('../models/AuditLog');
+const { protect, requirePermission } = require('../middleware/auth');
+const screeningConfig = require('../config/screening');
+const { screenText } = require('../utils/contentScreening');
+
+const router = express.Router();
+
+const CATEGORIES = ScreeningWord.schema.path('category').enumValues;
+
+// @desc    Get the screening word list and settings
+// @route   GET /api/screening/words
+// @access  Private (screening:manage)
+router.get('/words', [protect, requirePermission('screening:manage')], async (req, res) => {
+  try {
+    const words = await ScreeningWord.find()
+      .populate('createdBy', 'name')
+      .sort({ category: 1, word: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: words.length,
+      words,
+      settings: {
+        enabled: screeningConfig.enabled,
+        threshold: screeningConfig.threshold,
+        weights: screeningConfig.weights
+      }
+    });
+
+  } catch (error) {
+    console.error('Get screening words error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Add a word or phrase to the screening word list
+// @route   POST /api/screening/words
+// @access  Private (screening:manage)
+router.post('/words', [
+  protect,
+  requirePermission('screening:manage'),
+  body('word')
+    .trim()
+    .toLowerCase()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Word must be between 2 and 50 characters'),
+  body('category')
+    .isIn(CATEGORIES)
+    .withMessage(`Category must be one of: ${CATEGORIES.join(', ')}`)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { word, category } = req.body;
+
+    const existingWord = await ScreeningWord.findOne({ word });
+    if (existingWord) {
+      return res.status(400).json({
+        success: false,
+        message: `"${word}" is already on the word list`
+      });
+    }
+
+    const screeningWord = await ScreeningWord.create({
+      word,
+      category,
+      createdBy: req.user.id
+    });
+
+    await AuditLog.record(req, {
+      action: 'wordlist.add',
+      targetType: 'wordlist',
+      target: screeningWord,
+      targetLabel: screeningWord.word,
+      after: AuditLog.snapshot(screeningWord, ['word', 'category'])
+    });
+
+    await screeningWord.populate('createdBy', 'name');
+
+    res.status(201).json({
+      success: true,
+      message: 'Word added to the list',
+      word: screeningWord
+    });
+
+  } catch (error) {
+    console.error('Add screening word error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'This word is already on the word list'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Remove a word or phrase from the screening word list
+// @route   DELETE /api/screening/words/:id
+// @access  Private (screening:manage)
+router.delete('/words/:id', [
+  protect,
+  requirePermission('screening:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid word ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const screeningWord = await ScreeningWord.findByIdAndDelete(req.params.id);
+
+    if (!screeningWord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Word not found'
+      });
+    }
+
+    await AuditLog.record(req, {
+      action: 'wordlist.remove',
+      targetType: 'wordlist',
+      target: screeningWord,
+      targetLabel: screeningWord.word,
+      before: AuditLog.snapshot(screeningWord, ['word', 'category'])
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Word removed from the list'
+    });
+
+  } catch (error) {
+    console.error('Remove screening word error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Try the screening pipeline on some text without saving anything
+// @route   POST /api/screening/check
+// @access  Private (screening:manage)
+router.post('/check', [
+  protect,
+  requirePermission('screening:manage'),
+  body('text')
+    .isString()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Text must be between 1 and 2000 characters')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const result = await screenText([req.body.text]);
+
+    res.status(200).json({
+      success: true,
+      result
+    });
+
+  } catch (error) {
+    console.error('Check screening error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+module.exports = router;
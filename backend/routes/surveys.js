@@ -0,0 +1,404 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const SurveyTemplate = require('../models/SurveyTemplate');
+const Course = require('../models/Course');
+const Feedback = require('../models/Feedback');
+const AuditLog = require('../models/AuditLog');
+const { protect, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+const QUESTION_TYPES = SurveyTemplate.schema.path('questions').schema.path('type').enumValues;
+
+// Survey template fields captured in the audit log
+const SURVEY_AUDIT_FIELDS = ['name', 'description', 'questions'];
+
+// Check the settings that depend on a question's type
+const checkQuestionSettings = (question) => {
+  if (!question || typeof question !== 'object') {
+    throw new Error('Each question must be an object');
+  }
+
+  if (question.type === 'multiple-choice') {
+    const options = Array.isArray(question.options) ? question.options : [];
+    if (options.length < 2 || options.length > 10) {
+      throw new Error('Multiple-choice questions need between 2 and 10 options');
+    }
+    if (options.some(option => typeof option !== 'string' || !option.trim() || option.trim().length > 100)) {
+      throw new Error('Options must be between 1 and 100 characters');
+    }
+    const distinct = new Set(options.map(option => option.trim().toLowerCase()));
+    if (distinct.size !== options.length) {
+      throw new Error('Options of a question must be different from each other');
+    }
+  }
+
+  if (question.type === 'numeric') {
+    const min = Number(question.min);
+    const max = Number(question.max);
+    if (question.min === undefined || question.max === undefined || !Number.isFinite(min) || !Number.isFinite(max)) {
+      throw new Error('Numeric questions need a minimum and a maximum');
+    }
+    if (min >= max) {
+      throw new Error('The minimum of a numeric question must be less than its maximum');
+    }
+  }
+
+  if (question.type === 'text' && question.maxLength !== undefined && question.maxLength !== null) {
+    const maxLength = Number(question.maxLength);
+    if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > 2000) {
+      throw new Error('Maximum answer length must be between 1 and 2000');
+    }
+  }
+
+  return true;
+};
+
+// Keep only the settings that apply to each question's type
+const buildQuestion = (question) => {
+  const built = {
+    text: question.text.trim(),
+    type: question.type,
+    required: question.required !== false
+  };
+
+  if (question.type === 'multiple-choice') built.options = question.options.map(option => option.trim());
+  if (question.type === 'numeric') {
+    built.min = Number(question.min);
+    built.max = Number(question.max);
+  }
+  if (question.type === 'text' && question.maxLength) built.maxLength = Number(question.maxLength);
+
+  return built;
+};
+
+const questionRules = (optional) => [
+  (optional ? body('questions').optional() : body('questions'))
+    .isArray({ min: 1, max: 30 })
+    .withMessage('A template must have between 1 and 30 questions'),
+  body('questions.*.text')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 300 })
+    .withMessage('Question text must be between 1 and 300 characters'),
+  body('questions.*.type')
+    .isIn(QUESTION_TYPES)
+    .withMessage(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`),
+  body('questions.*.required')
+    .optional()
+    .isBoolean()
+    .withMessage('required must be a boolean'),
+  body('questions.*')
+    .custom(checkQuestionSettings)
+];
+
+// Count the courses using and the responses given to each template
+const getUsage = async (templateIds) => {
+  const [courseCounts, responseCounts] = await Promise.all([
+    Course.aggregate([
+      { $match: { surveyTemplate: { $in: templateIds } } },
+      { $group: { _id: '$surveyTemplate', count: { $sum: 1 } } }
+    ]),
+    Feedback.aggregate([
+      { $match: { template: { $in: templateIds } } },
+      { $group: { _id: '$template', count: { $sum: 1 } } }
+    ])
+  ]);
+
+  const toMap = counts => new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+  return { courses: toMap(courseCounts), responses: toMap(responseCounts) };
+};
+
+const withUsage = (template, usage) => ({
+  ...template.toJSON(),
+  courseCount: usage.courses.get(template._id.toString()) || 0,
+  responseCount: usage.responses.get(template._id.toString()) || 0
+});
+
+// @desc    Get all survey templates with how much they are used
+// @route   GET /api/surveys
+// @access  Private (surveys:manage)
+router.get('/', [protect, requirePermission('surveys:manage')], async (req, res) => {
+  try {
+    const templates = await SurveyTemplate.find()
+      .populate('createdBy', 'name email')
+      .sort({ name: 1 });
+
+    const usage = await getUsage(templates.map(template => template._id));
+
+    res.status(200).json({
+      success: true,
+      count: templates.length,
+      templates: templates.map(template => withUsage(template, usage))
+    });
+
+  } catch (error) {
+    console.error('Get survey templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create survey template
+// @route   POST /api/surveys
+// @access  Private (surveys:manage)
+router.post('/', [
+  protect,
+  requirePermission('surveys:manage'),
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Template name must be between 2 and 100 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  ...questionRules(false)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name, description, questions } = req.body;
+
+    const existingTemplate = await SurveyTemplate.findOne({ name: name.trim() });
+    if (existingTemplate) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists'
+      });
+    }
+
+    const template = await SurveyTemplate.create({
+      name: name.trim(),
+      description: description?.trim(),
+      questions: questions.map(buildQuestion),
+      createdBy: req.user.id
+    });
+
+    await AuditLog.record(req, {
+      action: 'survey.create',
+      targetType: 'survey',
+      target: template,
+      targetLabel: template.name,
+      after: AuditLog.snapshot(template, SURVEY_AUDIT_FIELDS)
+    });
+
+    await template.populate('createdBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: 'Survey template created successfully',
+      template: { ...template.toJSON(), courseCount: 0, responseCount: 0 }
+    });
+
+  } catch (error) {
+    console.error('Create survey template error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update survey template (questions are locked once it has responses)
+// @route   PUT /api/surveys/:id
+// @access  Private (surveys:manage)
+router.put('/:id', [
+  protect,
+  requirePermission('surveys:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid template ID'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Template name must be between 2 and 100 characters'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  ...questionRules(true)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const template = await SurveyTemplate.findById(req.params.id);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Survey template not found'
+      });
+    }
+
+    const { name, description, questions } = req.body;
+
+    if (name && name.trim() !== template.name) {
+      const existingTemplate = await SurveyTemplate.findOne({ _id: { $ne: template._id }, name: name.trim() });
+      if (existingTemplate) {
+        return res.status(400).json({
+          success: false,
+          message: 'A template with this name already exists'
+        });
+      }
+    }
+
+    // Changing the questions would orphan the answers already given
+    const usage = await getUsage([template._id]);
+    if (questions && usage.responses.get(template._id.toString())) {
+      return res.status(400).json({
+        success: false,
+        code: 'TEMPLATE_IN_USE',
+        message: 'This template already has responses, so its questions can no longer be changed. Create a new template instead.'
+      });
+    }
+
+    const before = AuditLog.snapshot(template, SURVEY_AUDIT_FIELDS);
+
+    // Update fields if provided
+    if (name) template.name = name.trim();
+    if (description !== undefined) template.description = description?.trim();
+    if (questions) template.questions = questions.map(buildQuestion);
+
+    await template.save();
+
+    await AuditLog.record(req, {
+      action: 'survey.update',
+      targetType: 'survey',
+      target: template,
+      targetLabel: template.name,
+      before,
+      after: AuditLog.snapshot(template, SURVEY_AUDIT_FIELDS)
+    });
+
+    await template.populate('createdBy', 'name email');
+
+    res.status(200).json({
+      success: true,
+      message: 'Survey template updated successfully',
+      template: withUsage(template, usage)
+    });
+
+  } catch (error) {
+    console.error('Update survey template error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete survey template
+// @route   DELETE /api/surveys/:id
+// @access  Private (surveys:manage)
+router.delete('/:id', [
+  protect,
+  requirePermission('surveys:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid template ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const template = await SurveyTemplate.findById(req.params.id);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Survey template not found'
+      });
+    }
+
+    const usage = await getUsage([template._id]);
+    const responseCount = usage.responses.get(template._id.toString()) || 0;
+    const courseCount = usage.courses.get(template._id.toString()) || 0;
+
+    if (responseCount > 0) {
+      return res.status(400).json({
+        success: false,
+        code: 'TEMPLATE_IN_USE',
+        message: `Cannot delete template. It has ${responseCount} responses.`
+      });
+    }
+
+    if (courseCount > 0) {
+      return res.status(400).json({
+        success: false,
+        code: 'TEMPLATE_IN_USE',
+        message: `Cannot delete template. It is used by ${courseCount} course${courseCount !== 1 ? 's' : ''}.`
+      });
+    }
+
+    await SurveyTemplate.findByIdAndDelete(template._id);
+
+    await AuditLog.record(req, {
+      action: 'survey.delete',
+      targetType: 'survey',
+      target: template,
+      targetLabel: template.name,
+      before: AuditLog.snapshot(template, SURVEY_AUDIT_FIELDS)
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Survey template deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete survey template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,353 @@
+const express = require('express');
+const { body, param, validationResult } = require('express-validator');
+const Term = require('../models/Term');
+const Feedback = require('../models/Feedback');
+const FeedbackDraft = require('../models/FeedbackDraft');
+const AuditLog = require('../models/AuditLog');
+const { protect, requirePermission } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Term fields captured in the audit log
+const TERM_AUDIT_FIELDS = ['name', 'startDate', 'endDate', 'feedbackOpensAt', 'feedbackClosesAt'];
+
+const DATE_FIELDS = {
+  startDate: 'Term start date',
+  endDate: 'Term end date',
+  feedbackOpensAt: 'Feedback opening date',
+  feedbackClosesAt: 'Feedback closing date'
+};
+
+const termRules = (optional) => [
+  (optional ? body('name').optional() : body('name'))
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Term name must be between 2 and 50 characters'),
+  ...Object.entries(DATE_FIELDS).map(([field, label]) =>
+    (optional ? body(field).optional() : body(field))
+      .isISO8601()
+      .withMessage(`${label} must be a valid date`))
+];
+
+// Check date order and that the feedback window doesn't overlap another term's,
+// so there is never more than one term open for feedback
+const checkTermDates = async ({ startDate, endDate, feedbackOpensAt, feedbackClosesAt }, excludeId = null) => {
+  if (endDate <= startDate) {
+    return { message: 'Term end date must be after its start date' };
+  }
+  if (feedbackClosesAt <= feedbackOpensAt) {
+    return { message: 'Feedback must close after it opens' };
+  }
+
+  const overlapping = await Term.findOverlapping(feedbackOpensAt, feedbackClosesAt, excludeId);
+  if (overlapping.length > 0) {
+    return {
+      code: 'TERM_WINDOW_OVERLAP',
+      message: `The feedback window overlaps the one for ${overlapping.map(term => term.name).join(', ')}`
+    };
+  }
+
+  return null;
+};
+
+// Count the feedback given in each term
+const getFeedbackCounts = async (termIds) => {
+  const counts = await Feedback.aggregate([
+    { $match: { term: { $in: termIds } } },
+    { $group: { _id: '$term', count: { $sum: 1 } } }
+  ]);
+  return new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+};
+
+// @desc    Get all terms
+// @route   GET /api/terms
+// @access  Private
+router.get('/', protect, async (req, res) => {
+  try {
+    const terms = await Term.find().sort({ startDate: -1 });
+    const feedbackCounts = await getFeedbackCounts(terms.map(term => term._id));
+
+    res.status(200).json({
+      success: true,
+      count: terms.length,
+      terms: terms.map(term => ({
+        ...term.toJSON(),
+        feedbackCount: feedbackCounts.get(term._id.toString()) || 0
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get terms error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get the term open for feedback now and the next one to open
+// @route   GET /api/terms/current
+// @access  Private
+router.get('/current', protect, async (req, res) => {
+  try {
+    const now = new Date();
+    const [term, nextTerm] = await Promise.all([Term.findOpen(now), Term.findNext(now)]);
+
+    res.status(200).json({
+      success: true,
+      term,
+      nextTerm,
+      serverTime: now
+    });
+
+  } catch (error) {
+    console.error('Get current term error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create term
+// @route   POST /api/terms
+// @access  Private (terms:manage)
+router.post('/', [
+  protect,
+  requirePermission('terms:manage'),
+  ...termRules(false)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const name = req.body.name.trim();
+    const dates = Object.fromEntries(Object.keys(DATE_FIELDS).map(field => [field, new Date(req.body[field])]));
+
+    const existingTerm = await Term.findOne({ name });
+    if (existingTerm) {
+      return res.status(400).json({
+        success: false,
+        message: 'A term with this name already exists'
+      });
+    }
+
+    const dateProblem = await checkTermDates(dates);
+    if (dateProblem) {
+      return res.status(400).json({
+        success: false,
+        ...dateProblem
+      });
+    }
+
+    const term = await Term.create({
+      name,
+      ...dates,
+      createdBy: req.user.id
+    });
+
+    await AuditLog.record(req, {
+      action: 'term.create',
+      targetType: 'term',
+      target: term,
+      targetLabel: term.name,
+      after: AuditLog.snapshot(term, TERM_AUDIT_FIELDS)
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Term created successfully',
+      term: { ...term.toJSON(), feedbackCount: 0 }
+    });
+
+  } catch (error) {
+    console.error('Create term error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'A term with this name already exists'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update term
+// @route   PUT /api/terms/:id
+// @access  Private (terms:manage)
+router.put('/:id', [
+  protect,
+  requirePermission('terms:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid term ID'),
+  ...termRules(true)
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const term = await Term.findById(req.params.id);
+
+    if (!term) {
+      return res.status(404).json({
+        success: false,
+        message: 'Term not found'
+      });
+    }
+
+    const name = req.body.name?.trim();
+    if (name && name !== term.name) {
+      const existingTerm = await Term.findOne({ _id: { $ne: term._id }, name });
+      if (existingTerm) {
+        return res.status(400).json({
+          success: false,
+          message: 'A term with this name already exists'
+        });
+      }
+    }
+
+    const dates = Object.fromEntries(Object.keys(DATE_FIELDS).map(field => [
+      field,
+      req.body[field] !== undefined ? new Date(req.body[field]) : term[field]
+    ]));
+
+    const dateProblem = await checkTermDates(dates, term._id);
+    if (dateProblem) {
+      return res.status(400).json({
+        success: false,
+        ...dateProblem
+      });
+    }
+
+    const before = AuditLog.snapshot(term, TERM_AUDIT_FIELDS);
+
+    // Update fields if provided
+    if (name) term.name = name;
+    Object.assign(term, dates);
+
+    await term.save();
+
+    // Drafts are purged when the feedback window closes, wherever it has moved to
+    await FeedbackDraft.rescheduleForTerm(term);
+
+    await AuditLog.record(req, {
+      action: 'term.update',
+      targetType: 'term',
+      target: term,
+      targetLabel: term.name,
+      before,
+      after: AuditLog.snapshot(term, TERM_AUDIT_FIELDS)
+    });
+
+    const feedbackCounts = await getFeedbackCounts([term._id]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Term updated successfully',
+      term: { ...term.toJSON(), feedbackCount: feedbackCounts.get(term._id.toString()) || 0 }
+    });
+
+  } catch (error) {
+    console.error('Update term error:', error);
+
+    // Handle duplicate key error
+    if (error.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'A term with this name already exists'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete term
+// @route   DELETE /api/terms/:id
+// @access  Private (terms:manage)
+router.delete('/:id', [
+  protect,
+  requirePermission('terms:manage'),
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid term ID')
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const term = await Term.findById(req.params.id);
+
+    if (!term) {
+      return res.status(404).json({
+        success: false,
+        message: 'Term not found'
+      });
+    }
+
+    // Check if term has feedback
+    const feedbackCount = await Feedback.countDocuments({ term: term._id });
+    if (feedbackCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot delete term. It has ${feedbackCount} feedback entries.`
+      });
+    }
+
+    await Term.findByIdAndDelete(term._id);
+    await FeedbackDraft.deleteMany({ term: term._id });
+
+    await AuditLog.record(req, {
+      action: 'term.delete',
+      targetType: 'term',
+      target: term,
+      targetLabel: term.name,
+      before: AuditLog.snapshot(term, TERM_AUDIT_FIELDS)
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Term deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete term error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+module.exports = router;
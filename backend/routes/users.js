@@ -3,7 +3,14 @@ const { body, validationResult } = require('express-validator');
 const multer = require('multer');
 const cloudinary = require('cloudinary').v2;
 const User = require('../models/User');
-const { protect, student } = require('../middleware/auth');
+const Feedback = require('../models/Feedback');
+const FeedbackRevision = require('../models/FeedbackRevision');
+const FeedbackDraft = require('../models/FeedbackDraft');
+const Session = require('../models/Session');
+const LoginEvent = require('../models/LoginEvent');
+const { protect, requirePermission } = require('../middleware/auth');
+const { deleteAccount } = require('../utils/accountDeletion');
+const { clearAuthCookies } = require('../utils/authCookies');
 
 const router = express.Router();
 
@@ -257,16 +264,177 @@ router.delete('/profile/picture', protect, async (req, res) => {
   }
 });
 
+// @desc    Download a copy of the user's personal data
+// @route   GET /api/users/me/export
+// @access  Private
+router.get('/me/export', protect, async (req, res) => {
+  try {
+    // Admins viewing as a student can see the app, not take the student's data away
+    if (req.impersonator) {
+      return res.status(403).json({
+        success: false,
+        code: 'IMPERSONATION_READ_ONLY',
+        message: 'Data exports are disabled while viewing as another user.'
+      });
+    }
+
+    const user = await User.findById(req.user.id);
+
+    const feedback = await Feedback.find({ student: user._id })
+      .populate('course', 'name code')
+      .sort({ createdAt: -1 });
+
+    // Earlier versions of edited feedback are the student's writing too
+    const revisions = await FeedbackRevision.find({ feedback: { $in: feedback.map(item => item._id) } })
+      .sort({ version: 1 });
+
+    const drafts = await FeedbackDraft.find({ student: user._id })
+      .populate('course', 'name code')
+      .sort({ updatedAt: -1 });
+
+    const loginHistory = await LoginEvent.find({ user: user._id })
+      .sort({ createdAt: -1 });
+
+    const sessions = await Session.find({ user: user._id, revokedAt: null })
+      .sort({ lastUsedAt: -1 });
+
+    const exportData = {
+      exportedAt: new Date().toISOString(),
+      profile: user.getPublicProfile(),
+      feedback: feedback.map(item => ({
+        id: item._id,
+        course: item.course ? { name: item.course.name, code: item.course.code } : null,
+        rating: item.rating,
+        message: item.message,
+        tags: item.tags,
+        isAnonymous: item.isAnonymous,
+        status: item.status,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+        versions: revisions
+          .filter(revision => revision.feedback.equals(item._id))
+          .map(revision => ({
+            version: revision.version,
+            rating: revision.rating,
+            message: revision.message,
+            tags: revision.tags,
+            isAnonymous: revision.isAnonymous,
+            createdAt: revision.createdAt
+          }))
+      })),
+      drafts: drafts.map(draft => ({
+        course: draft.course ? { name: draft.course.name, code: draft.course.code } : null,
+        rating: draft.rating,
+        message: draft.message,
+        tags: draft.tags,
+        isAnonymous: draft.isAnonymous,
+        updatedAt: draft.updatedAt
+      })),
+      loginHistory: loginHistory.map(event => ({
+        success: event.success,
+        failureReason: event.failureReason,
+        method: event.method,
+        device: event.device,
+        ipAddress: event.ipAddress,
+        createdAt: event.createdAt
+      })),
+      sessions: sessions.map(session => ({
+        device: session.device,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt
+      }))
+    };
+
+    res.attachment(`my_data_${Date.now()}.json`);
+    res.status(200).send(JSON.stringify(exportData, null, 2));
+
+  } catch (error) {
+    console.error('Export user data error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete the user's own account, anonymizing their feedback
+// @route   DELETE /api/users/me
+// @access  Private
+router.delete('/me', [
+  protect,
+  body('confirmEmail')
+    .trim()
+    .isEmail()
+    .withMessage('Please type your email address to confirm'),
+  body('password')
+    .optional()
+    .isString()
+], async (req, res) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select('+password');
+
+    // Staff accounts are removed by an administrator so courses are never left without an owner
+    if (user.role !== 'student') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only student accounts can be deleted here. Please contact an administrator.'
+      });
+    }
+
+    if (req.body.confirmEmail.toLowerCase() !== user.email) {
+      return res.status(400).json({
+        success: false,
+        message: 'The email address does not match your account'
+      });
+    }
+
+    // Accounts created through single sign-on have no password to confirm
+    if (user.password && !(await user.matchPassword(req.body.password || ''))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password is incorrect'
+      });
+    }
+
+    const anonymizedFeedback = await deleteAccount(user);
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: 'Your account has been deleted',
+      anonymizedFeedback
+    });
+
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Get user statistics (for students)
 // @route   GET /api/users/stats
-// @access  Private (Student)
-router.get('/stats', [protect, student], async (req, res) => {
+// @access  Private (feedback:submit)
+router.get('/stats', [protect, requirePermission('feedback:submit')], async (req, res) => {
   try {
-    const Feedback = require('../models/Feedback');
-    
-    // Get user's feedback statistics
+    // Get user's feedback statistics; an admin viewing as the student doesn't get the anonymous entries
+    const match = req.impersonator ? { student: req.user._id, isAnonymous: false } : { student: req.user._id };
     const stats = await Feedback.aggregate([
-      { $match: { student: req.user._id } },
+      { $match: match },
       {
         $group: {
           _id: null,
@@ -2,6 +2,7 @@ const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const helmet = require('helmet');
+const cookieParser = require('cookie-parser');
 const rateLimit = require('express-rate-limit');
 require('dotenv').config();
 
@@ -11,6 +12,10 @@ const userRoutes = require('./routes/users');
 const feedbackRoutes = require('./routes/feedback');
 const courseRoutes = require('./routes/courses');
 const adminRoutes = require('./routes/admin');
+const instructorRoutes = require('./routes/instructor');
+const surveyRoutes = require('./routes/surveys');
+const termRoutes = require('./routes/terms');
+const screeningRoutes = require('./routes/screening');
 
 // Import middleware
 const errorHandler = require('./middleware/errorHandler');
@@ -39,6 +44,7 @@ app.use(cors({
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(cookieParser());
 
 // Database connection
 mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/student_feedback_app', {
@@ -54,6 +60,10 @@ app.use('/api/users', userRoutes);
 app.use('/api/feedback', feedbackRoutes);
 app.use('/api/courses', courseRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/instructor', instructorRoutes);
+app.use('/api/surveys', surveyRoutes);
+app.use('/api/terms', termRoutes);
+app.use('/api/screening', screeningRoutes);
 
 // Health check route
 app.get('/api/health', (req, res) => {
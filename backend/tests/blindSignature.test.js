@@ -0,0 +1,89 @@
+const { describe, it, before } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const { generateSigningKey, fullDomainHash, signBlinded, verifySignature } = require('../utils/blindSignature');
+
+const toBigInt = (hex) => BigInt(`0x${hex}`);
+
+const modPow = (base, exponent, modulus) => {
+  let result = BigInt(1);
+  let power = base % modulus;
+  for (let remaining = exponent; remaining > BigInt(0); remaining >>= BigInt(1)) {
+    if (remaining & BigInt(1)) result = (result * power) % modulus;
+    power = (power * power) % modulus;
+  }
+  return result;
+};
+
+const modInverse = (value, modulus) => {
+  let [oldR, r] = [value % modulus, modulus];
+  let [oldS, s] = [BigInt(1), BigInt(0)];
+  while (r !== BigInt(0)) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+};
+
+// What the browser does: blind the token's hash with a random factor, then remove it from the signature
+const blind = (message, key) => {
+  const modulus = toBigInt(key.modulus);
+  const factor = toBigInt(crypto.randomBytes(key.modulus.length / 2).toString('hex')) % modulus;
+  const blinded = (fullDomainHash(message, key.modulus) * modPow(factor, toBigInt(key.exponent), modulus)) % modulus;
+  return { blinded: blinded.toString(16), factor };
+};
+
+const unblind = (signatureHex, factor, key) => {
+  const modulus = toBigInt(key.modulus);
+  return ((toBigInt(signatureHex) * modInverse(factor, modulus)) % modulus).toString(16);
+};
+
+describe('blind signatures', () => {
+  let key;
+
+  before(async () => {
+    key = await generateSigningKey(1024);
+  });
+
+  it('generates a key with its public half as hex', () => {
+    assert.match(key.modulus, /^[0-9a-f]{256}$/);
+    assert.equal(key.exponent, '010001');
+    assert.match(key.privateKey, /BEGIN PRIVATE KEY/);
+  });
+
+  it('hashes onto the range of the modulus, deterministically', () => {
+    const hash = fullDomainHash('token', key.modulus);
+
+    assert.equal(hash, fullDomainHash('token', key.modulus));
+    assert.notEqual(hash, fullDomainHash('other token', key.modulus));
+    assert.ok(hash < toBigInt(key.modulus));
+  });
+
+  it('produces a valid signature on a token it never saw', () => {
+    const token = crypto.randomBytes(32).toString('hex');
+    const { blinded, factor } = blind(token, key);
+
+    assert.notEqual(blinded, fullDomainHash(token, key.modulus).toString(16));
+
+    const signature = unblind(signBlinded(key, blinded), factor, key);
+    assert.equal(verifySignature(key, token, signature), true);
+  });
+
+  it('rejects a signature on another token or from another key', async () => {
+    const { blinded, factor } = blind('token', key);
+    const signature = unblind(signBlinded(key, blinded), factor, key);
+
+    assert.equal(verifySignature(key, 'another token', signature), false);
+
+    const otherKey = await generateSigningKey(1024);
+    assert.equal(verifySignature({ ...otherKey }, 'token', signature), false);
+  });
+
+  it('rejects values out of range', () => {
+    assert.throws(() => signBlinded(key, '1'), /out of range/);
+    assert.throws(() => signBlinded(key, key.modulus), /out of range/);
+    assert.equal(verifySignature(key, 'token', '1'), false);
+    assert.equal(verifySignature(key, 'token', key.modulus), false);
+  });
+});
@@ -0,0 +1,73 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+// Cookie mode is read when the auth settings are first loaded
+process.env.AUTH_MODE = 'cookie';
+const { hasValidCsrfToken } = require('../utils/authCookies');
+const { protect } = require('../middleware/auth');
+
+const CSRF_TOKEN = 'a'.repeat(64);
+
+const request = (method, { header, cookies = { csrfToken: CSRF_TOKEN } } = {}) => ({
+  method,
+  headers: {},
+  cookies,
+  get: (name) => (name.toLowerCase() === 'x-csrf-token' ? header : undefined)
+});
+
+const response = () => ({
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  }
+});
+
+describe('CSRF protection', () => {
+  it('lets reads through without a token', () => {
+    ['GET', 'HEAD', 'OPTIONS'].forEach((method) => {
+      assert.equal(hasValidCsrfToken(request(method)), true);
+    });
+  });
+
+  it('accepts a change whose header matches the cookie', () => {
+    assert.equal(hasValidCsrfToken(request('POST', { header: CSRF_TOKEN })), true);
+  });
+
+  it('rejects a change without the header', () => {
+    assert.equal(hasValidCsrfToken(request('POST')), false);
+    assert.equal(hasValidCsrfToken(request('DELETE', { header: '' })), false);
+  });
+
+  it('rejects a change without the cookie', () => {
+    assert.equal(hasValidCsrfToken(request('POST', { header: CSRF_TOKEN, cookies: {} })), false);
+    assert.equal(hasValidCsrfToken(request('POST', { header: CSRF_TOKEN, cookies: null })), false);
+  });
+
+  it('rejects a header that does not match the cookie', () => {
+    assert.equal(hasValidCsrfToken(request('PUT', { header: 'b'.repeat(64) })), false);
+  });
+
+  it('rejects a header of another length without throwing', () => {
+    assert.doesNotThrow(() => hasValidCsrfToken(request('PATCH', { header: CSRF_TOKEN.slice(1) })));
+    assert.equal(hasValidCsrfToken(request('PATCH', { header: CSRF_TOKEN.slice(1) })), false);
+    assert.equal(hasValidCsrfToken(request('PATCH', { header: `${CSRF_TOKEN}a` })), false);
+  });
+
+  it('stops cookie-authenticated changes without a valid token before the route', async () => {
+    const req = request('POST', { cookies: { accessToken: 'token', csrfToken: CSRF_TOKEN } });
+    const res = response();
+    let reachedRoute = false;
+
+    await protect(req, res, () => {
+      reachedRoute = true;
+    });
+
+    assert.equal(reachedRoute, false);
+    assert.equal(res.statusCode, 403);
+    assert.equal(res.body.code, 'CSRF_TOKEN_INVALID');
+  });
+});
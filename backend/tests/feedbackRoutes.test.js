@@ -0,0 +1,53 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const feedbackRoutes = require('../routes/feedback');
+
+// Requests here fail validation or authentication before reaching the database, so none is needed
+describe('feedback routes', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/feedback', feedbackRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/api/feedback`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const send = async (method, path) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  // These take a receipt instead of a login, so they must not be caught by the /:id routes
+  for (const [method, path] of [
+    ['PUT', '/anonymous'],
+    ['DELETE', '/anonymous'],
+    ['PATCH', '/anonymous/responses/read'],
+    ['POST', '/anonymous/lookup']
+  ]) {
+    it(`${method} ${path} reaches its own handler without a login`, async () => {
+      const { status, body } = await send(method, path);
+
+      assert.equal(status, 400);
+      assert.equal(body.message, 'Validation failed');
+    });
+  }
+
+  it('requires a login for feedback by ID', async () => {
+    const { status } = await send('PUT', '/64b000000000000000000001');
+
+    assert.equal(status, 401);
+  });
+});
@@ -0,0 +1,123 @@
+const express = require('express');
+
+// Helpers for running models and routes without MongoDB
+
+// Replace methods on an object (a model or its prototype); returns a function that puts them back
+const stub = (target, methods) => {
+  const originals = Object.keys(methods).map(name => [name, Object.prototype.hasOwnProperty.call(target, name), target[name]]);
+  Object.assign(target, methods);
+
+  return () => originals.forEach(([name, isOwn, original]) => {
+    if (isOwn) target[name] = original;
+    else delete target[name];
+  });
+};
+
+const isSame = (value, expected) => (value === null || value === undefined
+  ? expected === null || expected === undefined
+  : expected !== null && expected !== undefined && String(value) === String(expected));
+
+// Whether a document matches a filter of top-level fields, with equality, $ne, $in, $gt and $lt
+const matches = (doc, filter) => Object.entries(filter).every(([field, condition]) => {
+  const value = doc.get(field);
+  const isOperator = condition && typeof condition === 'object' && Object.keys(condition).some(key => key.startsWith('$'));
+  if (!isOperator) return isSame(value, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$ne': return !isSame(value, operand);
+      case '$in': return operand.some(item => isSame(value, item));
+      case '$gt': return value > operand;
+      case '$lt': return value < operand;
+      default: throw new Error(`Unsupported operator ${operator}`);
+    }
+  });
+});
+
+// A query that ignores projection, population and paging, resolving to what run returns
+const query = (run) => {
+  const chain = {
+    then: (resolve, reject) => Promise.resolve().then(run).then(resolve, reject)
+  };
+  ['select', 'populate', 'sort', 'skip', 'limit', 'lean'].forEach((method) => {
+    chain[method] = () => chain;
+  });
+  return chain;
+};
+
+// Keep a model's documents in memory. Saving validates and stores a copy; reads return fresh
+// documents, as they would from the database.
+const memoryModel = (Model) => {
+  const records = new Map();
+
+  const load = (record) => (record ? Model.hydrate(JSON.parse(record)) : null);
+  const all = () => [...records.values()].map(load);
+  const store = (doc) => records.set(String(doc._id), JSON.stringify(doc.toObject({ depopulate: true })));
+
+  const restoreStatics = stub(Model, {
+    find: (filter = {}) => query(() => all().filter(doc => matches(doc, filter))),
+    findOne: (filter = {}) => query(() => all().find(doc => matches(doc, filter)) || null),
+    findById: (id) => query(() => load(records.get(String(id)))),
+    countDocuments: (filter = {}) => query(() => all().filter(doc => matches(doc, filter)).length),
+    findOneAndDelete: (filter = {}) => query(() => {
+      const doc = all().find(item => matches(item, filter)) || null;
+      if (doc) records.delete(String(doc._id));
+      return doc;
+    }),
+    create: (data) => new Model(data).save()
+  });
+  const restoreSave = stub(Model.prototype, {
+    save: async function() {
+      await this.validate();
+      store(this);
+      this.isNew = false;
+      return this;
+    }
+  });
+
+  return {
+    // Put a document in place without validation, returning it as saved
+    add: (data) => {
+      const doc = new Model(data);
+      store(doc);
+      return load(records.get(String(doc._id)));
+    },
+    get: (id) => load(records.get(String(id))),
+    all,
+    restore: () => {
+      restoreStatics();
+      restoreSave();
+    }
+  };
+};
+
+// Serve an Express app on a free local port
+const startServer = async (configure) => {
+  const app = express();
+  app.use(express.json());
+  configure(app);
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+// Send a JSON request and return the status and parsed body
+const request = async (url, { method = 'GET', token, body, headers = {} } = {}) => {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+module.exports = { stub, memoryModel, startServer, request };
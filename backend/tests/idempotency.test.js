@@ -0,0 +1,143 @@
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const IdempotencyKey = require('../models/IdempotencyKey');
+const { idempotent } = require('../middleware/idempotency');
+
+const KEY = 'a1b2c3d4e5f6a7b8c9d0';
+
+// Keep keys in memory instead of MongoDB
+const stubModel = () => {
+  const records = new Map();
+  const originals = {};
+  const stubs = {
+    findOne: async ({ key }) => (records.has(key) ? new IdempotencyKey(records.get(key)) : null),
+    create: async (record) => {
+      if (records.has(record.key)) throw Object.assign(new Error('duplicate key'), { code: 11000 });
+      records.set(record.key, { ...record, statusCode: null, body: null });
+    },
+    updateOne: ({ key }, update) => {
+      Object.assign(records.get(key), update);
+      return Promise.resolve();
+    },
+    deleteOne: ({ key }) => {
+      records.delete(key);
+      return Promise.resolve();
+    }
+  };
+  Object.keys(stubs).forEach((name) => {
+    originals[name] = IdempotencyKey[name];
+    IdempotencyKey[name] = stubs[name];
+  });
+
+  return {
+    records,
+    restore: () => Object.assign(IdempotencyKey, originals)
+  };
+};
+
+const request = (key, overrides = {}) => ({
+  get: (header) => (header === 'Idempotency-Key' ? key : undefined),
+  user: { _id: 'user-1' },
+  method: 'POST',
+  originalUrl: '/api/feedback',
+  ...overrides
+});
+
+const response = () => ({
+  statusCode: 200,
+  headers: {},
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  set(name, value) {
+    this.headers[name] = value;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  }
+});
+
+// Run the middleware; the handler only runs when it calls next()
+const run = async (req, handler = () => {}) => {
+  const res = response();
+  let handled = false;
+  await idempotent(req, res, () => {
+    handled = true;
+    handler(res);
+  });
+  return { res, handled };
+};
+
+const created = (res) => res.status(201).json({ success: true, feedback: { _id: 'feedback-1' } });
+
+describe('idempotency middleware', () => {
+  let model;
+
+  beforeEach(() => {
+    model = stubModel();
+  });
+
+  afterEach(() => {
+    model.restore();
+  });
+
+  it('runs requests without a key as usual', async () => {
+    const { handled } = await run(request(undefined));
+
+    assert.equal(handled, true);
+    assert.equal(model.records.size, 0);
+  });
+
+  it('rejects malformed keys', async () => {
+    const { res, handled } = await run(request('short'));
+
+    assert.equal(handled, false);
+    assert.equal(res.statusCode, 400);
+  });
+
+  it('replays the first response for a repeated key without running the request again', async () => {
+    const first = await run(request(KEY), created);
+    const second = await run(request(KEY), created);
+
+    assert.equal(first.handled, true);
+    assert.equal(second.handled, false);
+    assert.equal(second.res.statusCode, 201);
+    assert.deepEqual(second.res.body, first.res.body);
+    assert.equal(second.res.headers['Idempotent-Replayed'], 'true');
+  });
+
+  it('keeps the keys of different users apart', async () => {
+    await run(request(KEY), created);
+    model.records.clear();
+    const { handled } = await run(request(KEY, { user: { _id: 'user-2' } }), created);
+
+    assert.equal(handled, true);
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await run(request(KEY), created);
+    const { res, handled } = await run(request(KEY, { originalUrl: '/api/feedback/other' }));
+
+    assert.equal(handled, false);
+    assert.equal(res.statusCode, 422);
+    assert.equal(res.body.code, 'IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    await run(request(KEY));
+    const { res, handled } = await run(request(KEY), created);
+
+    assert.equal(handled, false);
+    assert.equal(res.statusCode, 409);
+    assert.equal(res.body.code, 'REQUEST_IN_PROGRESS');
+  });
+
+  it('forgets server errors so the request can be retried', async () => {
+    await run(request(KEY), (res) => res.status(500).json({ success: false, message: 'Server error' }));
+    const { handled } = await run(request(KEY), created);
+
+    assert.equal(handled, true);
+  });
+});
@@ -0,0 +1,130 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const bcrypt = require('bcryptjs');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const AuditLog = require('../models/AuditLog');
+const Feedback = require('../models/Feedback');
+const FeedbackDraft = require('../models/FeedbackDraft');
+const feedbackRoutes = require('../routes/feedback');
+const userRoutes = require('../routes/users');
+const { memoryModel, startServer, request } = require('./helpers');
+
+describe('viewing the app as a student', () => {
+  let api;
+  let models;
+  let studentToken;
+  let impersonationToken;
+  let signedFeedback;
+  let anonymousFeedback;
+
+  before(async () => {
+    models = {
+      user: memoryModel(User),
+      session: memoryModel(Session),
+      auditLog: memoryModel(AuditLog),
+      feedback: memoryModel(Feedback),
+      draft: memoryModel(FeedbackDraft)
+    };
+
+    const password = bcrypt.hashSync('Campus-password-1', 4);
+    const admin = models.user.add({ name: 'Grace Admin', email: 'grace@example.edu', password, role: 'admin' });
+    const student = models.user.add({ name: 'Ada Student', email: 'ada@example.edu', password, emailVerified: true });
+
+    const { session: adminSession } = await Session.issue(admin);
+    impersonationToken = student.getImpersonationToken(admin, adminSession._id);
+    const { session: studentSession } = await Session.issue(student);
+    studentToken = student.getSignedJwtToken(studentSession._id);
+
+    const entry = (isAnonymous, course) => ({
+      student: student._id,
+      course,
+      rating: 4,
+      message: isAnonymous ? 'Written anonymously' : 'Written with my name',
+      isAnonymous,
+      status: 'approved'
+    });
+    const [signedCourse, anonymousCourse] = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+    signedFeedback = models.feedback.add(entry(false, signedCourse));
+    anonymousFeedback = models.feedback.add(entry(true, anonymousCourse));
+
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const term = new mongoose.Types.ObjectId();
+    models.draft.add({ student: student._id, course: signedCourse, term, message: 'Signed draft', expiresAt });
+    models.draft.add({ student: student._id, course: anonymousCourse, term, message: 'Anonymous draft', isAnonymous: true, expiresAt });
+
+    api = await startServer((app) => {
+      app.use('/api/feedback', feedbackRoutes);
+      app.use('/api/users', userRoutes);
+    });
+  });
+
+  after(async () => {
+    await api.close();
+    Object.values(models).forEach(model => model.restore());
+  });
+
+  for (const [method, path] of [
+    ['POST', '/api/feedback'],
+    ['PUT', '/api/feedback/:id'],
+    ['DELETE', '/api/feedback/:id'],
+    ['PUT', '/api/users/profile']
+  ]) {
+    it(`cannot ${method} ${path}`, async () => {
+      const url = `${api.url}${path.replace(':id', signedFeedback._id)}`;
+      const { status, body } = await request(url, { method, token: impersonationToken, body: { message: 'Changed' } });
+
+      assert.equal(status, 403);
+      assert.equal(body.code, 'IMPERSONATION_READ_ONLY');
+    });
+  }
+
+  it('leaves the feedback unchanged after a refused change', async () => {
+    assert.equal(models.feedback.get(signedFeedback._id).message, 'Written with my name');
+  });
+
+  it("sees the student's signed feedback but not their anonymous feedback", async () => {
+    const asStudent = await request(`${api.url}/api/feedback/my-feedback`, { token: studentToken });
+    assert.equal(asStudent.body.feedback.length, 2);
+
+    const { status, body } = await request(`${api.url}/api/feedback/my-feedback`, { token: impersonationToken });
+    assert.equal(status, 200);
+    assert.deepEqual(body.feedback.map(item => item.message), ['Written with my name']);
+    assert.equal(body.pagination.totalItems, 1);
+  });
+
+  it("can't open the student's anonymous feedback by ID", async () => {
+    const anonymous = await request(`${api.url}/api/feedback/${anonymousFeedback._id}`, { token: impersonationToken });
+    assert.equal(anonymous.status, 404);
+
+    const signed = await request(`${api.url}/api/feedback/${signedFeedback._id}`, { token: impersonationToken });
+    assert.equal(signed.status, 200);
+  });
+
+  it("does not see the student's anonymous drafts", async () => {
+    const asStudent = await request(`${api.url}/api/feedback/drafts`, { token: studentToken });
+    assert.equal(asStudent.body.drafts.length, 2);
+
+    const { status, body } = await request(`${api.url}/api/feedback/drafts`, { token: impersonationToken });
+    assert.equal(status, 200);
+    assert.deepEqual(body.drafts.map(draft => draft.message), ['Signed draft']);
+  });
+
+  it("cannot export the student's data", async () => {
+    const { status, body } = await request(`${api.url}/api/users/me/export`, { token: impersonationToken });
+
+    assert.equal(status, 403);
+    assert.equal(body.code, 'IMPERSONATION_READ_ONLY');
+  });
+
+  it('records every request in the audit log under the admin', async () => {
+    const entries = models.auditLog.all().filter(entry => entry.action === 'impersonation.request');
+
+    assert.ok(entries.length > 0);
+    entries.forEach((entry) => {
+      assert.equal(entry.actorEmail, 'grace@example.edu');
+      assert.equal(entry.targetLabel, 'ada@example.edu');
+    });
+  });
+});
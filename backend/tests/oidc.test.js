@@ -0,0 +1,191 @@
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { spawn } = require('child_process');
+const net = require('net');
+const path = require('path');
+const bcrypt = require('bcryptjs');
+const { memoryModel, startServer, request } = require('./helpers');
+
+const CLIENT_ID = 'edufeedback-test';
+const REDIRECT_URI = 'http://localhost:3000/auth/callback';
+
+// Indexes of the mock provider's default test users
+const ADA_STUDENT = 0;
+const GRACE_FACULTY = 1;
+const ALAN_STAFF = 2;
+
+const findFreePort = () => new Promise((resolve, reject) => {
+  const server = net.createServer();
+  server.once('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+});
+
+// Run the mock provider the way `npm run mock-oidc` does, on a free port
+const startMockProvider = async () => {
+  const port = await findFreePort();
+  const provider = spawn(process.execPath, [path.join(__dirname, '../utils/mockOidcProvider.js')], {
+    env: { ...process.env, MOCK_OIDC_PORT: String(port), MOCK_OIDC_USERS_FILE: '' },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+
+  await new Promise((resolve, reject) => {
+    provider.once('exit', code => reject(new Error(`Mock OIDC provider exited with code ${code}`)));
+    provider.stdout.on('data', (data) => {
+      if (data.toString().includes('running')) resolve();
+    });
+  });
+
+  return { provider, issuer: `http://localhost:${port}` };
+};
+
+describe('single sign-on with the mock provider', () => {
+  let provider;
+  let api;
+  let models;
+  let OidcLoginState;
+
+  before(async () => {
+    const mock = await startMockProvider();
+    provider = mock.provider;
+
+    // The OIDC settings are read when the auth routes are first loaded
+    Object.assign(process.env, {
+      OIDC_ISSUER: mock.issuer,
+      OIDC_CLIENT_ID: CLIENT_ID,
+      OIDC_REDIRECT_URI: REDIRECT_URI,
+      OIDC_ROLE_MAP: '{"faculty": "instructor", "it-staff": "instructor"}'
+    });
+    OidcLoginState = require('../models/OidcLoginState');
+    models = {
+      user: memoryModel(require('../models/User')),
+      loginState: memoryModel(OidcLoginState),
+      session: memoryModel(require('../models/Session')),
+      loginEvent: memoryModel(require('../models/LoginEvent')),
+      auditLog: memoryModel(require('../models/AuditLog'))
+    };
+
+    const authRoutes = require('../routes/auth');
+    api = await startServer(app => app.use('/api/auth', authRoutes));
+  });
+
+  after(async () => {
+    await api.close();
+    Object.values(models).forEach(model => model.restore());
+    provider.kill();
+  });
+
+  // Start a login and pick a user at the provider, returning the code and state sent back to the app.
+  // The provider can be handed another nonce than the one in the authorization URL.
+  const authorize = async (userIndex, { nonce } = {}) => {
+    const { body } = await request(`${api.url}/api/auth/oidc/authorize`, { method: 'POST' });
+    const params = new URL(body.authorizationUrl).searchParams;
+
+    const loginPage = await fetch(body.authorizationUrl);
+    assert.equal(loginPage.status, 200);
+
+    const providerUrl = new URL(body.authorizationUrl);
+    const redirect = await fetch(`${providerUrl.origin}/authorize`, {
+      method: 'POST',
+      redirect: 'manual',
+      body: new URLSearchParams({
+        client_id: params.get('client_id'),
+        redirect_uri: params.get('redirect_uri'),
+        state: params.get('state'),
+        nonce: nonce || params.get('nonce'),
+        code_challenge: params.get('code_challenge'),
+        user: String(userIndex)
+      })
+    });
+    assert.equal(redirect.status, 302);
+
+    const returned = new URL(redirect.headers.get('location')).searchParams;
+    assert.equal(returned.get('state'), body.state);
+    return { code: returned.get('code'), state: returned.get('state') };
+  };
+
+  const callback = (login) => request(`${api.url}/api/auth/oidc/callback`, { method: 'POST', body: login });
+
+  it('creates an account on first sign-in, with the role mapped from the provider', async () => {
+    const { status, body } = await callback(await authorize(GRACE_FACULTY));
+
+    assert.equal(status, 200);
+    assert.ok(body.token);
+    assert.equal(body.user.email, 'grace.faculty@example.edu');
+    assert.equal(body.user.role, 'instructor');
+
+    const [user] = models.user.all().filter(item => item.email === 'grace.faculty@example.edu');
+    assert.equal(user.oidcSubject, 'mock-faculty-1');
+    assert.equal(user.emailVerified, true);
+  });
+
+  it('signs the same identity in to the same account', async () => {
+    await callback(await authorize(ADA_STUDENT));
+    const { status, body } = await callback(await authorize(ADA_STUDENT));
+
+    assert.equal(status, 200);
+    assert.equal(models.user.all().filter(item => item.email === 'ada.student@example.edu').length, 1);
+    assert.equal(body.user.role, 'student');
+  });
+
+  it('rejects a state it did not issue', async () => {
+    const { code } = await authorize(ADA_STUDENT);
+    const { status, body } = await callback({ code, state: 'not-a-state-this-server-issued' });
+
+    assert.equal(status, 400);
+    assert.equal(body.code, 'SSO_STATE_INVALID');
+  });
+
+  it('rejects a state that was already used', async () => {
+    const login = await authorize(ADA_STUDENT);
+    assert.equal((await callback(login)).status, 200);
+
+    const { status, body } = await callback(login);
+    assert.equal(status, 400);
+    assert.equal(body.code, 'SSO_STATE_INVALID');
+  });
+
+  it('rejects an expired state', async () => {
+    const login = await authorize(ADA_STUDENT);
+    const [loginState] = models.loginState.all()
+      .filter(item => item.stateHash === OidcLoginState.hashState(login.state));
+    loginState.expiresAt = new Date(Date.now() - 1000);
+    await loginState.save();
+
+    const { status, body } = await callback(login);
+    assert.equal(status, 400);
+    assert.equal(body.code, 'SSO_STATE_INVALID');
+  });
+
+  it('rejects an ID token issued for another login', async () => {
+    const { status, body } = await callback(await authorize(ADA_STUDENT, { nonce: 'nonce-of-another-login' }));
+
+    assert.equal(status, 401);
+    assert.equal(body.code, 'SSO_FAILED');
+  });
+
+  it('links an existing account by email without changing its role, then applies mapped roles with an audit entry', async () => {
+    const existing = models.user.add({
+      name: 'Alan Staff',
+      email: 'alan.staff@example.edu',
+      password: bcrypt.hashSync('Campus-password-1', 4),
+      role: 'admin'
+    });
+
+    const first = await callback(await authorize(ALAN_STAFF));
+    assert.equal(first.status, 200);
+    assert.equal(first.body.user.role, 'admin');
+    assert.equal(models.user.get(existing._id).oidcSubject, 'mock-staff-1');
+    assert.equal(models.auditLog.all().filter(entry => entry.action === 'user.role').length, 0);
+
+    const second = await callback(await authorize(ALAN_STAFF));
+    assert.equal(second.body.user.role, 'instructor');
+
+    const [entry] = models.auditLog.all().filter(item => item.action === 'user.role');
+    assert.equal(entry.targetLabel, 'alan.staff@example.edu');
+    assert.deepEqual(entry.before, { role: 'admin' });
+    assert.deepEqual(entry.after, { role: 'instructor' });
+  });
+});
@@ -0,0 +1,34 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { checkPassword } = require('../utils/passwordPolicy');
+
+// These use the default policy: at least 8 characters with a number and a symbol, and not a common password
+describe('password policy', () => {
+  it('accepts a password that meets every rule', () => {
+    assert.deepEqual(checkPassword('violet-harbour-42'), []);
+  });
+
+  it('reports each rule a password breaks', () => {
+    assert.deepEqual(checkPassword('abc'), [
+      'Password must be at least 8 characters',
+      'Password must contain a number',
+      'Password must contain a special character'
+    ]);
+    assert.deepEqual(checkPassword('violetharbour42'), ['Password must contain a special character']);
+    assert.deepEqual(checkPassword('violet-harbour'), ['Password must contain a number']);
+  });
+
+  it('rejects passwords that are too long', () => {
+    assert.ok(checkPassword(`1!${'a'.repeat(127)}`).includes('Password cannot exceed 128 characters'));
+  });
+
+  it('rejects common passwords whatever their case', () => {
+    const message = 'This password is too common or has appeared in a data breach. Please choose another.';
+    assert.deepEqual(checkPassword('password123!'), [message]);
+    assert.deepEqual(checkPassword('PASSWORD123!'), [message]);
+  });
+
+  it('requires a password', () => {
+    assert.deepEqual(checkPassword(undefined), ['Password is required']);
+  });
+});
@@ -0,0 +1,110 @@
+const { describe, it, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const bcrypt = require('bcryptjs');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const LoginEvent = require('../models/LoginEvent');
+const authRoutes = require('../routes/auth');
+const { memoryModel, startServer, request } = require('./helpers');
+
+describe('refresh token rotation', () => {
+  let api;
+  let models;
+  let user;
+  let session;
+  let firstToken;
+
+  before(async () => {
+    models = {
+      user: memoryModel(User),
+      session: memoryModel(Session),
+      loginEvent: memoryModel(LoginEvent)
+    };
+    user = models.user.add({
+      name: 'Ada Student',
+      email: 'ada@example.edu',
+      password: bcrypt.hashSync('Campus-password-1', 4),
+      emailVerified: true
+    });
+    api = await startServer(app => app.use('/api/auth', authRoutes));
+  });
+
+  after(async () => {
+    await api.close();
+    Object.values(models).forEach(model => model.restore());
+  });
+
+  beforeEach(async () => {
+    ({ session, refreshToken: firstToken } = await Session.issue(user));
+  });
+
+  const refresh = (refreshToken) => request(`${api.url}/api/auth/refresh`, { method: 'POST', body: { refreshToken } });
+
+  // Move the last rotation back in time, past the window in which the previous token is still accepted
+  const endGraceWindow = async () => {
+    const stored = models.session.get(session._id);
+    stored.rotatedAt = new Date(Date.now() - 60 * 1000);
+    await stored.save();
+  };
+
+  it('swaps the refresh token for a new one', async () => {
+    const { status, body } = await refresh(firstToken);
+
+    assert.equal(status, 200);
+    assert.ok(body.token);
+    assert.ok(body.refreshToken);
+    assert.notEqual(body.refreshToken, firstToken);
+    assert.equal((await refresh(body.refreshToken)).status, 200);
+  });
+
+  it('rejects a rotated-out token once the grace window has passed', async () => {
+    await refresh(firstToken);
+    await endGraceWindow();
+
+    const { status, body } = await refresh(firstToken);
+
+    assert.equal(status, 401);
+    assert.equal(body.message, 'Refresh token has already been used. Please log in again.');
+  });
+
+  it('revokes the whole session when a rotated-out token is reused', async () => {
+    const { body: rotated } = await refresh(firstToken);
+    await endGraceWindow();
+    await refresh(firstToken);
+
+    const stored = models.session.get(session._id);
+    assert.ok(stored.revokedAt);
+    assert.equal(stored.revokedReason, 'token-reuse');
+
+    const { status } = await refresh(rotated.refreshToken);
+    assert.equal(status, 401);
+  });
+
+  it('accepts the token rotated out moments ago without rotating again', async () => {
+    const { body: rotated } = await refresh(firstToken);
+
+    const { status, body } = await refresh(firstToken);
+
+    assert.equal(status, 200);
+    assert.ok(body.token);
+    assert.equal(body.refreshToken, undefined);
+    assert.equal((await refresh(rotated.refreshToken)).status, 200);
+  });
+
+  it('accepts only the latest rotated-out token in the grace window', async () => {
+    const { body: second } = await refresh(firstToken);
+    await refresh(second.refreshToken);
+
+    const { status } = await refresh(firstToken);
+
+    assert.equal(status, 401);
+    assert.equal(models.session.get(session._id).revokedReason, 'token-reuse');
+  });
+
+  it('rejects tokens that were never issued', async () => {
+    const { status } = await refresh(`${session._id}.${'0'.repeat(80)}`);
+
+    assert.equal(status, 401);
+    assert.equal(models.session.get(session._id).revokedAt, null);
+  });
+});
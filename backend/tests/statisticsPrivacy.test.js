@@ -0,0 +1,57 @@
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { isBelowMinimum, suppressStatistics, statisticsFor } = require('../utils/statisticsPrivacy');
+
+// These use the default minimum of 5 responses
+const userWith = (...permissions) => ({ hasPermission: (permission) => permissions.includes(permission) });
+
+const courseStats = (totalFeedback) => ({
+  totalFeedback,
+  averageRating: 4.2,
+  ratingDistribution: { 1: 0, 2: 0, 3: 1, 4: 1, 5: totalFeedback - 2 },
+  questions: [
+    { question: 'q1', text: 'Pace', type: 'likert', responses: 2, average: 3.5, distribution: { 3: 1, 4: 1 } },
+    { question: 'q2', text: 'Workload', type: 'likert', responses: 6, average: 4, distribution: { 4: 6 } }
+  ]
+});
+
+describe('statistics privacy', () => {
+  it('treats counts between one and the minimum as too small', () => {
+    assert.equal(isBelowMinimum(0), false);
+    assert.equal(isBelowMinimum(1), true);
+    assert.equal(isBelowMinimum(4), true);
+    assert.equal(isBelowMinimum(5), false);
+  });
+
+  it('hides the rating of a course with too few responses', () => {
+    const stats = suppressStatistics(courseStats(3));
+
+    assert.equal(stats.totalFeedback, 3);
+    assert.equal(stats.averageRating, null);
+    assert.equal(stats.ratingDistribution, null);
+    assert.equal(stats.suppressed, true);
+    assert.equal(stats.minResponses, 5);
+  });
+
+  it('keeps the rating of a course with enough responses', () => {
+    const stats = suppressStatistics(courseStats(8));
+
+    assert.equal(stats.averageRating, 4.2);
+    assert.ok(stats.ratingDistribution);
+    assert.equal(stats.suppressed, undefined);
+  });
+
+  it('keeps only the response count of questions too few students answered', () => {
+    const [few, enough] = suppressStatistics(courseStats(8)).questions;
+
+    assert.deepEqual(few, { question: 'q1', text: 'Pace', type: 'likert', responses: 2, suppressed: true });
+    assert.equal(enough.average, 4);
+  });
+
+  it('shows exact statistics only to users allowed to see them', () => {
+    const stats = courseStats(3);
+
+    assert.equal(statisticsFor(userWith('statistics:exact'), stats), stats);
+    assert.equal(statisticsFor(userWith('feedback:read'), stats).averageRating, null);
+  });
+});
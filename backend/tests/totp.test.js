@@ -0,0 +1,69 @@
+const { describe, it, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { generateSecret, generateCode, verifyCode, buildOtpAuthUrl } = require('../utils/totp');
+
+// The RFC 6238 SHA-1 test secret ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const realNow = Date.now;
+const setTime = (seconds) => {
+  Date.now = () => seconds * 1000;
+};
+
+describe('totp', () => {
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  it('generates the RFC 6238 test vectors', () => {
+    // The RFC lists 8-digit codes; authenticator apps show their last 6 digits
+    assert.equal(generateCode(RFC_SECRET, Math.floor(59 / 30)), '287082');
+    assert.equal(generateCode(RFC_SECRET, Math.floor(1111111109 / 30)), '081804');
+    assert.equal(generateCode(RFC_SECRET, Math.floor(1234567890 / 30)), '005924');
+    assert.equal(generateCode(RFC_SECRET, Math.floor(2000000000 / 30)), '279037');
+  });
+
+  it('generates 32-character base32 secrets', () => {
+    const secret = generateSecret();
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(secret, generateSecret());
+  });
+
+  it('accepts the current code and one step either side, and returns the matching step', () => {
+    setTime(1111111109);
+    const step = Math.floor(1111111109 / 30);
+
+    assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step)), step);
+    assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1)), step - 1);
+    assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 1)), step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    setTime(1111111109);
+    const step = Math.floor(1111111109 / 30);
+
+    assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 2)), null);
+    assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 2)), null);
+  });
+
+  it('ignores spaces and rejects malformed codes', () => {
+    setTime(1111111109);
+
+    assert.notEqual(verifyCode(RFC_SECRET, '081 804'), null);
+    assert.equal(verifyCode(RFC_SECRET, ''), null);
+    assert.equal(verifyCode(RFC_SECRET, '08180'), null);
+    assert.equal(verifyCode(RFC_SECRET, 'abcdef'), null);
+    assert.equal(verifyCode(RFC_SECRET, undefined), null);
+  });
+
+  it('builds the otpauth URI for enrollment', () => {
+    const url = buildOtpAuthUrl({ secret: RFC_SECRET, accountName: 'ada@example.com', issuer: 'EduFeedback' });
+
+    assert.ok(url.startsWith('otpauth://totp/EduFeedback%3Aada%40example.com?'));
+    const params = new URL(url).searchParams;
+    assert.equal(params.get('secret'), RFC_SECRET);
+    assert.equal(params.get('issuer'), 'EduFeedback');
+    assert.equal(params.get('digits'), '6');
+    assert.equal(params.get('period'), '30');
+  });
+});
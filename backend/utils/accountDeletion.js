@@ -0,0 +1,36 @@
+const cloudinary = require('cloudinary').v2;
+const User = require('../models/User');
+const Feedback = require('../models/Feedback');
+const Session = require('../models/Session');
+const LoginEvent = require('../models/LoginEvent');
+const AnonymousTokenIssue = require('../models/AnonymousTokenIssue');
+const FeedbackDraft = require('../models/FeedbackDraft');
+const IdempotencyKey = require('../models/IdempotencyKey');
+
+// Delete an account and the personal data tied to it. Feedback is kept but detached from the
+// account and marked anonymous, so course ratings and statistics stay the same.
+// Resolves with the number of feedback entries that were anonymized.
+const deleteAccount = async (user) => {
+  // Anonymize first: if a later step fails the account still exists and deletion can be retried
+  const anonymizedFeedback = await Feedback.anonymizeStudent(user._id);
+
+  await Session.deleteMany({ user: user._id });
+  await LoginEvent.deleteMany({ user: user._id });
+  await AnonymousTokenIssue.deleteMany({ student: user._id });
+  await FeedbackDraft.deleteMany({ student: user._id });
+  await IdempotencyKey.deleteMany({ user: user._id });
+
+  if (user.profilePicture) {
+    try {
+      await cloudinary.uploader.destroy(`student_feedback_app/profile_pictures/user_${user._id}`);
+    } catch (deleteError) {
+      console.log('Failed to delete from Cloudinary:', deleteError);
+    }
+  }
+
+  await User.deleteOne({ _id: user._id });
+
+  return anonymizedFeedback;
+};
+
+module.exports = { deleteAccount };
@@ -0,0 +1,104 @@
+const crypto = require('crypto');
+const authConfig = require('../config/auth');
+
+// Cookie auth mode: tokens live in HttpOnly cookies that scripts can't read, and changes are
+// protected with a double-submit CSRF token (sent back in the X-CSRF-Token header).
+
+const ACCESS_COOKIE = 'accessToken';
+const REFRESH_COOKIE = 'refreshToken';
+const CSRF_COOKIE = 'csrfToken';
+const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const isCookieMode = () => authConfig.authMode === 'cookie';
+
+// The refresh cookie is only sent to the auth routes that need it
+const cookieOptions = (path) => ({
+  httpOnly: true,
+  secure: authConfig.cookieSecure,
+  sameSite: authConfig.cookieSameSite,
+  domain: authConfig.cookieDomain,
+  path,
+  maxAge: authConfig.refreshTokenExpireDays * 24 * 60 * 60 * 1000
+});
+
+// Take the tokens out of a response body and set them as cookies in cookie mode, adding a fresh
+// CSRF token the client must echo back. In header mode the body is returned unchanged.
+const withAuthCookies = (res, body) => {
+  if (!isCookieMode()) return body;
+
+  const { token, refreshToken, ...rest } = body;
+  const csrfToken = crypto.randomBytes(32).toString('hex');
+
+  res.cookie(ACCESS_COOKIE, token, cookieOptions('/api'));
+  if (refreshToken) {
+    res.cookie(REFRESH_COOKIE, refreshToken, cookieOptions('/api/auth'));
+  }
+  res.cookie(CSRF_COOKIE, csrfToken, { ...cookieOptions('/api'), httpOnly: false });
+
+  return { ...rest, csrfToken };
+};
+
+// Remove the auth cookies, e.g. on logout
+const clearAuthCookies = (res) => {
+  if (!isCookieMode()) return;
+
+  const { maxAge, ...options } = cookieOptions('/api');
+  res.clearCookie(ACCESS_COOKIE, options);
+  res.clearCookie(REFRESH_COOKIE, { ...options, path: '/api/auth' });
+  res.clearCookie(CSRF_COOKIE, { ...options, httpOnly: false });
+};
+
+// Find the access token: a Bearer header always works, the cookie only in cookie mode
+const getAccessToken = (req) => {
+  if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
+    return { token: req.headers.authorization.split(' ')[1], fromCookie: false };
+  }
+
+  if (isCookieMode() && req.cookies && req.cookies[ACCESS_COOKIE]) {
+    return { token: req.cookies[ACCESS_COOKIE], fromCookie: true };
+  }
+
+  return { token: null, fromCookie: false };
+};
+
+// Find the refresh token in the request body, or the cookie in cookie mode
+const getRefreshToken = (req) => {
+  if (typeof req.body.refreshToken === 'string' && req.body.refreshToken) {
+    return { token: req.body.refreshToken, fromCookie: false };
+  }
+
+  if (isCookieMode() && req.cookies && req.cookies[REFRESH_COOKIE]) {
+    return { token: req.cookies[REFRESH_COOKIE], fromCookie: true };
+  }
+
+  return { token: null, fromCookie: false };
+};
+
+// True when a cookie-authenticated request may go ahead: reads always can, changes need the
+// CSRF header to match the CSRF cookie (a cross-site form can send cookies but can't read them)
+const hasValidCsrfToken = (req) => {
+  if (SAFE_METHODS.includes(req.method)) return true;
+
+  const header = Buffer.from(req.get(CSRF_HEADER) || '');
+  const cookie = Buffer.from((req.cookies && req.cookies[CSRF_COOKIE]) || '');
+  if (header.length === 0 || header.length !== cookie.length) return false;
+
+  return crypto.timingSafeEqual(header, cookie);
+};
+
+const sendCsrfError = (res) => res.status(403).json({
+  success: false,
+  code: 'CSRF_TOKEN_INVALID',
+  message: 'Your session could not be verified. Please refresh the page and try again.'
+});
+
+module.exports = {
+  withAuthCookies,
+  clearAuthCookies,
+  getAccessToken,
+  getRefreshToken,
+  hasValidCsrfToken,
+  sendCsrfError
+};
@@ -0,0 +1,79 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+// RSA blind signatures. The student's browser picks a random token, blinds its hash with a random
+// factor and sends only the blinded value to be signed. After removing the factor it holds a valid
+// signature on a token the server has never seen, so the signature can't be traced to the signing.
+// Numbers are passed around as hex so the browser can do the same arithmetic with BigInt.
+
+const toBigInt = (hex) => BigInt(`0x${hex}`);
+
+const toFixedBuffer = (value, length) => Buffer.from(value.toString(16).padStart(length * 2, '0'), 'hex');
+
+// Generate a signing key, with the public half as hex
+const generateSigningKey = async (modulusLength) => {
+  const { publicKey, privateKey } = await generateKeyPair('rsa', { modulusLength });
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    modulus: Buffer.from(jwk.n, 'base64url').toString('hex'),
+    exponent: Buffer.from(jwk.e, 'base64url').toString('hex'),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' })
+  };
+};
+
+// Hash a message onto the whole range of the modulus, so signatures can't be multiplied into new ones.
+// SHA-256 of "<counter>:<message>" for counters 0, 1, ... is concatenated to the modulus length.
+const fullDomainHash = (message, modulusHex) => {
+  const length = modulusHex.length / 2;
+  const blocks = [];
+  for (let counter = 0; blocks.length * 32 < length; counter++) {
+    blocks.push(crypto.createHash('sha256').update(`${counter}:${message}`).digest());
+  }
+
+  return toBigInt(Buffer.concat(blocks).subarray(0, length).toString('hex')) % toBigInt(modulusHex);
+};
+
+// Sign a blinded value with the private key (raw RSA, value^d mod n)
+const signBlinded = ({ privateKey, modulus }, blindedHex) => {
+  const blinded = toBigInt(blindedHex);
+  if (blinded <= BigInt(1) || blinded >= toBigInt(modulus)) {
+    throw new Error('Blinded value is out of range');
+  }
+
+  const signature = crypto.privateDecrypt(
+    { key: privateKey, padding: crypto.constants.RSA_NO_PADDING },
+    toFixedBuffer(blinded, modulus.length / 2)
+  );
+  return signature.toString('hex');
+};
+
+// Check an unblinded signature on a message (signature^e mod n must equal the message's hash)
+const verifySignature = ({ modulus, exponent }, message, signatureHex) => {
+  const signature = toBigInt(signatureHex);
+  if (signature <= BigInt(1) || signature >= toBigInt(modulus)) return false;
+
+  const publicKey = crypto.createPublicKey({
+    key: {
+      kty: 'RSA',
+      n: Buffer.from(modulus, 'hex').toString('base64url'),
+      e: Buffer.from(exponent, 'hex').toString('base64url')
+    },
+    format: 'jwk'
+  });
+  const signed = crypto.publicEncrypt(
+    { key: publicKey, padding: crypto.constants.RSA_NO_PADDING },
+    toFixedBuffer(signature, modulus.length / 2)
+  );
+
+  return toBigInt(signed.toString('hex')) === fullDomainHash(message, modulus);
+};
+
+module.exports = {
+  generateSigningKey,
+  fullDomainHash,
+  signBlinded,
+  verifySignature
+};
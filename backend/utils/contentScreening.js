@@ -0,0 +1,128 @@
+const fs = require('fs');
+const path = require('path');
+const ScreeningWord = require('../models/ScreeningWord');
+const screeningConfig = require('../config/screening');
+
+const DEFAULT_WORD_LIST_FILE = path.join(__dirname, '..', 'data', 'screening-words.txt');
+
+// How each finding type is described in the notes left for moderators
+const FINDING_LABELS = {
+  profanity: 'profanity',
+  insult: 'a personal attack',
+  email: 'an email address',
+  phone: 'a phone number',
+  'roll-number': 'a roll number'
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+// Runs of digits with the separators people write phone numbers with; 10-13 digits counts as a number
+const PHONE_CANDIDATE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+const PHONE_MIN_DIGITS = 10;
+const PHONE_MAX_DIGITS = 13;
+
+// Undo common character swaps so "1d10t" or "sh!t" still match the word list
+const LOOKALIKES = { 0: 'o', 1: 'i', '!': 'i', 3: 'e', 4: 'a', '@': 'a', 5: 's', $: 's', 7: 't' };
+
+const normalizeForWords = (text) => text.toLowerCase().replace(/[0134@5$7!]/g, (char) => LOOKALIKES[char]);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "class" doesn't match "ass"
+const containsWord = (text, word) =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(word)}($|[^a-z])`).test(text);
+
+// A screener looks at the feedback text and returns a finding for everything suspicious in it:
+// { type, match }. Each type needs a weight in config/screening.js.
+const wordListScreener = {
+  name: 'word-list',
+  screen: async (text) => {
+    const words = await ScreeningWord.find().select('word category').lean();
+    const normalized = normalizeForWords(text);
+
+    return words
+      .filter(({ word }) => containsWord(normalized, normalizeForWords(word)))
+      .map(({ word, category }) => ({ type: category, match: word }));
+  }
+};
+
+const emailScreener = {
+  name: 'email',
+  screen: async (text) => (text.match(EMAIL_PATTERN) || []).map(match => ({ type: 'email', match }))
+};
+
+const phoneScreener = {
+  name: 'phone',
+  screen: async (text) => (text.match(PHONE_CANDIDATE_PATTERN) || [])
+    .filter((candidate) => {
+      const digits = candidate.replace(/\D/g, '').length;
+      return digits >= PHONE_MIN_DIGITS && digits <= PHONE_MAX_DIGITS;
+    })
+    .map(match => ({ type: 'phone', match: match.trim() }))
+};
+
+const rollNumberScreener = {
+  name: 'roll-number',
+  screen: async (text) => (text.match(new RegExp(screeningConfig.rollNumberPattern, 'gi')) || [])
+    .map(match => ({ type: 'roll-number', match }))
+};
+
+const screeners = [wordListScreener, emailScreener, phoneScreener, rollNumberScreener];
+
+// Add a screener to the pipeline
+const registerScreener = (screener) => {
+  screeners.push(screener);
+};
+
+// Notes for the moderator explaining why feedback was held. Words from the list are quoted;
+// personal information is only named, so the notes don't repeat it.
+const describeFindings = (score, findings) => {
+  const words = [...new Set(findings.filter(finding => ['profanity', 'insult'].includes(finding.type))
+    .map(finding => `"${finding.match}"`))];
+  const personalInformation = [...new Set(findings.filter(finding => !['profanity', 'insult'].includes(finding.type))
+    .map(finding => FINDING_LABELS[finding.type] || finding.type))];
+
+  const reasons = [];
+  if (words.length > 0) reasons.push(`language from the word list (${words.join(', ')})`);
+  if (personalInformation.length > 0) reasons.push(`what looks like ${personalInformation.join(', ')}`);
+
+  const notes = `Held by automatic screening (score ${score}): contains ${reasons.join(' and ')}.`;
+  return notes.length > 500 ? `${notes.substring(0, 497)}...` : notes;
+};
+
+// Run every screener over the given pieces of text and score the findings
+const screenText = async (texts) => {
+  const text = texts.filter(Boolean).join('\n');
+  if (!screeningConfig.enabled || !text) {
+    return { score: 0, flags: [], findings: [], flagged: false, notes: null };
+  }
+
+  const results = await Promise.all(screeners.map(screener => screener.screen(text)));
+  const findings = results.flat();
+  const score = findings.reduce((total, finding) => total + (screeningConfig.weights[finding.type] || 1), 0);
+  const flagged = findings.length > 0 && score >= screeningConfig.threshold;
+
+  return {
+    score,
+    flags: [...new Set(findings.map(finding => finding.type))],
+    findings,
+    flagged,
+    notes: flagged ? describeFindings(score, findings) : null
+  };
+};
+
+// Read the bundled default word list
+const readDefaultWordList = () => fs.readFileSync(DEFAULT_WORD_LIST_FILE, 'utf8')
+  .split(/\r?\n/)
+  .map(line => line.trim())
+  .filter(line => line && !line.startsWith('#'))
+  .map((line) => {
+    const [category, ...words] = line.split(/\s+/);
+    return { category, word: words.join(' ').toLowerCase() };
+  });
+
+module.exports = {
+  screenText,
+  registerScreener,
+  readDefaultWordList
+};
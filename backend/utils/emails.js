@@ -0,0 +1,112 @@
+const { sendMail } = require('./mailer');
+const mailConfig = require('../config/mail');
+
+// Email messages sent by the application
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const sendPasswordResetEmail = (user, resetToken) => {
+  const resetUrl = `${mailConfig.clientUrl}/reset-password?token=${resetToken}`;
+
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your EduFeedback password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      resetUrl,
+      '',
+      'The link expires in 30 minutes and can only be used once.',
+      'If you did not request this, you can ignore this email.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.name)},</p>
+      <p>We received a request to reset your password. Click the link below to choose a new one:</p>
+      <p><a href="${resetUrl}">Reset password</a></p>
+      <p>The link expires in 30 minutes and can only be used once.</p>
+      <p>If you did not request this, you can ignore this email.</p>
+    `
+  });
+};
+
+const sendVerificationEmail = (user, verificationToken) => {
+  const verifyUrl = `${mailConfig.clientUrl}/verify-email?token=${verificationToken}`;
+
+  return sendMail({
+    to: user.email,
+    subject: 'Confirm your EduFeedback email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      verifyUrl,
+      '',
+      'You need a confirmed address before you can submit course feedback.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.name)},</p>
+      <p>Please confirm your email address by clicking the link below:</p>
+      <p><a href="${verifyUrl}">Confirm email address</a></p>
+      <p>You need a confirmed address before you can submit course feedback.</p>
+    `
+  });
+};
+
+const sendInvitationEmail = (invitation, inviteToken, invitedBy) => {
+  const inviteUrl = `${mailConfig.clientUrl}/register?invite=${inviteToken}`;
+  const roleLabel = { admin: 'an administrator', instructor: 'an instructor', student: 'a student' }[invitation.role]
+    || `a ${invitation.role}`;
+
+  return sendMail({
+    to: invitation.email,
+    subject: 'You have been invited to EduFeedback',
+    text: [
+      'Hi,',
+      '',
+      `${invitedBy.name} has invited you to join EduFeedback as ${roleLabel}. Open the link below to create your account:`,
+      inviteUrl,
+      '',
+      `The invitation expires on ${invitation.expiresAt.toUTCString()}.`
+    ].join('\n'),
+    html: `
+      <p>Hi,</p>
+      <p>${escapeHtml(invitedBy.name)} has invited you to join EduFeedback as ${roleLabel}. Click the link below to create your account:</p>
+      <p><a href="${inviteUrl}">Accept invitation</a></p>
+      <p>The invitation expires on ${invitation.expiresAt.toUTCString()}.</p>
+    `
+  });
+};
+
+// feedback.course must be populated with the course name and code
+const sendFeedbackRejectedEmail = (student, feedback) => {
+  const feedbackUrl = `${mailConfig.clientUrl}/feedback/my-feedback`;
+  const courseLabel = `${feedback.course.code} - ${feedback.course.name}`;
+
+  return sendMail({
+    to: student.email,
+    subject: `Your feedback on ${feedback.course.code} was not published`,
+    text: [
+      `Hi ${student.name},`,
+      '',
+      `Your feedback on ${courseLabel} was reviewed and not published. The moderator's reason:`,
+      '',
+      feedback.moderatorNotes,
+      '',
+      'While the feedback window is open you can edit your feedback and it will be reviewed again:',
+      feedbackUrl
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(student.name)},</p>
+      <p>Your feedback on ${escapeHtml(courseLabel)} was reviewed and not published. The moderator's reason:</p>
+      <blockquote>${escapeHtml(feedback.moderatorNotes)}</blockquote>
+      <p>While the feedback window is open you can <a href="${feedbackUrl}">edit your feedback</a> and it will be reviewed again.</p>
+    `
+  });
+};
+
+module.exports = { sendPasswordResetEmail, sendVerificationEmail, sendInvitationEmail, sendFeedbackRejectedEmail };
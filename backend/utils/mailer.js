@@ -0,0 +1,92 @@
+const fs = require('fs');
+const path = require('path');
+const mailConfig = require('../config/mail');
+
+// Each transport exposes send(message) and resolves once the message is delivered
+
+const createFileTransport = () => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.promises.mkdir(mailConfig.fileDirectory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const fileName = `${Date.now()}_${safeRecipient}.json`;
+    const filePath = path.join(mailConfig.fileDirectory, fileName);
+
+    await fs.promises.writeFile(filePath, JSON.stringify({
+      ...message,
+      sentAt: new Date().toISOString()
+    }, null, 2));
+
+    console.log(` Mail to ${message.to} written to ${filePath}`);
+  }
+});
+
+const createSmtpTransport = () => {
+  // Loaded lazily so the other transports work without nodemailer installed
+  const nodemailer = require('nodemailer');
+  const { host, port, secure, user, pass } = mailConfig.smtp;
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: (message) => transporter.sendMail(message)
+  };
+};
+
+const createMemoryTransport = () => {
+  const outbox = [];
+
+  return {
+    name: 'memory',
+    outbox,
+    send: async (message) => {
+      outbox.push({ ...message, sentAt: new Date() });
+    }
+  };
+};
+
+const transportFactories = {
+  file: createFileTransport,
+  smtp: createSmtpTransport,
+  memory: createMemoryTransport
+};
+
+let activeTransport = null;
+
+const getTransport = () => {
+  if (!activeTransport) {
+    const factory = transportFactories[mailConfig.transport];
+    if (!factory) {
+      throw new Error(`Unknown mail transport "${mailConfig.transport}"`);
+    }
+    activeTransport = factory();
+  }
+  return activeTransport;
+};
+
+// Replace the transport, e.g. with a memory transport in tests
+const setTransport = (transport) => {
+  activeTransport = typeof transport === 'string'
+    ? transportFactories[transport]()
+    : transport;
+  return activeTransport;
+};
+
+const sendMail = async ({ to, subject, text, html }) => {
+  await getTransport().send({
+    from: mailConfig.from,
+    to,
+    subject,
+    text,
+    html
+  });
+};
+
+module.exports = { sendMail, getTransport, setTransport };
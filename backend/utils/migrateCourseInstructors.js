@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+const Course = require('../models/Course');
+const User = require('../models/User');
+const permissionConfig = require('../config/permissions');
+require('dotenv').config();
+
+// Courses used to store the instructor as free text. This links each course to the
+// instructor account with the same name, and clears names that match no account.
+// Run with --dry-run to only report what would change.
+const dryRun = process.argv.includes('--dry-run');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/student_feedback_app');
+  console.log('Connected to MongoDB');
+
+  // Read through the raw collection: string values no longer fit the schema
+  const courses = await Course.collection.find({ instructor: { $type: 'string' } }).toArray();
+  console.log(`Found ${courses.length} courses with a free-text instructor`);
+
+  let linked = 0;
+  const unmatched = [];
+
+  for (const course of courses) {
+    const name = course.instructor.trim();
+    const instructor = name && await User.findOne({
+      role: { $in: permissionConfig.rolesWith('courses:teach') },
+      name: { $regex: `^${escapeRegex(name)}$`, $options: 'i' }
+    });
+
+    if (instructor) {
+      linked++;
+      console.log(`${course.code}: linked to ${instructor.email}`);
+    } else {
+      unmatched.push(`${course.code} (${name || 'empty'})`);
+    }
+
+    if (!dryRun) {
+      await Course.collection.updateOne(
+        { _id: course._id },
+        { $set: { instructor: instructor ? instructor._id : null } }
+      );
+    }
+  }
+
+  console.log(`${linked} courses linked to instructor accounts`);
+  if (unmatched.length > 0) {
+    console.log('No instructor account found for (instructor cleared):');
+    unmatched.forEach(entry => console.log(`  ${entry}`));
+    console.log('Invite these instructors, then assign them from the Courses page.');
+  }
+  if (dryRun) {
+    console.log('Dry run: no changes were written');
+  }
+};
+
+migrate()
+  .catch(error => {
+    console.error('Migration error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
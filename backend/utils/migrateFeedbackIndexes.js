@@ -0,0 +1,26 @@
+const mongoose = require('mongoose');
+const Feedback = require('../models/Feedback');
+require('dotenv').config();
+
+// The one-feedback-per-student-per-course index now skips anonymized feedback (which has no
+// student) and is keyed per academic term. MongoDB can't change an index in place, so this
+// drops and rebuilds the feedback indexes to match the schema. Run once after upgrading,
+// before deleting any accounts or opening a second term.
+const migrate = async () => {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/student_feedback_app');
+  console.log('Connected to MongoDB');
+
+  const dropped = await Feedback.syncIndexes();
+  if (dropped.length > 0) {
+    console.log(`Rebuilt feedback indexes: ${dropped.join(', ')}`);
+  } else {
+    console.log('Feedback indexes are already up to date');
+  }
+};
+
+migrate()
+  .catch(error => {
+    console.error('Migration error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.connection.close());
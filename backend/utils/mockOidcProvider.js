@@ -0,0 +1,170 @@
+const express = require('express');
+const crypto = require('crypto');
+const fs = require('fs');
+const jwt = require('jsonwebtoken');
+require('dotenv').config();
+
+// A minimal OpenID Connect provider for trying single sign-on locally. It supports only
+// the authorization code flow with PKCE (S256) and lets you pick one of a few test users.
+// Never expose it outside your machine: anyone can sign in as anyone.
+const port = parseInt(process.env.MOCK_OIDC_PORT, 10) || 4000;
+const issuer = `http://localhost:${port}`;
+
+const defaultUsers = [
+  { sub: 'mock-student-1', name: 'Ada Student', email: 'ada.student@example.edu', email_verified: true, groups: ['students'] },
+  { sub: 'mock-faculty-1', name: 'Grace Faculty', email: 'grace.faculty@example.edu', email_verified: true, groups: ['faculty'] },
+  { sub: 'mock-staff-1', name: 'Alan Staff', email: 'alan.staff@example.edu', email_verified: true, groups: ['it-staff'] },
+  { sub: 'mock-unverified-1', name: 'Una Verified', email: 'una.verified@example.edu', email_verified: false, groups: ['students'] }
+];
+
+// Test users can be replaced with a JSON array of claim sets in MOCK_OIDC_USERS_FILE
+const users = process.env.MOCK_OIDC_USERS_FILE
+  ? JSON.parse(fs.readFileSync(process.env.MOCK_OIDC_USERS_FILE, 'utf8'))
+  : defaultUsers;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const keyId = crypto.randomBytes(8).toString('hex');
+
+// Issued authorization codes, valid for one minute and usable once
+const codes = new Map();
+const CODE_TTL_MS = 60 * 1000;
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const redirectWith = (res, redirectUri, params) => {
+  const url = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, value);
+  });
+  res.redirect(url.toString());
+};
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
+    claims_supported: ['sub', 'name', 'email', 'email_verified', 'groups']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }]
+  });
+});
+
+// Show the test users to choose from
+app.get('/authorize', (req, res) => {
+  const { response_type: responseType, client_id: clientId, redirect_uri: redirectUri } = req.query;
+  const { code_challenge: codeChallenge, code_challenge_method: codeChallengeMethod } = req.query;
+
+  if (responseType !== 'code' || !clientId || !redirectUri) {
+    return res.status(400).send('response_type=code, client_id and redirect_uri are required');
+  }
+  if (!codeChallenge || codeChallengeMethod !== 'S256') {
+    return res.status(400).send('PKCE with code_challenge_method=S256 is required');
+  }
+
+  const hiddenFields = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(field => `<input type="hidden" name="${field}" value="${escapeHtml(req.query[field] || '')}">`)
+    .join('');
+
+  const userButtons = users.map((user, index) => `
+    <button name="user" value="${index}">
+      <strong>${escapeHtml(user.name)}</strong><br>
+      <small>${escapeHtml(user.email)}${user.email_verified ? '' : ' (unverified)'}
+        &middot; ${escapeHtml([].concat(user.groups || []).join(', ') || 'no groups')}</small>
+    </button>`).join('');
+
+  res.send(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>Mock campus sign-in</title>
+    <style>
+      body { font-family: sans-serif; max-width: 420px; margin: 60px auto; color: #111827; }
+      button { display: block; width: 100%; margin: 8px 0; padding: 12px; text-align: left; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <h1>Mock campus sign-in</h1>
+    <p>Signing in to <code>${escapeHtml(clientId)}</code>. Choose a test user:</p>
+    <form method="post" action="/authorize">
+      ${hiddenFields}
+      ${userButtons}
+      <button name="deny" value="1">Cancel</button>
+    </form>
+  </body>
+</html>`);
+});
+
+// Issue a code for the chosen user and send the browser back to the app
+app.post('/authorize', (req, res) => {
+  const { client_id: clientId, redirect_uri: redirectUri, state, nonce, code_challenge: codeChallenge } = req.body;
+
+  if (req.body.deny) {
+    return redirectWith(res, redirectUri, { error: 'access_denied', state });
+  }
+
+  const user = users[parseInt(req.body.user, 10)];
+  if (!user) {
+    return res.status(400).send('Unknown user');
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, { clientId, redirectUri, nonce, codeChallenge, user, expiresAt: Date.now() + CODE_TTL_MS });
+
+  redirectWith(res, redirectUri, { code, state });
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type: grantType, code, redirect_uri: redirectUri, client_id: clientId, code_verifier: codeVerifier } = req.body;
+
+  const grant = codes.get(code);
+  codes.delete(code);
+
+  if (grantType !== 'authorization_code' || !grant || grant.expiresAt < Date.now()) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Code is invalid or expired' });
+  }
+  if (grant.clientId !== clientId || grant.redirectUri !== redirectUri) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Client or redirect URI mismatch' });
+  }
+
+  const challenge = crypto.createHash('sha256').update(codeVerifier || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const { sub, ...claims } = grant.user;
+  const idToken = jwt.sign(
+    { ...claims, nonce: grant.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: keyId, expiresIn: '5m', issuer, audience: clientId, subject: sub }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC provider running at ${issuer}`);
+  console.log(`Set OIDC_ISSUER=${issuer} and any OIDC_CLIENT_ID in the backend .env`);
+});
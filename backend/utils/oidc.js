@@ -0,0 +1,142 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const oidcConfig = require('../config/oidc');
+
+// OpenID Connect authorization code flow with PKCE (RFC 7636), as a relying party
+
+let discoveryCache = null;
+let jwksCache = null;
+
+const base64Url = (buffer) => buffer.toString('base64url');
+
+// Random values for one login attempt; the verifier never leaves the server
+const generateLoginParams = () => {
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+
+  return {
+    state: base64Url(crypto.randomBytes(32)),
+    nonce: base64Url(crypto.randomBytes(32)),
+    codeVerifier,
+    codeChallenge: base64Url(crypto.createHash('sha256').update(codeVerifier).digest())
+  };
+};
+
+const fetchJson = async (url, options) => {
+  const response = await fetch(url, options);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const detail = data.error_description || data.error || response.statusText;
+    throw new Error(`OIDC request to ${url} failed: ${detail}`);
+  }
+
+  return data;
+};
+
+// Fetch (and cache) the provider metadata
+const getDiscovery = async () => {
+  if (!discoveryCache) {
+    const metadata = await fetchJson(`${oidcConfig.issuer}/.well-known/openid-configuration`);
+    if (metadata.issuer.replace(/\/$/, '') !== oidcConfig.issuer) {
+      throw new Error(`OIDC issuer mismatch: expected ${oidcConfig.issuer}, got ${metadata.issuer}`);
+    }
+    discoveryCache = metadata;
+  }
+
+  return discoveryCache;
+};
+
+// Find the provider's signing key, refetching the key set once in case keys were rotated
+const getSigningKey = async (kid) => {
+  const findKey = () => jwksCache && jwksCache.find(key => key.kid === kid || (!kid && key.use !== 'enc'));
+
+  if (!findKey()) {
+    const { jwks_uri: jwksUri } = await getDiscovery();
+    jwksCache = (await fetchJson(jwksUri)).keys || [];
+  }
+
+  const jwk = findKey();
+  if (!jwk) {
+    throw new Error(`OIDC signing key ${kid || '(none)'} not found`);
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+// Build the URL the browser is sent to at the provider
+const buildAuthorizationUrl = async ({ state, nonce, codeChallenge }) => {
+  const { authorization_endpoint: authorizationEndpoint } = await getDiscovery();
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: oidcConfig.clientId,
+    redirect_uri: oidcConfig.redirectUri,
+    scope: oidcConfig.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+
+  return `${authorizationEndpoint}?${params.toString()}`;
+};
+
+// Verify the ID token's signature and standard claims, returning its claims
+const verifyIdToken = async (idToken, nonce) => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new Error('OIDC ID token is malformed');
+  }
+
+  const key = await getSigningKey(decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'],
+    issuer: [oidcConfig.issuer, `${oidcConfig.issuer}/`],
+    audience: oidcConfig.clientId
+  });
+
+  if (claims.nonce !== nonce) {
+    throw new Error('OIDC ID token nonce mismatch');
+  }
+
+  return claims;
+};
+
+// Exchange an authorization code for tokens and return the verified ID token claims
+const exchangeCode = async ({ code, codeVerifier, nonce }) => {
+  const { token_endpoint: tokenEndpoint } = await getDiscovery();
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oidcConfig.redirectUri,
+    client_id: oidcConfig.clientId,
+    code_verifier: codeVerifier
+  });
+  if (oidcConfig.clientSecret) {
+    body.append('client_secret', oidcConfig.clientSecret);
+  }
+
+  const tokens = await fetchJson(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response has no ID token');
+  }
+
+  return verifyIdToken(tokens.id_token, nonce);
+};
+
+// Map the role claim to an app role using the configured role map (null when nothing matches)
+const mapRole = (claims) => {
+  const claimValue = claims[oidcConfig.roleClaim];
+  const values = Array.isArray(claimValue) ? claimValue : [claimValue];
+
+  const match = Object.keys(oidcConfig.roleMap).find(key => values.includes(key));
+  return match ? oidcConfig.roleMap[match] : null;
+};
+
+module.exports = { generateLoginParams, buildAuthorizationUrl, exchangeCode, mapRole };
@@ -0,0 +1,82 @@
+const fs = require('fs');
+const path = require('path');
+const { body } = require('express-validator');
+const passwordConfig = require('../config/password');
+
+const BUNDLED_LIST_FILE = path.join(__dirname, '..', 'data', 'common-passwords.txt');
+
+// Anything that isn't a letter, digit or whitespace counts as a symbol
+const SYMBOL_PATTERN = /[^A-Za-z0-9\s]/;
+
+let breachedPasswords = null;
+
+// Read the list of common and breached passwords once, on first use
+const getBreachedPasswords = () => {
+  if (!breachedPasswords) {
+    const contents = fs.readFileSync(passwordConfig.breachedListFile || BUNDLED_LIST_FILE, 'utf8');
+    breachedPasswords = new Set(contents
+      .split(/\r?\n/)
+      .map(line => line.trim().toLowerCase())
+      .filter(line => line && !line.startsWith('#')));
+  }
+  return breachedPasswords;
+};
+
+// Check a password against the policy and return a message for each rule it breaks
+const checkPassword = (password) => {
+  if (typeof password !== 'string') return ['Password is required'];
+
+  const problems = [];
+
+  if (password.length < passwordConfig.minLength) {
+    problems.push(`Password must be at least ${passwordConfig.minLength} characters`);
+  }
+  if (password.length > passwordConfig.maxLength) {
+    problems.push(`Password cannot exceed ${passwordConfig.maxLength} characters`);
+  }
+  if (passwordConfig.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('Password must contain an uppercase letter');
+  }
+  if (passwordConfig.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push('Password must contain a lowercase letter');
+  }
+  if (passwordConfig.requireNumber && !/\d/.test(password)) {
+    problems.push('Password must contain a number');
+  }
+  if (passwordConfig.requireSymbol && !SYMBOL_PATTERN.test(password)) {
+    problems.push('Password must contain a special character');
+  }
+  if (passwordConfig.checkBreached && getBreachedPasswords().has(password.toLowerCase())) {
+    problems.push('This password is too common or has appeared in a data breach. Please choose another.');
+  }
+
+  return problems;
+};
+
+// express-validator rule applying the policy to a request body field
+const passwordPolicyRule = (field) => body(field).custom((value) => {
+  const problems = checkPassword(value);
+  if (problems.length > 0) {
+    throw new Error(problems.join('. '));
+  }
+  return true;
+});
+
+// The policy as shown to clients so they can check passwords while the user types
+const getPublicPolicy = () => ({
+  minLength: passwordConfig.minLength,
+  maxLength: passwordConfig.maxLength,
+  requireUppercase: passwordConfig.requireUppercase,
+  requireLowercase: passwordConfig.requireLowercase,
+  requireNumber: passwordConfig.requireNumber,
+  requireSymbol: passwordConfig.requireSymbol,
+  historyCount: passwordConfig.historyCount,
+  maxAgeDays: passwordConfig.maxAgeDays,
+  checkBreached: passwordConfig.checkBreached
+});
+
+module.exports = {
+  checkPassword,
+  passwordPolicyRule,
+  getPublicPolicy
+};
@@ -3,6 +3,15 @@ const bcrypt = require('bcryptjs');
 const User = require('../models/User');
 const Course = require('../models/Course');
 const Feedback = require('../models/Feedback');
+const FeedbackRevision = require('../models/FeedbackRevision');
+const FeedbackDraft = require('../models/FeedbackDraft');
+const IdempotencyKey = require('../models/IdempotencyKey');
+const AnonymousSigningKey = require('../models/AnonymousSigningKey');
+const AnonymousTokenIssue = require('../models/AnonymousTokenIssue');
+const SpentAnonymousToken = require('../models/SpentAnonymousToken');
+const Term = require('../models/Term');
+const ScreeningWord = require('../models/ScreeningWord');
+const { readDefaultWordList } = require('./contentScreening');
 require('dotenv').config();
 
 const connectDB = async () => {
@@ -37,6 +46,14 @@ const seedData = async () => {
     await User.deleteMany({});
     await Course.deleteMany({});
     await Feedback.deleteMany({});
+    await FeedbackRevision.deleteMany({});
+    await FeedbackDraft.deleteMany({});
+    await IdempotencyKey.deleteMany({});
+    await AnonymousSigningKey.deleteMany({});
+    await AnonymousTokenIssue.deleteMany({});
+    await SpentAnonymousToken.deleteMany({});
+    await Term.deleteMany({});
+    await ScreeningWord.deleteMany({});
     console.log('Cleared existing data');
 
     // Create admin user
@@ -44,7 +61,8 @@ const seedData = async () => {
       name: 'Dr. Rajesh Kumar',
       email: 'admin@bgscollege.ac.in',
       password: 'Admin@123',
-      role: 'admin'
+      role: 'admin',
+      emailVerified: true
     });
     console.log('Admin user created');
 
@@ -72,7 +90,8 @@ const seedData = async () => {
         phoneNumber,
         address,
         dateOfBirth,
-        role: 'student'
+        role: 'student',
+        emailVerified: true
       });
 
       students.push(student);
@@ -173,12 +192,57 @@ const seedData = async () => {
       }
     ];
 
+    // Create an instructor account for each course's instructor and link it to the course
+    const instructors = new Map();
     const courses = [];
     for (const courseInfo of courseData) {
-      const course = await Course.create(courseInfo);
+      if (!instructors.has(courseInfo.instructor)) {
+        const email = courseInfo.instructor
+          .replace(/^(Dr|Prof)\.\s+/, '')
+          .toLowerCase()
+          .replace(' ', '.') + '@bgscollege.ac.in';
+
+        instructors.set(courseInfo.instructor, await User.create({
+          name: courseInfo.instructor,
+          email,
+          password: 'Instructor@123',
+          role: 'instructor',
+          emailVerified: true
+        }));
+      }
+
+      const course = await Course.create({
+        ...courseInfo,
+        instructor: instructors.get(courseInfo.instructor)._id
+      });
       courses.push(course);
     }
-    console.log('Sample courses created');
+    console.log('Sample instructors and courses created');
+
+    // Create a finished term and a current one whose feedback window is open
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const previousTerm = await Term.create({
+      name: 'Previous Semester',
+      startDate: new Date(now - 200 * DAY),
+      endDate: new Date(now - 80 * DAY),
+      feedbackOpensAt: new Date(now - 100 * DAY),
+      feedbackClosesAt: new Date(now - 80 * DAY),
+      createdBy: adminUser._id
+    });
+    const currentTerm = await Term.create({
+      name: 'Current Semester',
+      startDate: new Date(now - 60 * DAY),
+      endDate: new Date(now + 60 * DAY),
+      feedbackOpensAt: new Date(now - 7 * DAY),
+      feedbackClosesAt: new Date(now + 21 * DAY),
+      createdBy: adminUser._id
+    });
+    console.log('Sample terms created');
+
+    // Start with the bundled screening word list; admins can edit it afterwards
+    await ScreeningWord.insertMany(readDefaultWordList().map(entry => ({ ...entry, createdBy: adminUser._id })));
+    console.log('Screening word list created');
 
     // Create sample feedback messages
     const feedbackMessages = [
@@ -215,17 +279,20 @@ const seedData = async () => {
 
       const existingFeedback = await Feedback.findOne({
         student: randomStudent._id,
-        course: randomCourse._id
+        course: randomCourse._id,
+        term: previousTerm._id
       });
 
       if (!existingFeedback) {
         await Feedback.create({
           student: randomStudent._id,
           course: randomCourse._id,
+          term: previousTerm._id,
           rating: randomRating,
           message: randomMessage,
           isAnonymous: Math.random() > 0.6,
-          tags: randomRating >= 4 ? ['positive'] : randomRating <= 2 ? ['needs-improvement'] : ['neutral']
+          tags: randomRating >= 4 ? ['positive'] : randomRating <= 2 ? ['needs-improvement'] : ['neutral'],
+          status: 'approved' // Last term's feedback has been reviewed already; this term's waits when moderation is on
         });
       }
     }
@@ -253,6 +320,7 @@ const seedData = async () => {
       await Feedback.create({
         student: kusumaUser._id,
         course: course._id,
+        term: currentTerm._id,
         rating: rating,
         message: message,
         isAnonymous: false,
@@ -265,6 +333,9 @@ const seedData = async () => {
     console.log('\n  Institution: BGS College - Student Feedback System');
     console.log('\nDemo Credentials:');
     console.log('Admin: admin@bgscollege.ac.in / Admin@123');
+    instructors.forEach(instructor => {
+      console.log(`Instructor: ${instructor.email} / Instructor@123`);
+    });
     students.forEach(student => {
       console.log(`Student: ${student.email} / Student@123`);
     });
@@ -0,0 +1,44 @@
+const statisticsConfig = require('../config/statistics');
+
+// Whether a number of responses is too small to show aggregates of them
+const isBelowMinimum = (count) => count > 0 && count < statisticsConfig.minResponses;
+
+const canSeeExactStatistics = (user) => user.hasPermission('statistics:exact');
+
+// Keep only the response count of a question answered by too few students
+const suppressQuestion = (summary) => {
+  if (!isBelowMinimum(summary.responses)) return summary;
+
+  const { question, text, type, responses } = summary;
+  return { question, text, type, responses, suppressed: true };
+};
+
+// Hide the average and rating distribution of course statistics with too few responses, and the
+// aggregates of any survey question too few students answered
+const suppressStatistics = (stats) => {
+  const suppressed = {
+    ...stats,
+    minResponses: statisticsConfig.minResponses
+  };
+  if (stats.questions) {
+    suppressed.questions = stats.questions.map(suppressQuestion);
+  }
+
+  if (isBelowMinimum(stats.totalFeedback)) {
+    suppressed.averageRating = null;
+    suppressed.ratingDistribution = null;
+    suppressed.suppressed = true;
+  }
+
+  return suppressed;
+};
+
+// Statistics as the user may see them
+const statisticsFor = (user, stats) => (canSeeExactStatistics(user) ? stats : suppressStatistics(stats));
+
+module.exports = {
+  isBelowMinimum,
+  canSeeExactStatistics,
+  suppressStatistics,
+  statisticsFor
+};
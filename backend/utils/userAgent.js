@@ -0,0 +1,33 @@
+// Turn a raw User-Agent header into a short "Browser on OS" label for display
+const BROWSERS = [
+  { name: 'Edge', pattern: /Edg(e|A|iOS)?\// },
+  { name: 'Opera', pattern: /OPR\/|Opera/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\// },
+  { name: 'Chrome', pattern: /Chrome\/|CriOS\// },
+  { name: 'Firefox', pattern: /Firefox\/|FxiOS\// },
+  { name: 'Safari', pattern: /Safari\// }
+];
+
+const OPERATING_SYSTEMS = [
+  { name: 'Android', pattern: /Android/ },
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Windows', pattern: /Windows/ },
+  { name: 'macOS', pattern: /Mac OS X|Macintosh/ },
+  { name: 'ChromeOS', pattern: /CrOS/ },
+  { name: 'Linux', pattern: /Linux/ }
+];
+
+const describeUserAgent = (userAgent) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(b => b.pattern.test(userAgent));
+  const os = OPERATING_SYSTEMS.find(o => o.pattern.test(userAgent));
+
+  if (!browser && !os) return 'Unknown device';
+  if (!os) return browser.name;
+  if (!browser) return os.name;
+
+  return `${browser.name} on ${os.name}`;
+};
+
+module.exports = { describeUserAgent };
@@ -0,0 +1,83 @@
+/* eslint-disable no-restricted-globals */
+
+// Keeps the app shell and built assets in a cache so the app still opens without a connection.
+// API requests are never cached; feedback sent while offline is queued by the app itself, since
+// only the app holds the login needed to send it. Bump the version when the cached files change.
+const CACHE_NAME = 'student-feedback-v1';
+
+const APP_SHELL = ['./', './index.html', './manifest.json', './favicon.ico', './logo192.png', './logo512.png'];
+
+// Must match OFFLINE_CONFIG in src/utils/constants.ts
+const SYNC_TAG = 'feedback-queue';
+const SYNC_MESSAGE = 'SYNC_FEEDBACK_QUEUE';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Pages: the network first so deploys show up, then the cached shell (routing happens in the app)
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(new URL('./index.html', self.registration.scope).href, response))
+        .catch(() => caches.match(new URL('./index.html', self.registration.scope).href))
+    );
+    return;
+  }
+
+  // Built files have a content hash in their name, so a cached copy is always current
+  if (url.pathname.includes('/static/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+    );
+    return;
+  }
+
+  // Everything else: the cached copy right away, refreshed in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const fetched = fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => cached);
+      return cached || fetched;
+    })
+  );
+});
+
+// The browser is back online: ask any open window to send its queued feedback
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' })
+      .then((windows) => windows.forEach((client) => client.postMessage({ type: SYNC_MESSAGE })))
+  );
+});
@@ -3,10 +3,15 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { ROUTES, TOAST_CONFIG } from './utils/constants';
+import { useFeedbackQueueSync } from './hooks/useFeedbackQueue';
 
 // Import components
 import Login from './pages/auth/Login';
 import Register from './pages/auth/Register';
+import ForgotPassword from './pages/auth/ForgotPassword';
+import ResetPassword from './pages/auth/ResetPassword';
+import VerifyEmail from './pages/auth/VerifyEmail';
+import OidcCallback from './pages/auth/OidcCallback';
 import Dashboard from './pages/Dashboard';
 import Profile from './pages/Profile';
 import Courses from './pages/Courses';
@@ -16,6 +21,12 @@ import AdminDashboard from './pages/admin/AdminDashboard';
 import AdminStudents from './pages/admin/AdminStudents';
 import AdminFeedback from './pages/admin/AdminFeedback';
 import AdminCourses from './pages/admin/AdminCourses';
+import AdminInvitations from './pages/admin/AdminInvitations';
+import AdminAudit from './pages/admin/AdminAudit';
+import AdminSurveys from './pages/admin/AdminSurveys';
+import AdminTerms from './pages/admin/AdminTerms';
+import AdminScreening from './pages/admin/AdminScreening';
+import InstructorDashboard from './pages/instructor/InstructorDashboard';
 import NotFound from './pages/NotFound';
 import LoadingSpinner from './components/ui/LoadingSpinner';
 import ProtectedRoute from './components/auth/ProtectedRoute';
@@ -35,6 +46,13 @@ const AppRoutes: React.FC = () => {
         path={ROUTES.REGISTER} 
         element={isAuthenticated ? <Navigate to={ROUTES.DASHBOARD} replace /> : <Register />} 
       />
+      <Route
+        path={ROUTES.FORGOT_PASSWORD}
+        element={isAuthenticated ? <Navigate to={ROUTES.DASHBOARD} replace /> : <ForgotPassword />}
+      />
+      <Route path={ROUTES.RESET_PASSWORD} element={<ResetPassword />} />
+      <Route path={ROUTES.VERIFY_EMAIL} element={<VerifyEmail />} />
+      <Route path={ROUTES.OIDC_CALLBACK} element={<OidcCallback />} />
       
       {/* Protected routes */}
       <Route
@@ -59,7 +77,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.COURSES}
         element={
-          <ProtectedRoute requiredRole="student">
+          <ProtectedRoute requiredPermission="feedback:submit">
             <Courses />
           </ProtectedRoute>
         }
@@ -68,7 +86,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.MY_FEEDBACK}
         element={
-          <ProtectedRoute requiredRole="student">
+          <ProtectedRoute requiredPermission="feedback:submit">
             <FeedbackList />
           </ProtectedRoute>
         }
@@ -77,7 +95,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.SUBMIT_FEEDBACK}
         element={
-          <ProtectedRoute requiredRole="student">
+          <ProtectedRoute requiredPermission="feedback:submit">
             <SubmitFeedback />
           </ProtectedRoute>
         }
@@ -87,7 +105,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.ADMIN_DASHBOARD}
         element={
-          <ProtectedRoute requiredRole="admin">
+          <ProtectedRoute requiredPermission="dashboard:view">
             <AdminDashboard />
           </ProtectedRoute>
         }
@@ -96,7 +114,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.ADMIN_STUDENTS}
         element={
-          <ProtectedRoute requiredRole="admin">
+          <ProtectedRoute requiredPermission="students:read">
             <AdminStudents />
           </ProtectedRoute>
         }
@@ -105,7 +123,7 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.ADMIN_FEEDBACK}
         element={
-          <ProtectedRoute requiredRole="admin">
+          <ProtectedRoute requiredPermission="feedback:read">
             <AdminFeedback />
           </ProtectedRoute>
         }
@@ -114,12 +132,67 @@ const AppRoutes: React.FC = () => {
       <Route
         path={ROUTES.ADMIN_COURSES}
         element={
-          <ProtectedRoute requiredRole="admin">
+          <ProtectedRoute requiredPermission="courses:write">
             <AdminCourses />
           </ProtectedRoute>
         }
       />
 
+      <Route
+        path={ROUTES.ADMIN_SURVEYS}
+        element={
+          <ProtectedRoute requiredPermission="surveys:manage">
+            <AdminSurveys />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path={ROUTES.ADMIN_TERMS}
+        element={
+          <ProtectedRoute requiredPermission="terms:manage">
+            <AdminTerms />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path={ROUTES.ADMIN_SCREENING}
+        element={
+          <ProtectedRoute requiredPermission="screening:manage">
+            <AdminScreening />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path={ROUTES.ADMIN_INVITATIONS}
+        element={
+          <ProtectedRoute requiredPermission="invitations:manage">
+            <AdminInvitations />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path={ROUTES.ADMIN_AUDIT}
+        element={
+          <ProtectedRoute requiredPermission="audit:read">
+            <AdminAudit />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Instructor routes */}
+      <Route
+        path={ROUTES.INSTRUCTOR_DASHBOARD}
+        element={
+          <ProtectedRoute requiredPermission="courses:teach">
+            <InstructorDashboard />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Default redirect */}
       <Route 
         path={ROUTES.HOME} 
@@ -138,6 +211,12 @@ const AppRoutes: React.FC = () => {
   );
 };
 
+// Sends feedback queued while offline, whichever page is open
+const FeedbackQueueSync: React.FC = () => {
+  useFeedbackQueueSync();
+  return null;
+};
+
 // Main App component
 const App: React.FC = () => {
   return (
@@ -145,6 +224,7 @@ const App: React.FC = () => {
       <AuthProvider>
         <div className="min-h-screen bg-gray-50">
           <AppRoutes />
+          <FeedbackQueueSync />
           <Toaster
             position={TOAST_CONFIG.position}
             toastOptions={{
@@ -0,0 +1,59 @@
+import React from 'react';
+import { PasswordPolicy } from '../../types';
+import { getPasswordRules, getPasswordStrength } from '../../utils/helpers';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+}
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-500', 'bg-yellow-500', 'bg-green-400', 'bg-green-600'];
+const STRENGTH_TEXT_COLORS = ['text-red-600', 'text-red-600', 'text-yellow-600', 'text-green-600', 'text-green-700'];
+
+// Live strength bar and checklist of the policy's rules for a new password
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, policy }) => {
+  const strength = getPasswordStrength(password, policy);
+  const rules = getPasswordRules(policy);
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div>
+        <div className="flex gap-1" aria-hidden="true">
+          {[1, 2, 3, 4].map(segment => (
+            <div
+              key={segment}
+              className={`h-1.5 flex-1 rounded-full ${
+                password && strength.score >= segment ? STRENGTH_COLORS[strength.score] : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+        {password && (
+          <p className={`mt-1 text-xs font-medium ${STRENGTH_TEXT_COLORS[strength.score]}`}>
+            Strength: {strength.label}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 text-xs">
+        {rules.map(rule => (
+          <div
+            key={rule.label}
+            className={`flex items-center ${password && rule.test(password) ? 'text-green-600' : 'text-gray-400'}`}
+          >
+            <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+            </svg>
+            {rule.label}
+          </div>
+        ))}
+      </div>
+
+      {policy.checkBreached && (
+        <p className="text-xs text-gray-500">Common or previously breached passwords are not allowed.</p>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -7,9 +7,10 @@ import LoadingSpinner from '../ui/LoadingSpinner';
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  requiredRole 
+  requiredRole,
+  requiredPermission
 }) => {
-  const { isAuthenticated, user, isLoading } = useAuth();
+  const { isAuthenticated, user, isLoading, hasPermission } = useAuth();
   const location = useLocation();
 
   // Show loading spinner while auth is being checked
@@ -32,10 +33,13 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  // Check role-based access
-  if (requiredRole && user?.role !== requiredRole) {
-    // Redirect to appropriate dashboard based on user role
-    const redirectTo = user?.role === 'admin' 
+  // Check role- and permission-based access
+  if (
+    (requiredRole && user?.role !== requiredRole) ||
+    (requiredPermission && !hasPermission(requiredPermission))
+  ) {
+    // Redirect to the dashboard this user is allowed to see
+    const redirectTo = hasPermission('dashboard:view') 
       ? ROUTES.ADMIN_DASHBOARD 
       : ROUTES.DASHBOARD;
     
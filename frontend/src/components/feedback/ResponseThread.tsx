@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { FeedbackResponse, FeedbackResponseFormData } from '../../types';
+import { feedbackApi } from '../../utils/api';
+import { feedbackResponseSchema } from '../../utils/validation';
+import { RESPONSE_CONFIG } from '../../utils/constants';
+import { formatDateTime, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+interface ResponseThreadProps {
+  feedbackId: string;
+  responses: FeedbackResponse[];
+  canReply?: boolean;
+  onResponded?: (response: FeedbackResponse) => void;
+}
+
+// Replies to a feedback entry, with a form for staff to add one
+const ResponseThread: React.FC<ResponseThreadProps> = ({ feedbackId, responses, canReply = false, onResponded }) => {
+  const [sending, setSending] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FeedbackResponseFormData>({
+    resolver: yupResolver(feedbackResponseSchema) as any,
+    defaultValues: { message: '', visibility: 'public' },
+  });
+
+  const handleReply = async (data: FeedbackResponseFormData) => {
+    setSending(true);
+    try {
+      const response = await feedbackApi.respondToFeedback(feedbackId, data);
+      onResponded?.(response);
+      reset({ message: '', visibility: data.visibility });
+      toast.success(response.visibility === 'public' ? 'Reply sent to the student' : 'Private note added');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {responses.map((response) => (
+        <div
+          key={response._id}
+          className={`p-3 rounded-md text-sm ${
+            response.visibility === 'private' ? 'bg-gray-50 border border-dashed border-gray-300' : 'bg-blue-50'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-900">
+              {response.author?.name || 'Former staff member'}
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {RESPONSE_CONFIG.authorRoles[response.authorRole]}
+              </span>
+            </span>
+            <div className="flex items-center space-x-2">
+              {response.visibility === 'private' && (
+                <span className="px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs">Private note</span>
+              )}
+              <span className="text-xs text-gray-500">{formatDateTime(response.createdAt)}</span>
+            </div>
+          </div>
+          <p className="text-gray-700 whitespace-pre-wrap">{response.message}</p>
+        </div>
+      ))}
+
+      {canReply && (
+        <form onSubmit={handleSubmit(handleReply)} className="space-y-2">
+          <textarea
+            {...register('message')}
+            rows={2}
+            maxLength={RESPONSE_CONFIG.messageMaxLength}
+            className={`input-field resize-none text-sm ${errors.message ? 'border-red-500' : ''}`}
+            placeholder="Write a reply..."
+          />
+          {errors.message && (
+            <p className="text-sm text-red-600">{errors.message.message}</p>
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <select {...register('visibility')} className="input-field text-sm sm:w-64">
+              {Object.entries(RESPONSE_CONFIG.visibility).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button type="submit" disabled={sending} className="btn-primary text-sm flex items-center justify-center">
+              {sending ? <LoadingSpinner size="small" /> : 'Send'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Private notes are only seen by administrators and the course instructor.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ResponseThread;
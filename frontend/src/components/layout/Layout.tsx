@@ -1,37 +1,50 @@
 import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { useAuth } from '../../context/AuthContext';
+import { Permission } from '../../types';
+import { authApi } from '../../utils/api';
 import { ROUTES } from '../../utils/constants';
+import { getErrorMessage, formatTime } from '../../utils/helpers';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission, impersonation, stopImpersonation } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [resendingVerification, setResendingVerification] = useState(false);
 
   const isActive = (path: string) => location.pathname === path;
 
-  const studentNavigation = [
-    { name: 'Dashboard', href: ROUTES.DASHBOARD, icon: '🏠' },
-    { name: 'Browse Courses', href: ROUTES.COURSES, icon: '📚' },
-    { name: 'Submit Feedback', href: ROUTES.SUBMIT_FEEDBACK, icon: '✍️' },
-    { name: 'My Feedback', href: ROUTES.MY_FEEDBACK, icon: '📝' },
-    { name: 'Profile', href: ROUTES.PROFILE, icon: '👤' },
-  ];
+  // The dashboard link points at the most detailed dashboard the user can see
+  const dashboardItem = hasPermission('dashboard:view')
+    ? { name: 'Dashboard', href: ROUTES.ADMIN_DASHBOARD, icon: '📊' }
+    : hasPermission('courses:teach')
+      ? { name: 'Dashboard', href: ROUTES.INSTRUCTOR_DASHBOARD, icon: '🎓' }
+      : { name: 'Dashboard', href: ROUTES.DASHBOARD, icon: '🏠' };
 
-  const adminNavigation = [
-    { name: 'Dashboard', href: ROUTES.ADMIN_DASHBOARD, icon: '📊' },
-    { name: 'Students', href: ROUTES.ADMIN_STUDENTS, icon: '👥' },
-    { name: 'Courses', href: ROUTES.ADMIN_COURSES, icon: '📚' },
-    { name: 'Feedback', href: ROUTES.ADMIN_FEEDBACK, icon: '💬' },
+  // Each entry is shown only to roles that grant its permission
+  const allNavigation: { name: string; href: string; icon: string; permission?: Permission }[] = [
+    dashboardItem,
+    { name: 'Browse Courses', href: ROUTES.COURSES, icon: '📚', permission: 'feedback:submit' },
+    { name: 'Submit Feedback', href: ROUTES.SUBMIT_FEEDBACK, icon: '✍️', permission: 'feedback:submit' },
+    { name: 'My Feedback', href: ROUTES.MY_FEEDBACK, icon: '📝', permission: 'feedback:submit' },
+    { name: 'Students', href: ROUTES.ADMIN_STUDENTS, icon: '👥', permission: 'students:read' },
+    { name: 'Courses', href: ROUTES.ADMIN_COURSES, icon: '📚', permission: 'courses:write' },
+    { name: 'Terms', href: ROUTES.ADMIN_TERMS, icon: '🗓️', permission: 'terms:manage' },
+    { name: 'Screening', href: ROUTES.ADMIN_SCREENING, icon: '🛡️', permission: 'screening:manage' },
+    { name: 'Surveys', href: ROUTES.ADMIN_SURVEYS, icon: '📋', permission: 'surveys:manage' },
+    { name: 'Feedback', href: ROUTES.ADMIN_FEEDBACK, icon: '💬', permission: 'feedback:read' },
+    { name: 'Invitations', href: ROUTES.ADMIN_INVITATIONS, icon: '✉️', permission: 'invitations:manage' },
+    { name: 'Audit Log', href: ROUTES.ADMIN_AUDIT, icon: '🛡️', permission: 'audit:read' },
     { name: 'Profile', href: ROUTES.PROFILE, icon: '👤' },
   ];
 
-  const navigation = user?.role === 'admin' ? adminNavigation : studentNavigation;
+  const navigation = allNavigation.filter(item => !item.permission || hasPermission(item.permission));
 
   const handleLogout = async () => {
     try {
@@ -42,8 +55,43 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     }
   };
 
+  const handleExitImpersonation = async () => {
+    await stopImpersonation();
+    navigate(ROUTES.ADMIN_STUDENTS);
+  };
+
+  const handleResendVerification = async () => {
+    setResendingVerification(true);
+    try {
+      const message = await authApi.resendVerification();
+      toast.success(message);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setResendingVerification(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
+      {/* Impersonation banner */}
+      {impersonation && user && (
+        <div className="sticky top-0 z-50 bg-purple-700 text-white">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm">
+              You are viewing as <span className="font-semibold">{user.name}</span> ({user.email}).
+              Changes are disabled until {formatTime(impersonation.expiresAt)}.
+            </p>
+            <button
+              onClick={handleExitImpersonation}
+              className="text-sm font-medium bg-white text-purple-700 px-3 py-1 rounded-md hover:bg-purple-50"
+            >
+              Exit
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -160,6 +208,58 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         )}
       </nav>
 
+      {/* Email verification banner */}
+      {user && !user.emailVerified && (
+        <div className="bg-yellow-50 border-b border-yellow-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm text-yellow-800">
+              Please confirm your email address ({user.email}). You can't submit feedback until it is verified.
+            </p>
+            <button
+              onClick={handleResendVerification}
+              disabled={resendingVerification}
+              className="text-sm font-medium text-yellow-900 underline hover:text-yellow-700 disabled:opacity-50"
+            >
+              {resendingVerification ? 'Sending...' : 'Resend verification email'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Two-factor enrollment banner */}
+      {user?.twoFactorRequired && !user.twoFactorEnabled && (
+        <div className="bg-red-50 border-b border-red-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm text-red-800">
+              Admin accounts must use two-factor authentication. Admin features are locked until you set it up.
+            </p>
+            <Link
+              to={ROUTES.PROFILE}
+              className="text-sm font-medium text-red-900 underline hover:text-red-700"
+            >
+              Set up two-factor authentication
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {/* Expired password banner */}
+      {user?.passwordExpired && !impersonation && (
+        <div className="bg-red-50 border-b border-red-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm text-red-800">
+              Your password has expired. You can't make changes until you choose a new one.
+            </p>
+            <Link
+              to={ROUTES.PROFILE}
+              className="text-sm font-medium text-red-900 underline hover:text-red-700"
+            >
+              Change password
+            </Link>
+          </div>
+        </div>
+      )}
+
       {/* Main content */}
       <main className="flex-1">
         {children}
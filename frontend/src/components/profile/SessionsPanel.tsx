@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { UserSession, LoginEvent } from '../../types';
+import { authApi } from '../../utils/api';
+import { formatDateTime, formatRelativeTime } from '../../utils/helpers';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+const FAILURE_LABELS: Record<NonNullable<LoginEvent['failureReason']>, string> = {
+  'unknown-user': 'Unknown account',
+  'invalid-password': 'Wrong password',
+  'invalid-two-factor': 'Wrong authentication code',
+  blocked: 'Account blocked',
+  locked: 'Account locked',
+};
+
+const SessionsPanel: React.FC = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingSession, setRevokingSession] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSecurityData = async () => {
+      try {
+        const [sessionsData, eventsData] = await Promise.all([
+          authApi.getSessions(),
+          authApi.getLoginHistory(10),
+        ]);
+        setSessions(sessionsData);
+        setEvents(eventsData);
+      } catch (error) {
+        toast.error('Failed to load sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSecurityData();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    if (!window.confirm('Sign out this device?')) {
+      return;
+    }
+
+    try {
+      setRevokingSession(sessionId);
+      await authApi.revokeSession(sessionId);
+      setSessions(prev => prev.filter(s => s._id !== sessionId));
+      toast.success('Device signed out');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to sign out device';
+      toast.error(errorMessage);
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="medium" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Active Sessions */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-3">Active Sessions</h4>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No active sessions.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {sessions.map((session) => (
+              <li key={session._id} className="flex items-center justify-between p-4">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900">{session.device}</span>
+                    {session.isCurrent && (
+                      <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress || 'Unknown IP'} · Last seen {formatRelativeTime(session.lastUsedAt)}
+                  </p>
+                  {session.userAgent && (
+                    <p className="text-xs text-gray-400 truncate" title={session.userAgent}>
+                      {session.userAgent}
+                    </p>
+                  )}
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session._id)}
+                    disabled={revokingSession === session._id}
+                    className="ml-4 text-sm text-red-600 hover:text-red-800 transition-colors duration-200"
+                  >
+                    {revokingSession === session._id ? <LoadingSpinner size="small" /> : 'Sign out'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Login History */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-3">Recent Login Attempts</h4>
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500">No login attempts recorded.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {events.map((event) => (
+              <li key={event._id} className="flex items-center justify-between p-3 text-sm">
+                <div>
+                  <span className="text-gray-900">{event.device}</span>
+                  <span className="text-gray-500"> · {event.ipAddress || 'Unknown IP'}</span>
+                  <p className="text-xs text-gray-500">
+                    {formatDateTime(event.createdAt)}
+                    {event.method === 'oidc' && ' · Single sign-on'}
+                  </p>
+                </div>
+                {event.success ? (
+                  <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs font-medium">
+                    Success
+                  </span>
+                ) : (
+                  <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs font-medium">
+                    {event.failureReason ? FAILURE_LABELS[event.failureReason] : 'Failed'}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { TwoFactorStatus, TwoFactorSetup } from '../../types';
+import { authApi } from '../../utils/api';
+import { useAuth } from '../../context/AuthContext';
+import { SUCCESS_MESSAGES } from '../../utils/constants';
+import { getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../ui/LoadingSpinner';
+
+type PanelMode = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+const TwoFactorPanel: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        setStatus(await authApi.getTwoFactorStatus());
+      } catch (error) {
+        toast.error('Failed to load two-factor settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStatus();
+  }, []);
+
+  const resetForm = () => {
+    setMode('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const setEnabled = (enabled: boolean, recoveryCodesRemaining: number) => {
+    setStatus(prev => prev && { ...prev, enabled, recoveryCodesRemaining });
+    if (user) {
+      updateUser({ ...user, twoFactorEnabled: enabled });
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+    try {
+      setSetup(await authApi.setupTwoFactor());
+      setRecoveryCodes(null);
+      setMode('setup');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      if (mode === 'setup') {
+        const codes = await authApi.enableTwoFactor(code.trim());
+        setRecoveryCodes(codes);
+        setEnabled(true, codes.length);
+        toast.success(SUCCESS_MESSAGES.TWO_FACTOR_ENABLED);
+      } else if (mode === 'disable') {
+        await authApi.disableTwoFactor(password, code.trim());
+        setRecoveryCodes(null);
+        setEnabled(false, 0);
+        toast.success(SUCCESS_MESSAGES.TWO_FACTOR_DISABLED);
+      } else if (mode === 'regenerate') {
+        const codes = await authApi.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(codes);
+        setEnabled(true, codes.length);
+        toast.success('New recovery codes generated');
+      }
+      resetForm();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="medium" />
+      </div>
+    );
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <h4 className="text-sm font-medium text-gray-900">Two-Factor Authentication</h4>
+            {status.enabled ? (
+              <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs">On</span>
+            ) : (
+              <span className="px-2 py-0.5 bg-gray-100 text-gray-800 rounded-full text-xs">Off</span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">
+            {status.enabled
+              ? `Sign-ins need a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+              : 'Require a code from an authenticator app when signing in'}
+          </p>
+          {status.required && !status.enabled && (
+            <p className="text-sm text-red-600">Required for admin accounts.</p>
+          )}
+        </div>
+        {mode === 'idle' && (
+          <div className="flex space-x-3">
+            {status.enabled ? (
+              <>
+                <button
+                  onClick={() => setMode('regenerate')}
+                  className="btn-secondary text-sm"
+                >
+                  New Recovery Codes
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={() => setMode('disable')}
+                    className="text-sm text-red-600 hover:text-red-800 transition-colors duration-200"
+                  >
+                    Turn Off
+                  </button>
+                )}
+              </>
+            ) : (
+              <button
+                onClick={handleStartSetup}
+                disabled={submitting}
+                className="btn-secondary text-sm"
+              >
+                {submitting ? <LoadingSpinner size="small" /> : 'Set Up'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {recoveryCodes && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm font-medium text-yellow-800">Save your recovery codes</p>
+          <p className="text-sm text-yellow-700 mb-3">
+            Each code can be used once if you lose access to your authenticator app. They won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => setRecoveryCodes(null)}
+            className="mt-3 text-sm font-medium text-yellow-900 underline hover:text-yellow-700"
+          >
+            I've saved these codes
+          </button>
+        </div>
+      )}
+
+      {mode !== 'idle' && (
+        <form onSubmit={handleSubmit} className="p-4 bg-white border border-gray-200 rounded-lg space-y-4">
+          {mode === 'setup' && setup && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <img src={setup.qrCode} alt="Two-factor QR code" className="w-40 h-40" />
+              <div className="text-sm text-gray-600">
+                <p>Scan this QR code with your authenticator app, then enter the code it shows.</p>
+                <p className="mt-2">Can't scan it? Enter this key manually:</p>
+                <p className="mt-1 font-mono text-gray-900 break-all">{setup.secret}</p>
+              </div>
+            </div>
+          )}
+
+          {mode === 'disable' && !user?.oidcSubject && (
+            <div>
+              <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-field"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="twoFactorSetupCode" className="block text-sm font-medium text-gray-700">
+              Authentication code
+            </label>
+            <input
+              id="twoFactorSetupCode"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="input-field tracking-widest"
+              placeholder="123456"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={resetForm} className="btn-secondary text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !code.trim() || (mode === 'disable' && !user?.oidcSubject && !password)}
+              className={`${mode === 'disable' ? 'btn-danger' : 'btn-primary'} text-sm`}
+            >
+              {submitting ? (
+                <LoadingSpinner size="small" />
+              ) : mode === 'setup' ? (
+                'Enable'
+              ) : mode === 'disable' ? (
+                'Turn Off'
+              ) : (
+                'Generate Codes'
+              )}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { QuestionStatistics as QuestionStatisticsData } from '../../types';
+import { LIKERT_SCALE, formatRating } from '../../utils/helpers';
+
+interface QuestionStatisticsProps {
+  questions: QuestionStatisticsData[];
+}
+
+const renderBar = (label: string, count: number, total: number) => {
+  const percentage = total > 0 ? (count / total) * 100 : 0;
+
+  return (
+    <div key={label} className="flex items-center space-x-3">
+      <span className="text-xs text-gray-700 w-28 truncate" title={label}>{label}</span>
+      <div className="flex-1">
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-primary-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+      <span className="text-xs text-gray-600 w-8 text-right">{count}</span>
+    </div>
+  );
+};
+
+// Per-question aggregates of a course's survey answers
+const QuestionStatistics: React.FC<QuestionStatisticsProps> = ({ questions }) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {questions.map((question) => (
+        <div key={question.question} className="p-4 bg-gray-50 rounded-lg">
+          <div className="flex justify-between items-start mb-3">
+            <p className="text-sm font-medium text-gray-900">{question.text}</p>
+            <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{question.responses} answers</span>
+          </div>
+
+          {question.type === 'likert' && !question.suppressed && (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-600 mb-2">Average {formatRating(question.average || 0)} / 5</p>
+              {LIKERT_SCALE.slice().reverse().map(value =>
+                renderBar(String(value), question.distribution?.[value] || 0, question.responses))}
+            </div>
+          )}
+
+          {question.type === 'numeric' && !question.suppressed && (
+            <p className="text-sm text-gray-600">
+              {question.responses > 0
+                ? `Average ${question.average} · lowest ${question.min} · highest ${question.max}`
+                : 'No answers yet'}
+            </p>
+          )}
+
+          {question.type === 'multiple-choice' && !question.suppressed && (
+            <div className="space-y-1">
+              {(question.options || []).map(({ option, count }) => renderBar(option, count, question.responses))}
+            </div>
+          )}
+
+          {question.type === 'yes-no' && !question.suppressed && (
+            <div className="space-y-1">
+              {renderBar('Yes', question.yes || 0, question.responses)}
+              {renderBar('No', question.no || 0, question.responses)}
+            </div>
+          )}
+
+          {question.suppressed && question.type !== 'text' && (
+            <p className="text-sm text-gray-600">Too few answers to show without revealing who gave them.</p>
+          )}
+
+          {question.type === 'text' && (
+            <p className="text-sm text-gray-600">Written answers are shown with the comments.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionStatistics;
@@ -1,9 +1,23 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
 import toast from 'react-hot-toast';
-import { User, AuthContextType, LoginData, RegisterData } from '../types';
-import { authApi } from '../utils/api';
+import {
+  User,
+  AuthContextType,
+  Permission,
+  AuthResponse,
+  LoginResponse,
+  LoginResult,
+  RegisterData,
+  DeleteAccountData,
+  Impersonation,
+  StoredImpersonation,
+} from '../types';
+import { authApi, userApi, adminApi, restoreImpersonator, refreshAccessToken, storeTokens } from '../utils/api';
 import { getFromStorage, setToStorage, removeFromStorage } from '../utils/helpers';
-import { AUTH_CONFIG, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../utils/constants';
+import { API_CONFIG, AUTH_CONFIG, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../utils/constants';
+
+// In cookie auth mode the tokens live in HttpOnly cookies, so there is no token in storage or state
+const usesAuthCookies = API_CONFIG.authMode === 'cookie';
 
 // Auth state interface
 interface AuthState {
@@ -11,15 +25,20 @@ interface AuthState {
   token: string | null;
   isLoading: boolean;
   isInitialized: boolean;
+  twoFactorChallenge: string | null;
+  impersonation: Impersonation | null;
 }
 
 // Auth actions
 type AuthAction =
   | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_USER'; payload: { user: User; token: string } }
+  | { type: 'SET_USER'; payload: { user: User; token: string | null } }
   | { type: 'UPDATE_USER'; payload: User }
+  | { type: 'REQUIRE_TWO_FACTOR'; payload: string }
+  | { type: 'CANCEL_TWO_FACTOR' }
+  | { type: 'SET_IMPERSONATION'; payload: Impersonation | null }
   | { type: 'LOGOUT' }
-  | { type: 'INITIALIZE'; payload: { user: User | null; token: string | null } };
+  | { type: 'INITIALIZE'; payload: { user: User | null; token: string | null; impersonation?: Impersonation | null } };
 
 // Initial state
 const initialState: AuthState = {
@@ -27,6 +46,8 @@ const initialState: AuthState = {
   token: null,
   isLoading: false,
   isInitialized: false,
+  twoFactorChallenge: null,
+  impersonation: null,
 };
 
 // Auth reducer
@@ -44,12 +65,29 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         token: action.payload.token,
         isLoading: false,
         isInitialized: true,
+        twoFactorChallenge: null,
       };
     case 'UPDATE_USER':
       return {
         ...state,
         user: action.payload,
       };
+    case 'REQUIRE_TWO_FACTOR':
+      return {
+        ...state,
+        isLoading: false,
+        twoFactorChallenge: action.payload,
+      };
+    case 'CANCEL_TWO_FACTOR':
+      return {
+        ...state,
+        twoFactorChallenge: null,
+      };
+    case 'SET_IMPERSONATION':
+      return {
+        ...state,
+        impersonation: action.payload,
+      };
     case 'LOGOUT':
       return {
         ...state,
@@ -57,12 +95,14 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         token: null,
         isLoading: false,
         isInitialized: true,
+        impersonation: null,
       };
     case 'INITIALIZE':
       return {
         ...state,
         user: action.payload.user,
         token: action.payload.token,
+        impersonation: action.payload.impersonation || null,
         isInitialized: true,
         isLoading: false,
       };
@@ -71,6 +111,21 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   }
 };
 
+// Keep the tokens and user from a successful login or registration
+const storeAuth = (response: AuthResponse): void => {
+  storeTokens(response);
+  setToStorage(AUTH_CONFIG.userKey, response.user);
+};
+
+// Remove every auth item kept in localStorage
+const clearStoredAuth = (): void => {
+  removeFromStorage(AUTH_CONFIG.tokenKey);
+  removeFromStorage(AUTH_CONFIG.refreshTokenKey);
+  removeFromStorage(AUTH_CONFIG.userKey);
+  removeFromStorage(AUTH_CONFIG.impersonationKey);
+  removeFromStorage(AUTH_CONFIG.csrfTokenKey);
+};
+
 // Create context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -87,21 +142,33 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   useEffect(() => {
     const initializeAuth = async () => {
       try {
+        // An impersonation that ran out while the app was closed ends here
+        const stored = getFromStorage<StoredImpersonation | null>(AUTH_CONFIG.impersonationKey, null);
+        if (stored && new Date(stored.expiresAt) <= new Date()) {
+          restoreImpersonator();
+        }
+
         const token = getFromStorage<string | null>(AUTH_CONFIG.tokenKey, null);
         const userData = getFromStorage<User | null>(AUTH_CONFIG.userKey, null);
+        const impersonation = getFromStorage<StoredImpersonation | null>(AUTH_CONFIG.impersonationKey, null);
 
-        if (token && userData) {
+        if ((token || usesAuthCookies) && userData) {
           // Verify token with server
           try {
             const user = await authApi.getMe();
             dispatch({
               type: 'INITIALIZE',
-              payload: { user, token },
+              payload: {
+                user,
+                token,
+                impersonation: impersonation
+                  ? { impersonator: impersonation.impersonator, expiresAt: impersonation.expiresAt }
+                  : null,
+              },
             });
           } catch (error) {
-            // Token is invalid, clear storage
-            removeFromStorage(AUTH_CONFIG.tokenKey);
-            removeFromStorage(AUTH_CONFIG.userKey);
+            // Session is no longer valid, clear storage
+            clearStoredAuth();
             dispatch({
               type: 'INITIALIZE',
               payload: { user: null, token: null },
@@ -125,27 +192,35 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  // Login function
-  const login = async (email: string, password: string): Promise<void> => {
-    dispatch({ type: 'SET_LOADING', payload: true });
+  // Sign in from a login response, or wait for the authenticator code when one is needed
+  const applyLoginResponse = (response: LoginResponse): LoginResult => {
+    if ('twoFactorRequired' in response) {
+      // First step accepted; wait for the authenticator code before signing in
+      dispatch({ type: 'REQUIRE_TWO_FACTOR', payload: response.challengeToken });
+      return { twoFactorRequired: true };
+    }
 
-    try {
-      const response = await authApi.login({ email, password });
-      
-      if (response.success) {
-        // Store auth data
-        setToStorage(AUTH_CONFIG.tokenKey, response.token);
-        setToStorage(AUTH_CONFIG.userKey, response.user);
+    if (response.success) {
+      storeAuth(response);
 
-        dispatch({
-          type: 'SET_USER',
-          payload: { user: response.user, token: response.token },
-        });
+      dispatch({
+        type: 'SET_USER',
+        payload: { user: response.user, token: response.token || null },
+      });
 
-        toast.success(SUCCESS_MESSAGES.LOGIN_SUCCESS);
-      } else {
-        throw new Error(response.message || 'Login failed');
-      }
+      toast.success(SUCCESS_MESSAGES.LOGIN_SUCCESS);
+      return { twoFactorRequired: false };
+    } else {
+      throw new Error(response.message || 'Login failed');
+    }
+  };
+
+  // Login function - resolves with twoFactorRequired when a code is still needed
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      return applyLoginResponse(await authApi.login({ email, password }));
     } catch (error: any) {
       dispatch({ type: 'SET_LOADING', payload: false });
       
@@ -158,6 +233,55 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Finish a single sign-on login with the code and state the provider redirected back with
+  const loginWithOidc = async (code: string, oidcState: string): Promise<LoginResult> => {
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      return applyLoginResponse(await authApi.completeOidcLogin(code, oidcState));
+    } catch (error: any) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      throw error;
+    }
+  };
+
+  // Second login step for accounts with two-factor authentication
+  const verifyTwoFactor = async (code: string): Promise<void> => {
+    if (!state.twoFactorChallenge) {
+      throw new Error('No login in progress');
+    }
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+
+    try {
+      const response = await authApi.verifyTwoFactorLogin(state.twoFactorChallenge, code);
+      storeAuth(response);
+
+      dispatch({
+        type: 'SET_USER',
+        payload: { user: response.user, token: response.token || null },
+      });
+
+      toast.success(SUCCESS_MESSAGES.LOGIN_SUCCESS);
+    } catch (error: any) {
+      dispatch({ type: 'SET_LOADING', payload: false });
+
+      // The challenge expired, so the password step has to be repeated
+      if (error.response?.data?.code === 'LOGIN_CHALLENGE_EXPIRED') {
+        dispatch({ type: 'CANCEL_TWO_FACTOR' });
+      }
+
+      const errorMessage = error.response?.data?.message || ERROR_MESSAGES.GENERIC_ERROR;
+      toast.error(errorMessage);
+      throw error;
+    }
+  };
+
+  // Abandon a login that is waiting for a two-factor code
+  const cancelTwoFactor = (): void => {
+    dispatch({ type: 'CANCEL_TWO_FACTOR' });
+  };
+
   // Register function
   const register = async (data: RegisterData): Promise<void> => {
     dispatch({ type: 'SET_LOADING', payload: true });
@@ -167,12 +291,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       if (response.success) {
         // Store auth data
-        setToStorage(AUTH_CONFIG.tokenKey, response.token);
-        setToStorage(AUTH_CONFIG.userKey, response.user);
+        storeAuth(response);
 
         dispatch({
           type: 'SET_USER',
-          payload: { user: response.user, token: response.token },
+          payload: { user: response.user, token: response.token || null },
         });
 
         toast.success(SUCCESS_MESSAGES.REGISTER_SUCCESS);
@@ -182,7 +305,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (error: any) {
       dispatch({ type: 'SET_LOADING', payload: false });
       
-      const errorMessage = error.response?.data?.message || 
+      // Field errors explain a password the policy rejected
+      const errorMessage = error.response?.data?.errors?.[0]?.msg ||
+                          error.response?.data?.message || 
                           error.message || 
                           ERROR_MESSAGES.GENERIC_ERROR;
       
@@ -191,26 +316,122 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // View the app as a student; the admin's own tokens are kept aside until it ends
+  const startImpersonation = async (studentId: string): Promise<void> => {
+    if (!state.user) return;
+
+    const response = await adminApi.impersonateStudent(studentId);
+    const stored: StoredImpersonation = {
+      impersonator: state.user,
+      expiresAt: response.expiresAt,
+      token: getFromStorage<string>(AUTH_CONFIG.tokenKey, ''),
+      refreshToken: getFromStorage<string>(AUTH_CONFIG.refreshTokenKey, ''),
+    };
+
+    setToStorage(AUTH_CONFIG.impersonationKey, stored);
+    removeFromStorage(AUTH_CONFIG.tokenKey);
+    removeFromStorage(AUTH_CONFIG.refreshTokenKey);
+    storeTokens(response);
+    setToStorage(AUTH_CONFIG.userKey, response.user);
+
+    dispatch({
+      type: 'SET_IMPERSONATION',
+      payload: { impersonator: state.user, expiresAt: response.expiresAt },
+    });
+    dispatch({
+      type: 'SET_USER',
+      payload: { user: response.user, token: response.token || null },
+    });
+
+    toast.success(response.message);
+  };
+
+  // Return to the admin's own account
+  const stopImpersonation = useCallback(async (): Promise<void> => {
+    const stored = restoreImpersonator();
+    if (!stored) return;
+
+    dispatch({ type: 'SET_IMPERSONATION', payload: null });
+    dispatch({
+      type: 'SET_USER',
+      payload: { user: stored.impersonator, token: stored.token || null },
+    });
+
+    // The access cookie still holds the impersonation token; the admin's refresh cookie replaces it
+    if (usesAuthCookies) {
+      try {
+        await refreshAccessToken();
+      } catch (error) {
+        console.error('Stop impersonation refresh error:', error);
+      }
+    }
+  }, []);
+
+  // End the impersonation when its token expires
+  useEffect(() => {
+    if (!state.impersonation) return;
+
+    const remaining = new Date(state.impersonation.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      stopImpersonation();
+      toast('Viewing as student has ended.');
+    }, Math.max(remaining, 0));
+
+    return () => clearTimeout(timer);
+  }, [state.impersonation, stopImpersonation]);
+
   // Logout function
   const logout = async (): Promise<void> => {
+    // Sign out the admin behind an impersonation, not just the impersonation
+    const stored = restoreImpersonator();
+
     try {
-      // Call logout API (mainly for server-side cleanup if needed)
-      if (state.token) {
+      // Swap the read-only impersonation cookie for the admin's before signing out
+      if (stored && usesAuthCookies) {
+        await refreshAccessToken();
+      }
+
+      // Revoke this device's session on the server
+      if (state.token || (usesAuthCookies && state.user)) {
         await authApi.logout();
       }
     } catch (error) {
       // Continue with logout even if API call fails
       console.error('Logout API error:', error);
     } finally {
-      // Clear local storage
-      removeFromStorage(AUTH_CONFIG.tokenKey);
-      removeFromStorage(AUTH_CONFIG.userKey);
+      clearStoredAuth();
 
       dispatch({ type: 'LOGOUT' });
       toast.success(SUCCESS_MESSAGES.LOGOUT_SUCCESS);
     }
   };
 
+  // Logout from every device, including this one
+  const logoutAll = async (): Promise<void> => {
+    try {
+      await authApi.logoutAll();
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || ERROR_MESSAGES.GENERIC_ERROR;
+      toast.error(errorMessage);
+      throw error;
+    }
+
+    clearStoredAuth();
+
+    dispatch({ type: 'LOGOUT' });
+    toast.success(SUCCESS_MESSAGES.LOGOUT_ALL_SUCCESS);
+  };
+
+  // Delete the signed-in student's account; the server also revokes every session
+  const deleteAccount = async (data: DeleteAccountData): Promise<void> => {
+    const message = await userApi.deleteAccount(data);
+
+    clearStoredAuth();
+
+    dispatch({ type: 'LOGOUT' });
+    toast.success(message);
+  };
+
   // Update user function
   const updateUser = (user: User): void => {
     setToStorage(AUTH_CONFIG.userKey, user);
@@ -218,22 +439,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   // Computed values
-  const isAuthenticated = !!state.user && !!state.token;
+  const isAuthenticated = !!state.user && (!!state.token || usesAuthCookies);
   const isAdmin = state.user?.role === 'admin';
   const isStudent = state.user?.role === 'student';
 
+  // True when the user's role grants every one of the given permissions
+  const hasPermission = (permission: Permission | Permission[]): boolean => {
+    const required = Array.isArray(permission) ? permission : [permission];
+    const granted = state.user?.permissions || [];
+    return required.every(p => granted.includes(p));
+  };
+
   // Context value
   const value: AuthContextType = {
     user: state.user,
     token: state.token,
     isLoading: state.isLoading,
     login,
+    loginWithOidc,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    isTwoFactorPending: !!state.twoFactorChallenge,
     register,
     logout,
+    logoutAll,
+    deleteAccount,
     updateUser,
     isAuthenticated,
     isAdmin,
     isStudent,
+    hasPermission,
+    impersonation: state.impersonation,
+    startImpersonation,
+    stopImpersonation,
   };
 
   // Don't render children until auth is initialized
@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { Term } from '../types';
+import { termApi } from '../utils/api';
+
+interface CurrentTermState {
+  term: Term | null;
+  nextTerm: Term | null;
+  loading: boolean;
+  now: Date; // server time, kept current once a second
+}
+
+// The term open for feedback and a ticking clock aligned with the server's, for deadline countdowns
+export const useCurrentTerm = (): CurrentTermState => {
+  const [term, setTerm] = useState<Term | null>(null);
+  const [nextTerm, setNextTerm] = useState<Term | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCurrentTerm = async () => {
+      try {
+        const current = await termApi.getCurrentTerm();
+        if (cancelled) return;
+        setTerm(current.term);
+        setNextTerm(current.nextTerm);
+        setClockOffset(new Date(current.serverTime).getTime() - Date.now());
+      } catch (error) {
+        // Without a term the page shows feedback as closed; the server enforces the window anyway
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCurrentTerm();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    setNow(new Date(Date.now() + clockOffset));
+    const timer = setInterval(() => setNow(new Date(Date.now() + clockOffset)), 1000);
+    return () => clearInterval(timer);
+  }, [clockOffset]);
+
+  // The window closes while the page is open once the countdown runs out
+  const isOpen = !!term && new Date(term.feedbackClosesAt) > now;
+
+  return { term: isOpen ? term : null, nextTerm, loading, now };
+};
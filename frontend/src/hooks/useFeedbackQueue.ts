@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { QueuedFeedback } from '../types';
+import { OFFLINE_CONFIG } from '../utils/constants';
+import { getQueuedFeedback, removeQueuedFeedback, syncQueuedFeedback } from '../utils/offlineQueue';
+import { useAuth } from '../context/AuthContext';
+
+interface FeedbackQueueState {
+  queue: QueuedFeedback[];
+  sync: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+// The signed-in user's offline feedback queue on this device, kept current as entries are sent.
+// onSynced is called when more of it has been sent, so the page can reload its feedback.
+export const useFeedbackQueue = (onSynced?: () => void): FeedbackQueueState => {
+  const { user } = useAuth();
+  const userId = user?._id;
+  const [queue, setQueue] = useState<QueuedFeedback[]>([]);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const syncedCount = useRef<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setQueue([]);
+      return;
+    }
+
+    try {
+      const entries = await getQueuedFeedback(userId);
+      const synced = entries.filter(entry => entry.status === 'synced').length;
+      if (syncedCount.current !== null && synced > syncedCount.current) {
+        onSyncedRef.current?.();
+      }
+      syncedCount.current = synced;
+      setQueue(entries);
+    } catch (error) {
+      // IndexedDB isn't available (e.g. some private browsing modes), so nothing can be queued either
+      setQueue([]);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(OFFLINE_CONFIG.queueEvent, refresh);
+    return () => window.removeEventListener(OFFLINE_CONFIG.queueEvent, refresh);
+  }, [refresh]);
+
+  const sync = useCallback(async () => {
+    if (!userId) return;
+    try {
+      await syncQueuedFeedback(userId);
+    } catch (error) {
+      toast.error('Failed to send your saved feedback');
+    }
+  }, [userId]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueuedFeedback(id);
+  }, []);
+
+  return { queue, sync, discard };
+};
+
+// Send queued feedback when the app opens, when the browser comes back online, and when the
+// service worker reports a background sync
+export const useFeedbackQueueSync = (): void => {
+  const { user } = useAuth();
+  const userId = user?._id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = async () => {
+      try {
+        const sent = await syncQueuedFeedback(userId);
+        if (sent > 0) {
+          toast.success(`Sent ${sent} feedback ${sent === 1 ? 'entry' : 'entries'} saved while you were offline`);
+        }
+      } catch (error) {
+        console.error('Failed to send queued feedback:', error);
+      }
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OFFLINE_CONFIG.syncMessage) sync();
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('online', sync);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [userId]);
+};
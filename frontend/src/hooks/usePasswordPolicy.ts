@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { PasswordPolicy } from '../types';
+import { authApi } from '../utils/api';
+import { VALIDATION_CONFIG } from '../utils/constants';
+
+// The policy rarely changes, so fetch it once per page load
+let policyPromise: Promise<PasswordPolicy> | null = null;
+
+// The server's password policy, or the built-in default until (or if) it can't be loaded
+export const usePasswordPolicy = (): PasswordPolicy => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(VALIDATION_CONFIG.password);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!policyPromise) {
+      policyPromise = authApi.getPasswordPolicy().catch((error) => {
+        policyPromise = null;
+        throw error;
+      });
+    }
+
+    policyPromise
+      .then((loaded) => {
+        if (!cancelled) setPolicy(loaded);
+      })
+      .catch(() => {
+        // Keep the default; the server still enforces its own policy
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return policy;
+};
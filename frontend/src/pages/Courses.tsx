@@ -3,7 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { Course } from '../types';
 import { courseApi } from '../utils/api';
 import { ROUTES } from '../utils/constants';
-import { formatDate } from '../utils/helpers';
+import { formatCountdown, formatDate, formatDateTime } from '../utils/helpers';
+import { useCurrentTerm } from '../hooks/useCurrentTerm';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import Layout from '../components/layout/Layout';
 import toast from 'react-hot-toast';
@@ -13,6 +14,15 @@ const Courses: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const navigate = useNavigate();
+  const { term, nextTerm, loading: termLoading, now } = useCurrentTerm();
+
+  const countdown = term ? formatCountdown(term.feedbackClosesAt, now) : '';
+  const hoursLeft = term ? (new Date(term.feedbackClosesAt).getTime() - now.getTime()) / 3600000 : 0;
+  const countdownStyle = hoursLeft < 24
+    ? 'bg-red-50 border-red-200 text-red-800'
+    : hoursLeft < 72
+      ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+      : 'bg-blue-50 border-blue-200 text-blue-800';
 
   useEffect(() => {
     fetchCourses();
@@ -33,7 +43,7 @@ const Courses: React.FC = () => {
   const filteredCourses = courses.filter(course =>
     course.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     course.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    course.instructor?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    course.instructor?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     course.department?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -41,7 +51,7 @@ const Courses: React.FC = () => {
     navigate(`${ROUTES.SUBMIT_FEEDBACK}?course=${courseId}`);
   };
 
-  if (loading) {
+  if (loading || termLoading) {
     return (
       <Layout>
         <div className="flex justify-center items-center min-h-64">
@@ -70,6 +80,29 @@ const Courses: React.FC = () => {
           </div>
         </div>
 
+        {/* Feedback Window */}
+        {term ? (
+          <div className={`mb-6 border rounded-lg p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 ${countdownStyle}`}>
+            <div>
+              <p className="text-sm font-medium">Feedback for {term.name} is open</p>
+              <p className="text-xs">Closes {formatDateTime(term.feedbackClosesAt)}</p>
+            </div>
+            <p className="text-2xl font-semibold tabular-nums" aria-live="polite">
+              {countdown} left
+            </p>
+          </div>
+        ) : (
+          <div className="mb-6 border rounded-lg p-4 bg-gray-50 border-gray-200 text-gray-700">
+            <p className="text-sm font-medium">Feedback is closed right now</p>
+            {nextTerm && (
+              <p className="text-xs">
+                Feedback for {nextTerm.name} opens {formatDateTime(nextTerm.feedbackOpensAt)}
+                {' '}(in {formatCountdown(nextTerm.feedbackOpensAt, now)})
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Search */}
         <div className="mb-6">
           <div className="max-w-lg">
@@ -143,7 +176,7 @@ const Courses: React.FC = () => {
                         <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                         </svg>
-                        {course.instructor}
+                        {course.instructor.name}
                       </div>
                     )}
 
@@ -184,9 +217,10 @@ const Courses: React.FC = () => {
                   {/* Action Button */}
                   <button
                     onClick={() => handleGiveFeedback(course._id)}
-                    className="w-full btn-primary"
+                    disabled={!term}
+                    className="w-full btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Give Feedback
+                    {term ? `Give Feedback · ${countdown} left` : 'Feedback Closed'}
                   </button>
                 </div>
               </div>
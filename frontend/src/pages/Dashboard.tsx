@@ -17,23 +17,31 @@ interface DashboardStats {
 }
 
 const Dashboard: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
 
-  // Redirect admin users to admin dashboard
+  const canViewAdminDashboard = hasPermission('dashboard:view');
+  const canTeach = hasPermission('courses:teach');
+  const canSubmitFeedback = hasPermission('feedback:submit');
+
+  // Redirect admins and instructors to their own dashboards
   React.useEffect(() => {
-    if (user?.role === 'admin') {
+    if (canViewAdminDashboard) {
       navigate(ROUTES.ADMIN_DASHBOARD);
+    } else if (canTeach) {
+      navigate(ROUTES.INSTRUCTOR_DASHBOARD);
     }
-  }, [user, navigate]);
+  }, [canViewAdminDashboard, canTeach, navigate]);
 
   useEffect(() => {
-    if (user?.role === 'student') {
+    if (canSubmitFeedback) {
       fetchDashboardData();
+    } else {
+      setLoading(false);
     }
-  }, [user]);
+  }, [user, canSubmitFeedback]);
 
   const fetchDashboardData = async () => {
     try {
@@ -2,21 +2,32 @@ import React, { useState, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import toast from 'react-hot-toast';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { ProfileFormData, ChangePasswordData } from '../types';
-import { profileSchema, changePasswordSchema } from '../utils/validation';
+import { ProfileFormData, ChangePasswordData, DeleteAccountData } from '../types';
+import { profileSchema, changePasswordSchema, deleteAccountSchema } from '../utils/validation';
 import { userApi, authApi } from '../utils/api';
-import { formatDate, formatDateForInput, generateInitials, validateFile } from '../utils/helpers';
+import { formatDate, formatDateForInput, generateInitials, validateFile, downloadFile, getErrorMessage } from '../utils/helpers';
+import { ROUTES } from '../utils/constants';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
+import { usePasswordPolicy } from '../hooks/usePasswordPolicy';
 import Modal from '../components/ui/Modal';
+import PasswordStrengthMeter from '../components/auth/PasswordStrengthMeter';
 import Layout from '../components/layout/Layout';
+import SessionsPanel from '../components/profile/SessionsPanel';
+import TwoFactorPanel from '../components/profile/TwoFactorPanel';
 
 const Profile: React.FC = () => {
-  const { user, updateUser } = useAuth();
+  const { user, updateUser, logoutAll, deleteAccount, isStudent } = useAuth();
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
+  const [loggingOutAll, setLoggingOutAll] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
+  const [exportingData, setExportingData] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const passwordPolicy = usePasswordPolicy();
 
   const {
     register: registerProfile,
@@ -36,9 +47,23 @@ const Profile: React.FC = () => {
     register: registerPassword,
     handleSubmit: handleSubmitPassword,
     reset: resetPassword,
+    watch: watchPassword,
     formState: { errors: passwordErrors },
   } = useForm<ChangePasswordData>({
     resolver: yupResolver(changePasswordSchema),
+    context: { passwordPolicy },
+  });
+
+  const newPassword = watchPassword('newPassword') || '';
+
+  const {
+    register: registerDelete,
+    handleSubmit: handleSubmitDelete,
+    reset: resetDelete,
+    formState: { errors: deleteErrors, isSubmitting: deletingAccount },
+  } = useForm<DeleteAccountData>({
+    resolver: yupResolver(deleteAccountSchema) as any,
+    context: { requirePassword: !user?.oidcSubject },
   });
 
   const onSubmitProfile = async (data: ProfileFormData) => {
@@ -58,15 +83,61 @@ const Profile: React.FC = () => {
   const onSubmitPassword = async (data: ChangePasswordData) => {
     try {
       await authApi.changePassword(data);
+      if (user?.passwordExpired) {
+        updateUser({ ...user, passwordExpired: false });
+      }
       toast.success('Password changed successfully!');
       setIsPasswordModalOpen(false);
       resetPassword();
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || 'Failed to change password';
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleExportData = async () => {
+    setExportingData(true);
+    try {
+      const blob = await userApi.exportMyData();
+      downloadFile(blob, `my_data_${new Date().toISOString().split('T')[0]}.json`);
+      toast.success('Your data has been downloaded');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to export your data';
+      toast.error(errorMessage);
+    } finally {
+      setExportingData(false);
+    }
+  };
+
+  const onSubmitDelete = async (data: DeleteAccountData) => {
+    try {
+      await deleteAccount(data);
+      navigate(ROUTES.LOGIN);
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to delete account';
       toast.error(errorMessage);
     }
   };
 
+  const closeDeleteModal = () => {
+    setIsDeleteModalOpen(false);
+    resetDelete();
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('This will sign you out on every device, including this one. Continue?')) {
+      return;
+    }
+
+    setLoggingOutAll(true);
+    try {
+      await logoutAll();
+      navigate(ROUTES.LOGIN);
+    } catch (error) {
+      // Error is handled in the auth context
+      setLoggingOutAll(false);
+    }
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -335,35 +406,67 @@ const Profile: React.FC = () => {
 
                   <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                     <div>
-                      <h4 className="text-sm font-medium text-gray-900">Two-Factor Authentication</h4>
-                      <p className="text-sm text-gray-600">Add an extra layer of security to your account</p>
+                      <h4 className="text-sm font-medium text-gray-900">Signed-in Devices</h4>
+                      <p className="text-sm text-gray-600">Sign out of every browser and device using your account</p>
                     </div>
                     <button
-                      disabled
-                      className="btn-secondary text-sm opacity-50 cursor-not-allowed"
+                      onClick={handleLogoutAll}
+                      disabled={loggingOutAll}
+                      className="btn-secondary text-sm"
                     >
-                      Coming Soon
+                      {loggingOutAll ? 'Logging out...' : 'Log Out Everywhere'}
                     </button>
                   </div>
+
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <TwoFactorPanel />
+                  </div>
+                </div>
+
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <SessionsPanel />
                 </div>
               </div>
 
-              {/* Danger Zone */}
-              <div className="card border-red-200">
-                <h3 className="text-lg font-medium text-red-900 mb-4">Danger Zone</h3>
-                <div className="bg-red-50 p-4 rounded-lg">
-                  <h4 className="text-sm font-medium text-red-900">Delete Account</h4>
-                  <p className="text-sm text-red-700 mt-1">
-                    Once you delete your account, there is no going back. Please be certain.
-                  </p>
+              {/* Your Data */}
+              <div className="card">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Your Data</h3>
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900">Download My Data</h4>
+                    <p className="text-sm text-gray-600">
+                      A JSON file with your profile, all of your feedback and your login history
+                    </p>
+                  </div>
                   <button
-                    disabled
-                    className="mt-3 btn-danger text-sm opacity-50 cursor-not-allowed"
+                    onClick={handleExportData}
+                    disabled={exportingData}
+                    className="btn-secondary text-sm"
                   >
-                    Delete Account
+                    {exportingData ? 'Preparing...' : 'Download'}
                   </button>
                 </div>
               </div>
+
+              {/* Danger Zone */}
+              {isStudent && (
+                <div className="card border-red-200">
+                  <h3 className="text-lg font-medium text-red-900 mb-4">Danger Zone</h3>
+                  <div className="bg-red-50 p-4 rounded-lg">
+                    <h4 className="text-sm font-medium text-red-900">Delete Account</h4>
+                    <p className="text-sm text-red-700 mt-1">
+                      Once you delete your account, there is no going back. Your feedback stays
+                      in course ratings but is anonymized and no longer linked to you.
+                    </p>
+                    <button
+                      onClick={() => setIsDeleteModalOpen(true)}
+                      className="mt-3 btn-danger text-sm"
+                    >
+                      Delete Account
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -408,6 +511,7 @@ const Profile: React.FC = () => {
             {passwordErrors.newPassword && (
               <p className="mt-1 text-sm text-red-600">{passwordErrors.newPassword.message}</p>
             )}
+            <PasswordStrengthMeter password={newPassword} policy={passwordPolicy} />
           </div>
 
           <div>
@@ -425,14 +529,18 @@ const Profile: React.FC = () => {
             )}
           </div>
 
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-            <h4 className="text-sm font-medium text-blue-800 mb-2">Password Requirements</h4>
-            <ul className="text-sm text-blue-700 space-y-1">
-              <li>• At least 8 characters long</li>
-              <li>• Contains at least 1 special character</li>
-              <li>• Contains at least 1 number</li>
-            </ul>
-          </div>
+          {(passwordPolicy.historyCount > 0 || passwordPolicy.maxAgeDays > 0) && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <ul className="text-sm text-blue-700 space-y-1">
+                {passwordPolicy.historyCount > 0 && (
+                  <li>• You can't reuse any of your last {passwordPolicy.historyCount} passwords</li>
+                )}
+                {passwordPolicy.maxAgeDays > 0 && (
+                  <li>• Passwords must be changed every {passwordPolicy.maxAgeDays} days</li>
+                )}
+              </ul>
+            </div>
+          )}
 
           <div className="flex justify-end space-x-3 pt-4">
             <button
@@ -454,6 +562,74 @@ const Profile: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      {/* Delete Account Modal */}
+      <Modal
+        isOpen={isDeleteModalOpen}
+        onClose={closeDeleteModal}
+        title="Delete Account"
+        size="medium"
+      >
+        <form onSubmit={handleSubmitDelete(onSubmitDelete)} className="space-y-4">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <ul className="text-sm text-red-700 space-y-1">
+              <li>• Your profile, sessions and login history are deleted</li>
+              <li>• Your feedback is kept anonymously so course statistics stay accurate</li>
+              <li>• This cannot be undone. Download your data first if you want a copy.</li>
+            </ul>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Type your email address to confirm *
+            </label>
+            <input
+              {...registerDelete('confirmEmail')}
+              type="email"
+              autoComplete="off"
+              className={`input-field ${deleteErrors.confirmEmail ? 'border-red-500' : ''}`}
+              placeholder={user.email}
+            />
+            {deleteErrors.confirmEmail && (
+              <p className="mt-1 text-sm text-red-600">{deleteErrors.confirmEmail.message}</p>
+            )}
+          </div>
+
+          {!user.oidcSubject && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Password *
+              </label>
+              <input
+                {...registerDelete('password')}
+                type="password"
+                className={`input-field ${deleteErrors.password ? 'border-red-500' : ''}`}
+                placeholder="Enter your password"
+              />
+              {deleteErrors.password && (
+                <p className="mt-1 text-sm text-red-600">{deleteErrors.password.message}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={closeDeleteModal}
+              className="btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={deletingAccount}
+              className="btn-danger"
+            >
+              {deletingAccount ? 'Deleting...' : 'Delete My Account'}
+            </button>
+          </div>
+        </form>
+      </Modal>
     </Layout>
   );
 };
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { AuditAction, AuditLogEntry, AuditLogFilters, AuditTargetType, PaginationData } from '../../types';
+import { adminApi } from '../../utils/api';
+import { PAGINATION_CONFIG } from '../../utils/constants';
+import { formatDateTime, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Layout from '../../components/layout/Layout';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'student.block': 'Blocked student',
+  'student.unblock': 'Unblocked student',
+  'student.unlock': 'Unlocked student',
+  'student.delete': 'Deleted student',
+  'student.impersonate': 'Started viewing as student',
+  'impersonation.request': 'Request while viewing as student',
+  'user.role': 'Changed role',
+  'course.create': 'Created course',
+  'course.update': 'Updated course',
+  'course.activate': 'Activated course',
+  'course.deactivate': 'Deactivated course',
+  'course.delete': 'Deleted course',
+  'feedback.export': 'Exported feedback',
+  'feedback.approve': 'Approved feedback',
+  'feedback.reject': 'Rejected feedback',
+  'feedback.respond': 'Replied to feedback',
+  'invitation.create': 'Created invitation',
+  'invitation.revoke': 'Revoked invitation',
+  'survey.create': 'Created survey template',
+  'survey.update': 'Updated survey template',
+  'survey.delete': 'Deleted survey template',
+  'term.create': 'Created term',
+  'term.update': 'Updated term',
+  'term.delete': 'Deleted term',
+  'wordlist.add': 'Added screening word',
+  'wordlist.remove': 'Removed screening word',
+};
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  user: 'Students',
+  course: 'Courses',
+  feedback: 'Feedback',
+  invitation: 'Invitations',
+  survey: 'Survey templates',
+  term: 'Terms',
+  wordlist: 'Screening word list',
+};
+
+const emptyFilters = {
+  action: '' as AuditAction | '',
+  targetType: '' as AuditTargetType | '',
+  startDate: '',
+  endDate: '',
+};
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AdminAudit: React.FC = () => {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pagination, setPagination] = useState<PaginationData>({
+    currentPage: 1,
+    totalPages: 1,
+    totalItems: 0,
+    itemsPerPage: PAGINATION_CONFIG.defaultLimit,
+  });
+  const [filters, setFilters] = useState(emptyFilters);
+  // Filters only take effect when applied, so typing a date doesn't refetch on every keystroke
+  const [appliedFilters, setAppliedFilters] = useState(emptyFilters);
+
+  useEffect(() => {
+    const fetchLogs = async () => {
+      const query: AuditLogFilters = {
+        page: pagination.currentPage,
+        limit: pagination.itemsPerPage,
+        action: appliedFilters.action || undefined,
+        targetType: appliedFilters.targetType || undefined,
+        startDate: appliedFilters.startDate || undefined,
+        // Include the whole end day
+        endDate: appliedFilters.endDate ? `${appliedFilters.endDate}T23:59:59.999` : undefined,
+      };
+
+      try {
+        setLoading(true);
+        const response = await adminApi.getAuditLog(query);
+        setLogs(response.logs);
+        setPagination(response.pagination);
+      } catch (error) {
+        toast.error(getErrorMessage(error));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLogs();
+  }, [pagination.currentPage, pagination.itemsPerPage, appliedFilters]);
+
+  const handleFilterChange = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyFilters = () => {
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+    setAppliedFilters(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+    setAppliedFilters(emptyFilters);
+  };
+
+  const handlePageChange = (page: number) => {
+    setPagination(prev => ({ ...prev, currentPage: page }));
+  };
+
+  const renderChanges = (log: AuditLogEntry) => {
+    const fields = Array.from(new Set([
+      ...Object.keys(log.before || {}),
+      ...Object.keys(log.after || {}),
+    ]));
+
+    return (
+      <div className="space-y-3">
+        {fields.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                <th className="pr-6 py-1">Field</th>
+                <th className="pr-6 py-1">Before</th>
+                <th className="py-1">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field}>
+                  <td className="pr-6 py-1 font-medium text-gray-700">{field}</td>
+                  <td className="pr-6 py-1 text-red-700 break-all">{formatAuditValue(log.before?.[field])}</td>
+                  <td className="py-1 text-green-700 break-all">{formatAuditValue(log.after?.[field])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {log.metadata && (
+          <pre className="text-xs text-gray-700 bg-white border border-gray-200 rounded p-3 overflow-x-auto">
+            {JSON.stringify(log.metadata, null, 2)}
+          </pre>
+        )}
+
+        <p className="text-xs text-gray-500">
+          {log.userAgent || 'Unknown device'}
+        </p>
+      </div>
+    );
+  };
+
+  const renderPagination = () => {
+    const pages = [];
+    for (let i = 1; i <= pagination.totalPages; i++) {
+      pages.push(
+        <button
+          key={i}
+          onClick={() => handlePageChange(i)}
+          className={`px-3 py-2 text-sm font-medium rounded-md ${
+            i === pagination.currentPage
+              ? 'bg-primary-600 text-white'
+              : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          {i}
+        </button>
+      );
+    }
+    return pages;
+  };
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6">
+            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              A permanent record of privileged actions taken by administrators
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Filters */}
+          <div className="card mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Filters</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                <select
+                  value={filters.action}
+                  onChange={(e) => handleFilterChange('action', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">All Actions</option>
+                  {Object.entries(ACTION_LABELS).map(([action, label]) => (
+                    <option key={action} value={action}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target</label>
+                <select
+                  value={filters.targetType}
+                  onChange={(e) => handleFilterChange('targetType', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">All Targets</option>
+                  {Object.entries(TARGET_TYPE_LABELS).map(([targetType, label]) => (
+                    <option key={targetType} value={targetType}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                <input
+                  type="date"
+                  value={filters.startDate}
+                  onChange={(e) => handleFilterChange('startDate', e.target.value)}
+                  className="input-field"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                <input
+                  type="date"
+                  value={filters.endDate}
+                  onChange={(e) => handleFilterChange('endDate', e.target.value)}
+                  className="input-field"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 mt-4">
+              <button onClick={clearFilters} className="btn-secondary">
+                Clear Filters
+              </button>
+              <button onClick={applyFilters} className="btn-primary">
+                Apply Filters
+              </button>
+            </div>
+          </div>
+
+          {/* Audit Entries */}
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No audit entries found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Try adjusting your filter criteria.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP Address</th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {logs.map((log) => (
+                      <React.Fragment key={log._id}>
+                        <tr>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDateTime(log.createdAt)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">
+                              {log.actor ? log.actor.name : 'Deleted user'}
+                            </div>
+                            <div className="text-sm text-gray-500">{log.actorEmail}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {ACTION_LABELS[log.action] || log.action}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700 break-all">
+                            {log.targetLabel || '—'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {log.ipAddress || '—'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            <button
+                              onClick={() => setExpandedId(expandedId === log._id ? null : log._id)}
+                              className="text-primary-600 hover:text-primary-900"
+                            >
+                              {expandedId === log._id ? 'Hide details' : 'Details'}
+                            </button>
+                          </td>
+                        </tr>
+                        {expandedId === log._id && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={6} className="px-6 py-4">
+                              {renderChanges(log)}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              {pagination.totalPages > 1 && (
+                <div className="mt-8 flex items-center justify-between">
+                  <div className="flex items-center text-sm text-gray-700">
+                    Showing {((pagination.currentPage - 1) * pagination.itemsPerPage) + 1} to{' '}
+                    {Math.min(pagination.currentPage * pagination.itemsPerPage, pagination.totalItems)} of{' '}
+                    {pagination.totalItems} entries
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handlePageChange(pagination.currentPage - 1)}
+                      disabled={pagination.currentPage === 1}
+                      className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Previous
+                    </button>
+                    {renderPagination()}
+                    <button
+                      onClick={() => handlePageChange(pagination.currentPage + 1)}
+                      disabled={pagination.currentPage === pagination.totalPages}
+                      className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminAudit;
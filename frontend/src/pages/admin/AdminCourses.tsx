@@ -3,8 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import toast from 'react-hot-toast';
-import { Course, CourseFormData } from '../../types';
-import { courseApi } from '../../utils/api';
+import { Course, CourseFormData, CourseInstructor, SurveyTemplate } from '../../types';
+import { courseApi, surveyApi } from '../../utils/api';
+import { useAuth } from '../../context/AuthContext';
 import { courseSchema } from '../../utils/validation';
 import { ROUTES } from '../../utils/constants';
 import { formatDateTime } from '../../utils/helpers';
@@ -14,6 +15,8 @@ import Layout from '../../components/layout/Layout';
 
 const AdminCourses: React.FC = () => {
   const [courses, setCourses] = useState<Course[]>([]);
+  const [instructors, setInstructors] = useState<CourseInstructor[]>([]);
+  const [surveyTemplates, setSurveyTemplates] = useState<SurveyTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [search, setSearch] = useState('');
@@ -23,6 +26,8 @@ const AdminCourses: React.FC = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
   const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const canManageSurveys = hasPermission('surveys:manage');
 
   const {
     register,
@@ -36,8 +41,13 @@ const AdminCourses: React.FC = () => {
 
   useEffect(() => {
     fetchCourses();
+    fetchInstructors();
   }, []);
 
+  useEffect(() => {
+    if (canManageSurveys) fetchSurveyTemplates();
+  }, [canManageSurveys]);
+
   const fetchCourses = async () => {
     try {
       setLoading(true);
@@ -50,10 +60,26 @@ const AdminCourses: React.FC = () => {
     }
   };
 
+  const fetchInstructors = async () => {
+    try {
+      setInstructors(await courseApi.getInstructors());
+    } catch (error) {
+      toast.error('Failed to load instructors');
+    }
+  };
+
+  const fetchSurveyTemplates = async () => {
+    try {
+      setSurveyTemplates(await surveyApi.getTemplates());
+    } catch (error) {
+      toast.error('Failed to load survey templates');
+    }
+  };
+
   const filteredCourses = courses.filter(course => {
     const matchesSearch = course.name.toLowerCase().includes(search.toLowerCase()) ||
                          course.code.toLowerCase().includes(search.toLowerCase()) ||
-                         (course.instructor?.toLowerCase().includes(search.toLowerCase()) ?? false);
+                         (course.instructor?.name.toLowerCase().includes(search.toLowerCase()) ?? false);
     
     const matchesStatus = statusFilter === 'all' || 
                          (statusFilter === 'active' && course.isActive) ||
@@ -77,9 +103,10 @@ const AdminCourses: React.FC = () => {
     setValue('name', course.name);
     setValue('code', course.code);
     setValue('description', course.description || '');
-    setValue('instructor', course.instructor || '');
+    setValue('instructor', course.instructor?._id || '');
     setValue('department', course.department || '');
     setValue('credits', course.credits);
+    setValue('surveyTemplate', course.surveyTemplate || '');
     setIsEditModalOpen(true);
   };
 
@@ -89,10 +116,16 @@ const AdminCourses: React.FC = () => {
     reset();
   };
 
+  // Only admins who manage surveys see the template field; leave it untouched for everyone else
+  const withSurveyTemplate = (data: CourseFormData): CourseFormData => {
+    const { surveyTemplate, ...rest } = data;
+    return canManageSurveys ? { ...rest, surveyTemplate: surveyTemplate || '' } : rest;
+  };
+
   const handleCreate = async (data: CourseFormData) => {
     setSubmitting(true);
     try {
-      const newCourse = await courseApi.createCourse(data);
+      const newCourse = await courseApi.createCourse(withSurveyTemplate(data));
       setCourses(prev => [newCourse, ...prev]);
       toast.success('Course created successfully!');
       closeCreateModal();
@@ -109,7 +142,7 @@ const AdminCourses: React.FC = () => {
 
     setSubmitting(true);
     try {
-      const updatedCourse = await courseApi.updateCourse(editingCourse._id, data);
+      const updatedCourse = await courseApi.updateCourse(editingCourse._id, withSurveyTemplate(data));
       setCourses(prev => 
         prev.map(course => course._id === editingCourse._id ? updatedCourse : course)
       );
@@ -299,7 +332,7 @@ const AdminCourses: React.FC = () => {
                         <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                         </svg>
-                        {course.instructor}
+                        {course.instructor.name}
                       </div>
                     )}
                     {course.department && (
@@ -310,6 +343,14 @@ const AdminCourses: React.FC = () => {
                         {course.department}
                       </div>
                     )}
+                    {canManageSurveys && course.surveyTemplate && (
+                      <div className="flex items-center">
+                        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                        </svg>
+                        {surveyTemplates.find(template => template._id === course.surveyTemplate)?.name || 'Survey template'}
+                      </div>
+                    )}
                     {course.credits && (
                       <div className="flex items-center">
                         <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -430,11 +471,17 @@ const AdminCourses: React.FC = () => {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Instructor
             </label>
-            <input
+            <select
               {...register('instructor')}
               className={`input-field ${errors.instructor ? 'border-red-500' : ''}`}
-              placeholder="Instructor name"
-            />
+            >
+              <option value="">No instructor assigned</option>
+              {instructors.map((instructor) => (
+                <option key={instructor._id} value={instructor._id}>
+                  {instructor.name} ({instructor.email})
+                </option>
+              ))}
+            </select>
             {errors.instructor && (
               <p className="mt-1 text-sm text-red-600">{errors.instructor.message}</p>
             )}
@@ -454,6 +501,28 @@ const AdminCourses: React.FC = () => {
             )}
           </div>
 
+          {canManageSurveys && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Survey Template
+              </label>
+              <select
+                {...register('surveyTemplate')}
+                className={`input-field ${errors.surveyTemplate ? 'border-red-500' : ''}`}
+              >
+                <option value="">Rating and comments only</option>
+                {surveyTemplates.map((template) => (
+                  <option key={template._id} value={template._id}>
+                    {template.name} ({template.questions.length} questions)
+                  </option>
+                ))}
+              </select>
+              {errors.surveyTemplate && (
+                <p className="mt-1 text-sm text-red-600">{errors.surveyTemplate.message}</p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Credits
@@ -552,11 +621,17 @@ const AdminCourses: React.FC = () => {
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Instructor
             </label>
-            <input
+            <select
               {...register('instructor')}
               className={`input-field ${errors.instructor ? 'border-red-500' : ''}`}
-              placeholder="Instructor name"
-            />
+            >
+              <option value="">No instructor assigned</option>
+              {instructors.map((instructor) => (
+                <option key={instructor._id} value={instructor._id}>
+                  {instructor.name} ({instructor.email})
+                </option>
+              ))}
+            </select>
             {errors.instructor && (
               <p className="mt-1 text-sm text-red-600">{errors.instructor.message}</p>
             )}
@@ -576,6 +651,28 @@ const AdminCourses: React.FC = () => {
             )}
           </div>
 
+          {canManageSurveys && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Survey Template
+              </label>
+              <select
+                {...register('surveyTemplate')}
+                className={`input-field ${errors.surveyTemplate ? 'border-red-500' : ''}`}
+              >
+                <option value="">Rating and comments only</option>
+                {surveyTemplates.map((template) => (
+                  <option key={template._id} value={template._id}>
+                    {template.name} ({template.questions.length} questions)
+                  </option>
+                ))}
+              </select>
+              {errors.surveyTemplate && (
+                <p className="mt-1 text-sm text-red-600">{errors.surveyTemplate.message}</p>
+              )}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Credits
@@ -214,7 +214,7 @@ const AdminDashboard: React.FC = () => {
                         {course.feedbackCount}
                       </p>
                       <p className="text-xs text-gray-500">
-                        {formatRating(course.averageRating)} ★
+                        {course.averageRating === null ? 'Too few to rate' : `${formatRating(course.averageRating)} ★`}
                       </p>
                     </div>
                   </div>
@@ -1,18 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
-import { Feedback, Course, User, PaginationData } from '../../types';
-import { adminApi, courseApi } from '../../utils/api';
-import { ROUTES, PAGINATION_CONFIG } from '../../utils/constants';
-import { formatDateTime, formatRating, downloadFile } from '../../utils/helpers';
+import { Feedback, FeedbackResponse, FeedbackRevision, Course, User, PaginationData, Term, FeedbackStatus, ModerationData } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { adminApi, courseApi, termApi } from '../../utils/api';
+import { ROUTES, PAGINATION_CONFIG, SCREENING_CONFIG } from '../../utils/constants';
+import { formatDateTime, formatRating, downloadFile, getErrorMessage, diffWords } from '../../utils/helpers';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Modal from '../../components/ui/Modal';
+import ResponseThread from '../../components/feedback/ResponseThread';
 import Layout from '../../components/layout/Layout';
 
+type FeedbackView = 'all' | 'queue';
+
 const AdminFeedback: React.FC = () => {
+  const { hasPermission } = useAuth();
   const [feedbacks, setFeedbacks] = useState<Feedback[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
+  const [view, setView] = useState<FeedbackView>('all');
+  const [moderation, setModeration] = useState({ enabled: false, pendingCount: 0 });
+  const [moderatorNotes, setModeratorNotes] = useState<Record<string, string>>({});
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const [historyFeedback, setHistoryFeedback] = useState<Feedback | null>(null);
+  const [revisions, setRevisions] = useState<FeedbackRevision[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
   const [pagination, setPagination] = useState<PaginationData>({
     currentPage: 1,
     totalPages: 1,
@@ -21,7 +38,9 @@ const AdminFeedback: React.FC = () => {
   });
   const [filters, setFilters] = useState({
     course: '',
+    term: '',
     rating: '',
+    status: '',
     student: '',
     startDate: '',
     endDate: '',
@@ -33,7 +52,8 @@ const AdminFeedback: React.FC = () => {
   useEffect(() => {
     fetchFeedbacks();
     fetchCourses();
-  }, [pagination.currentPage, sortBy, sortOrder]);
+    fetchTerms();
+  }, [pagination.currentPage, sortBy, sortOrder, view]);
 
   const fetchFeedbacks = async () => {
     try {
@@ -42,11 +62,15 @@ const AdminFeedback: React.FC = () => {
         page: pagination.currentPage,
         limit: pagination.itemsPerPage,
         course: filters.course || undefined,
+        term: filters.term || undefined,
         rating: filters.rating ? parseInt(filters.rating) : undefined,
+        // The moderation queue only holds feedback waiting for review
+        status: view === 'queue' ? 'pending' : (filters.status as FeedbackStatus) || undefined,
         sortBy,
         sortOrder,
       });
       setFeedbacks(response.feedback);
+      setModeration(response.moderation);
       setPagination(response.pagination);
     } catch (error) {
       toast.error('Failed to load feedback');
@@ -64,6 +88,15 @@ const AdminFeedback: React.FC = () => {
     }
   };
 
+  const fetchTerms = async () => {
+    try {
+      const termsData = await termApi.getTerms();
+      setTerms(termsData);
+    } catch (error) {
+      console.error('Failed to load terms');
+    }
+  };
+
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   };
@@ -76,7 +109,9 @@ const AdminFeedback: React.FC = () => {
   const clearFilters = () => {
     setFilters({
       course: '',
+      term: '',
       rating: '',
+      status: '',
       student: '',
       startDate: '',
       endDate: '',
@@ -91,7 +126,9 @@ const AdminFeedback: React.FC = () => {
       const blob = await adminApi.exportFeedback({
         ...filters,
         course: filters.course || undefined,
+        term: filters.term || undefined,
         rating: filters.rating ? parseInt(filters.rating) : undefined,
+        status: (filters.status as FeedbackStatus) || undefined,
         startDate: filters.startDate || undefined,
         endDate: filters.endDate || undefined,
       });
@@ -111,6 +148,182 @@ const AdminFeedback: React.FC = () => {
     setPagination(prev => ({ ...prev, currentPage: page }));
   };
 
+  const handleViewChange = (nextView: FeedbackView) => {
+    setView(nextView);
+    setSelectedIds(new Set());
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  };
+
+  const toggleSelected = (feedbackId: string) => {
+    setSelectedIds(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(feedbackId)) {
+        newSet.delete(feedbackId);
+      } else {
+        newSet.add(feedbackId);
+      }
+      return newSet;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(prev =>
+      prev.size === feedbacks.length ? new Set() : new Set(feedbacks.map(feedback => feedback._id))
+    );
+  };
+
+  // Moderated entries leave the queue
+  const removeFromQueue = (feedbackIds: string[]) => {
+    setFeedbacks(prev => prev.filter(feedback => !feedbackIds.includes(feedback._id)));
+    setSelectedIds(prev => new Set(Array.from(prev).filter(id => !feedbackIds.includes(id))));
+    setModeration(prev => ({ ...prev, pendingCount: Math.max(0, prev.pendingCount - feedbackIds.length) }));
+    setPagination(prev => ({ ...prev, totalItems: Math.max(0, prev.totalItems - feedbackIds.length) }));
+
+    if (feedbackIds.length >= feedbacks.length) {
+      fetchFeedbacks();
+    }
+  };
+
+  const handleModerate = async (feedbackId: string, status: ModerationData['status']) => {
+    if (processingIds.has(feedbackId)) return;
+
+    const notes = (moderatorNotes[feedbackId] || '').trim();
+    if (status === 'rejected' && !notes) {
+      toast.error('Please give the student a reason for rejecting their feedback');
+      return;
+    }
+
+    setProcessingIds(prev => new Set(prev).add(feedbackId));
+    try {
+      await adminApi.moderateFeedback(feedbackId, { status, moderatorNotes: notes || undefined });
+      removeFromQueue([feedbackId]);
+      toast.success(status === 'approved' ? 'Feedback approved' : 'Feedback rejected');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setProcessingIds(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(feedbackId);
+        return newSet;
+      });
+    }
+  };
+
+  const handleBulkModerate = async (status: ModerationData['status']) => {
+    const feedbackIds = Array.from(selectedIds);
+    if (feedbackIds.length === 0) return;
+
+    const notes = bulkNotes.trim();
+    if (status === 'rejected' && !notes) {
+      toast.error('Please give the students a reason for rejecting their feedback');
+      return;
+    }
+
+    setProcessingIds(new Set(feedbackIds));
+    try {
+      const moderatedCount = await adminApi.bulkModerateFeedback(feedbackIds, {
+        status,
+        moderatorNotes: notes || undefined,
+      });
+      removeFromQueue(feedbackIds);
+      setBulkNotes('');
+      toast.success(`${moderatedCount} feedback ${moderatedCount === 1 ? 'entry' : 'entries'} ${status}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setProcessingIds(new Set());
+    }
+  };
+
+  const toggleThread = (feedbackId: string) => {
+    setOpenThreads(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(feedbackId)) {
+        newSet.delete(feedbackId);
+      } else {
+        newSet.add(feedbackId);
+      }
+      return newSet;
+    });
+  };
+
+  const addResponse = (feedbackId: string, response: FeedbackResponse) => {
+    setFeedbacks(prev => prev.map(feedback =>
+      feedback._id === feedbackId
+        ? { ...feedback, responses: [...(feedback.responses || []), response] }
+        : feedback
+    ));
+  };
+
+  const openHistory = async (feedback: Feedback) => {
+    setHistoryFeedback(feedback);
+    setRevisions([]);
+    setLoadingHistory(true);
+    try {
+      setRevisions(await adminApi.getFeedbackHistory(feedback._id));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  const closeHistory = () => {
+    setHistoryFeedback(null);
+    setRevisions([]);
+  };
+
+  // What changed in a version compared to the one before it
+  const renderRevisionChanges = (revision: FeedbackRevision, previous: FeedbackRevision) => {
+    const addedTags = revision.tags.filter(tag => !previous.tags.includes(tag));
+    const removedTags = previous.tags.filter(tag => !revision.tags.includes(tag));
+    const answersChanged = JSON.stringify(revision.answers) !== JSON.stringify(previous.answers);
+
+    return (
+      <div className="space-y-2 text-sm">
+        {revision.rating !== previous.rating && (
+          <p className={revision.rating > previous.rating ? 'text-green-700' : 'text-red-700'}>
+            Rating changed from {previous.rating}★ to {revision.rating}★
+          </p>
+        )}
+        {revision.message !== previous.message ? (
+          <p className="text-gray-700 whitespace-pre-wrap">
+            {diffWords(previous.message, revision.message).map((part, index) => (
+              <span
+                key={index}
+                className={
+                  part.type === 'added'
+                    ? 'bg-green-100 text-green-800'
+                    : part.type === 'removed'
+                    ? 'bg-red-100 text-red-800 line-through'
+                    : ''
+                }
+              >
+                {part.text}
+              </span>
+            ))}
+          </p>
+        ) : (
+          <p className="text-gray-500 italic">Message unchanged</p>
+        )}
+        {(addedTags.length > 0 || removedTags.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {addedTags.map(tag => (
+              <span key={`added-${tag}`} className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">+{tag}</span>
+            ))}
+            {removedTags.map(tag => (
+              <span key={`removed-${tag}`} className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs line-through">{tag}</span>
+            ))}
+          </div>
+        )}
+        {revision.isAnonymous !== previous.isAnonymous && (
+          <p className="text-gray-600">{revision.isAnonymous ? 'Made anonymous' : 'No longer anonymous'}</p>
+        )}
+        {answersChanged && <p className="text-gray-600">Survey answers changed</p>}
+      </div>
+    );
+  };
+
   const renderStarRating = (rating: number) => {
     return (
       <div className="flex items-center space-x-1">
@@ -159,29 +372,31 @@ const AdminFeedback: React.FC = () => {
             <div>
               <h1 className="text-3xl font-bold text-gray-900">Feedback Management</h1>
               <p className="mt-1 text-sm text-gray-600">
-                View, filter, and export all student feedback
+                View, filter, moderate and export all student feedback
               </p>
             </div>
             <div className="flex space-x-3">
-              <button
-                onClick={handleExport}
-                disabled={exporting}
-                className="btn-secondary flex items-center"
-              >
-                {exporting ? (
-                  <>
-                    <LoadingSpinner size="small" className="mr-2" />
-                    Exporting...
-                  </>
-                ) : (
-                  <>
-                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                    </svg>
-                    Export CSV
-                  </>
-                )}
-              </button>
+              {hasPermission('feedback:export') && (
+                <button
+                  onClick={handleExport}
+                  disabled={exporting}
+                  className="btn-secondary flex items-center"
+                >
+                  {exporting ? (
+                    <>
+                      <LoadingSpinner size="small" className="mr-2" />
+                      Exporting...
+                    </>
+                  ) : (
+                    <>
+                      <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      Export CSV
+                    </>
+                  )}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -189,10 +404,46 @@ const AdminFeedback: React.FC = () => {
 
       <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          {/* Tabs */}
+          {hasPermission('feedback:moderate') && (
+            <div className="border-b border-gray-200 mb-6">
+              <nav className="-mb-px flex space-x-8">
+                {([
+                  { id: 'all', label: 'All Feedback' },
+                  { id: 'queue', label: 'Moderation Queue' },
+                ] as const).map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => handleViewChange(tab.id)}
+                    className={`py-3 px-1 border-b-2 text-sm font-medium flex items-center ${
+                      view === tab.id
+                        ? 'border-primary-500 text-primary-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {tab.label}
+                    {tab.id === 'queue' && moderation.pendingCount > 0 && (
+                      <span className="ml-2 px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                        {moderation.pendingCount}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </nav>
+            </div>
+          )}
+
+          {view === 'queue' && !moderation.enabled && (
+            <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+              Moderation is turned off, so new feedback is published right away. Edited feedback that was
+              rejected still comes back here for review.
+            </div>
+          )}
+
           {/* Filters */}
           <div className="card mb-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Filters</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
                 <select
@@ -209,6 +460,22 @@ const AdminFeedback: React.FC = () => {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Term</label>
+                <select
+                  value={filters.term}
+                  onChange={(e) => handleFilterChange('term', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">All Terms</option>
+                  {terms.map((term) => (
+                    <option key={term._id} value={term._id}>
+                      {term.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Rating</label>
                 <select
@@ -225,6 +492,22 @@ const AdminFeedback: React.FC = () => {
                 </select>
               </div>
 
+              {view === 'all' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                  <select
+                    value={filters.status}
+                    onChange={(e) => handleFilterChange('status', e.target.value)}
+                    className="input-field"
+                  >
+                    <option value="">All Statuses</option>
+                    <option value="pending">Pending</option>
+                    <option value="approved">Approved</option>
+                    <option value="rejected">Rejected</option>
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
                 <input
@@ -294,17 +577,68 @@ const AdminFeedback: React.FC = () => {
                   d="M7 8h10m0 0V6a2 2 0 00-2-2H9a2 2 0 00-2 2v2m10 0v10a2 2 0 01-2 2H9a2 2 0 01-2-2V8m10 0H7m6 5v4"
                 />
               </svg>
-              <h3 className="mt-2 text-sm font-medium text-gray-900">No feedback found</h3>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                {view === 'queue' ? 'Nothing waiting for review' : 'No feedback found'}
+              </h3>
               <p className="mt-1 text-sm text-gray-500">
-                Try adjusting your filter criteria.
+                {view === 'queue' ? 'New and edited feedback shows up here.' : 'Try adjusting your filter criteria.'}
               </p>
             </div>
           ) : (
             <>
+              {/* Bulk Moderation */}
+              {view === 'queue' && (
+                <div className="card mb-6">
+                  <div className="flex flex-col md:flex-row md:items-center gap-4">
+                    <label className="flex items-center text-sm text-gray-700 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.size === feedbacks.length}
+                        onChange={toggleSelectAll}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                      />
+                      {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+                    </label>
+                    <input
+                      type="text"
+                      value={bulkNotes}
+                      onChange={(e) => setBulkNotes(e.target.value)}
+                      maxLength={500}
+                      className="input-field flex-1"
+                      placeholder="Notes for the selected feedback (required to reject; emailed to the students)"
+                    />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleBulkModerate('approved')}
+                        disabled={selectedIds.size === 0 || processingIds.size > 0}
+                        className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Approve Selected
+                      </button>
+                      <button
+                        onClick={() => handleBulkModerate('rejected')}
+                        disabled={selectedIds.size === 0 || processingIds.size > 0}
+                        className="btn-danger disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reject Selected
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-6">
                 {feedbacks.map((feedback) => (
                   <div key={feedback._id} className="card">
                     <div className="flex justify-between items-start">
+                      {view === 'queue' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(feedback._id)}
+                          onChange={() => toggleSelected(feedback._id)}
+                          className="h-4 w-4 mt-1.5 mr-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                        />
+                      )}
                       <div className="flex-1">
                         <div className="flex items-center justify-between mb-3">
                           <div>
@@ -334,6 +668,33 @@ const AdminFeedback: React.FC = () => {
                           <span>
                             Submitted {formatDateTime(feedback.createdAt)}
                           </span>
+                          {(feedback.version || 1) > 1 && (
+                            hasPermission('feedback:history') ? (
+                              <button
+                                onClick={() => openHistory(feedback)}
+                                className="px-2 py-1 bg-blue-100 text-blue-800 hover:bg-blue-200 rounded-full text-xs transition-colors duration-200"
+                              >
+                                Edited {(feedback.version || 1) - 1} {(feedback.version || 1) === 2 ? 'time' : 'times'} · History
+                              </button>
+                            ) : (
+                              <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
+                                Edited
+                              </span>
+                            )
+                          )}
+                          {feedback.term && typeof feedback.term !== 'string' && (
+                            <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs">
+                              {feedback.term.name}
+                            </span>
+                          )}
+                          {feedback.unlinkable && (
+                            <span
+                              className="px-2 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs"
+                              title="Submitted with a one-time token, so no account is stored with it"
+                            >
+                              Unlinkable
+                            </span>
+                          )}
                           {feedback.tags.length > 0 && (
                             <div className="flex flex-wrap gap-1">
                               {feedback.tags.map((tag, index) => (
@@ -357,7 +718,77 @@ const AdminFeedback: React.FC = () => {
                           >
                             {feedback.status}
                           </span>
+                          {feedback.screeningFlags && feedback.screeningFlags.length > 0 && (
+                            <span
+                              className="px-2 py-1 bg-orange-100 text-orange-800 rounded-full text-xs"
+                              title={`Automatic screening score ${feedback.screeningScore}`}
+                            >
+                              Flagged: {feedback.screeningFlags.map(flag => SCREENING_CONFIG.findingLabels[flag] || flag).join(', ')}
+                            </span>
+                          )}
                         </div>
+
+                        {feedback.status === 'pending' && feedback.moderatorNotes && (
+                          <p className="mt-3 text-sm text-orange-700">{feedback.moderatorNotes}</p>
+                        )}
+
+                        {feedback.status === 'rejected' && feedback.moderatorNotes && (
+                          <p className="mt-3 text-sm text-red-700">
+                            <span className="font-medium">Rejection reason:</span> {feedback.moderatorNotes}
+                          </p>
+                        )}
+
+                        {/* Replies */}
+                        {view === 'all' && (
+                          <div className="mt-3">
+                            <button
+                              onClick={() => toggleThread(feedback._id)}
+                              className="text-sm text-primary-600 hover:text-primary-800"
+                            >
+                              {openThreads.has(feedback._id) ? 'Hide replies' : `Replies (${feedback.responses?.length || 0})`}
+                            </button>
+                            {openThreads.has(feedback._id) && (
+                              <div className="mt-3">
+                                <ResponseThread
+                                  feedbackId={feedback._id}
+                                  responses={feedback.responses || []}
+                                  canReply={hasPermission('feedback:respond')}
+                                  onResponded={(response) => addResponse(feedback._id, response)}
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Moderation */}
+                        {view === 'queue' && (
+                          <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col md:flex-row md:items-start gap-3">
+                            <textarea
+                              value={moderatorNotes[feedback._id] || ''}
+                              onChange={(e) => setModeratorNotes(prev => ({ ...prev, [feedback._id]: e.target.value }))}
+                              rows={2}
+                              maxLength={500}
+                              className="input-field resize-none flex-1"
+                              placeholder="Moderator notes (required to reject; emailed to the student as the reason)"
+                            />
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => handleModerate(feedback._id, 'approved')}
+                                disabled={processingIds.has(feedback._id)}
+                                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => handleModerate(feedback._id, 'rejected')}
+                                disabled={processingIds.has(feedback._id)}
+                                className="btn-danger disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -421,6 +852,52 @@ const AdminFeedback: React.FC = () => {
           )}
         </div>
       </div>
+
+      {/* Edit History Modal */}
+      <Modal
+        isOpen={historyFeedback !== null}
+        onClose={closeHistory}
+        title="Edit History"
+        size="large"
+      >
+        {loadingHistory ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="medium" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No earlier versions were kept for this feedback.</p>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            {[...revisions].reverse().map((revision) => {
+              const previous = revisions.find(candidate => candidate.version === revision.version - 1);
+
+              return (
+                <div key={revision._id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-medium text-gray-900">
+                      Version {revision.version}
+                      {revision.version === 1 && ' (first submitted)'}
+                      {revision.version === revisions[revisions.length - 1].version && revision.version > 1 && ' (current)'}
+                    </h4>
+                    <span className="text-xs text-gray-500">{formatDateTime(revision.createdAt)}</span>
+                  </div>
+                  {previous ? (
+                    renderRevisionChanges(revision, previous)
+                  ) : (
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center space-x-2">
+                        {renderStarRating(revision.rating)}
+                        <span className="text-gray-600">({formatRating(revision.rating)})</span>
+                      </div>
+                      <p className="text-gray-700 whitespace-pre-wrap">{revision.message}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Modal>
     </Layout>
   );
 };
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { Invitation, InvitationFormData, RoleDefinition } from '../../types';
+import { adminApi } from '../../utils/api';
+import { invitationSchema } from '../../utils/validation';
+import { formatDateTime, copyToClipboard, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Layout from '../../components/layout/Layout';
+
+type StatusFilter = Invitation['status'] | 'all';
+
+const STATUS_STYLES: Record<Invitation['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+};
+
+const AdminInvitations: React.FC = () => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<InvitationFormData>({
+    resolver: yupResolver(invitationSchema) as any,
+    defaultValues: { email: '', role: 'student', expiresInDays: 7 },
+  });
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const invitationsData = await adminApi.getInvitations(statusFilter);
+      setInvitations(invitationsData);
+    } catch (error) {
+      toast.error('Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  useEffect(() => {
+    const fetchRoles = async () => {
+      try {
+        setRoles(await adminApi.getRoles());
+      } catch (error) {
+        toast.error('Failed to load roles');
+      }
+    };
+
+    fetchRoles();
+  }, []);
+
+  const onSubmit = async (data: InvitationFormData) => {
+    setSubmitting(true);
+    try {
+      const created = await adminApi.createInvitation({
+        ...data,
+        email: data.email || undefined,
+      });
+      setInviteUrl(created.inviteUrl);
+      if (statusFilter === 'all' || statusFilter === 'pending') {
+        setInvitations(prev => [created.invitation, ...prev]);
+      }
+      toast.success(created.message);
+      reset({ email: '', role: data.role, expiresInDays: data.expiresInDays });
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteUrl) return;
+
+    const copied = await copyToClipboard(inviteUrl);
+    if (copied) {
+      toast.success('Invitation link copied');
+    } else {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    if (processingActions.has(invitationId)) return;
+
+    if (!window.confirm('Revoke this invitation? The link will stop working.')) {
+      return;
+    }
+
+    setProcessingActions(prev => new Set(prev).add(invitationId));
+    try {
+      await adminApi.revokeInvitation(invitationId);
+      setInvitations(prev =>
+        prev.map(invitation =>
+          invitation._id === invitationId
+            ? { ...invitation, status: 'revoked', revokedAt: new Date().toISOString() }
+            : invitation
+        )
+      );
+      toast.success('Invitation revoked successfully');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to revoke invitation';
+      toast.error(errorMessage);
+    } finally {
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(invitationId);
+        return newSet;
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Invitations</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Invite new users with a single-use link
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Create Invitation */}
+          <div className="card mb-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">New Invitation</h3>
+            <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+              <div className="md:col-span-2">
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email (optional)
+                </label>
+                <input
+                  {...register('email')}
+                  type="email"
+                  className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+                  placeholder="Leave empty for a link anyone can use"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                  Role
+                </label>
+                <select {...register('role')} className="input-field capitalize">
+                  {roles.length === 0 && <option value="student">Student</option>}
+                  {roles.map((role) => (
+                    <option key={role.name} value={role.name} title={role.permissions.join(', ')}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="expiresInDays" className="block text-sm font-medium text-gray-700">
+                  Expires after
+                </label>
+                <select {...register('expiresInDays')} className="input-field">
+                  <option value={1}>1 day</option>
+                  <option value={3}>3 days</option>
+                  <option value={7}>7 days</option>
+                  <option value={14}>14 days</option>
+                  <option value={30}>30 days</option>
+                </select>
+              </div>
+
+              <div className="md:col-span-4 flex justify-end">
+                <button type="submit" disabled={submitting} className="btn-primary">
+                  {submitting ? <LoadingSpinner size="small" /> : 'Create Invitation'}
+                </button>
+              </div>
+            </form>
+
+            {inviteUrl && (
+              <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                <p className="text-sm font-medium text-green-800">Invitation link</p>
+                <p className="text-sm text-green-700 mb-2">
+                  Share this link with the invitee. It is only shown once.
+                </p>
+                <div className="flex items-center gap-2">
+                  <input type="text" readOnly value={inviteUrl} className="input-field font-mono text-xs" />
+                  <button onClick={handleCopyLink} className="btn-secondary text-sm whitespace-nowrap">
+                    Copy
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Filters */}
+          <div className="flex justify-end mb-4">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="input-field max-w-xs"
+            >
+              <option value="all">All Invitations</option>
+              <option value="pending">Pending</option>
+              <option value="accepted">Accepted</option>
+              <option value="revoked">Revoked</option>
+              <option value="expired">Expired</option>
+            </select>
+          </div>
+
+          {/* Invitations List */}
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : invitations.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No invitations found</h3>
+              <p className="mt-1 text-sm text-gray-500">Create an invitation above to get started.</p>
+            </div>
+          ) : (
+            <div className="card overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invitee
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Invited By
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Expires
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {invitations.map((invitation) => (
+                      <tr key={invitation._id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">{invitation.email || 'Any email'}</div>
+                          {invitation.acceptedBy && (
+                            <div className="text-sm text-gray-500">Joined as {invitation.acceptedBy.name}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                          {invitation.role}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                              STATUS_STYLES[invitation.status]
+                            }`}
+                          >
+                            {invitation.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {invitation.invitedBy?.name || 'Unknown'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDateTime(invitation.expiresAt)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {invitation.status === 'pending' && (
+                            <button
+                              onClick={() => handleRevoke(invitation._id)}
+                              disabled={processingActions.has(invitation._id)}
+                              className="text-red-600 hover:text-red-900 font-medium transition-colors duration-200"
+                            >
+                              {processingActions.has(invitation._id) ? (
+                                <LoadingSpinner size="small" />
+                              ) : (
+                                'Revoke'
+                              )}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminInvitations;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { ScreeningResult, ScreeningSettings, ScreeningWord, ScreeningWordFormData } from '../../types';
+import { screeningApi } from '../../utils/api';
+import { screeningWordSchema } from '../../utils/validation';
+import { SCREENING_CONFIG } from '../../utils/constants';
+import { formatDate, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Layout from '../../components/layout/Layout';
+
+const CATEGORY_STYLES: Record<ScreeningWord['category'], string> = {
+  profanity: 'bg-yellow-100 text-yellow-800',
+  insult: 'bg-red-100 text-red-800',
+};
+
+const AdminScreening: React.FC = () => {
+  const [words, setWords] = useState<ScreeningWord[]>([]);
+  const [settings, setSettings] = useState<ScreeningSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [search, setSearch] = useState('');
+  const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
+  const [sampleText, setSampleText] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [checkResult, setCheckResult] = useState<ScreeningResult | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ScreeningWordFormData>({
+    resolver: yupResolver(screeningWordSchema) as any,
+    defaultValues: { word: '', category: 'profanity' },
+  });
+
+  useEffect(() => {
+    fetchWords();
+  }, []);
+
+  const fetchWords = async () => {
+    try {
+      setLoading(true);
+      const wordList = await screeningApi.getWords();
+      setWords(wordList.words);
+      setSettings(wordList.settings);
+    } catch (error) {
+      toast.error('Failed to load the word list');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (data: ScreeningWordFormData) => {
+    setAdding(true);
+    try {
+      const newWord = await screeningApi.addWord(data);
+      setWords(prev => [...prev, newWord].sort((a, b) =>
+        a.category.localeCompare(b.category) || a.word.localeCompare(b.word)));
+      reset({ word: '', category: data.category });
+      toast.success(`Added "${newWord.word}"`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async (word: ScreeningWord) => {
+    if (processingActions.has(word._id)) return;
+
+    if (!window.confirm(`Remove "${word.word}" from the word list?`)) {
+      return;
+    }
+
+    setProcessingActions(prev => new Set(prev).add(word._id));
+    try {
+      await screeningApi.removeWord(word._id);
+      setWords(prev => prev.filter(w => w._id !== word._id));
+      toast.success(`Removed "${word.word}"`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(word._id);
+        return newSet;
+      });
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!sampleText.trim()) return;
+
+    setChecking(true);
+    try {
+      setCheckResult(await screeningApi.checkText(sampleText));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const filteredWords = words.filter(word => word.word.includes(search.trim().toLowerCase()));
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6">
+            <h1 className="text-3xl font-bold text-gray-900">Content Screening</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Feedback containing listed words or personal information is held for a moderator before it is published
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : (
+            <>
+              {/* Settings */}
+              {settings && (
+                <div className={`mb-6 border rounded-lg p-4 text-sm ${
+                  settings.enabled ? 'bg-blue-50 border-blue-200 text-blue-800' : 'bg-gray-50 border-gray-200 text-gray-700'
+                }`}>
+                  {settings.enabled ? (
+                    <>
+                      <p>
+                        Feedback scoring <span className="font-semibold">{settings.threshold}</span> or more is held as pending.
+                      </p>
+                      <p className="mt-1 text-xs">
+                        Each finding adds to the score:{' '}
+                        {Object.entries(settings.weights)
+                          .map(([type, weight]) =>
+                            `${SCREENING_CONFIG.findingLabels[type as keyof typeof SCREENING_CONFIG.findingLabels] || type} ${weight}`)
+                          .join(' · ')}
+                      </p>
+                    </>
+                  ) : (
+                    <p>Automatic screening is turned off on the server. Changes to the word list apply once it is turned on.</p>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Word List */}
+                <div className="lg:col-span-2 card">
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-medium text-gray-900">Word List ({words.length})</h3>
+                    <input
+                      type="text"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="input-field w-48"
+                      placeholder="Search words..."
+                    />
+                  </div>
+
+                  <form onSubmit={handleSubmit(handleAdd)} className="flex flex-col sm:flex-row gap-3 mb-2">
+                    <input
+                      {...register('word')}
+                      maxLength={SCREENING_CONFIG.wordMaxLength}
+                      className={`input-field flex-1 ${errors.word ? 'border-red-500' : ''}`}
+                      placeholder="Word or phrase"
+                    />
+                    <select {...register('category')} className="input-field sm:w-48">
+                      {Object.entries(SCREENING_CONFIG.categories).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <button type="submit" disabled={adding} className="btn-primary flex items-center justify-center">
+                      {adding ? <LoadingSpinner size="small" /> : 'Add'}
+                    </button>
+                  </form>
+                  {errors.word && (
+                    <p className="mb-2 text-sm text-red-600">{errors.word.message}</p>
+                  )}
+                  <p className="mb-4 text-xs text-gray-500">
+                    Words match whole words, ignoring case and common swaps like "1" for "i" or "$" for "s".
+                  </p>
+
+                  {filteredWords.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-6">
+                      {words.length === 0 ? 'The word list is empty.' : 'No words match your search.'}
+                    </p>
+                  ) : (
+                    <div className="divide-y divide-gray-200">
+                      {filteredWords.map((word) => (
+                        <div key={word._id} className="flex items-center justify-between py-2">
+                          <div className="flex items-center space-x-3">
+                            <span className="text-sm font-medium text-gray-900">{word.word}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${CATEGORY_STYLES[word.category]}`}>
+                              {SCREENING_CONFIG.categories[word.category]}
+                            </span>
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            <span className="text-xs text-gray-500">
+                              {word.createdBy ? `${word.createdBy.name}, ` : ''}{formatDate(word.createdAt)}
+                            </span>
+                            <button
+                              onClick={() => handleRemove(word)}
+                              disabled={processingActions.has(word._id)}
+                              className="text-red-600 hover:text-red-800 transition-colors duration-200"
+                              title="Remove"
+                            >
+                              {processingActions.has(word._id) ? (
+                                <LoadingSpinner size="small" />
+                              ) : (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              )}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Try It */}
+                <div className="card h-fit">
+                  <h3 className="text-lg font-medium text-gray-900 mb-1">Try It</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    See how a piece of feedback would be screened. Nothing is saved.
+                  </p>
+                  <textarea
+                    value={sampleText}
+                    onChange={(e) => setSampleText(e.target.value)}
+                    rows={5}
+                    maxLength={2000}
+                    className="input-field resize-none"
+                    placeholder="Paste some feedback..."
+                  />
+                  <button
+                    onClick={handleCheck}
+                    disabled={checking || !sampleText.trim()}
+                    className="btn-secondary w-full mt-3 flex items-center justify-center"
+                  >
+                    {checking ? <LoadingSpinner size="small" /> : 'Check'}
+                  </button>
+
+                  {checkResult && (
+                    <div className={`mt-4 p-3 rounded-md text-sm ${
+                      checkResult.flagged ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'
+                    }`}>
+                      <p className="font-medium">
+                        Score {checkResult.score}: {checkResult.flagged ? 'held for review' : 'published as usual'}
+                      </p>
+                      {checkResult.findings.length > 0 && (
+                        <ul className="mt-2 list-disc pl-5 space-y-1">
+                          {checkResult.findings.map((finding, index) => (
+                            <li key={index}>
+                              {SCREENING_CONFIG.findingLabels[finding.type] || finding.type}: {finding.match}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {checkResult.notes && (
+                        <p className="mt-2 text-xs">{checkResult.notes}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminScreening;
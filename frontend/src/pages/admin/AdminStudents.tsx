@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { User, PaginationData } from '../../types';
+import { useAuth } from '../../context/AuthContext';
 import { adminApi } from '../../utils/api';
 import { ROUTES, PAGINATION_CONFIG } from '../../utils/constants';
 import { formatDateTime, generateInitials } from '../../utils/helpers';
@@ -9,6 +10,7 @@ import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Layout from '../../components/layout/Layout';
 
 const AdminStudents: React.FC = () => {
+  const { hasPermission, startImpersonation } = useAuth();
   const [students, setStudents] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [pagination, setPagination] = useState<PaginationData>({
@@ -18,7 +20,7 @@ const AdminStudents: React.FC = () => {
     itemsPerPage: PAGINATION_CONFIG.defaultLimit,
   });
   const [search, setSearch] = useState('');
-  const [status, setStatus] = useState<'all' | 'active' | 'blocked'>('all');
+  const [status, setStatus] = useState<'all' | 'active' | 'blocked' | 'locked'>('all');
   const [sortBy, setSortBy] = useState('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
@@ -83,10 +85,54 @@ const AdminStudents: React.FC = () => {
     }
   };
 
+  const handleUnlock = async (studentId: string) => {
+    if (processingActions.has(studentId)) return;
+
+    setProcessingActions(prev => new Set(prev).add(studentId));
+    try {
+      await adminApi.unlockStudent(studentId);
+      setStudents(prev =>
+        prev.map(student =>
+          student._id === studentId
+            ? { ...student, isLocked: false, lockUntil: null, failedLoginAttempts: 0 }
+            : student
+        )
+      );
+      toast.success('Student unlocked successfully');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to unlock student';
+      toast.error(errorMessage);
+    } finally {
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(studentId);
+        return newSet;
+      });
+    }
+  };
+
+  const handleViewAs = async (studentId: string) => {
+    if (processingActions.has(studentId)) return;
+
+    setProcessingActions(prev => new Set(prev).add(studentId));
+    try {
+      await startImpersonation(studentId);
+      navigate(ROUTES.DASHBOARD);
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to view as student';
+      toast.error(errorMessage);
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(studentId);
+        return newSet;
+      });
+    }
+  };
+
   const handleDeleteStudent = async (studentId: string) => {
     if (processingActions.has(studentId)) return;
 
-    if (!window.confirm('Are you sure you want to delete this student? This action cannot be undone.')) {
+    if (!window.confirm('Are you sure you want to delete this student? Their feedback will be kept anonymously. This action cannot be undone.')) {
       return;
     }
 
@@ -175,12 +221,13 @@ const AdminStudents: React.FC = () => {
               <div className="flex items-center space-x-4">
                 <select
                   value={status}
-                  onChange={(e) => setStatus(e.target.value as 'all' | 'active' | 'blocked')}
+                  onChange={(e) => setStatus(e.target.value as 'all' | 'active' | 'blocked' | 'locked')}
                   className="input-field"
                 >
                   <option value="all">All Students</option>
                   <option value="active">Active Only</option>
                   <option value="blocked">Blocked Only</option>
+                  <option value="locked">Locked Out</option>
                 </select>
 
                 <select
@@ -298,6 +345,14 @@ const AdminStudents: React.FC = () => {
                             >
                               {student.isBlocked ? 'Blocked' : 'Active'}
                             </span>
+                            {student.isLocked && student.lockUntil && (
+                              <span
+                                className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800"
+                                title={`Locked until ${formatDateTime(student.lockUntil)}`}
+                              >
+                                Locked
+                              </span>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {formatDateTime(student.createdAt)}
@@ -307,34 +362,56 @@ const AdminStudents: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                             <div className="flex items-center justify-end space-x-2">
-                              <button
-                                onClick={() => handleToggleBlock(student._id, student.isBlocked)}
-                                disabled={processingActions.has(student._id)}
-                                className={`${
-                                  student.isBlocked
-                                    ? 'text-green-600 hover:text-green-900'
-                                    : 'text-yellow-600 hover:text-yellow-900'
-                                } font-medium transition-colors duration-200`}
-                              >
-                                {processingActions.has(student._id) ? (
-                                  <LoadingSpinner size="small" />
-                                ) : student.isBlocked ? (
-                                  'Unblock'
-                                ) : (
-                                  'Block'
-                                )}
-                              </button>
-                              <button
-                                onClick={() => handleDeleteStudent(student._id)}
-                                disabled={processingActions.has(student._id)}
-                                className="text-red-600 hover:text-red-900 font-medium transition-colors duration-200"
-                              >
-                                {processingActions.has(student._id) ? (
-                                  <LoadingSpinner size="small" />
-                                ) : (
-                                  'Delete'
-                                )}
-                              </button>
+                              {!student.isBlocked && hasPermission('students:impersonate') && (
+                                <button
+                                  onClick={() => handleViewAs(student._id)}
+                                  disabled={processingActions.has(student._id)}
+                                  className="text-primary-600 hover:text-primary-900 font-medium transition-colors duration-200"
+                                >
+                                  View as
+                                </button>
+                              )}
+                              {student.isLocked && hasPermission('students:unlock') && (
+                                <button
+                                  onClick={() => handleUnlock(student._id)}
+                                  disabled={processingActions.has(student._id)}
+                                  className="text-primary-600 hover:text-primary-900 font-medium transition-colors duration-200"
+                                >
+                                  Unlock
+                                </button>
+                              )}
+                              {hasPermission('students:block') && (
+                                <button
+                                  onClick={() => handleToggleBlock(student._id, student.isBlocked)}
+                                  disabled={processingActions.has(student._id)}
+                                  className={`${
+                                    student.isBlocked
+                                      ? 'text-green-600 hover:text-green-900'
+                                      : 'text-yellow-600 hover:text-yellow-900'
+                                  } font-medium transition-colors duration-200`}
+                                >
+                                  {processingActions.has(student._id) ? (
+                                    <LoadingSpinner size="small" />
+                                  ) : student.isBlocked ? (
+                                    'Unblock'
+                                  ) : (
+                                    'Block'
+                                  )}
+                                </button>
+                              )}
+                              {hasPermission('students:delete') && (
+                                <button
+                                  onClick={() => handleDeleteStudent(student._id)}
+                                  disabled={processingActions.has(student._id)}
+                                  className="text-red-600 hover:text-red-900 font-medium transition-colors duration-200"
+                                >
+                                  {processingActions.has(student._id) ? (
+                                    <LoadingSpinner size="small" />
+                                  ) : (
+                                    'Delete'
+                                  )}
+                                </button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -0,0 +1,526 @@
+import React, { useState, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { SurveyQuestion, SurveyQuestionFormData, SurveyQuestionType, SurveyTemplate, SurveyTemplateFormData } from '../../types';
+import { surveyApi } from '../../utils/api';
+import { surveyTemplateSchema } from '../../utils/validation';
+import { SURVEY_CONFIG } from '../../utils/constants';
+import { formatDateTime, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Modal from '../../components/ui/Modal';
+import Layout from '../../components/layout/Layout';
+
+const QUESTION_TYPES = Object.keys(SURVEY_CONFIG.questionTypes) as SurveyQuestionType[];
+
+const emptyQuestion: SurveyQuestionFormData = { text: '', type: 'likert', required: true, options: [] };
+
+const emptyTemplate: SurveyTemplateFormData = { name: '', description: '', questions: [emptyQuestion] };
+
+// Only send the settings that apply to each question's type
+const toQuestionPayload = (question: SurveyQuestionFormData): SurveyQuestionFormData => ({
+  text: question.text,
+  type: question.type,
+  required: question.required,
+  ...(question.type === 'multiple-choice' && { options: question.options }),
+  ...(question.type === 'numeric' && { min: question.min, max: question.max }),
+  ...(question.type === 'text' && question.maxLength && { maxLength: question.maxLength }),
+});
+
+const describeQuestion = (question: SurveyQuestion): string => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return (question.options || []).join(' · ');
+    case 'numeric':
+      return `${question.min} to ${question.max}`;
+    case 'text':
+      return question.maxLength ? `Up to ${question.maxLength} characters` : '';
+    default:
+      return '';
+  }
+};
+
+const AdminSurveys: React.FC = () => {
+  const [templates, setTemplates] = useState<SurveyTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<SurveyTemplate | null>(null);
+  const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    getValues,
+    setValue,
+    formState: { errors },
+  } = useForm<SurveyTemplateFormData>({
+    resolver: yupResolver(surveyTemplateSchema) as any,
+    defaultValues: emptyTemplate,
+  });
+
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'questions' });
+
+  const questions = watch('questions');
+
+  // Questions can't change once students have answered them
+  const questionsLocked = !!editingTemplate && (editingTemplate.responseCount || 0) > 0;
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await surveyApi.getTemplates());
+    } catch (error) {
+      toast.error('Failed to load survey templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingTemplate(null);
+    reset(emptyTemplate);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (template: SurveyTemplate) => {
+    setEditingTemplate(template);
+    reset({
+      name: template.name,
+      description: template.description || '',
+      questions: template.questions.map(question => ({
+        text: question.text,
+        type: question.type,
+        required: question.required,
+        options: question.options || [],
+        min: question.min,
+        max: question.max,
+        maxLength: question.maxLength,
+      })),
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTemplate(null);
+    reset(emptyTemplate);
+  };
+
+  const addOption = (questionIndex: number) => {
+    const options = getValues(`questions.${questionIndex}.options`) || [];
+    setValue(`questions.${questionIndex}.options`, [...options, '']);
+  };
+
+  const removeOption = (questionIndex: number, optionIndex: number) => {
+    const options = getValues(`questions.${questionIndex}.options`) || [];
+    setValue(`questions.${questionIndex}.options`, options.filter((_, index) => index !== optionIndex));
+  };
+
+  const handleSave = async (data: SurveyTemplateFormData) => {
+    setSubmitting(true);
+    try {
+      const payload: Partial<SurveyTemplateFormData> = {
+        name: data.name,
+        description: data.description,
+        ...(!questionsLocked && { questions: data.questions.map(toQuestionPayload) }),
+      };
+
+      if (editingTemplate) {
+        const updatedTemplate = await surveyApi.updateTemplate(editingTemplate._id, payload);
+        setTemplates(prev =>
+          prev.map(template => template._id === editingTemplate._id ? updatedTemplate : template)
+        );
+        toast.success('Survey template updated successfully!');
+      } else {
+        const newTemplate = await surveyApi.createTemplate(payload as SurveyTemplateFormData);
+        setTemplates(prev => [...prev, newTemplate].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success('Survey template created successfully!');
+      }
+      closeModal();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    if (processingActions.has(templateId)) return;
+
+    if (!window.confirm('Are you sure you want to delete this survey template? This action cannot be undone.')) {
+      return;
+    }
+
+    setProcessingActions(prev => new Set(prev).add(templateId));
+    try {
+      await surveyApi.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(template => template._id !== templateId));
+      toast.success('Survey template deleted successfully');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to delete survey template';
+      toast.error(errorMessage);
+    } finally {
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(templateId);
+        return newSet;
+      });
+    }
+  };
+
+  const renderQuestionEditor = (fieldId: string, index: number) => {
+    const question = questions?.[index];
+    const questionErrors = errors.questions?.[index];
+
+    return (
+      <div key={fieldId} className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium text-gray-700">Question {index + 1}</span>
+          <div className="flex space-x-2 text-gray-500">
+            <button
+              type="button"
+              onClick={() => move(index, index - 1)}
+              disabled={index === 0}
+              className="hover:text-gray-800 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, index + 1)}
+              disabled={index === fields.length - 1}
+              className="hover:text-gray-800 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={fields.length === 1}
+              className="text-red-600 hover:text-red-800 disabled:opacity-30"
+              title="Remove question"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <input
+            {...register(`questions.${index}.text`)}
+            className={`input-field ${questionErrors?.text ? 'border-red-500' : ''}`}
+            placeholder="e.g., How clearly were the concepts explained?"
+          />
+          {questionErrors?.text && (
+            <p className="mt-1 text-sm text-red-600">{questionErrors.text.message}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <select {...register(`questions.${index}.type`)} className="input-field w-auto">
+            {QUESTION_TYPES.map(type => (
+              <option key={type} value={type}>{SURVEY_CONFIG.questionTypes[type]}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              {...register(`questions.${index}.required`)}
+              type="checkbox"
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+            />
+            Required
+          </label>
+        </div>
+
+        {question?.type === 'multiple-choice' && (
+          <div className="space-y-2">
+            {(question.options || []).map((_, optionIndex) => (
+              <div key={optionIndex} className="flex items-center space-x-2">
+                <input
+                  {...register(`questions.${index}.options.${optionIndex}`)}
+                  className="input-field"
+                  placeholder={`Option ${optionIndex + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeOption(index, optionIndex)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove option"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {(question.options || []).length < SURVEY_CONFIG.maxOptions && (
+              <button
+                type="button"
+                onClick={() => addOption(index)}
+                className="text-sm text-primary-600 hover:text-primary-800"
+              >
+                + Add option
+              </button>
+            )}
+            {questionErrors?.options && (
+              <p className="text-sm text-red-600">
+                {questionErrors.options.message || 'Options cannot be empty or longer than 100 characters'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {question?.type === 'numeric' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Minimum</label>
+              <input
+                {...register(`questions.${index}.min`)}
+                type="number"
+                step="any"
+                className={`input-field ${questionErrors?.min ? 'border-red-500' : ''}`}
+              />
+              {questionErrors?.min && (
+                <p className="mt-1 text-sm text-red-600">{questionErrors.min.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Maximum</label>
+              <input
+                {...register(`questions.${index}.max`)}
+                type="number"
+                step="any"
+                className={`input-field ${questionErrors?.max ? 'border-red-500' : ''}`}
+              />
+              {questionErrors?.max && (
+                <p className="mt-1 text-sm text-red-600">{questionErrors.max.message}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {question?.type === 'text' && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Maximum length (optional, default 1000)</label>
+            <input
+              {...register(`questions.${index}.maxLength`)}
+              type="number"
+              min="1"
+              max="2000"
+              className={`input-field ${questionErrors?.maxLength ? 'border-red-500' : ''}`}
+            />
+            {questionErrors?.maxLength && (
+              <p className="mt-1 text-sm text-red-600">{questionErrors.maxLength.message}</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Survey Templates</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Define the questions students answer about a course
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button onClick={openCreateModal} className="btn-primary">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Add Template
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No survey templates yet</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Courses without a template only ask for an overall rating and comments.
+              </p>
+              <div className="mt-6">
+                <button onClick={openCreateModal} className="btn-primary">
+                  Add Template
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {templates.map((template) => (
+                <div key={template._id} className="card">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{template.name}</h3>
+                      {template.description && (
+                        <p className="text-sm text-gray-600">{template.description}</p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => openEditModal(template)}
+                        className="text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template._id)}
+                        disabled={processingActions.has(template._id)}
+                        className="text-red-600 hover:text-red-800 transition-colors duration-200"
+                      >
+                        {processingActions.has(template._id) ? (
+                          <LoadingSpinner size="small" />
+                        ) : (
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        )}
+                      </button>
+                    </div>
+                  </div>
+
+                  <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-700 mb-4">
+                    {template.questions.map(question => (
+                      <li key={question._id}>
+                        {question.text}
+                        {!question.required && <span className="text-gray-400"> (optional)</span>}
+                        <span className="block text-xs text-gray-500">
+                          {SURVEY_CONFIG.questionTypes[question.type]}
+                          {describeQuestion(question) && ` · ${describeQuestion(question)}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>
+                      Used by {template.courseCount || 0} course{template.courseCount !== 1 ? 's' : ''} ·{' '}
+                      {template.responseCount || 0} response{template.responseCount !== 1 ? 's' : ''}
+                    </span>
+                    {template.createdAt && <span>Created {formatDateTime(template.createdAt)}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Template Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingTemplate ? 'Edit Survey Template' : 'Create Survey Template'}
+        size="large"
+      >
+        <form onSubmit={handleSubmit(handleSave)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Template Name *
+            </label>
+            <input
+              {...register('name')}
+              className={`input-field ${errors.name ? 'border-red-500' : ''}`}
+              placeholder="e.g., Standard course evaluation"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              {...register('description')}
+              rows={2}
+              className={`input-field resize-none ${errors.description ? 'border-red-500' : ''}`}
+              placeholder="What this survey is for"
+            />
+            {errors.description && (
+              <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Questions *
+            </label>
+            {questionsLocked ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                Students have already answered this template, so its questions can no longer be changed.
+                Create a new template to ask different questions.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {fields.map((field, index) => renderQuestionEditor(field.id, index))}
+                {errors.questions?.message && (
+                  <p className="text-sm text-red-600">{errors.questions.message}</p>
+                )}
+                {fields.length < SURVEY_CONFIG.maxQuestions && (
+                  <button
+                    type="button"
+                    onClick={() => append({ ...emptyQuestion, options: [] })}
+                    className="btn-secondary"
+                  >
+                    Add Question
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={closeModal} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn-primary flex items-center"
+            >
+              {submitting ? (
+                <>
+                  <LoadingSpinner size="small" className="mr-2" />
+                  Saving...
+                </>
+              ) : editingTemplate ? (
+                'Update Template'
+              ) : (
+                'Create Template'
+              )}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </Layout>
+  );
+};
+
+export default AdminSurveys;
@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { Term, TermFormData } from '../../types';
+import { termApi } from '../../utils/api';
+import { termSchema } from '../../utils/validation';
+import { formatDate, formatDateForInput, formatDateTime, formatDateTimeForInput, getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Modal from '../../components/ui/Modal';
+import Layout from '../../components/layout/Layout';
+
+type WindowStatus = 'open' | 'upcoming' | 'closed';
+
+const STATUS_STYLES: Record<WindowStatus, string> = {
+  open: 'bg-green-100 text-green-800',
+  upcoming: 'bg-blue-100 text-blue-800',
+  closed: 'bg-gray-100 text-gray-800',
+};
+
+const getWindowStatus = (term: Term): WindowStatus => {
+  if (term.isFeedbackOpen) return 'open';
+  return new Date(term.feedbackOpensAt) > new Date() ? 'upcoming' : 'closed';
+};
+
+const emptyTerm: TermFormData = {
+  name: '',
+  startDate: '',
+  endDate: '',
+  feedbackOpensAt: '',
+  feedbackClosesAt: '',
+};
+
+const AdminTerms: React.FC = () => {
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<Term | null>(null);
+  const [processingActions, setProcessingActions] = useState<Set<string>>(new Set());
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TermFormData>({
+    resolver: yupResolver(termSchema) as any,
+    defaultValues: emptyTerm,
+  });
+
+  useEffect(() => {
+    fetchTerms();
+  }, []);
+
+  const fetchTerms = async () => {
+    try {
+      setLoading(true);
+      setTerms(await termApi.getTerms());
+    } catch (error) {
+      toast.error('Failed to load terms');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingTerm(null);
+    reset(emptyTerm);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (term: Term) => {
+    setEditingTerm(term);
+    reset({
+      name: term.name,
+      startDate: formatDateForInput(term.startDate),
+      endDate: formatDateForInput(term.endDate),
+      feedbackOpensAt: formatDateTimeForInput(term.feedbackOpensAt),
+      feedbackClosesAt: formatDateTimeForInput(term.feedbackClosesAt),
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingTerm(null);
+    reset(emptyTerm);
+  };
+
+  const handleSave = async (data: TermFormData) => {
+    setSubmitting(true);
+    try {
+      // datetime-local values are in the admin's time zone; send them as absolute times
+      const payload: TermFormData = {
+        ...data,
+        feedbackOpensAt: new Date(data.feedbackOpensAt).toISOString(),
+        feedbackClosesAt: new Date(data.feedbackClosesAt).toISOString(),
+      };
+
+      if (editingTerm) {
+        const updatedTerm = await termApi.updateTerm(editingTerm._id, payload);
+        setTerms(prev => prev.map(term => term._id === editingTerm._id ? updatedTerm : term));
+        toast.success('Term updated successfully!');
+      } else {
+        const newTerm = await termApi.createTerm(payload);
+        setTerms(prev =>
+          [newTerm, ...prev].sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())
+        );
+        toast.success('Term created successfully!');
+      }
+      closeModal();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (termId: string) => {
+    if (processingActions.has(termId)) return;
+
+    if (!window.confirm('Are you sure you want to delete this term? This action cannot be undone.')) {
+      return;
+    }
+
+    setProcessingActions(prev => new Set(prev).add(termId));
+    try {
+      await termApi.deleteTerm(termId);
+      setTerms(prev => prev.filter(term => term._id !== termId));
+      toast.success('Term deleted successfully');
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to delete term';
+      toast.error(errorMessage);
+    } finally {
+      setProcessingActions(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(termId);
+        return newSet;
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Academic Terms</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Students can give feedback once per course each term, while its feedback window is open
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button onClick={openCreateModal} className="btn-primary">
+                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Add Term
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="large" />
+            </div>
+          ) : terms.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No terms yet</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Students can't submit feedback until a term's feedback window is open.
+              </p>
+              <div className="mt-6">
+                <button onClick={openCreateModal} className="btn-primary">
+                  Add Term
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="card overflow-hidden p-0">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Term</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Feedback Window</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Feedback</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {terms.map((term) => {
+                    const status = getWindowStatus(term);
+
+                    return (
+                      <tr key={term._id}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{term.name}</div>
+                          <span className={`inline-flex px-2 py-0.5 mt-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[status]}`}>
+                            {status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {formatDate(term.startDate)} – {formatDate(term.endDate)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {formatDateTime(term.feedbackOpensAt)}
+                          <br />
+                          to {formatDateTime(term.feedbackClosesAt)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                          {term.feedbackCount || 0}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              onClick={() => openEditModal(term)}
+                              className="text-blue-600 hover:text-blue-800 transition-colors duration-200"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                            <button
+                              onClick={() => handleDelete(term._id)}
+                              disabled={processingActions.has(term._id)}
+                              className="text-red-600 hover:text-red-800 transition-colors duration-200"
+                            >
+                              {processingActions.has(term._id) ? (
+                                <LoadingSpinner size="small" />
+                              ) : (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                </svg>
+                              )}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create / Edit Term Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingTerm ? 'Edit Term' : 'Create Term'}
+        size="medium"
+      >
+        <form onSubmit={handleSubmit(handleSave)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Term Name *
+            </label>
+            <input
+              {...register('name')}
+              className={`input-field ${errors.name ? 'border-red-500' : ''}`}
+              placeholder="e.g., Fall 2026"
+            />
+            {errors.name && (
+              <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Term Starts *
+              </label>
+              <input
+                {...register('startDate')}
+                type="date"
+                className={`input-field ${errors.startDate ? 'border-red-500' : ''}`}
+              />
+              {errors.startDate && (
+                <p className="mt-1 text-sm text-red-600">{errors.startDate.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Term Ends *
+              </label>
+              <input
+                {...register('endDate')}
+                type="date"
+                className={`input-field ${errors.endDate ? 'border-red-500' : ''}`}
+              />
+              {errors.endDate && (
+                <p className="mt-1 text-sm text-red-600">{errors.endDate.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Feedback Opens *
+              </label>
+              <input
+                {...register('feedbackOpensAt')}
+                type="datetime-local"
+                className={`input-field ${errors.feedbackOpensAt ? 'border-red-500' : ''}`}
+              />
+              {errors.feedbackOpensAt && (
+                <p className="mt-1 text-sm text-red-600">{errors.feedbackOpensAt.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Feedback Closes *
+              </label>
+              <input
+                {...register('feedbackClosesAt')}
+                type="datetime-local"
+                className={`input-field ${errors.feedbackClosesAt ? 'border-red-500' : ''}`}
+              />
+              {errors.feedbackClosesAt && (
+                <p className="mt-1 text-sm text-red-600">{errors.feedbackClosesAt.message}</p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Feedback windows of different terms can't overlap. Students can also edit their feedback only while the window is open.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button type="button" onClick={closeModal} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="btn-primary flex items-center"
+            >
+              {submitting ? (
+                <>
+                  <LoadingSpinner size="small" className="mr-2" />
+                  Saving...
+                </>
+              ) : editingTerm ? (
+                'Update Term'
+              ) : (
+                'Create Term'
+              )}
+            </button>
+          </div>
+        </form>
+      </Modal>
+    </Layout>
+  );
+};
+
+export default AdminTerms;
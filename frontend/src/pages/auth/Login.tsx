@@ -1,17 +1,23 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import toast from 'react-hot-toast';
 import { useAuth } from '../../context/AuthContext';
-import { LoginData } from '../../types';
+import { LoginData, OidcConfig } from '../../types';
+import { authApi } from '../../utils/api';
 import { loginSchema } from '../../utils/validation';
-import { ROUTES, APP_CONFIG } from '../../utils/constants';
+import { ROUTES, APP_CONFIG, AUTH_CONFIG } from '../../utils/constants';
+import { formatDateTime, getErrorMessage } from '../../utils/helpers';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 
 const Login: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [oidcConfig, setOidcConfig] = useState<OidcConfig | null>(null);
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const { login, verifyTwoFactor, cancelTwoFactor, isTwoFactorPending } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -26,18 +32,68 @@ const Login: React.FC = () => {
     resolver: yupResolver(loginSchema),
   });
 
+  useEffect(() => {
+    authApi.getOidcConfig()
+      .then(setOidcConfig)
+      .catch(() => setOidcConfig(null));
+  }, []);
+
+  // Send the browser to the identity provider; OidcCallback finishes the login
+  const handleOidcLogin = async () => {
+    setIsRedirecting(true);
+    try {
+      const { authorizationUrl, state } = await authApi.startOidcLogin();
+      sessionStorage.setItem(AUTH_CONFIG.oidcStateKey, JSON.stringify({ state, from }));
+      window.location.assign(authorizationUrl);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setIsRedirecting(false);
+    }
+  };
+
+  // Keep the lockout visible on the page; the toast from the auth context disappears
+  const trackLockout = (error: any) => {
+    setLockedUntil(error.response?.data?.code === 'ACCOUNT_LOCKED' ? error.response.data.lockedUntil : null);
+  };
+
   const onSubmit = async (data: LoginData) => {
     setIsLoading(true);
     try {
-      await login(data.email, data.password);
+      const { twoFactorRequired } = await login(data.email, data.password);
+      setLockedUntil(null);
+      if (!twoFactorRequired) {
+        navigate(from, { replace: true });
+      }
+    } catch (error) {
+      // Error is handled in the auth context
+      trackLockout(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorCode.trim()) return;
+
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(twoFactorCode.trim());
       navigate(from, { replace: true });
     } catch (error) {
       // Error is handled in the auth context
+      trackLockout(error);
+      setTwoFactorCode('');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCancelTwoFactor = () => {
+    setTwoFactorCode('');
+    cancelTwoFactor();
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -58,89 +114,176 @@ const Login: React.FC = () => {
             </svg>
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Sign in to your account
+            {isTwoFactorPending ? 'Two-factor authentication' : 'Sign in to your account'}
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Welcome to {APP_CONFIG.name}
+            {isTwoFactorPending
+              ? 'Enter the 6-digit code from your authenticator app'
+              : `Welcome to ${APP_CONFIG.name}`}
           </p>
         </div>
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
-          <div className="space-y-4">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <input
-                {...register('email')}
-                type="email"
-                autoComplete="email"
-                className={`input-field ${errors.email ? 'border-red-500' : ''}`}
-                placeholder="Enter your email"
-              />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
-              )}
-            </div>
+        {lockedUntil && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm font-medium text-red-800">Account temporarily locked</p>
+            <p className="mt-1 text-sm text-red-700">
+              Too many failed sign-in attempts. You can try again after {formatDateTime(lockedUntil)}, or{' '}
+              <Link to={ROUTES.FORGOT_PASSWORD} className="font-medium underline">
+                reset your password
+              </Link>{' '}
+              to unlock it now.
+            </p>
+          </div>
+        )}
 
+        {isTwoFactorPending ? (
+          <form className="mt-8 space-y-6" onSubmit={onSubmitTwoFactor}>
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
+              <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700">
+                Authentication code
               </label>
               <input
-                {...register('password')}
-                type="password"
-                autoComplete="current-password"
-                className={`input-field ${errors.password ? 'border-red-500' : ''}`}
-                placeholder="Enter your password"
+                id="twoFactorCode"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                className="input-field tracking-widest"
+                placeholder="123456"
               />
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
-              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Lost your device? Enter one of your recovery codes instead.
+              </p>
             </div>
-          </div>
 
-          <div>
             <button
               type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              disabled={isLoading || !twoFactorCode.trim()}
+              className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
             >
-              {isLoading ? (
-                <LoadingSpinner size="small" />
-              ) : (
-                <>
-                  <span className="absolute left-0 inset-y-0 flex items-center pl-3">
-                    <svg
-                      className="h-5 w-5 text-primary-500 group-hover:text-primary-400"
-                      fill="currentColor"
-                      viewBox="0 0 20 20"
-                    >
-                      <path
-                        fillRule="evenodd"
-                        d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z"
-                        clipRule="evenodd"
-                      />
-                    </svg>
-                  </span>
-                  Sign in
-                </>
-              )}
+              {isLoading ? <LoadingSpinner size="small" /> : 'Verify'}
             </button>
-          </div>
 
-          <div className="text-center">
-            <span className="text-sm text-gray-600">
-              Don't have an account?{' '}
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={handleCancelTwoFactor}
+                className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <input
+                  {...register('email')}
+                  type="email"
+                  autoComplete="email"
+                  className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+                  placeholder="Enter your email"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <input
+                  {...register('password')}
+                  type="password"
+                  autoComplete="current-password"
+                  className={`input-field ${errors.password ? 'border-red-500' : ''}`}
+                  placeholder="Enter your password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
               <Link
-                to={ROUTES.REGISTER}
-                className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+                to={ROUTES.FORGOT_PASSWORD}
+                className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
-                Sign up here
+                Forgot your password?
               </Link>
-            </span>
-          </div>
-        </form>
+            </div>
+
+            <div>
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                {isLoading ? (
+                  <LoadingSpinner size="small" />
+                ) : (
+                  <>
+                    <span className="absolute left-0 inset-y-0 flex items-center pl-3">
+                      <svg
+                        className="h-5 w-5 text-primary-500 group-hover:text-primary-400"
+                        fill="currentColor"
+                        viewBox="0 0 20 20"
+                      >
+                        <path
+                          fillRule="evenodd"
+                          d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z"
+                          clipRule="evenodd"
+                        />
+                      </svg>
+                    </span>
+                    Sign in
+                  </>
+                )}
+              </button>
+            </div>
+
+            {oidcConfig?.enabled && (
+              <div>
+                <div className="relative mb-4">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-300" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-gray-50 text-gray-500">or</span>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleOidcLogin}
+                  disabled={isRedirecting}
+                  className="w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isRedirecting ? <LoadingSpinner size="small" /> : `Sign in with ${oidcConfig.providerName}`}
+                </button>
+              </div>
+            )}
+
+            <div className="text-center">
+              <span className="text-sm text-gray-600">
+                Don't have an account?{' '}
+                <Link
+                  to={ROUTES.REGISTER}
+                  className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+                >
+                  Sign up here
+                </Link>
+              </span>
+            </div>
+          </form>
+        )}
 
         {/* Demo credentials */}
         <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { AUTH_CONFIG, ROUTES } from '../../utils/constants';
+import { getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+
+// The identity provider redirects here with ?code=...&state=... after a single sign-on login
+const OidcCallback: React.FC = () => {
+  const [errorMessage, setErrorMessage] = useState('');
+  const { loginWithOidc } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Codes are single-use, so guard against the effect running twice in StrictMode
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    const finishLogin = async () => {
+      const code = searchParams.get('code');
+      const state = searchParams.get('state');
+      const providerError = searchParams.get('error');
+
+      // Only accept the state this tab sent to the provider
+      const stored = sessionStorage.getItem(AUTH_CONFIG.oidcStateKey);
+      sessionStorage.removeItem(AUTH_CONFIG.oidcStateKey);
+      const pending: { state: string; from: string } | null = stored ? JSON.parse(stored) : null;
+
+      if (providerError) {
+        setErrorMessage(providerError === 'access_denied'
+          ? 'Sign-in was cancelled.'
+          : searchParams.get('error_description') || 'The sign-in provider reported an error.');
+        return;
+      }
+
+      if (!code || !state || !pending || pending.state !== state) {
+        setErrorMessage('This sign-in link is invalid or has already been used. Please try again.');
+        return;
+      }
+
+      try {
+        const { twoFactorRequired } = await loginWithOidc(code, state);
+        if (twoFactorRequired) {
+          // The login page shows the code step while the challenge is pending
+          navigate(ROUTES.LOGIN, { replace: true, state: { from: { pathname: pending.from } } });
+        } else {
+          navigate(pending.from || ROUTES.DASHBOARD, { replace: true });
+        }
+      } catch (error) {
+        setErrorMessage(getErrorMessage(error));
+      }
+    };
+
+    finishLogin();
+  }, [searchParams, loginWithOidc, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <h2 className="text-3xl font-extrabold text-gray-900">Signing you in</h2>
+
+        {errorMessage ? (
+          <>
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{errorMessage}</p>
+            </div>
+            <Link
+              to={ROUTES.LOGIN}
+              className="inline-block text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+            >
+              Back to sign in
+            </Link>
+          </>
+        ) : (
+          <div className="flex flex-col items-center space-y-3">
+            <LoadingSpinner size="large" />
+            <p className="text-sm text-gray-600">Finishing sign-in with your campus account...</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OidcCallback;
@@ -1,33 +1,62 @@
-import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import { useAuth } from '../../context/AuthContext';
-import { RegisterData } from '../../types';
+import { RegisterData, InvitationPreview } from '../../types';
 import { registerSchema } from '../../utils/validation';
+import { authApi } from '../../utils/api';
 import { ROUTES, APP_CONFIG } from '../../utils/constants';
+import { formatDateTime } from '../../utils/helpers';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import PasswordStrengthMeter from '../../components/auth/PasswordStrengthMeter';
 
 const Register: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [invitationError, setInvitationError] = useState(false);
   const { register: registerUser } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const passwordPolicy = usePasswordPolicy();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     watch,
+    setValue,
   } = useForm<RegisterData>({
     resolver: yupResolver(registerSchema),
+    context: { passwordPolicy },
   });
 
   const password = watch('password');
 
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    const fetchInvitation = async () => {
+      try {
+        const preview = await authApi.getInvitation(inviteToken);
+        setInvitation(preview);
+        if (preview.email) {
+          setValue('email', preview.email);
+        }
+      } catch (error) {
+        setInvitationError(true);
+      }
+    };
+
+    fetchInvitation();
+  }, [inviteToken, setValue]);
+
   const onSubmit = async (data: RegisterData) => {
     setIsLoading(true);
     try {
-      await registerUser(data);
+      await registerUser(invitation && inviteToken ? { ...data, inviteToken } : data);
       navigate(ROUTES.DASHBOARD, { replace: true });
     } catch (error) {
       // Error is handled in the auth context
@@ -63,6 +92,25 @@ const Register: React.FC = () => {
           </p>
         </div>
 
+        {invitation && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-800">
+              You've been invited to join as {invitation.role === 'admin' ? 'an administrator' : `${/^[aeiou]/.test(invitation.role) ? 'an' : 'a'} ${invitation.role}`}.
+            </p>
+            <p className="mt-1 text-xs text-blue-700">
+              This invitation expires on {formatDateTime(invitation.expiresAt)}.
+            </p>
+          </div>
+        )}
+
+        {invitationError && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">
+              This invitation link is invalid or has expired. You can still register as a student.
+            </p>
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-4">
             <div>
@@ -89,7 +137,8 @@ const Register: React.FC = () => {
                 {...register('email')}
                 type="email"
                 autoComplete="email"
-                className={`input-field ${errors.email ? 'border-red-500' : ''}`}
+                readOnly={!!invitation?.email}
+                className={`input-field ${errors.email ? 'border-red-500' : ''} ${invitation?.email ? 'bg-gray-100' : ''}`}
                 placeholder="Enter your email"
               />
               {errors.email && (
@@ -113,31 +162,7 @@ const Register: React.FC = () => {
               )}
               
               {/* Password strength indicator */}
-              {password && (
-                <div className="mt-2">
-                  <div className="text-xs text-gray-600 mb-1">Password requirements:</div>
-                  <div className="grid grid-cols-2 gap-1 text-xs">
-                    <div className={`flex items-center ${password.length >= 8 ? 'text-green-600' : 'text-gray-400'}`}>
-                      <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                      8+ characters
-                    </div>
-                    <div className={`flex items-center ${/\d/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                      One number
-                    </div>
-                    <div className={`flex items-center ${/[!@#$%^&*(),.?":{}|<>]/.test(password) ? 'text-green-600' : 'text-gray-400'}`}>
-                      <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                      Special char
-                    </div>
-                  </div>
-                </div>
-              )}
+              {password && <PasswordStrengthMeter password={password} policy={passwordPolicy} />}
             </div>
 
             <div>
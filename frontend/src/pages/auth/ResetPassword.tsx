@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import toast from 'react-hot-toast';
+import { ResetPasswordData } from '../../types';
+import { resetPasswordSchema } from '../../utils/validation';
+import { authApi } from '../../utils/api';
+import { ROUTES, SUCCESS_MESSAGES } from '../../utils/constants';
+import { getErrorMessage } from '../../utils/helpers';
+import { usePasswordPolicy } from '../../hooks/usePasswordPolicy';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+
+const ResetPassword: React.FC = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+  const passwordPolicy = usePasswordPolicy();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordData>({
+    resolver: yupResolver(resetPasswordSchema),
+    context: { passwordPolicy },
+  });
+
+  const onSubmit = async (data: ResetPasswordData) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      await authApi.resetPassword(token, data);
+      toast.success(SUCCESS_MESSAGES.PASSWORD_RESET);
+      navigate(ROUTES.LOGIN, { replace: true });
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            You will be signed out of all devices once your password is reset
+          </p>
+        </div>
+
+        {!token ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">
+              This reset link is incomplete. Please request a new one.
+            </p>
+            <Link
+              to={ROUTES.FORGOT_PASSWORD}
+              className="mt-2 inline-block text-sm font-medium text-primary-600 hover:text-primary-500"
+            >
+              Request a new link
+            </Link>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New Password
+                </label>
+                <input
+                  {...register('password')}
+                  type="password"
+                  autoComplete="new-password"
+                  className={`input-field ${errors.password ? 'border-red-500' : ''}`}
+                  placeholder="Enter your new password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                  Confirm New Password
+                </label>
+                <input
+                  {...register('confirmPassword')}
+                  type="password"
+                  autoComplete="new-password"
+                  className={`input-field ${errors.confirmPassword ? 'border-red-500' : ''}`}
+                  placeholder="Confirm your new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isLoading ? <LoadingSpinner size="small" /> : 'Reset password'}
+            </button>
+          </form>
+        )}
+
+        <div className="text-center">
+          <Link
+            to={ROUTES.LOGIN}
+            className="text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+          >
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
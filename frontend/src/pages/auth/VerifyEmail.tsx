@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../context/AuthContext';
+import { authApi } from '../../utils/api';
+import { ROUTES, SUCCESS_MESSAGES } from '../../utils/constants';
+import { getErrorMessage } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+
+const VerifyEmail: React.FC = () => {
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>('verifying');
+  const [errorMessage, setErrorMessage] = useState('');
+  const { user, updateUser, isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  // Tokens are single-use, so guard against the effect running twice in StrictMode
+  const hasRequested = useRef(false);
+
+  useEffect(() => {
+    if (hasRequested.current) return;
+    hasRequested.current = true;
+
+    const verify = async () => {
+      if (!token) {
+        setErrorMessage('This verification link is incomplete.');
+        setStatus('error');
+        return;
+      }
+
+      try {
+        await authApi.verifyEmail(token);
+        setStatus('success');
+        toast.success(SUCCESS_MESSAGES.EMAIL_VERIFIED);
+        if (user) {
+          updateUser({ ...user, emailVerified: true });
+        }
+      } catch (error) {
+        setErrorMessage(getErrorMessage(error));
+        setStatus('error');
+      }
+    };
+
+    verify();
+  }, [token, user, updateUser]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        <h2 className="text-3xl font-extrabold text-gray-900">Email verification</h2>
+
+        {status === 'verifying' && (
+          <div className="flex flex-col items-center space-y-3">
+            <LoadingSpinner size="large" />
+            <p className="text-sm text-gray-600">Confirming your email address...</p>
+          </div>
+        )}
+
+        {status === 'success' && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-800">
+              Your email address is confirmed. You can now submit course feedback.
+            </p>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800">{errorMessage}</p>
+            <p className="mt-1 text-sm text-red-700">
+              {isAuthenticated
+                ? 'Use the banner at the top of the app to request a new link.'
+                : 'Sign in to request a new link.'}
+            </p>
+          </div>
+        )}
+
+        <Link
+          to={isAuthenticated ? ROUTES.DASHBOARD : ROUTES.LOGIN}
+          className="inline-block text-sm font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
+        >
+          {isAuthenticated ? 'Go to dashboard' : 'Go to sign in'}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,19 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import toast from 'react-hot-toast';
-import { Feedback, Course, FeedbackFormData, PaginationData } from '../../types';
-import { feedbackApi, courseApi } from '../../utils/api';
+import { Feedback, FeedbackDraft, Course, FeedbackFormData, PaginationData, QueuedFeedback } from '../../types';
+import { feedbackApi, courseApi, anonymousFeedbackApi, draftApi } from '../../utils/api';
 import { feedbackSchema } from '../../utils/validation';
-import { ROUTES, RATING_CONFIG, PAGINATION_CONFIG } from '../../utils/constants';
-import { formatDateTime, formatRating } from '../../utils/helpers';
+import { ROUTES, RATING_CONFIG, PAGINATION_CONFIG, ANONYMITY_CONFIG, DRAFT_CONFIG } from '../../utils/constants';
+import { copyToClipboard, formatDateTime, formatRating, isFeedbackWindowOpen, truncateText } from '../../utils/helpers';
+import { addReceipt, findReceipt, getReceipts, removeReceipt } from '../../utils/anonymousFeedback';
+import { useAuth } from '../../context/AuthContext';
+import { useFeedbackQueue } from '../../hooks/useFeedbackQueue';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Modal from '../../components/ui/Modal';
+import ResponseThread from '../../components/feedback/ResponseThread';
 import Layout from '../../components/layout/Layout';
 
 const FeedbackList: React.FC = () => {
   const [feedbacks, setFeedbacks] = useState<Feedback[]>([]);
+  const [anonymousFeedback, setAnonymousFeedback] = useState<Feedback[]>([]);
+  const [drafts, setDrafts] = useState<FeedbackDraft[]>([]);
+  const [receiptInput, setReceiptInput] = useState('');
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
   const [pagination, setPagination] = useState<PaginationData>({
@@ -27,7 +34,9 @@ const FeedbackList: React.FC = () => {
   const [editingFeedback, setEditingFeedback] = useState<Feedback | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deletingFeedback, setDeletingFeedback] = useState<string | null>(null);
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
   const navigate = useNavigate();
+  const { user } = useAuth();
 
   const {
     register,
@@ -42,11 +51,20 @@ const FeedbackList: React.FC = () => {
 
   const selectedRating = watch('rating');
 
+  // Feedback saved on this device while offline; once sent, it shows up in the lists below
+  const { queue, sync: sendQueuedFeedback, discard: discardQueuedFeedback } = useFeedbackQueue(() => {
+    fetchFeedbacks();
+    fetchAnonymousFeedback();
+  });
+  const unsentFeedback = queue.filter(entry => entry.status !== 'synced');
+  const syncedFeedbackIds = new Set(queue.filter(entry => entry.status === 'synced').map(entry => entry.feedbackId));
+
   useEffect(() => {
     fetchFeedbacks();
     fetchCourses();
   }, [pagination.currentPage, sortBy, sortOrder]);
 
+
   const fetchFeedbacks = async () => {
     try {
       setLoading(true);
@@ -65,6 +83,104 @@ const FeedbackList: React.FC = () => {
     }
   };
 
+  // Unlinkable feedback isn't tied to the account, so it is found through the receipts on this device
+  const fetchAnonymousFeedback = useCallback(async () => {
+    if (!user) return;
+
+    const receipts = getReceipts(user._id).slice(0, ANONYMITY_CONFIG.receiptLookupLimit);
+    if (receipts.length === 0) {
+      setAnonymousFeedback([]);
+      return;
+    }
+
+    try {
+      setAnonymousFeedback(await anonymousFeedbackApi.getFeedback(receipts));
+    } catch (error) {
+      toast.error('Failed to load the anonymous feedback kept on this device');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchAnonymousFeedback();
+  }, [fetchAnonymousFeedback]);
+
+  useEffect(() => {
+    const fetchDrafts = async () => {
+      try {
+        setDrafts(await draftApi.getDrafts());
+      } catch (error) {
+        console.error('Failed to load drafts');
+      }
+    };
+
+    fetchDrafts();
+  }, []);
+
+  const draftCourseId = (draft: FeedbackDraft) => (typeof draft.course === 'string' ? draft.course : draft.course._id);
+
+  const handleDiscardDraft = async (draft: FeedbackDraft) => {
+    if (!window.confirm('Are you sure you want to discard this draft?')) {
+      return;
+    }
+
+    try {
+      await draftApi.deleteDraft(draftCourseId(draft));
+      setDrafts(prev => prev.filter(d => d._id !== draft._id));
+      toast.success('Draft discarded');
+    } catch (error) {
+      toast.error('Failed to discard draft');
+    }
+  };
+
+  const queuedCourseName = (entry: QueuedFeedback) => {
+    const course = courses.find(c => c._id === entry.data.course);
+    return course ? `${course.code} - ${course.name}` : 'Course';
+  };
+
+  const handleDiscardQueued = async (entry: QueuedFeedback) => {
+    if (!window.confirm('Are you sure you want to discard this feedback? It hasn\'t been sent.')) {
+      return;
+    }
+
+    try {
+      await discardQueuedFeedback(entry.id);
+      toast.success('Feedback discarded');
+    } catch (error) {
+      toast.error('Failed to discard feedback');
+    }
+  };
+
+  const receiptFor = (feedback: Feedback) => (user && findReceipt(user._id, feedback._id)) || '';
+
+  const updateFeedbackState = (updated: Feedback) => {
+    const replace = (prev: Feedback[]) => prev.map(f => f._id === updated._id ? updated : f);
+    setFeedbacks(replace);
+    setAnonymousFeedback(replace);
+  };
+
+  const handleAddReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const receipt = receiptInput.trim();
+    if (!user || !receipt) return;
+
+    if (!ANONYMITY_CONFIG.receiptPattern.test(receipt)) {
+      toast.error('That doesn\'t look like a feedback receipt');
+      return;
+    }
+
+    addReceipt(user._id, receipt);
+    setReceiptInput('');
+    await fetchAnonymousFeedback();
+  };
+
+  const handleCopyReceipt = async (feedback: Feedback) => {
+    if (await copyToClipboard(receiptFor(feedback))) {
+      toast.success('Receipt copied. Keep it somewhere private.');
+    } else {
+      toast.error('Failed to copy the receipt');
+    }
+  };
+
   const fetchCourses = async () => {
     try {
       const coursesData = await courseApi.getAllCourses();
@@ -87,6 +203,10 @@ const FeedbackList: React.FC = () => {
     }
   };
 
+  // Feedback can only be edited while its term's feedback window is open
+  const canEdit = (feedback: Feedback) =>
+    !!feedback.term && typeof feedback.term !== 'string' && isFeedbackWindowOpen(feedback.term);
+
   const openEditModal = (feedback: Feedback) => {
     setEditingFeedback(feedback);
     setValue('course', typeof feedback.course === 'string' ? feedback.course : feedback.course._id);
@@ -107,11 +227,13 @@ const FeedbackList: React.FC = () => {
     if (!editingFeedback) return;
 
     try {
-      const updatedFeedback = await feedbackApi.updateFeedback(editingFeedback._id, data);
-      setFeedbacks(prev => 
-        prev.map(f => f._id === editingFeedback._id ? updatedFeedback : f)
-      );
-      toast.success('Feedback updated successfully!');
+      const updatedFeedback = editingFeedback.unlinkable
+        ? await anonymousFeedbackApi.updateFeedback(receiptFor(editingFeedback), data)
+        : await feedbackApi.updateFeedback(editingFeedback._id, data);
+      updateFeedbackState(updatedFeedback);
+      toast.success(updatedFeedback.status === 'pending'
+        ? 'Feedback updated and sent for review'
+        : 'Feedback updated successfully!');
       closeEditModal();
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || 'Failed to update feedback';
@@ -119,15 +241,52 @@ const FeedbackList: React.FC = () => {
     }
   };
 
-  const handleDelete = async (feedbackId: string) => {
-    if (!window.confirm('Are you sure you want to delete this feedback?')) {
+  // Opening the replies marks them as read
+  const toggleThread = async (feedback: Feedback) => {
+    const isOpen = openThreads.has(feedback._id);
+    setOpenThreads(prev => {
+      const newSet = new Set(prev);
+      if (isOpen) {
+        newSet.delete(feedback._id);
+      } else {
+        newSet.add(feedback._id);
+      }
+      return newSet;
+    });
+
+    if (!isOpen && feedback.unreadResponses) {
+      try {
+        if (feedback.unlinkable) {
+          await anonymousFeedbackApi.markResponsesRead(receiptFor(feedback));
+        } else {
+          await feedbackApi.markResponsesRead(feedback._id);
+        }
+        updateFeedbackState({ ...feedback, unreadResponses: 0 });
+      } catch (error) {
+        console.error('Failed to mark replies as read:', error);
+      }
+    }
+  };
+
+  const handleDelete = async (feedback: Feedback) => {
+    const question = feedback.unlinkable
+      ? 'Are you sure you want to delete this feedback? Your token is used up, so you can\'t submit feedback for this course again this term.'
+      : 'Are you sure you want to delete this feedback?';
+    if (!window.confirm(question)) {
       return;
     }
 
     try {
-      setDeletingFeedback(feedbackId);
-      await feedbackApi.deleteFeedback(feedbackId);
-      setFeedbacks(prev => prev.filter(f => f._id !== feedbackId));
+      setDeletingFeedback(feedback._id);
+      if (feedback.unlinkable) {
+        const receipt = receiptFor(feedback);
+        await anonymousFeedbackApi.deleteFeedback(receipt);
+        if (user) removeReceipt(user._id, receipt);
+        setAnonymousFeedback(prev => prev.filter(f => f._id !== feedback._id));
+      } else {
+        await feedbackApi.deleteFeedback(feedback._id);
+        setFeedbacks(prev => prev.filter(f => f._id !== feedback._id));
+      }
       toast.success('Feedback deleted successfully!');
     } catch (error: any) {
       const errorMessage = error.response?.data?.message || 'Failed to delete feedback';
@@ -184,6 +343,150 @@ const FeedbackList: React.FC = () => {
     return pages;
   };
 
+  const renderFeedbackCard = (feedback: Feedback) => (
+    <div key={feedback._id} className="card">
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-medium text-gray-900">
+              {typeof feedback.course === 'string' 
+                ? feedback.course 
+                : `${feedback.course.code} - ${feedback.course.name}`}
+            </h3>
+            <div className="flex items-center space-x-2">
+              {renderStarRating(feedback.rating)}
+              <span className="text-sm text-gray-600">
+                ({formatRating(feedback.rating)})
+              </span>
+            </div>
+          </div>
+          
+          <p className="text-gray-700 mb-3">{feedback.message}</p>
+          
+          <div className="flex items-center space-x-4 text-sm text-gray-500">
+            <span>
+              Submitted {formatDateTime(feedback.createdAt)}
+            </span>
+            {feedback.term && typeof feedback.term !== 'string' && (
+              <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs">
+                {feedback.term.name}
+              </span>
+            )}
+            {feedback.unlinkable ? (
+              <span
+                className="px-2 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs"
+                title="Not linked to your account. Only the receipt on this device can change it."
+              >
+                Unlinkable
+              </span>
+            ) : feedback.isAnonymous && (
+              <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
+                Anonymous
+              </span>
+            )}
+            {feedback.status === 'pending' && (
+              <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                Waiting for review
+              </span>
+            )}
+            {feedback.status === 'rejected' && (
+              <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs">
+                Not published
+              </span>
+            )}
+            {syncedFeedbackIds.has(feedback._id) && (
+              <span
+                className="px-2 py-1 bg-teal-100 text-teal-800 rounded-full text-xs"
+                title="Saved while you were offline and sent when the connection returned"
+              >
+                Synced
+              </span>
+            )}
+            {feedback.unreadResponses ? (
+              <span className="px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs font-medium">
+                {feedback.unreadResponses} new {feedback.unreadResponses === 1 ? 'reply' : 'replies'}
+              </span>
+            ) : null}
+            {feedback.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {feedback.tags.map((tag, index) => (
+                  <span
+                    key={index}
+                    className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {feedback.status === 'rejected' && feedback.moderatorNotes && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              <span className="font-medium">Reason from the moderator:</span> {feedback.moderatorNotes}
+              {canEdit(feedback) && (
+                <p className="mt-1 text-xs">Edit your feedback to send it for review again.</p>
+              )}
+            </div>
+          )}
+
+          {feedback.responses && feedback.responses.length > 0 && (
+            <div className="mt-3">
+              <button
+                onClick={() => toggleThread(feedback)}
+                className="text-sm text-primary-600 hover:text-primary-800"
+              >
+                {openThreads.has(feedback._id) ? 'Hide replies' : `Show replies (${feedback.responses.length})`}
+              </button>
+              {openThreads.has(feedback._id) && (
+                <div className="mt-3">
+                  <ResponseThread feedbackId={feedback._id} responses={feedback.responses} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        
+        <div className="flex items-center space-x-2 ml-4">
+          {feedback.unlinkable && (
+            <button
+              onClick={() => handleCopyReceipt(feedback)}
+              title="Copy receipt, to manage this feedback from another device"
+              className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+            </button>
+          )}
+          <button
+            onClick={() => openEditModal(feedback)}
+            disabled={!canEdit(feedback)}
+            title={canEdit(feedback) ? 'Edit feedback' : 'The feedback window for this term has closed'}
+            className="text-blue-600 hover:text-blue-800 transition-colors duration-200 disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => handleDelete(feedback)}
+            disabled={deletingFeedback === feedback._id}
+            className="text-red-600 hover:text-red-800 transition-colors duration-200"
+          >
+            {deletingFeedback === feedback._id ? (
+              <LoadingSpinner size="small" />
+            ) : (
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <Layout>
       {/* Header */}
@@ -211,11 +514,118 @@ const FeedbackList: React.FC = () => {
 
       <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          {/* Drafts */}
+          {drafts.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-lg font-medium text-gray-900">Drafts</h2>
+              <p className="mt-1 mb-4 text-sm text-gray-500">
+                Feedback you started but haven't submitted yet. Drafts are deleted when the feedback window closes.
+              </p>
+              <div className="space-y-3">
+                {drafts.map((draft) => (
+                  <div key={draft._id} className="card flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="text-sm font-medium text-gray-900">
+                        {typeof draft.course === 'string' ? 'Course' : `${draft.course.code} - ${draft.course.name}`}
+                      </h3>
+                      <p className="text-xs text-gray-500">
+                        Saved {formatDateTime(draft.updatedAt)} &middot; deleted {formatDateTime(draft.expiresAt)}
+                      </p>
+                      {draft.message && (
+                        <p className="mt-1 text-sm text-gray-700 break-words">
+                          {truncateText(draft.message, DRAFT_CONFIG.previewLength)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2 shrink-0">
+                      <button
+                        onClick={() => navigate(`${ROUTES.SUBMIT_FEEDBACK}?course=${draftCourseId(draft)}`)}
+                        className="btn-primary text-sm"
+                      >
+                        Continue
+                      </button>
+                      <button
+                        onClick={() => handleDiscardDraft(draft)}
+                        className="btn-secondary text-sm"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Offline Queue */}
+          {unsentFeedback.length > 0 && (
+            <div className="mb-8">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium text-gray-900">Waiting to be sent</h2>
+                {unsentFeedback.some(entry => entry.status === 'pending') && (
+                  <button onClick={sendQueuedFeedback} className="btn-secondary text-sm">
+                    Send now
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 mb-4 text-sm text-gray-500">
+                Feedback you submitted while offline. It is kept on this device and sent as soon as you're back online.
+              </p>
+              <div className="space-y-3">
+                {unsentFeedback.map((entry) => (
+                  <div key={entry.id} className="card flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <h3 className="text-sm font-medium text-gray-900">{queuedCourseName(entry)}</h3>
+                        {entry.status === 'pending' ? (
+                          <span className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs">
+                            Pending
+                          </span>
+                        ) : (
+                          <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs">
+                            Not sent
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">Submitted {formatDateTime(entry.queuedAt)}</p>
+                      <p className="mt-1 text-sm text-gray-700 break-words">
+                        {truncateText(entry.data.message, DRAFT_CONFIG.previewLength)}
+                      </p>
+                      {entry.error && (
+                        <p className="mt-1 text-sm text-red-600">{entry.error}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleDiscardQueued(entry)}
+                      className="btn-secondary text-sm shrink-0"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Unlinkable Feedback */}
+          {anonymousFeedback.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-lg font-medium text-gray-900">Unlinkable feedback on this device</h2>
+              <p className="mt-1 mb-4 text-sm text-gray-500">
+                This feedback isn't linked to your account. It is found through the receipts saved in this browser,
+                so copy a receipt if you want to manage the feedback from somewhere else.
+              </p>
+              <div className="space-y-6">
+                {anonymousFeedback.map(renderFeedbackCard)}
+              </div>
+            </div>
+          )}
+
           {loading ? (
             <div className="flex justify-center">
               <LoadingSpinner size="large" />
             </div>
-          ) : feedbacks.length === 0 ? (
+          ) : feedbacks.length === 0 && anonymousFeedback.length === 0 && drafts.length === 0 && unsentFeedback.length === 0 ? (
             <div className="text-center py-12">
               <svg
                 className="mx-auto h-12 w-12 text-gray-400"
@@ -243,7 +653,7 @@ const FeedbackList: React.FC = () => {
                 </button>
               </div>
             </div>
-          ) : (
+          ) : feedbacks.length > 0 && (
             <>
               {/* Sort Controls */}
               <div className="mb-6 flex items-center justify-between">
@@ -271,76 +681,7 @@ const FeedbackList: React.FC = () => {
 
               {/* Feedback List */}
               <div className="space-y-6">
-                {feedbacks.map((feedback) => (
-                  <div key={feedback._id} className="card">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <div className="flex items-center justify-between mb-2">
-                          <h3 className="text-lg font-medium text-gray-900">
-                            {typeof feedback.course === 'string' 
-                              ? feedback.course 
-                              : `${feedback.course.code} - ${feedback.course.name}`}
-                          </h3>
-                          <div className="flex items-center space-x-2">
-                            {renderStarRating(feedback.rating)}
-                            <span className="text-sm text-gray-600">
-                              ({formatRating(feedback.rating)})
-                            </span>
-                          </div>
-                        </div>
-                        
-                        <p className="text-gray-700 mb-3">{feedback.message}</p>
-                        
-                        <div className="flex items-center space-x-4 text-sm text-gray-500">
-                          <span>
-                            Submitted {formatDateTime(feedback.createdAt)}
-                          </span>
-                          {feedback.isAnonymous && (
-                            <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs">
-                              Anonymous
-                            </span>
-                          )}
-                          {feedback.tags.length > 0 && (
-                            <div className="flex flex-wrap gap-1">
-                              {feedback.tags.map((tag, index) => (
-                                <span
-                                  key={index}
-                                  className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs"
-                                >
-                                  {tag}
-                                </span>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2 ml-4">
-                        <button
-                          onClick={() => openEditModal(feedback)}
-                          className="text-blue-600 hover:text-blue-800 transition-colors duration-200"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                          </svg>
-                        </button>
-                        <button
-                          onClick={() => handleDelete(feedback._id)}
-                          disabled={deletingFeedback === feedback._id}
-                          className="text-red-600 hover:text-red-800 transition-colors duration-200"
-                        >
-                          {deletingFeedback === feedback._id ? (
-                            <LoadingSpinner size="small" />
-                          ) : (
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                ))}
+                {feedbacks.map(renderFeedbackCard)}
               </div>
 
               {/* Pagination */}
@@ -365,6 +706,25 @@ const FeedbackList: React.FC = () => {
               )}
             </>
           )}
+
+          {/* Receipt From Another Device */}
+          <form onSubmit={handleAddReceipt} className="mt-8 flex flex-col sm:flex-row sm:items-center gap-3">
+            <label htmlFor="receipt" className="text-sm text-gray-700">
+              Have a receipt for unlinkable feedback from another device?
+            </label>
+            <input
+              id="receipt"
+              type="text"
+              value={receiptInput}
+              onChange={(e) => setReceiptInput(e.target.value)}
+              className="input-field sm:flex-1 font-mono text-xs"
+              placeholder="Paste your receipt..."
+              autoComplete="off"
+            />
+            <button type="submit" disabled={!receiptInput.trim()} className="btn-secondary">
+              Add
+            </button>
+          </form>
         </div>
       </div>
 
@@ -435,16 +795,22 @@ const FeedbackList: React.FC = () => {
             )}
           </div>
 
-          <div className="flex items-center">
-            <input
-              {...register('isAnonymous')}
-              type="checkbox"
-              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-            />
-            <label className="ml-2 block text-sm text-gray-700">
-              Submit this feedback anonymously
-            </label>
-          </div>
+          {editingFeedback?.unlinkable ? (
+            <p className="text-xs text-gray-500">
+              This feedback is unlinkable and stays anonymous.
+            </p>
+          ) : (
+            <div className="flex items-center">
+              <input
+                {...register('isAnonymous')}
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 block text-sm text-gray-700">
+                Submit this feedback anonymously
+              </label>
+            </div>
+          )}
 
           <div className="flex justify-end space-x-3 pt-4">
             <button
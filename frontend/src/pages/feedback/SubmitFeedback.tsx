@@ -1,42 +1,74 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import toast from 'react-hot-toast';
-import { Course, FeedbackFormData } from '../../types';
+import { Course, FeedbackDraft, FeedbackFormData, SurveyQuestion, SurveyTemplate } from '../../types';
 import { feedbackSchema } from '../../utils/validation';
-import { courseApi, feedbackApi } from '../../utils/api';
-import { ROUTES, RATING_CONFIG } from '../../utils/constants';
+import { courseApi, draftApi, feedbackApi } from '../../utils/api';
+import { ROUTES, RATING_CONFIG, DRAFT_CONFIG } from '../../utils/constants';
+import { LIKERT_SCALE, formatCountdown, formatDateTime, formatTime, getErrorMessage, toSurveyAnswerValue } from '../../utils/helpers';
+import { submitUnlinkableFeedback } from '../../utils/anonymousFeedback';
+import { isNetworkError, newIdempotencyKey, queueFeedback } from '../../utils/offlineQueue';
+import { useCurrentTerm } from '../../hooks/useCurrentTerm';
+import { useAuth } from '../../context/AuthContext';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Layout from '../../components/layout/Layout';
 
+const draftCourseId = (draft: FeedbackDraft) => (typeof draft.course === 'string' ? draft.course : draft.course._id);
+
 const SubmitFeedback: React.FC = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const [surveyTemplate, setSurveyTemplate] = useState<SurveyTemplate | null>(null);
+  const [surveyLoading, setSurveyLoading] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState(false);
+  // Drafts are looked up when a course is picked, not rendered, so they don't need to be state
+  const drafts = useRef<FeedbackDraft[]>([]);
+  const lastSavedDraft = useRef('');
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
+  const { term, nextTerm, loading: termLoading, now } = useCurrentTerm();
+  const { user } = useAuth();
 
   const {
     register,
     handleSubmit,
     watch,
+    getValues,
     setValue,
+    setError,
     formState: { errors },
   } = useForm<FeedbackFormData>({
     resolver: yupResolver(feedbackSchema) as any,
+    context: { surveyTemplate },
     defaultValues: {
       isAnonymous: false,
+      unlinkable: false,
       tags: [],
+      answers: {},
     },
   });
 
   const selectedRating = watch('rating');
+  const selectedCourseId = watch('course');
+  const isAnonymous = watch('isAnonymous');
+  const unlinkable = watch('unlinkable');
+  const draftFields = watch(['rating', 'message', 'isAnonymous', 'tags', 'answers']);
+  const draftKey = selectedCourseId ? `${selectedCourseId}:${JSON.stringify(draftFields)}` : '';
+  const keepsDraft = Boolean(term) && !(isAnonymous && unlinkable);
 
   useEffect(() => {
     const fetchCourses = async () => {
       try {
-        const coursesData = await courseApi.getAllCourses({ active: true });
+        // The form still works without drafts, so failing to load them isn't an error
+        const [coursesData, draftsData] = await Promise.all([
+          courseApi.getAllCourses({ active: true }),
+          draftApi.getDrafts().catch((): FeedbackDraft[] => []),
+        ]);
+        drafts.current = draftsData;
         setCourses(coursesData);
         
         // Pre-select course from URL params if provided
@@ -54,15 +86,128 @@ const SubmitFeedback: React.FC = () => {
     fetchCourses();
   }, [searchParams, setValue]);
 
+  // Each course can ask its own survey questions on top of the rating and comments
+  useEffect(() => {
+    const draft = drafts.current.find(saved => draftCourseId(saved) === selectedCourseId);
+    const answers: FeedbackFormData['answers'] = {};
+    draft?.answers.forEach(answer => {
+      answers[answer.question] = String(answer.value);
+    });
+    setValue('answers', answers);
+    if (draft) {
+      if (draft.rating) setValue('rating', draft.rating);
+      setValue('message', draft.message);
+      setValue('isAnonymous', draft.isAnonymous);
+      setValue('tags', draft.tags);
+      toast.success('Restored your unsubmitted feedback');
+    }
+    lastSavedDraft.current = '';
+    setDraftSavedAt(draft?.updatedAt || null);
+    setDraftError(false);
+    setSurveyTemplate(null);
+    if (!selectedCourseId) return;
+
+    let cancelled = false;
+    const fetchSurvey = async () => {
+      setSurveyLoading(true);
+      try {
+        const template = await courseApi.getCourseSurvey(selectedCourseId);
+        if (!cancelled) setSurveyTemplate(template);
+      } catch (error) {
+        if (!cancelled) toast.error('Failed to load the course survey');
+      } finally {
+        if (!cancelled) setSurveyLoading(false);
+      }
+    };
+
+    fetchSurvey();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCourseId, setValue]);
+
+  // Save what has been typed once the student pauses, so an expired session doesn't lose it
+  useEffect(() => {
+    if (!draftKey || !keepsDraft || surveyLoading || draftKey === lastSavedDraft.current) return;
+
+    const values = getValues();
+    const hasDraft = drafts.current.some(saved => draftCourseId(saved) === values.course);
+    const hasContent = Boolean(values.rating || values.message?.trim() || values.tags?.length)
+      || Object.values(values.answers || {}).some(value => value !== '');
+    if (!hasDraft && !hasContent) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const draft = await draftApi.saveDraft(values.course, getValues());
+        drafts.current = [...drafts.current.filter(saved => draftCourseId(saved) !== values.course), draft];
+        lastSavedDraft.current = draftKey;
+        setDraftSavedAt(draft.updatedAt);
+        setDraftError(false);
+      } catch (error) {
+        setDraftError(true);
+      }
+    }, DRAFT_CONFIG.autosaveDelayMs);
+
+    return () => clearTimeout(timer);
+  }, [draftKey, keepsDraft, surveyLoading, getValues]);
+
+  // Unlinkable feedback must not leave a copy with the account
+  useEffect(() => {
+    if (!selectedCourseId || !(isAnonymous && unlinkable)) return;
+    if (!drafts.current.some(saved => draftCourseId(saved) === selectedCourseId)) return;
+
+    drafts.current = drafts.current.filter(saved => draftCourseId(saved) !== selectedCourseId);
+    lastSavedDraft.current = '';
+    setDraftSavedAt(null);
+    draftApi.deleteDraft(selectedCourseId).catch(() => setDraftError(true));
+  }, [selectedCourseId, isAnonymous, unlinkable]);
+
   const onSubmit = async (data: FeedbackFormData) => {
     setSubmitting(true);
     try {
-      await feedbackApi.submitFeedback(data);
-      toast.success('Feedback submitted successfully!');
-      navigate(ROUTES.MY_FEEDBACK);
+      const answers: FeedbackFormData['answers'] = {};
+      surveyTemplate?.questions.forEach(question => {
+        const value = data.answers?.[question._id];
+        if (value !== undefined && value !== '') {
+          answers[question._id] = toSurveyAnswerValue(question, value);
+        }
+      });
+
+      const submission = { ...data, answers: surveyTemplate ? answers : undefined };
+      const idempotencyKey = newIdempotencyKey();
+      const queueSubmission = async (userId: string) => {
+        await queueFeedback(userId, submission, idempotencyKey);
+        toast.success('You\'re offline. Your feedback is saved and will be sent when you\'re back online.');
+        navigate(ROUTES.MY_FEEDBACK);
+      };
+
+      if (!navigator.onLine && user) {
+        await queueSubmission(user._id);
+        return;
+      }
+
+      try {
+        const feedback = data.isAnonymous && data.unlinkable && user
+          ? await submitUnlinkableFeedback(user._id, submission)
+          : await feedbackApi.submitFeedback(submission, idempotencyKey);
+        toast.success(feedback.status === 'pending'
+          ? 'Feedback submitted and waiting for review'
+          : 'Feedback submitted successfully!');
+        navigate(ROUTES.MY_FEEDBACK);
+      } catch (error) {
+        // The connection dropped on the way: keep it to send again with the same key
+        if (!isNetworkError(error) || !user) throw error;
+        await queueSubmission(user._id);
+      }
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || 'Failed to submit feedback';
-      toast.error(errorMessage);
+      // Show the server's per-question errors next to the questions
+      const serverErrors: Array<{ path?: string; msg: string }> = error.response?.data?.errors || [];
+      serverErrors
+        .filter(serverError => serverError.path?.startsWith('answers.'))
+        .forEach(serverError => {
+          setError(serverError.path as `answers.${string}`, { type: 'server', message: serverError.msg });
+        });
+      toast.error(getErrorMessage(error) || 'Failed to submit feedback');
     } finally {
       setSubmitting(false);
     }
@@ -100,7 +245,86 @@ const SubmitFeedback: React.FC = () => {
     );
   };
 
-  if (loading) {
+  const renderQuestionInput = (question: SurveyQuestion) => {
+    const fieldName = `answers.${question._id}` as const;
+
+    switch (question.type) {
+      case 'likert':
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            {LIKERT_SCALE.map((value) => (
+              <label key={value} className="cursor-pointer">
+                <input {...register(fieldName)} type="radio" value={String(value)} className="sr-only peer" />
+                <span
+                  className="inline-flex w-10 h-10 items-center justify-center rounded-full border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-100 peer-checked:bg-primary-600 peer-checked:border-primary-600 peer-checked:text-white"
+                  title={RATING_CONFIG.labels[value as keyof typeof RATING_CONFIG.labels]}
+                >
+                  {value}
+                </span>
+              </label>
+            ))}
+            <span className="ml-2 text-xs text-gray-500">1 = {RATING_CONFIG.labels[1]}, 5 = {RATING_CONFIG.labels[5]}</span>
+          </div>
+        );
+      case 'multiple-choice':
+        return (
+          <div className="space-y-2">
+            {(question.options || []).map((option) => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  {...register(fieldName)}
+                  type="radio"
+                  value={option}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 mr-2"
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      case 'numeric':
+        return (
+          <input
+            {...register(fieldName)}
+            type="number"
+            step="any"
+            min={question.min}
+            max={question.max}
+            className="input-field w-40"
+            placeholder={`${question.min} - ${question.max}`}
+          />
+        );
+      case 'yes-no':
+        return (
+          <div className="flex space-x-6">
+            {['yes', 'no'].map((value) => (
+              <label key={value} className="flex items-center text-sm text-gray-700">
+                <input
+                  {...register(fieldName)}
+                  type="radio"
+                  value={value}
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 mr-2"
+                />
+                {value === 'yes' ? 'Yes' : 'No'}
+              </label>
+            ))}
+          </div>
+        );
+      case 'text':
+        return (
+          <textarea
+            {...register(fieldName)}
+            rows={3}
+            maxLength={question.maxLength || 1000}
+            className="input-field resize-none"
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (loading || termLoading) {
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-64">
@@ -134,6 +358,27 @@ const SubmitFeedback: React.FC = () => {
 
       <div className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          {/* Feedback Window */}
+          {term ? (
+            <div className="mb-6 border rounded-lg p-4 bg-blue-50 border-blue-200 text-blue-800 flex justify-between items-center">
+              <p className="text-sm">
+                Feedback for <span className="font-medium">{term.name}</span> closes {formatDateTime(term.feedbackClosesAt)}
+              </p>
+              <p className="text-sm font-semibold tabular-nums" aria-live="polite">
+                {formatCountdown(term.feedbackClosesAt, now)} left
+              </p>
+            </div>
+          ) : (
+            <div className="mb-6 border rounded-lg p-4 bg-gray-50 border-gray-200 text-gray-700">
+              <p className="text-sm font-medium">Feedback is closed right now</p>
+              {nextTerm && (
+                <p className="text-xs">
+                  Feedback for {nextTerm.name} opens {formatDateTime(nextTerm.feedbackOpensAt)}
+                </p>
+              )}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit(onSubmit)} className="card">
             <div className="space-y-6">
               {/* Course Selection */}
@@ -149,7 +394,7 @@ const SubmitFeedback: React.FC = () => {
                   {courses.map((course) => (
                     <option key={course._id} value={course._id}>
                       {course.code} - {course.name}
-                      {course.instructor && ` (${course.instructor})`}
+                      {course.instructor && ` (${course.instructor.name})`}
                     </option>
                   ))}
                 </select>
@@ -187,6 +432,33 @@ const SubmitFeedback: React.FC = () => {
                 )}
               </div>
 
+              {/* Survey Questions */}
+              {surveyLoading ? (
+                <div className="flex justify-center py-4">
+                  <LoadingSpinner size="small" />
+                </div>
+              ) : surveyTemplate && (
+                <div className="border-t border-gray-200 pt-6 space-y-6">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{surveyTemplate.name}</h3>
+                    {surveyTemplate.description && (
+                      <p className="mt-1 text-sm text-gray-600">{surveyTemplate.description}</p>
+                    )}
+                  </div>
+                  {surveyTemplate.questions.map((question, index) => (
+                    <div key={question._id}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {index + 1}. {question.text} {question.required ? '*' : <span className="text-gray-400">(optional)</span>}
+                      </label>
+                      {renderQuestionInput(question)}
+                      {errors.answers?.[question._id] && (
+                        <p className="mt-1 text-sm text-red-600">{errors.answers[question._id]?.message}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Anonymous Option */}
               <div className="flex items-center">
                 <input
@@ -198,6 +470,27 @@ const SubmitFeedback: React.FC = () => {
                   Submit this feedback anonymously
                 </label>
               </div>
+              {isAnonymous && (
+                <div className="ml-6 -mt-3">
+                  <div className="flex items-center">
+                    <input
+                      {...register('unlinkable')}
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-700">
+                      Make it unlinkable, so not even administrators can tell it came from my account
+                    </label>
+                  </div>
+                  {unlinkable && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Your feedback is sent with a one-time token instead of your account. A receipt kept in this
+                      browser is the only way to edit or delete it later, and you can't switch this course's feedback
+                      back to named once you have a token.
+                    </p>
+                  )}
+                </div>
+              )}
 
               {/* Tags (Optional) */}
               <div>
@@ -229,7 +522,16 @@ const SubmitFeedback: React.FC = () => {
               </div>
 
               {/* Submit Button */}
-              <div className="flex justify-end space-x-3 pt-4">
+              <div className="flex justify-end items-center space-x-3 pt-4">
+                {selectedCourseId && term && (
+                  <p className="mr-auto text-xs text-gray-500" aria-live="polite">
+                    {!keepsDraft
+                      ? 'Unlinkable feedback is not saved as a draft'
+                      : draftError
+                        ? "Couldn't save your draft"
+                        : draftSavedAt && `Draft saved ${formatTime(draftSavedAt)}`}
+                  </p>
+                )}
                 <button
                   type="button"
                   onClick={() => navigate(ROUTES.DASHBOARD)}
@@ -239,8 +541,8 @@ const SubmitFeedback: React.FC = () => {
                 </button>
                 <button
                   type="submit"
-                  disabled={submitting}
-                  className="btn-primary flex items-center"
+                  disabled={submitting || !term}
+                  className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {submitting ? (
                     <>
@@ -273,8 +575,8 @@ const SubmitFeedback: React.FC = () => {
                     <li>Be honest and constructive in your feedback</li>
                     <li>Focus on specific aspects of the course</li>
                     <li>Provide suggestions for improvement when possible</li>
-                    <li>You can only submit one feedback per course</li>
-                    <li>You can edit or delete your feedback later</li>
+                    <li>You can only submit one feedback per course each term</li>
+                    <li>You can edit your feedback until the term's feedback window closes</li>
                   </ul>
                 </div>
               </div>
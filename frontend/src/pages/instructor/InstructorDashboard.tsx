@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { FeedbackResponse, InstructorCourse, InstructorFeedback, PaginationData, StatisticsBasis } from '../../types';
+import { instructorApi } from '../../utils/api';
+import { useAuth } from '../../context/AuthContext';
+import { formatDate, formatRating, getRatingColor, getRatingText } from '../../utils/helpers';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import QuestionStatistics from '../../components/survey/QuestionStatistics';
+import ResponseThread from '../../components/feedback/ResponseThread';
+import Layout from '../../components/layout/Layout';
+
+interface CourseComments {
+  feedback: InstructorFeedback[];
+  pagination: PaginationData;
+}
+
+const COMMENTS_PAGE_SIZE = 10;
+
+const InstructorDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<InstructorCourse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedCourse, setExpandedCourse] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, CourseComments>>({});
+  const [loadingComments, setLoadingComments] = useState(false);
+  const [basis, setBasis] = useState<StatisticsBasis>('current');
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchCourses(basis);
+  }, [basis]);
+
+  const fetchCourses = async (statisticsBasis: StatisticsBasis) => {
+    try {
+      setCourses(await instructorApi.getCourses(statisticsBasis));
+    } catch (error) {
+      toast.error('Failed to load your courses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchComments = async (courseId: string, page: number) => {
+    setLoadingComments(true);
+    try {
+      const response = await instructorApi.getCourseFeedback(courseId, { page, limit: COMMENTS_PAGE_SIZE });
+      setComments(prev => ({
+        ...prev,
+        [courseId]: {
+          feedback: page === 1
+            ? response.feedback
+            : [...(prev[courseId]?.feedback || []), ...response.feedback],
+          pagination: response.pagination,
+        },
+      }));
+    } catch (error) {
+      toast.error('Failed to load feedback');
+    } finally {
+      setLoadingComments(false);
+    }
+  };
+
+  const toggleComments = (courseId: string) => {
+    if (expandedCourse === courseId) {
+      setExpandedCourse(null);
+      return;
+    }
+
+    setExpandedCourse(courseId);
+    if (!comments[courseId]) {
+      fetchComments(courseId, 1);
+    }
+  };
+
+  const toggleThread = (feedbackId: string) => {
+    setOpenThreads(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(feedbackId)) {
+        newSet.delete(feedbackId);
+      } else {
+        newSet.add(feedbackId);
+      }
+      return newSet;
+    });
+  };
+
+  const addResponse = (courseId: string, feedbackId: string, response: FeedbackResponse) => {
+    setComments(prev => ({
+      ...prev,
+      [courseId]: {
+        ...prev[courseId],
+        feedback: prev[courseId].feedback.map(entry =>
+          entry._id === feedbackId
+            ? { ...entry, responses: [...(entry.responses || []), response] }
+            : entry
+        ),
+      },
+    }));
+  };
+
+  const totalFeedback = courses.reduce((sum, course) => sum + course.statistics.totalFeedback, 0);
+
+  // Courses with too few responses have no average, so they are left out of the overall one
+  const ratedFeedback = courses.reduce(
+    (sum, course) => sum + (course.statistics.averageRating === null ? 0 : course.statistics.totalFeedback),
+    0
+  );
+  const overallAverage = ratedFeedback > 0
+    ? courses.reduce(
+        (sum, course) => sum + (course.statistics.averageRating || 0) * course.statistics.totalFeedback,
+        0
+      ) / ratedFeedback
+    : 0;
+
+  const renderRatingDistribution = (course: InstructorCourse) => {
+    const { ratingDistribution, totalFeedback: courseTotal, suppressed, minResponses } = course.statistics;
+
+    if (suppressed || !ratingDistribution) {
+      return (
+        <p className="text-sm text-gray-500">
+          Ratings and comments are shown once {minResponses} students have responded, so no one's answers can be
+          singled out.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {[5, 4, 3, 2, 1].map((rating) => {
+          const count = ratingDistribution[rating] || 0;
+          const percentage = courseTotal > 0 ? (count / courseTotal) * 100 : 0;
+
+          return (
+            <div key={rating} className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-700 w-6">{rating}★</span>
+              <div className="flex-1">
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-yellow-400 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+              <span className="text-sm text-gray-600 w-8 text-right">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-64">
+          <LoadingSpinner size="large" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      {/* Header */}
+      <div className="bg-white shadow mb-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Welcome back, {user?.name}!</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Feedback on the courses you teach. Student names are never shown here.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="statistics-basis" className="block text-xs font-medium text-gray-600 mb-1">
+                Count ratings
+              </label>
+              <select
+                id="statistics-basis"
+                value={basis}
+                onChange={(e) => setBasis(e.target.value as StatisticsBasis)}
+                className="input-field md:w-56"
+              >
+                <option value="current">As they are now</option>
+                <option value="original">As first submitted</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          {/* Quick Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="card">
+              <p className="text-sm font-medium text-gray-600">My Courses</p>
+              <p className="text-2xl font-semibold text-gray-900">{courses.length}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm font-medium text-gray-600">Feedback Received</p>
+              <p className="text-2xl font-semibold text-gray-900">{totalFeedback}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm font-medium text-gray-600">Average Rating</p>
+              <p className={`text-2xl font-semibold ${ratedFeedback > 0 ? getRatingColor(overallAverage) : 'text-gray-900'}`}>
+                {ratedFeedback > 0 ? formatRating(overallAverage) : '—'}
+              </p>
+            </div>
+          </div>
+
+          {courses.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No courses assigned</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Courses appear here once an administrator assigns you as their instructor.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {courses.map((course) => {
+                const courseComments = comments[course._id];
+                const isExpanded = expandedCourse === course._id;
+
+                return (
+                  <div key={course._id} className="card">
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-6">
+                      <div className="md:w-1/3">
+                        <div className="flex items-center space-x-2">
+                          <h3 className="text-lg font-medium text-gray-900">{course.name}</h3>
+                          {!course.isActive && (
+                            <span className="px-2 py-0.5 bg-gray-100 text-gray-800 rounded-full text-xs">
+                              Inactive
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">{course.code}</p>
+                        {course.department && (
+                          <p className="text-sm text-gray-500 mt-1">{course.department}</p>
+                        )}
+                        <div className="mt-4">
+                          {course.statistics.averageRating === null ? (
+                            <p className="text-sm text-gray-600">{course.statistics.totalFeedback} responses</p>
+                          ) : course.statistics.totalFeedback > 0 ? (
+                            <>
+                              <p className={`text-3xl font-semibold ${getRatingColor(course.statistics.averageRating)}`}>
+                                {formatRating(course.statistics.averageRating)}
+                              </p>
+                              <p className="text-sm text-gray-600">
+                                {getRatingText(course.statistics.averageRating)} · {course.statistics.totalFeedback} responses
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-sm text-gray-500">No feedback yet</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="md:flex-1">
+                        {renderRatingDistribution(course)}
+                        {course.statistics.totalFeedback > 0 && !course.statistics.suppressed && (
+                          <div className="mt-4 text-right">
+                            <button
+                              onClick={() => toggleComments(course._id)}
+                              className="text-sm font-medium text-primary-600 hover:text-primary-800"
+                            >
+                              {isExpanded ? 'Hide comments' : 'View comments'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
+                    {course.statistics.questions && course.statistics.totalFeedback > 0 && (
+                      <div className="mt-6 border-t border-gray-200 pt-4">
+                        <h3 className="text-sm font-medium text-gray-900 mb-3">
+                          {course.statistics.template?.name || 'Survey questions'}
+                        </h3>
+                        <QuestionStatistics questions={course.statistics.questions} />
+                      </div>
+                    )}
+
+                    {isExpanded && (
+                      <div className="mt-6 border-t border-gray-200 pt-4">
+                        {!courseComments && loadingComments ? (
+                          <div className="flex justify-center py-6">
+                            <LoadingSpinner size="medium" />
+                          </div>
+                        ) : (
+                          <ul className="space-y-4">
+                            {courseComments?.feedback.map((entry) => (
+                              <li key={entry._id} className="p-4 bg-gray-50 rounded-lg">
+                                <div className="flex justify-between items-center mb-2">
+                                  <span className={`text-sm font-medium ${getRatingColor(entry.rating)}`}>
+                                    {entry.rating}/5
+                                  </span>
+                                  <span className="text-xs text-gray-500">{formatDate(entry.createdAt)}</span>
+                                </div>
+                                <p className="text-sm text-gray-700">{entry.message}</p>
+                                {entry.answers?.map((answer) => {
+                                  const question = course.statistics.questions?.find(
+                                    (item) => item.question === answer.question && item.type === 'text'
+                                  );
+                                  return question ? (
+                                    <p key={answer.question} className="mt-2 text-sm text-gray-700">
+                                      <span className="font-medium">{question.text}</span> {String(answer.value)}
+                                    </p>
+                                  ) : null;
+                                })}
+                                {entry.tags.length > 0 && (
+                                  <div className="mt-2 flex flex-wrap gap-1">
+                                    {entry.tags.map((tag) => (
+                                      <span key={tag} className="px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs">
+                                        {tag}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                                <div className="mt-3">
+                                  <button
+                                    onClick={() => toggleThread(entry._id)}
+                                    className="text-sm text-primary-600 hover:text-primary-800"
+                                  >
+                                    {openThreads.has(entry._id)
+                                      ? 'Hide replies'
+                                      : entry.responses && entry.responses.length > 0
+                                      ? `Replies (${entry.responses.length})`
+                                      : 'Reply'}
+                                  </button>
+                                  {openThreads.has(entry._id) && (
+                                    <div className="mt-3">
+                                      <ResponseThread
+                                        feedbackId={entry._id}
+                                        responses={entry.responses || []}
+                                        canReply
+                                        onResponded={(response) => addResponse(course._id, entry._id, response)}
+                                      />
+                                    </div>
+                                  )}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {courseComments &&
+                          courseComments.pagination.currentPage < courseComments.pagination.totalPages && (
+                            <div className="mt-4 text-center">
+                              <button
+                                onClick={() => fetchComments(course._id, courseComments.pagination.currentPage + 1)}
+                                disabled={loadingComments}
+                                className="btn-secondary text-sm"
+                              >
+                                {loadingComments ? <LoadingSpinner size="small" /> : 'Load more'}
+                              </button>
+                            </div>
+                          )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default InstructorDashboard;
@@ -0,0 +1,11 @@
+// Registers public/service-worker.js in production builds, so the app opens offline after the first
+// visit. It isn't registered in development, where cached files would hide changes.
+export const register = (): void => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+};
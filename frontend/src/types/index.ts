@@ -1,29 +1,74 @@
+// Permission types (must match backend/config/permissions.js)
+export type Permission =
+  | 'feedback:submit'
+  | 'feedback:read'
+  | 'feedback:export'
+  | 'feedback:moderate'
+  | 'feedback:history'
+  | 'feedback:respond'
+  | 'screening:manage'
+  | 'dashboard:view'
+  | 'statistics:exact'
+  | 'students:read'
+  | 'students:block'
+  | 'students:unlock'
+  | 'students:delete'
+  | 'students:impersonate'
+  | 'courses:write'
+  | 'courses:teach'
+  | 'invitations:manage'
+  | 'surveys:manage'
+  | 'terms:manage'
+  | 'audit:read';
+
+export interface RoleDefinition {
+  name: string;
+  permissions: Permission[];
+}
+
 // User types
 export interface User {
   _id: string;
   name: string;
   email: string;
-  role: 'student' | 'admin';
+  role: string; // 'student', 'admin' or a role configured on the server
+  permissions: Permission[];
   phoneNumber?: string;
   dateOfBirth?: string;
   address?: string;
   profilePicture?: string | null;
   isBlocked: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorRequired?: boolean;
+  passwordChangedAt?: string | null;
+  passwordExpired?: boolean; // older than the policy's maximum age; changes are blocked until it is changed
   lastLogin?: string;
+  failedLoginAttempts?: number;
+  lockUntil?: string | null;
+  isLocked?: boolean;
+  oidcSubject?: string; // set when the account is linked to single sign-on
   createdAt: string;
   updatedAt: string;
   age?: number;
 }
 
 // Course types
+export interface CourseInstructor {
+  _id: string;
+  name: string;
+  email?: string;
+}
+
 export interface Course {
   _id: string;
   name: string;
   code: string;
   description?: string;
-  instructor?: string;
+  instructor?: CourseInstructor | null;
   department?: string;
   credits?: number;
+  surveyTemplate?: string | null; // survey template ID
   isActive: boolean;
   createdBy: string | User;
   createdAt: string;
@@ -33,27 +78,273 @@ export interface Course {
   statistics?: CourseStatistics;
 }
 
+// Whether statistics count feedback as it is now or as first submitted
+export type StatisticsBasis = 'current' | 'original';
+
 export interface CourseStatistics {
-  averageRating: number;
+  basis?: StatisticsBasis;
+  averageRating: number | null; // null when there are too few responses to show it
   totalFeedback: number;
-  ratingDistribution: { [key: number]: number };
+  ratingDistribution: { [key: number]: number } | null;
+  suppressed?: boolean; // fewer than minResponses, so only the count is shown
+  minResponses?: number; // set when the viewer can't see exact statistics on small courses
+  template?: Pick<SurveyTemplate, '_id' | 'name'>; // present when the course uses a survey template
+  questions?: QuestionStatistics[];
+}
+
+// Survey template types
+export type SurveyQuestionType = 'likert' | 'multiple-choice' | 'numeric' | 'text' | 'yes-no';
+
+export interface SurveyQuestion {
+  _id: string;
+  text: string;
+  type: SurveyQuestionType;
+  required: boolean;
+  options?: string[]; // multiple-choice
+  min?: number; // numeric
+  max?: number; // numeric
+  maxLength?: number; // text
+}
+
+export interface SurveyTemplate {
+  _id: string;
+  name: string;
+  description?: string;
+  questions: SurveyQuestion[];
+  createdBy?: Pick<User, '_id' | 'name' | 'email'> | null;
+  courseCount?: number;
+  responseCount?: number; // questions can't be changed once this is above zero
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type SurveyAnswerValue = string | number | boolean;
+
+export interface FeedbackAnswer {
+  question: string;
+  value: SurveyAnswerValue;
+}
+
+// Aggregates of one question's answers; which fields are set depends on the question type
+export interface QuestionStatistics {
+  question: string;
+  text: string;
+  type: SurveyQuestionType;
+  responses: number;
+  suppressed?: boolean; // too few answers to show aggregates
+  average?: number; // likert, numeric
+  distribution?: { [key: number]: number }; // likert
+  min?: number | null; // numeric
+  max?: number | null; // numeric
+  options?: Array<{ option: string; count: number }>; // multiple-choice
+  yes?: number; // yes-no
+  no?: number; // yes-no
+}
+
+// Instructor types (feedback without any student identity)
+export interface InstructorCourse extends Course {
+  statistics: CourseStatistics;
+}
+
+export interface InstructorFeedback {
+  _id: string;
+  rating: number;
+  message: string;
+  tags: string[];
+  template?: string | null;
+  answers?: FeedbackAnswer[];
+  responses?: FeedbackResponse[];
+  createdAt: string;
+}
+
+export interface InstructorFeedbackPaginatedResponse {
+  success: boolean;
+  feedback: InstructorFeedback[];
+  suppressed?: boolean; // comments are hidden until the course has minResponses
+  minResponses?: number;
+  pagination: PaginationData;
+}
+
+// Academic term types
+export interface Term {
+  _id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  feedbackOpensAt: string;
+  feedbackClosesAt: string;
+  isFeedbackOpen: boolean;
+  feedbackCount?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type TermSummary = Pick<Term, '_id' | 'name' | 'feedbackOpensAt' | 'feedbackClosesAt'>;
+
+export interface CurrentTermResponse {
+  term: Term | null; // the term open for feedback now
+  nextTerm: Term | null; // the next term whose feedback window hasn't opened yet
+  serverTime: string;
 }
 
 // Feedback types
 export interface Feedback {
   _id: string;
-  student: string | User;
+  student: string | User | null; // null once the author's account is deleted
   course: string | Course;
+  term?: string | TermSummary | null; // null for feedback from before terms existed
   rating: number;
   message: string;
+  template?: string | null; // survey template the answers belong to
+  answers?: FeedbackAnswer[];
   isAnonymous: boolean;
+  unlinkable?: boolean; // submitted with a blind token, so no account is stored with it
   tags: string[];
-  status: 'pending' | 'approved' | 'rejected';
-  moderatorNotes?: string;
+  status: FeedbackStatus;
+  moderatorNotes?: string; // the reason given to the student when feedback is rejected
+  moderatedAt?: string | null;
+  screeningScore?: number;
+  screeningFlags?: ScreeningFindingType[]; // what automatic screening found in the text
+  version?: number; // 1 until the student edits it
+  responses?: FeedbackResponse[]; // students only receive public replies
+  unreadResponses?: number; // public replies the student hasn't read yet
   createdAt: string;
   updatedAt: string;
 }
 
+export type FeedbackStatus = 'pending' | 'approved' | 'rejected';
+
+// Unlinkable anonymous feedback
+export interface AnonymousSigningKey {
+  id: string;
+  modulus: string; // hex
+  exponent: string; // hex
+}
+
+export interface AnonymousKeyResponse {
+  key: AnonymousSigningKey;
+  term: Pick<Term, '_id' | 'name'>;
+  tokenIssued: boolean; // this student already received their token for the course
+}
+
+export interface AnonymousToken {
+  course: string;
+  keyId: string;
+  token: string;
+  signature: string;
+}
+
+export interface AnonymousSubmission {
+  feedback: Feedback;
+  receipt: string; // "<feedback id>.<secret>", the only way back to the feedback
+}
+
+// Feedback a student started but has not submitted, saved on the server as they type
+export interface FeedbackDraft {
+  _id: string;
+  course: string | Pick<Course, '_id' | 'name' | 'code'>;
+  term: string | TermSummary;
+  rating: number | null;
+  message: string;
+  answers: FeedbackAnswer[];
+  isAnonymous: boolean;
+  tags: string[];
+  expiresAt: string; // when the feedback window closes and the draft is deleted
+  updatedAt: string;
+}
+
+// Feedback submitted without a connection, kept in IndexedDB on this device until it can be sent
+export type QueuedFeedbackStatus = 'pending' | 'failed' | 'synced';
+
+export interface QueuedFeedback {
+  id: string; // also the Idempotency-Key, so a replay can't submit the feedback twice
+  userId: string;
+  data: FeedbackFormData;
+  status: QueuedFeedbackStatus;
+  queuedAt: string;
+  error?: string; // why the server turned it down
+  feedbackId?: string;
+  syncedAt?: string;
+}
+
+// Replies to feedback from an admin or the course's instructor
+export type ResponseVisibility = 'public' | 'private'; // private replies are staff-only notes
+
+export interface FeedbackResponse {
+  _id: string;
+  author: { _id: string; name: string } | null;
+  authorRole: 'admin' | 'instructor';
+  message: string;
+  visibility: ResponseVisibility;
+  createdAt: string;
+}
+
+export interface FeedbackResponseFormData {
+  message: string;
+  visibility: ResponseVisibility;
+}
+
+// One stored version of a feedback entry; version 1 is what was first submitted
+export interface FeedbackRevision {
+  _id: string;
+  feedback: string;
+  version: number;
+  rating: number;
+  message: string;
+  answers: FeedbackAnswer[];
+  isAnonymous: boolean;
+  tags: string[];
+  createdAt: string;
+}
+
+// A run of words that is unchanged, added or removed between two versions of a text
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Content screening types
+export type ScreeningCategory = 'profanity' | 'insult';
+
+export type ScreeningFindingType = ScreeningCategory | 'email' | 'phone' | 'roll-number';
+
+export interface ScreeningWord {
+  _id: string;
+  word: string;
+  category: ScreeningCategory;
+  createdBy?: { _id: string; name: string } | null;
+  createdAt: string;
+}
+
+export interface ScreeningSettings {
+  enabled: boolean;
+  threshold: number; // feedback scoring at least this much is held for review
+  weights: Record<ScreeningFindingType, number>;
+}
+
+export interface ScreeningWordList {
+  words: ScreeningWord[];
+  settings: ScreeningSettings;
+}
+
+export interface ScreeningResult {
+  score: number;
+  flags: ScreeningFindingType[];
+  findings: Array<{ type: ScreeningFindingType; match: string }>;
+  flagged: boolean;
+  notes: string | null;
+}
+
+export interface ScreeningWordFormData {
+  word: string;
+  category: ScreeningCategory;
+}
+
+export interface ModerationData {
+  status: Exclude<FeedbackStatus, 'pending'>;
+  moderatorNotes?: string;
+}
+
 // Auth types
 export interface LoginData {
   email: string;
@@ -65,16 +356,220 @@ export interface RegisterData {
   email: string;
   password: string;
   confirmPassword: string;
-  role?: 'student' | 'admin';
+  inviteToken?: string;
 }
 
+export interface ForgotPasswordData {
+  email: string;
+}
+
+export interface ResetPasswordData {
+  password: string;
+  confirmPassword: string;
+}
+
+// In cookie auth mode the tokens arrive as HttpOnly cookies and only the CSRF token is in the body
 export interface AuthResponse {
   success: boolean;
-  token: string;
+  token?: string;
+  refreshToken?: string;
+  csrfToken?: string;
   user: User;
   message?: string;
 }
 
+export interface TwoFactorChallengeResponse {
+  success: boolean;
+  twoFactorRequired: true;
+  challengeToken: string;
+  message?: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface LoginResult {
+  twoFactorRequired: boolean;
+}
+
+// Password policy types (the server's policy; breached-password checks happen on the server only)
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+  checkBreached: boolean;
+}
+
+export interface PasswordRule {
+  label: string;
+  message: string;
+  test: (password: string) => boolean;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+// Single sign-on types
+export interface OidcConfig {
+  enabled: boolean;
+  providerName: string;
+}
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+export interface RefreshResponse {
+  success: boolean;
+  token?: string;
+  refreshToken?: string;
+  csrfToken?: string;
+}
+
+// Impersonation types (an admin viewing the app as a student)
+export interface ImpersonationResponse {
+  token?: string;
+  csrfToken?: string;
+  expiresAt: string;
+  user: User;
+  message: string;
+}
+
+export interface Impersonation {
+  impersonator: User;
+  expiresAt: string;
+}
+
+// The admin's own tokens, kept aside until the impersonation ends
+export interface StoredImpersonation extends Impersonation {
+  token: string;
+  refreshToken: string;
+}
+
+// Invitation types
+export interface Invitation {
+  _id: string;
+  email: string | null;
+  role: string;
+  invitedBy: Pick<User, '_id' | 'name' | 'email'>;
+  acceptedBy?: Pick<User, '_id' | 'name' | 'email'> | null;
+  expiresAt: string;
+  acceptedAt?: string | null;
+  revokedAt?: string | null;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  createdAt: string;
+}
+
+export interface InvitationPreview {
+  email: string | null;
+  role: string;
+  expiresAt: string;
+}
+
+export interface InvitationFormData {
+  email?: string;
+  role: string;
+  expiresInDays: number;
+}
+
+export interface CreatedInvitation {
+  invitation: Invitation;
+  inviteUrl: string;
+  emailSent: boolean;
+  message: string;
+}
+
+// Session types
+export interface UserSession {
+  _id: string;
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface LoginEvent {
+  _id: string;
+  email: string;
+  success: boolean;
+  failureReason?: 'unknown-user' | 'invalid-password' | 'invalid-two-factor' | 'blocked' | 'locked';
+  method: 'password' | 'oidc';
+  device: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+}
+
+// Audit log types (actions must match backend/models/AuditLog.js)
+export type AuditAction =
+  | 'student.block'
+  | 'student.unblock'
+  | 'student.unlock'
+  | 'student.delete'
+  | 'student.impersonate'
+  | 'impersonation.request'
+  | 'user.role'
+  | 'course.create'
+  | 'course.update'
+  | 'course.activate'
+  | 'course.deactivate'
+  | 'course.delete'
+  | 'feedback.export'
+  | 'feedback.approve'
+  | 'feedback.reject'
+  | 'feedback.respond'
+  | 'invitation.create'
+  | 'invitation.revoke'
+  | 'survey.create'
+  | 'survey.update'
+  | 'survey.delete'
+  | 'term.create'
+  | 'term.update'
+  | 'term.delete'
+  | 'wordlist.add'
+  | 'wordlist.remove';
+
+export type AuditTargetType = 'user' | 'course' | 'feedback' | 'invitation' | 'survey' | 'term' | 'wordlist';
+
+export interface AuditLogEntry {
+  _id: string;
+  actor: Pick<User, '_id' | 'name' | 'email'> | null; // null once the actor's account is deleted
+  actorEmail: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  targetLabel?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+// Two-factor authentication types
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -105,6 +600,10 @@ export interface PaginatedResponse<T> {
 export interface FeedbackPaginatedResponse {
   success: boolean;
   feedback: Feedback[];
+  moderation: {
+    enabled: boolean; // whether new feedback waits for review
+    pendingCount: number;
+  };
   pagination: PaginationData;
 }
 
@@ -114,6 +613,12 @@ export interface StudentPaginatedResponse {
   pagination: PaginationData;
 }
 
+export interface AuditLogPaginatedResponse {
+  success: boolean;
+  logs: AuditLogEntry[];
+  pagination: PaginationData;
+}
+
 // Dashboard types
 export interface DashboardStats {
   users: {
@@ -141,7 +646,8 @@ export interface DashboardStats {
     courseName: string;
     courseCode: string;
     feedbackCount: number;
-    averageRating: number;
+    averageRating: number | null;
+    suppressed?: boolean;
   }>;
   monthlyTrends: Array<{
     month: string;
@@ -156,7 +662,9 @@ export interface FeedbackFormData {
   rating: number;
   message: string;
   isAnonymous: boolean;
+  unlinkable?: boolean;
   tags?: string[];
+  answers?: Record<string, SurveyAnswerValue | ''>; // keyed by question ID
 }
 
 export interface ProfileFormData {
@@ -172,20 +680,53 @@ export interface ChangePasswordData {
   confirmNewPassword: string;
 }
 
+export interface DeleteAccountData {
+  confirmEmail: string;
+  password?: string;
+}
+
 export interface CourseFormData {
   name: string;
   code: string;
   description?: string;
-  instructor?: string;
+  instructor?: string; // instructor user ID
   department?: string;
   credits?: number;
+  surveyTemplate?: string; // survey template ID, empty for none
+}
+
+export interface SurveyQuestionFormData {
+  _id?: string;
+  text: string;
+  type: SurveyQuestionType;
+  required: boolean;
+  options?: string[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+}
+
+export interface TermFormData {
+  name: string;
+  startDate: string;
+  endDate: string;
+  feedbackOpensAt: string;
+  feedbackClosesAt: string;
+}
+
+export interface SurveyTemplateFormData {
+  name: string;
+  description?: string;
+  questions: SurveyQuestionFormData[];
 }
 
 // Filter and sort types
 export interface FeedbackFilters {
   course?: string;
+  term?: string;
   rating?: number;
   student?: string;
+  status?: FeedbackStatus;
   startDate?: string;
   endDate?: string;
   sortBy?: string;
@@ -196,13 +737,24 @@ export interface FeedbackFilters {
 
 export interface StudentFilters {
   search?: string;
-  status?: 'active' | 'blocked' | 'all';
+  status?: 'active' | 'blocked' | 'locked' | 'all';
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+export interface AuditLogFilters {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actor?: string;
+  targetId?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
 export interface CourseFilters {
   active?: boolean;
   search?: string;
@@ -213,19 +765,30 @@ export interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  loginWithOidc: (code: string, state: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  isTwoFactorPending: boolean;
   register: (data: RegisterData) => Promise<void>;
   logout: () => void;
+  logoutAll: () => Promise<void>;
+  deleteAccount: (data: DeleteAccountData) => Promise<void>;
   updateUser: (user: User) => void;
   isAuthenticated: boolean;
   isAdmin: boolean;
   isStudent: boolean;
+  hasPermission: (permission: Permission | Permission[]) => boolean;
+  impersonation: Impersonation | null;
+  startImpersonation: (studentId: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
 }
 
 // Component props types
 export interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'student' | 'admin';
+  requiredRole?: string;
+  requiredPermission?: Permission | Permission[];
 }
 
 export interface LoadingSpinnerProps {
@@ -0,0 +1,74 @@
+import { AnonymousToken, Feedback, FeedbackFormData } from '../types';
+import { anonymousFeedbackApi } from './api';
+import { blind, randomHex, unblind, verify } from './blindSignature';
+import { ANONYMITY_CONFIG } from './constants';
+import { getFromStorage, setToStorage } from './helpers';
+
+// Receipts and unused tokens only ever live on the student's device. They are kept per account so
+// that students sharing a browser don't see each other's feedback.
+const receiptsKey = (userId: string) => `${ANONYMITY_CONFIG.receiptsKey}:${userId}`;
+const tokensKey = (userId: string) => `${ANONYMITY_CONFIG.tokensKey}:${userId}`;
+
+export const getReceipts = (userId: string): string[] => getFromStorage<string[]>(receiptsKey(userId), []);
+
+export const addReceipt = (userId: string, receipt: string): void => {
+  const receipts = getReceipts(userId).filter(kept => kept !== receipt);
+  setToStorage(receiptsKey(userId), [receipt, ...receipts]);
+};
+
+export const removeReceipt = (userId: string, receipt: string): void => {
+  setToStorage(receiptsKey(userId), getReceipts(userId).filter(kept => kept !== receipt));
+};
+
+// The receipt of a feedback entry starts with its ID
+export const findReceipt = (userId: string, feedbackId: string): string | undefined =>
+  getReceipts(userId).find(receipt => receipt.startsWith(`${feedbackId}.`));
+
+const getTokens = (userId: string): AnonymousToken[] => getFromStorage<AnonymousToken[]>(tokensKey(userId), []);
+
+const forgetToken = (userId: string, courseId: string): void => {
+  setToStorage(tokensKey(userId), getTokens(userId).filter(token => token.course !== courseId));
+};
+
+// Get the student's token for a course: the unused one kept on this device, or a new one signed blind
+// by the server so it can't tell which student the token belongs to
+const getToken = async (userId: string, courseId: string): Promise<AnonymousToken> => {
+  const { key, tokenIssued } = await anonymousFeedbackApi.getKey(courseId);
+
+  const kept = getTokens(userId).find(token => token.course === courseId && token.keyId === key.id);
+  if (kept) return kept;
+  if (tokenIssued) {
+    throw new Error('Your token for this course has already been used or is kept on another device');
+  }
+
+  const token = randomHex(ANONYMITY_CONFIG.tokenBytes);
+  const message = `${key.id}:${token}`;
+  const { blinded, factor } = await blind(message, key);
+  const { signature: blindSignature } = await anonymousFeedbackApi.requestToken(courseId, blinded);
+
+  const signature = unblind(blindSignature, factor, key);
+  if (!(await verify(message, signature, key))) {
+    throw new Error('The server returned an invalid signature');
+  }
+
+  // Kept before submitting, since the server won't issue a second one
+  const issued: AnonymousToken = { course: courseId, keyId: key.id, token, signature };
+  setToStorage(tokensKey(userId), [...getTokens(userId).filter(t => t.course !== courseId), issued]);
+  return issued;
+};
+
+export const submitUnlinkableFeedback = async (userId: string, data: FeedbackFormData): Promise<Feedback> => {
+  const token = await getToken(userId, data.course);
+
+  try {
+    const { feedback, receipt } = await anonymousFeedbackApi.submitFeedback(data, token);
+    addReceipt(userId, receipt);
+    forgetToken(userId, data.course);
+    return feedback;
+  } catch (error: any) {
+    if (error.response?.data?.code === 'TOKEN_USED' || error.response?.data?.code === 'INVALID_TOKEN') {
+      forgetToken(userId, data.course);
+    }
+    throw error;
+  }
+};
@@ -1,42 +1,179 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import toast from 'react-hot-toast';
-import { getFromStorage } from './helpers';
+import { getFromStorage, setToStorage, removeFromStorage } from './helpers';
+import { API_CONFIG, AUTH_CONFIG, ROUTES } from './constants';
 import {
   User,
   Course,
+  CourseInstructor,
+  InstructorCourse,
+  InstructorFeedbackPaginatedResponse,
   Feedback,
   AuthResponse,
+  LoginResponse,
+  RefreshResponse,
+  OidcConfig,
+  PasswordPolicy,
+  OidcAuthorization,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  UserSession,
+  LoginEvent,
+  Invitation,
+  InvitationPreview,
+  InvitationFormData,
+  CreatedInvitation,
+  ImpersonationResponse,
+  StoredImpersonation,
+  RoleDefinition,
   LoginData,
   RegisterData,
+  ForgotPasswordData,
+  ResetPasswordData,
   ApiResponse,
   FeedbackPaginatedResponse,
+  FeedbackRevision,
+  FeedbackResponse,
+  FeedbackResponseFormData,
+  AnonymousKeyResponse,
+  AnonymousSubmission,
+  AnonymousToken,
+  FeedbackDraft,
+  ModerationData,
   StudentPaginatedResponse,
+  AuditLogPaginatedResponse,
   DashboardStats,
   FeedbackFormData,
   ProfileFormData,
   ChangePasswordData,
+  DeleteAccountData,
   CourseFormData,
+  SurveyTemplate,
+  SurveyTemplateFormData,
+  Term,
+  TermFormData,
+  ScreeningWord,
+  ScreeningWordList,
+  ScreeningWordFormData,
+  ScreeningResult,
+  CurrentTermResponse,
+  StatisticsBasis,
   FeedbackFilters,
   StudentFilters,
+  AuditLogFilters,
   CourseFilters
 } from '../types';
 
+const usesAuthCookies = API_CONFIG.authMode === 'cookie';
+
 // Create axios instance
 const api: AxiosInstance = axios.create({
-  baseURL: process.env.REACT_APP_API_URL || 'http://localhost:5000/api',
-  timeout: 10000,
+  baseURL: API_CONFIG.baseUrl,
+  timeout: API_CONFIG.timeout,
+  withCredentials: usesAuthCookies,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Unlinkable feedback is sent without the session, so nothing ties it to the account
+const anonymousApi: AxiosInstance = axios.create({
+  baseURL: API_CONFIG.baseUrl,
+  timeout: API_CONFIG.timeout,
+  withCredentials: false,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Request interceptor to add auth token
+// Requests that change data must carry the CSRF token in cookie auth mode
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+const getCsrfHeaders = (method?: string): Record<string, string> => {
+  const csrfToken = getFromStorage<string | null>(AUTH_CONFIG.csrfTokenKey, null);
+  if (!usesAuthCookies || !csrfToken || SAFE_METHODS.includes((method || 'get').toLowerCase())) {
+    return {};
+  }
+  return { 'X-CSRF-Token': csrfToken };
+};
+
+// Auth endpoints whose 401s mean bad credentials, not an expired access token
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
+  '/auth/invitations',
+  '/auth/oidc',
+];
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Keep whichever tokens a response carried
+export const storeTokens = ({ token, refreshToken, csrfToken }: Omit<RefreshResponse, 'success'>): void => {
+  if (token) setToStorage(AUTH_CONFIG.tokenKey, token);
+  if (refreshToken) setToStorage(AUTH_CONFIG.refreshTokenKey, refreshToken);
+  if (csrfToken) setToStorage(AUTH_CONFIG.csrfTokenKey, csrfToken);
+};
+
+// Shared so that concurrent 401s wait on a single refresh call
+let refreshPromise: Promise<string | null> | null = null;
+
+// Get a new access token; in cookie mode the server reads the refresh cookie and sets a new
+// access cookie, so there is no token to return
+export const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = getFromStorage<string | null>(AUTH_CONFIG.refreshTokenKey, null);
+  if (!refreshToken && !usesAuthCookies) {
+    throw new Error('No refresh token available');
+  }
+
+  // Use plain axios so this call does not go through the interceptors below
+  const response = await axios.post<RefreshResponse>(
+    `${API_CONFIG.baseUrl}/auth/refresh`,
+    refreshToken ? { refreshToken } : {},
+    {
+      timeout: API_CONFIG.timeout,
+      withCredentials: usesAuthCookies,
+      headers: getCsrfHeaders('post'),
+    }
+  );
+
+  storeTokens(response.data);
+  return response.data.token || null;
+};
+
+const clearSessionAndRedirect = () => {
+  removeFromStorage(AUTH_CONFIG.tokenKey);
+  removeFromStorage(AUTH_CONFIG.refreshTokenKey);
+  removeFromStorage(AUTH_CONFIG.userKey);
+  removeFromStorage(AUTH_CONFIG.impersonationKey);
+  removeFromStorage(AUTH_CONFIG.csrfTokenKey);
+  window.location.href = ROUTES.LOGIN;
+};
+
+// Put the admin's own tokens back after viewing as a student; returns what was restored
+export const restoreImpersonator = (): StoredImpersonation | null => {
+  const stored = getFromStorage<StoredImpersonation | null>(AUTH_CONFIG.impersonationKey, null);
+  if (!stored) return null;
+
+  storeTokens(stored);
+  setToStorage(AUTH_CONFIG.userKey, stored.impersonator);
+  removeFromStorage(AUTH_CONFIG.impersonationKey);
+  return stored;
+};
+
+// Request interceptor to add the auth token, or the CSRF token when cookies carry the auth
 api.interceptors.request.use(
   (config) => {
-    const token = getFromStorage<string | null>('token', null);
+    const token = getFromStorage<string | null>(AUTH_CONFIG.tokenKey, null);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    Object.entries(getCsrfHeaders(config.method)).forEach(([name, value]) => {
+      config.headers[name] = value;
+    });
     return config;
   },
   (error) => {
@@ -49,16 +186,48 @@ api.interceptors.response.use(
   (response: AxiosResponse) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Unauthorized - clear token and redirect to login
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
+  async (error) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+    const isAuthEndpoint = AUTH_ENDPOINTS.some(endpoint => originalRequest?.url?.startsWith(endpoint));
+
+    if (error.response?.status === 401 && originalRequest && !isAuthEndpoint) {
+      // Impersonation tokens can't be refreshed - go back to the admin's own account
+      if (restoreImpersonator()) {
+        window.location.href = ROUTES.ADMIN_STUDENTS;
+        return Promise.reject(error);
+      }
+
+      // Access token expired - refresh it once and replay the request
+      if (!originalRequest._retry) {
+        originalRequest._retry = true;
+
+        try {
+          if (!refreshPromise) {
+            refreshPromise = refreshAccessToken().finally(() => {
+              refreshPromise = null;
+            });
+          }
+
+          const token = await refreshPromise;
+          if (token) {
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+          }
+          return api(originalRequest);
+        } catch (refreshError) {
+          // Refresh token is missing, expired or revoked - the user has to log in again
+          clearSessionAndRedirect();
+          return Promise.reject(error);
+        }
+      }
+
+      clearSessionAndRedirect();
     } else if (error.response?.status === 403) {
-      toast.error('Access denied. Insufficient permissions.');
+      // Coded 403s (e.g. two-factor setup required) carry a message the user can act on
+      toast.error(error.response.data?.code ? error.response.data.message : 'Access denied. Insufficient permissions.');
     } else if (error.response?.status >= 500) {
       toast.error('Server error. Please try again later.');
+    } else if (!error.response && originalRequest?.headers?.['Idempotency-Key']) {
+      // Requests with an idempotency key are queued and retried by the caller instead
     } else if (error.code === 'ECONNABORTED') {
       toast.error('Request timeout. Please check your connection.');
     } else if (!error.response) {
@@ -78,10 +247,44 @@ const handleResponse = <T>(response: AxiosResponse<ApiResponse<T>>): T => {
   }
 };
 
+// Survey answers are kept by question ID in forms and sent as a list; unanswered questions are left out
+const toAnswerList = (answers?: FeedbackFormData['answers']) =>
+  answers === undefined
+    ? undefined
+    : Object.entries(answers)
+        .filter(([, value]) => value !== '' && value !== undefined && value !== null)
+        .map(([question, value]) => ({ question, value }));
+
 // Auth API
 export const authApi = {
-  login: async (data: LoginData): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>('/auth/login', data);
+  login: async (data: LoginData): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/login', data);
+    return response.data;
+  },
+
+  getOidcConfig: async (): Promise<OidcConfig> => {
+    const response = await api.get<{ success: boolean } & OidcConfig>('/auth/oidc/config');
+    const { enabled, providerName } = response.data;
+    return { enabled, providerName };
+  },
+
+  startOidcLogin: async (): Promise<OidcAuthorization> => {
+    const response = await api.post<{ success: boolean } & OidcAuthorization>('/auth/oidc/authorize');
+    if (response.data.success) {
+      const { authorizationUrl, state } = response.data;
+      return { authorizationUrl, state };
+    } else {
+      throw new Error('Failed to start single sign-on');
+    }
+  },
+
+  completeOidcLogin: async (code: string, state: string): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/oidc/callback', { code, state });
+    return response.data;
+  },
+
+  verifyTwoFactorLogin: async (challengeToken: string, code: string): Promise<AuthResponse> => {
+    const response = await api.post<AuthResponse>('/auth/login/two-factor', { challengeToken, code });
     return response.data;
   },
 
@@ -90,19 +293,144 @@ export const authApi = {
     return response.data;
   },
 
+  getInvitation: async (token: string): Promise<InvitationPreview> => {
+    const response = await api.get<{ success: boolean; invitation: InvitationPreview }>(
+      `/auth/invitations/${encodeURIComponent(token)}`
+    );
+    if (response.data.success) {
+      return response.data.invitation;
+    } else {
+      throw new Error('Failed to fetch invitation');
+    }
+  },
+
   getMe: async (): Promise<User> => {
     const response = await api.get<ApiResponse<User>>('/auth/me');
     return handleResponse(response);
   },
 
+  getPasswordPolicy: async (): Promise<PasswordPolicy> => {
+    const response = await api.get<{ success: boolean; policy: PasswordPolicy }>('/auth/password-policy');
+    return response.data.policy;
+  },
+
   changePassword: async (data: ChangePasswordData): Promise<void> => {
     const response = await api.put<ApiResponse>('/auth/change-password', data);
     handleResponse(response);
   },
 
+  forgotPassword: async (data: ForgotPasswordData): Promise<string> => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/forgot-password', data);
+    return response.data.message;
+  },
+
+  resetPassword: async (token: string, data: ResetPasswordData): Promise<void> => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/reset-password', {
+      token,
+      ...data,
+    });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to reset password');
+    }
+  },
+
+  verifyEmail: async (token: string): Promise<void> => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/verify-email', { token });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to verify email');
+    }
+  },
+
+  resendVerification: async (): Promise<string> => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/resend-verification');
+    return response.data.message;
+  },
+
   logout: async (): Promise<void> => {
     await api.post<ApiResponse>('/auth/logout');
   },
+
+  logoutAll: async (): Promise<void> => {
+    await api.post<ApiResponse>('/auth/logout-all');
+  },
+
+  getSessions: async (): Promise<UserSession[]> => {
+    const response = await api.get<{ success: boolean; sessions: UserSession[] }>('/auth/sessions');
+    if (response.data.success) {
+      return response.data.sessions;
+    } else {
+      throw new Error('Failed to fetch sessions');
+    }
+  },
+
+  revokeSession: async (id: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/auth/sessions/${id}`);
+    if (!response.data.success) {
+      throw new Error('Failed to revoke session');
+    }
+  },
+
+  getLoginHistory: async (limit?: number): Promise<LoginEvent[]> => {
+    const params = new URLSearchParams();
+    if (limit) params.append('limit', limit.toString());
+
+    const response = await api.get<{ success: boolean; events: LoginEvent[] }>(`/auth/sessions/history?${params}`);
+    if (response.data.success) {
+      return response.data.events;
+    } else {
+      throw new Error('Failed to fetch login history');
+    }
+  },
+
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await api.get<{ success: boolean; twoFactor: TwoFactorStatus }>('/auth/two-factor');
+    if (response.data.success) {
+      return response.data.twoFactor;
+    } else {
+      throw new Error('Failed to fetch two-factor status');
+    }
+  },
+
+  setupTwoFactor: async (): Promise<TwoFactorSetup> => {
+    const response = await api.post<{ success: boolean } & TwoFactorSetup>('/auth/two-factor/setup');
+    if (response.data.success) {
+      const { secret, otpauthUrl, qrCode } = response.data;
+      return { secret, otpauthUrl, qrCode };
+    } else {
+      throw new Error('Failed to start two-factor setup');
+    }
+  },
+
+  enableTwoFactor: async (code: string): Promise<string[]> => {
+    const response = await api.post<{ success: boolean; recoveryCodes: string[] }>('/auth/two-factor/enable', { code });
+    if (response.data.success) {
+      return response.data.recoveryCodes;
+    } else {
+      throw new Error('Failed to enable two-factor authentication');
+    }
+  },
+
+  disableTwoFactor: async (password: string, code: string): Promise<void> => {
+    const response = await api.post<{ success: boolean; message: string }>('/auth/two-factor/disable', {
+      password,
+      code,
+    });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to disable two-factor authentication');
+    }
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<string[]> => {
+    const response = await api.post<{ success: boolean; recoveryCodes: string[] }>(
+      '/auth/two-factor/recovery-codes',
+      { code }
+    );
+    if (response.data.success) {
+      return response.data.recoveryCodes;
+    } else {
+      throw new Error('Failed to generate recovery codes');
+    }
+  },
 };
 
 // User API
@@ -143,6 +471,22 @@ export const userApi = {
     const response = await api.get<ApiResponse<any>>('/users/stats');
     return handleResponse(response);
   },
+
+  exportMyData: async (): Promise<Blob> => {
+    const response = await api.get('/users/me/export', {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  deleteAccount: async (data: DeleteAccountData): Promise<string> => {
+    const response = await api.delete<{ success: boolean; message: string }>('/users/me', { data });
+    if (response.data.success) {
+      return response.data.message;
+    } else {
+      throw new Error('Failed to delete account');
+    }
+  },
 };
 
 // Course API
@@ -194,6 +538,17 @@ export const courseApi = {
     }
   },
 
+  getInstructors: async (): Promise<CourseInstructor[]> => {
+    const response = await api.get<{ success: boolean; count: number; instructors: CourseInstructor[] }>(
+      '/courses/instructors'
+    );
+    if (response.data.success) {
+      return response.data.instructors;
+    } else {
+      throw new Error('Failed to fetch instructors');
+    }
+  },
+
   toggleActive: async (id: string): Promise<Course> => {
     const response = await api.patch<{ success: boolean; message: string; course: Course }>(`/courses/${id}/toggle-active`);
     if (response.data.success) {
@@ -202,12 +557,148 @@ export const courseApi = {
       throw new Error('Failed to toggle course status');
     }
   },
+
+  getCourseSurvey: async (id: string): Promise<SurveyTemplate | null> => {
+    const response = await api.get<{ success: boolean; template: SurveyTemplate | null }>(`/courses/${id}/survey`);
+    if (response.data.success) {
+      return response.data.template;
+    } else {
+      throw new Error('Failed to fetch course survey');
+    }
+  },
+};
+
+// Survey template API
+export const surveyApi = {
+  getTemplates: async (): Promise<SurveyTemplate[]> => {
+    const response = await api.get<{ success: boolean; count: number; templates: SurveyTemplate[] }>('/surveys');
+    if (response.data.success) {
+      return response.data.templates;
+    } else {
+      throw new Error('Failed to fetch survey templates');
+    }
+  },
+
+  createTemplate: async (data: SurveyTemplateFormData): Promise<SurveyTemplate> => {
+    const response = await api.post<{ success: boolean; message: string; template: SurveyTemplate }>('/surveys', data);
+    if (response.data.success) {
+      return response.data.template;
+    } else {
+      throw new Error('Failed to create survey template');
+    }
+  },
+
+  updateTemplate: async (id: string, data: Partial<SurveyTemplateFormData>): Promise<SurveyTemplate> => {
+    const response = await api.put<{ success: boolean; message: string; template: SurveyTemplate }>(`/surveys/${id}`, data);
+    if (response.data.success) {
+      return response.data.template;
+    } else {
+      throw new Error('Failed to update survey template');
+    }
+  },
+
+  deleteTemplate: async (id: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/surveys/${id}`);
+    if (!response.data.success) {
+      throw new Error('Failed to delete survey template');
+    }
+  },
+};
+
+// Academic term API
+export const termApi = {
+  getTerms: async (): Promise<Term[]> => {
+    const response = await api.get<{ success: boolean; count: number; terms: Term[] }>('/terms');
+    if (response.data.success) {
+      return response.data.terms;
+    } else {
+      throw new Error('Failed to fetch terms');
+    }
+  },
+
+  getCurrentTerm: async (): Promise<CurrentTermResponse> => {
+    const response = await api.get<{ success: boolean } & CurrentTermResponse>('/terms/current');
+    if (response.data.success) {
+      const { term, nextTerm, serverTime } = response.data;
+      return { term, nextTerm, serverTime };
+    } else {
+      throw new Error('Failed to fetch the current term');
+    }
+  },
+
+  createTerm: async (data: TermFormData): Promise<Term> => {
+    const response = await api.post<{ success: boolean; message: string; term: Term }>('/terms', data);
+    if (response.data.success) {
+      return response.data.term;
+    } else {
+      throw new Error('Failed to create term');
+    }
+  },
+
+  updateTerm: async (id: string, data: Partial<TermFormData>): Promise<Term> => {
+    const response = await api.put<{ success: boolean; message: string; term: Term }>(`/terms/${id}`, data);
+    if (response.data.success) {
+      return response.data.term;
+    } else {
+      throw new Error('Failed to update term');
+    }
+  },
+
+  deleteTerm: async (id: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/terms/${id}`);
+    if (!response.data.success) {
+      throw new Error('Failed to delete term');
+    }
+  },
+};
+
+// Content screening API
+export const screeningApi = {
+  getWords: async (): Promise<ScreeningWordList> => {
+    const response = await api.get<{ success: boolean } & ScreeningWordList>('/screening/words');
+    if (response.data.success) {
+      return { words: response.data.words, settings: response.data.settings };
+    } else {
+      throw new Error('Failed to fetch the word list');
+    }
+  },
+
+  addWord: async (data: ScreeningWordFormData): Promise<ScreeningWord> => {
+    const response = await api.post<{ success: boolean; message: string; word: ScreeningWord }>('/screening/words', data);
+    if (response.data.success) {
+      return response.data.word;
+    } else {
+      throw new Error('Failed to add word');
+    }
+  },
+
+  removeWord: async (id: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/screening/words/${id}`);
+    if (!response.data.success) {
+      throw new Error('Failed to remove word');
+    }
+  },
+
+  checkText: async (text: string): Promise<ScreeningResult> => {
+    const response = await api.post<{ success: boolean; result: ScreeningResult }>('/screening/check', { text });
+    if (response.data.success) {
+      return response.data.result;
+    } else {
+      throw new Error('Failed to check text');
+    }
+  },
 };
 
 // Feedback API
 export const feedbackApi = {
-  submitFeedback: async (data: FeedbackFormData): Promise<Feedback> => {
-    const response = await api.post<{ success: boolean; message: string; feedback: Feedback }>('/feedback', data);
+  // Sent with an idempotency key, a retried submission gets the first response instead of submitting twice
+  submitFeedback: async (data: FeedbackFormData, idempotencyKey?: string): Promise<Feedback> => {
+    const response = await api.post<{ success: boolean; message: string; feedback: Feedback }>('/feedback', {
+      ...data,
+      answers: toAnswerList(data.answers),
+    }, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    });
     if (response.data.success) {
       return response.data.feedback;
     } else {
@@ -241,7 +732,10 @@ export const feedbackApi = {
   },
 
   updateFeedback: async (id: string, data: Partial<FeedbackFormData>): Promise<Feedback> => {
-    const response = await api.put<{ success: boolean; message: string; feedback: Feedback }>(`/feedback/${id}`, data);
+    const response = await api.put<{ success: boolean; message: string; feedback: Feedback }>(`/feedback/${id}`, {
+      ...data,
+      answers: toAnswerList(data.answers),
+    });
     if (response.data.success) {
       return response.data.feedback;
     } else {
@@ -256,12 +750,150 @@ export const feedbackApi = {
     }
   },
 
-  getCourseStats: async (courseId: string): Promise<any> => {
-    const response = await api.get<ApiResponse<any>>(`/feedback/course/${courseId}/stats`);
+  respondToFeedback: async (id: string, data: FeedbackResponseFormData): Promise<FeedbackResponse> => {
+    const response = await api.post<{ success: boolean; message: string; response: FeedbackResponse }>(
+      `/feedback/${id}/responses`,
+      data
+    );
+    if (response.data.success) {
+      return response.data.response;
+    } else {
+      throw new Error('Failed to post reply');
+    }
+  },
+
+  markResponsesRead: async (id: string): Promise<void> => {
+    const response = await api.patch<{ success: boolean; message: string }>(`/feedback/${id}/responses/read`);
+    if (!response.data.success) {
+      throw new Error('Failed to mark replies as read');
+    }
+  },
+
+  getCourseStats: async (courseId: string, basis?: StatisticsBasis): Promise<any> => {
+    const params = new URLSearchParams();
+    if (basis) params.append('basis', basis);
+
+    const response = await api.get<ApiResponse<any>>(`/feedback/course/${courseId}/stats?${params}`);
     return handleResponse(response);
   },
 };
 
+// Feedback drafts API
+export const draftApi = {
+  getDrafts: async (): Promise<FeedbackDraft[]> => {
+    const response = await api.get<{ success: boolean; drafts: FeedbackDraft[] }>('/feedback/drafts');
+    if (response.data.success) {
+      return response.data.drafts;
+    } else {
+      throw new Error('Failed to fetch drafts');
+    }
+  },
+
+  saveDraft: async (courseId: string, data: Omit<FeedbackFormData, 'course'>): Promise<FeedbackDraft> => {
+    const response = await api.put<{ success: boolean; draft: FeedbackDraft }>(`/feedback/drafts/${courseId}`, {
+      rating: data.rating ? Number(data.rating) : null,
+      message: data.message || '',
+      isAnonymous: data.isAnonymous || false,
+      tags: data.tags || [],
+      answers: toAnswerList(data.answers) || [],
+    });
+    if (response.data.success) {
+      return response.data.draft;
+    } else {
+      throw new Error('Failed to save draft');
+    }
+  },
+
+  deleteDraft: async (courseId: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/feedback/drafts/${courseId}`);
+    if (!response.data.success) {
+      throw new Error('Failed to delete draft');
+    }
+  },
+};
+
+// Unlinkable anonymous feedback API. Getting a token uses the session; everything after uses only
+// the token or the receipt.
+export const anonymousFeedbackApi = {
+  getKey: async (courseId: string): Promise<AnonymousKeyResponse> => {
+    const response = await api.get<{ success: boolean } & AnonymousKeyResponse>(`/feedback/anonymous/key/${courseId}`);
+    if (response.data.success) {
+      return { key: response.data.key, term: response.data.term, tokenIssued: response.data.tokenIssued };
+    } else {
+      throw new Error('Failed to fetch signing key');
+    }
+  },
+
+  requestToken: async (courseId: string, blinded: string): Promise<{ keyId: string; signature: string }> => {
+    const response = await api.post<{ success: boolean; keyId: string; signature: string }>(
+      '/feedback/anonymous/tokens',
+      { course: courseId, blinded }
+    );
+    if (response.data.success) {
+      return { keyId: response.data.keyId, signature: response.data.signature };
+    } else {
+      throw new Error('Failed to get a submission token');
+    }
+  },
+
+  submitFeedback: async (data: FeedbackFormData, token: AnonymousToken): Promise<AnonymousSubmission> => {
+    const { isAnonymous, unlinkable, ...fields } = data;
+    const response = await anonymousApi.post<{ success: boolean; message: string } & AnonymousSubmission>(
+      '/feedback/anonymous',
+      { ...fields, answers: toAnswerList(data.answers), token: token.token, signature: token.signature }
+    );
+    if (response.data.success) {
+      return { feedback: response.data.feedback, receipt: response.data.receipt };
+    } else {
+      throw new Error('Failed to submit feedback');
+    }
+  },
+
+  getFeedback: async (receipts: string[]): Promise<Feedback[]> => {
+    const response = await anonymousApi.post<{ success: boolean; feedback: Feedback[] }>(
+      '/feedback/anonymous/lookup',
+      { receipts }
+    );
+    if (response.data.success) {
+      return response.data.feedback;
+    } else {
+      throw new Error('Failed to fetch anonymous feedback');
+    }
+  },
+
+  updateFeedback: async (receipt: string, data: Partial<FeedbackFormData>): Promise<Feedback> => {
+    const { isAnonymous, unlinkable, ...fields } = data;
+    const response = await anonymousApi.put<{ success: boolean; message: string; feedback: Feedback }>(
+      '/feedback/anonymous',
+      { ...fields, answers: toAnswerList(data.answers), receipt }
+    );
+    if (response.data.success) {
+      return response.data.feedback;
+    } else {
+      throw new Error('Failed to update feedback');
+    }
+  },
+
+  deleteFeedback: async (receipt: string): Promise<void> => {
+    const response = await anonymousApi.delete<{ success: boolean; message: string }>('/feedback/anonymous', {
+      data: { receipt },
+    });
+    if (!response.data.success) {
+      throw new Error('Failed to delete feedback');
+    }
+  },
+
+  markResponsesRead: async (receipt: string): Promise<void> => {
+    const response = await anonymousApi.patch<{ success: boolean; message: string }>(
+      '/feedback/anonymous/responses/read',
+      { receipt }
+    );
+    if (!response.data.success) {
+      throw new Error('Failed to mark replies as read');
+    }
+  },
+};
+
 // Admin API
 export const adminApi = {
   getDashboard: async (): Promise<DashboardStats> => {
@@ -291,6 +923,23 @@ export const adminApi = {
     return handleResponse(response);
   },
 
+  unlockStudent: async (id: string): Promise<void> => {
+    const response = await api.patch<{ success: boolean; message: string }>(`/admin/students/${id}/unlock`);
+    if (!response.data.success) {
+      throw new Error('Failed to unlock student');
+    }
+  },
+
+  impersonateStudent: async (id: string): Promise<ImpersonationResponse> => {
+    const response = await api.post<{ success: boolean } & ImpersonationResponse>(`/admin/students/${id}/impersonate`);
+    if (response.data.success) {
+      const { token, expiresAt, user, message } = response.data;
+      return { token, expiresAt, user, message };
+    } else {
+      throw new Error('Failed to start viewing as student');
+    }
+  },
+
   deleteStudent: async (id: string): Promise<void> => {
     const response = await api.delete<ApiResponse>(`/admin/students/${id}`);
     handleResponse(response);
@@ -301,8 +950,10 @@ export const adminApi = {
     if (filters?.page) params.append('page', filters.page.toString());
     if (filters?.limit) params.append('limit', filters.limit.toString());
     if (filters?.course) params.append('course', filters.course);
+    if (filters?.term) params.append('term', filters.term);
     if (filters?.rating) params.append('rating', filters.rating.toString());
     if (filters?.student) params.append('student', filters.student);
+    if (filters?.status) params.append('status', filters.status);
     if (filters?.sortBy) params.append('sortBy', filters.sortBy);
     if (filters?.sortOrder) params.append('sortOrder', filters.sortOrder);
 
@@ -313,8 +964,10 @@ export const adminApi = {
   exportFeedback: async (filters?: FeedbackFilters): Promise<Blob> => {
     const params = new URLSearchParams();
     if (filters?.course) params.append('course', filters.course);
+    if (filters?.term) params.append('term', filters.term);
     if (filters?.rating) params.append('rating', filters.rating.toString());
     if (filters?.student) params.append('student', filters.student);
+    if (filters?.status) params.append('status', filters.status);
     if (filters?.startDate) params.append('startDate', filters.startDate);
     if (filters?.endDate) params.append('endDate', filters.endDate);
 
@@ -324,6 +977,124 @@ export const adminApi = {
     
     return response.data;
   },
+
+  moderateFeedback: async (id: string, data: ModerationData): Promise<Feedback> => {
+    const response = await api.patch<{ success: boolean; feedback: Feedback }>(`/admin/feedback/${id}/moderate`, data);
+    if (response.data.success) {
+      return response.data.feedback;
+    } else {
+      throw new Error('Failed to moderate feedback');
+    }
+  },
+
+  getFeedbackHistory: async (id: string): Promise<FeedbackRevision[]> => {
+    const response = await api.get<{ success: boolean; count: number; revisions: FeedbackRevision[] }>(
+      `/admin/feedback/${id}/history`
+    );
+    if (response.data.success) {
+      return response.data.revisions;
+    } else {
+      throw new Error('Failed to fetch feedback history');
+    }
+  },
+
+  bulkModerateFeedback: async (ids: string[], data: ModerationData): Promise<number> => {
+    const response = await api.patch<{ success: boolean; moderatedCount: number }>('/admin/feedback/moderate', {
+      ...data,
+      ids,
+    });
+    if (response.data.success) {
+      return response.data.moderatedCount;
+    } else {
+      throw new Error('Failed to moderate feedback');
+    }
+  },
+
+  getRoles: async (): Promise<RoleDefinition[]> => {
+    const response = await api.get<{ success: boolean; roles: RoleDefinition[] }>('/admin/roles');
+    if (response.data.success) {
+      return response.data.roles;
+    } else {
+      throw new Error('Failed to fetch roles');
+    }
+  },
+
+  getInvitations: async (status?: Invitation['status'] | 'all'): Promise<Invitation[]> => {
+    const params = new URLSearchParams();
+    if (status) params.append('status', status);
+
+    const response = await api.get<{ success: boolean; count: number; invitations: Invitation[] }>(
+      `/admin/invitations?${params}`
+    );
+    if (response.data.success) {
+      return response.data.invitations;
+    } else {
+      throw new Error('Failed to fetch invitations');
+    }
+  },
+
+  createInvitation: async (data: InvitationFormData): Promise<CreatedInvitation> => {
+    const response = await api.post<{ success: boolean } & CreatedInvitation>('/admin/invitations', data);
+    if (response.data.success) {
+      const { invitation, inviteUrl, emailSent, message } = response.data;
+      return { invitation, inviteUrl, emailSent, message };
+    } else {
+      throw new Error('Failed to create invitation');
+    }
+  },
+
+  revokeInvitation: async (id: string): Promise<void> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/admin/invitations/${id}`);
+    if (!response.data.success) {
+      throw new Error('Failed to revoke invitation');
+    }
+  },
+
+  getAuditLog: async (filters?: AuditLogFilters): Promise<AuditLogPaginatedResponse> => {
+    const params = new URLSearchParams();
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+    if (filters?.action) params.append('action', filters.action);
+    if (filters?.targetType) params.append('targetType', filters.targetType);
+    if (filters?.actor) params.append('actor', filters.actor);
+    if (filters?.targetId) params.append('targetId', filters.targetId);
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+
+    const response = await api.get<AuditLogPaginatedResponse>(`/admin/audit?${params}`);
+    return response.data;
+  },
+};
+
+// Instructor API
+export const instructorApi = {
+  getCourses: async (basis?: StatisticsBasis): Promise<InstructorCourse[]> => {
+    const params = new URLSearchParams();
+    if (basis) params.append('basis', basis);
+
+    const response = await api.get<{ success: boolean; count: number; courses: InstructorCourse[] }>(
+      `/instructor/courses?${params}`
+    );
+    if (response.data.success) {
+      return response.data.courses;
+    } else {
+      throw new Error('Failed to fetch courses');
+    }
+  },
+
+  getCourseFeedback: async (
+    courseId: string,
+    filters?: { page?: number; limit?: number }
+  ): Promise<InstructorFeedbackPaginatedResponse> => {
+    const params = new URLSearchParams();
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+
+    const response = await api.get<InstructorFeedbackPaginatedResponse>(
+      `/instructor/courses/${courseId}/feedback?${params}`
+    );
+    return response.data;
+  },
 };
 
 export default api;
@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+import { constants, generateKeyPairSync, privateDecrypt, webcrypto } from 'crypto';
+import { AnonymousSigningKey } from '../types';
+import { blind, unblind, verify } from './blindSignature';
+
+// Signs the way the server does (raw RSA with the private key), so these check that tokens blinded
+// here carry signatures the server accepts
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+const jwk = publicKey.export({ format: 'jwk' });
+const fromBase64Url = (value?: string) => Buffer.from(value || '', 'base64url').toString('hex');
+const key: AnonymousSigningKey = { id: 'test', modulus: fromBase64Url(jwk.n), exponent: fromBase64Url(jwk.e) };
+
+const sign = (blinded: string): string =>
+  privateDecrypt(
+    { key: privateKey, padding: constants.RSA_NO_PADDING },
+    Buffer.from(blinded.padStart(key.modulus.length, '0'), 'hex')
+  ).toString('hex');
+
+beforeAll(() => {
+  (global as any).window = { crypto: webcrypto };
+});
+
+afterAll(() => {
+  delete (global as any).window;
+});
+
+describe('blind signatures', () => {
+  it('unblinds a signature that verifies on the original token', async () => {
+    const { blinded, factor } = await blind('token', key);
+    const signature = unblind(sign(blinded), factor, key);
+
+    expect(await verify('token', signature, key)).toBe(true);
+  });
+
+  it('blinds the same token differently each time', async () => {
+    const first = await blind('token', key);
+    const second = await blind('token', key);
+
+    expect(first.blinded).not.toBe(second.blinded);
+  });
+
+  it('rejects a signature on another token', async () => {
+    const { blinded, factor } = await blind('token', key);
+    const signature = unblind(sign(blinded), factor, key);
+
+    expect(await verify('another token', signature, key)).toBe(false);
+  });
+
+  it('rejects a signature that was not unblinded', async () => {
+    const { blinded } = await blind('token', key);
+
+    expect(await verify('token', sign(blinded), key)).toBe(false);
+  });
+});
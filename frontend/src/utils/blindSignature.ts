@@ -0,0 +1,87 @@
+import { AnonymousSigningKey } from '../types';
+
+// RSA blind signatures, matching backend/utils/blindSignature.js. The token's hash is multiplied by a
+// random factor before it is sent to be signed, and the factor is removed from the signature after,
+// so the server signs a token it never sees. Numbers travel as lowercase hex.
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+const toBigInt = (hex: string): bigint => BigInt(`0x${hex}`);
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = ONE;
+  let power = base % modulus;
+  let remaining = exponent;
+  while (remaining > ZERO) {
+    if (remaining & ONE) result = (result * power) % modulus;
+    power = (power * power) % modulus;
+    remaining >>= ONE;
+  }
+  return result;
+};
+
+const modInverse = (value: bigint, modulus: bigint): bigint => {
+  let [oldR, r] = [value % modulus, modulus];
+  let [oldS, s] = [ONE, ZERO];
+  while (r !== ZERO) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  if (oldR !== ONE) throw new Error('Value has no inverse');
+  return ((oldS % modulus) + modulus) % modulus;
+};
+
+const gcd = (a: bigint, b: bigint): bigint => (b === ZERO ? a : gcd(b, a % b));
+
+export const randomHex = (byteLength: number): string =>
+  toHex(window.crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const sha256 = async (text: string): Promise<Uint8Array> =>
+  new Uint8Array(await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+// SHA-256 of "<counter>:<message>" for counters 0, 1, ... concatenated to the modulus length
+const fullDomainHash = async (message: string, modulusHex: string): Promise<bigint> => {
+  const length = modulusHex.length / 2;
+  let hex = '';
+  for (let counter = 0; hex.length < length * 2; counter++) {
+    hex += toHex(await sha256(`${counter}:${message}`));
+  }
+  return toBigInt(hex.slice(0, length * 2)) % toBigInt(modulusHex);
+};
+
+// A blinding factor: random, below the modulus and sharing no factor with it
+const randomBlindingFactor = (modulus: bigint, byteLength: number): bigint => {
+  for (;;) {
+    const factor = toBigInt(randomHex(byteLength)) % modulus;
+    if (factor > ONE && gcd(factor, modulus) === ONE) return factor;
+  }
+};
+
+export interface BlindedMessage {
+  blinded: string;
+  factor: string;
+}
+
+export const blind = async (message: string, key: AnonymousSigningKey): Promise<BlindedMessage> => {
+  const modulus = toBigInt(key.modulus);
+  const factor = randomBlindingFactor(modulus, key.modulus.length / 2);
+  const hash = await fullDomainHash(message, key.modulus);
+  const blinded = (hash * modPow(factor, toBigInt(key.exponent), modulus)) % modulus;
+
+  return { blinded: blinded.toString(16), factor: factor.toString(16) };
+};
+
+export const unblind = (blindSignature: string, factor: string, key: AnonymousSigningKey): string => {
+  const modulus = toBigInt(key.modulus);
+  return ((toBigInt(blindSignature) * modInverse(toBigInt(factor), modulus)) % modulus).toString(16);
+};
+
+export const verify = async (message: string, signature: string, key: AnonymousSigningKey): Promise<boolean> => {
+  const signed = modPow(toBigInt(signature), toBigInt(key.exponent), toBigInt(key.modulus));
+  return signed === await fullDomainHash(message, key.modulus);
+};
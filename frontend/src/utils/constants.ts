@@ -12,14 +12,20 @@ export const API_CONFIG = {
   timeout: 10000,
   retryAttempts: 3,
   retryDelay: 1000,
+  // Must match the backend's AUTH_MODE: 'header' sends Bearer tokens, 'cookie' relies on HttpOnly cookies
+  authMode: (process.env.REACT_APP_AUTH_MODE === 'cookie' ? 'cookie' : 'header') as 'header' | 'cookie',
 };
 
 // Authentication configuration
 export const AUTH_CONFIG = {
   tokenKey: 'token',
+  refreshTokenKey: 'refreshToken',
   userKey: 'user',
   sessionTimeout: 7 * 24 * 60 * 60 * 1000, // 7 days
   rememberMeKey: 'rememberMe',
+  oidcStateKey: 'oidcState', // sessionStorage: ties the provider's redirect back to this tab
+  impersonationKey: 'impersonation', // the admin's own tokens while viewing as a student
+  csrfTokenKey: 'csrfToken', // cookie auth mode: echoed back in the X-CSRF-Token header
 };
 
 // Pagination configuration
@@ -40,13 +46,17 @@ export const FILE_CONFIG = {
 
 // Validation constants
 export const VALIDATION_CONFIG = {
+  // Used until the server's password policy has loaded
   password: {
     minLength: 8,
     maxLength: 128,
-    requireSpecialChar: true,
-    requireNumber: true,
     requireUppercase: false,
     requireLowercase: false,
+    requireNumber: true,
+    requireSymbol: true,
+    historyCount: 0,
+    maxAgeDays: 0,
+    checkBreached: false,
   },
   name: {
     minLength: 2,
@@ -67,7 +77,6 @@ export const VALIDATION_CONFIG = {
     codeMinLength: 2,
     codeMaxLength: 20,
     descriptionMaxLength: 500,
-    instructorMaxLength: 100,
     departmentMaxLength: 100,
     minCredits: 1,
     maxCredits: 10,
@@ -78,6 +87,73 @@ export const VALIDATION_CONFIG = {
   },
 };
 
+// Survey template configuration
+export const SURVEY_CONFIG = {
+  maxQuestions: 30,
+  maxOptions: 10,
+  questionTypes: {
+    likert: 'Likert scale (1-5)',
+    'multiple-choice': 'Multiple choice',
+    numeric: 'Number',
+    text: 'Free text',
+    'yes-no': 'Yes / No',
+  },
+};
+
+// Content screening configuration
+export const SCREENING_CONFIG = {
+  wordMaxLength: 50,
+  categories: {
+    profanity: 'Profanity',
+    insult: 'Personal attack',
+  },
+  findingLabels: {
+    profanity: 'Profanity',
+    insult: 'Personal attack',
+    email: 'Email address',
+    phone: 'Phone number',
+    'roll-number': 'Roll number',
+  },
+};
+
+// Feedback reply configuration
+export const RESPONSE_CONFIG = {
+  messageMaxLength: 1000,
+  visibility: {
+    public: 'Reply to student',
+    private: 'Private note (staff only)',
+  },
+  authorRoles: {
+    admin: 'Administrator',
+    instructor: 'Course instructor',
+  },
+};
+
+// Unlinkable anonymous feedback configuration
+export const ANONYMITY_CONFIG = {
+  receiptsKey: 'anonymousReceipts', // secret receipts for unlinkable feedback, per account on this device
+  tokensKey: 'anonymousTokens', // signed tokens not used yet, so a failed submission can be retried
+  tokenBytes: 32,
+  receiptLookupLimit: 50,
+  receiptPattern: /^[a-f0-9]{24}\.[a-f0-9]{64}$/, // "<feedback id>.<secret>"
+};
+
+// Feedback draft configuration
+export const DRAFT_CONFIG = {
+  autosaveDelayMs: 1500, // pause in typing before the draft is saved
+  previewLength: 120,
+};
+
+// Offline feedback queue configuration
+export const OFFLINE_CONFIG = {
+  databaseName: 'studentFeedback',
+  storeName: 'feedbackQueue',
+  queueEvent: 'feedbackqueuechange', // dispatched on window whenever the queue changes
+  syncTag: 'feedback-queue', // must match public/service-worker.js
+  syncMessage: 'SYNC_FEEDBACK_QUEUE',
+  syncedRetentionMs: 24 * 60 * 60 * 1000, // how long sent entries stay listed as synced
+};
+
 // Rating configuration
 export const RATING_CONFIG = {
   min: 1,
@@ -161,6 +237,10 @@ export const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
   REGISTER: '/register',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
+  VERIFY_EMAIL: '/verify-email',
+  OIDC_CALLBACK: '/auth/callback',
   DASHBOARD: '/dashboard',
   PROFILE: '/profile',
   FEEDBACK: '/feedback',
@@ -171,6 +251,12 @@ export const ROUTES = {
   ADMIN_STUDENTS: '/admin/students',
   ADMIN_FEEDBACK: '/admin/feedback',
   ADMIN_COURSES: '/admin/courses',
+  ADMIN_SURVEYS: '/admin/surveys',
+  ADMIN_TERMS: '/admin/terms',
+  ADMIN_SCREENING: '/admin/screening',
+  ADMIN_INVITATIONS: '/admin/invitations',
+  ADMIN_AUDIT: '/admin/audit',
+  INSTRUCTOR_DASHBOARD: '/instructor/dashboard',
   COURSES: '/courses',
   NOT_FOUND: '/404',
 };
@@ -178,6 +264,7 @@ export const ROUTES = {
 // Local storage keys
 export const STORAGE_KEYS = {
   TOKEN: 'token',
+  REFRESH_TOKEN: 'refreshToken',
   USER: 'user',
   THEME: 'theme',
   REMEMBER_ME: 'rememberMe',
@@ -266,8 +353,13 @@ export const SUCCESS_MESSAGES = {
   LOGIN_SUCCESS: 'Login successful!',
   REGISTER_SUCCESS: 'Registration successful!',
   LOGOUT_SUCCESS: 'Logged out successfully!',
+  LOGOUT_ALL_SUCCESS: 'Logged out of all devices!',
   PROFILE_UPDATED: 'Profile updated successfully!',
   PASSWORD_CHANGED: 'Password changed successfully!',
+  PASSWORD_RESET: 'Password reset successfully! Please log in.',
+  EMAIL_VERIFIED: 'Email address verified!',
+  TWO_FACTOR_ENABLED: 'Two-factor authentication enabled!',
+  TWO_FACTOR_DISABLED: 'Two-factor authentication disabled!',
   FEEDBACK_SUBMITTED: 'Feedback submitted successfully!',
   FEEDBACK_UPDATED: 'Feedback updated successfully!',
   FEEDBACK_DELETED: 'Feedback deleted successfully!',
@@ -282,7 +374,6 @@ export const SUCCESS_MESSAGES = {
 // Regular expressions
 export const REGEX_PATTERNS = {
   EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-  PASSWORD: /^(?=.*[!@#$%^&*(),.?":{}|<>])(?=.*\d).{8,}$/,
   PHONE: /^\+?[\d\s-()]+$/,
   COURSE_CODE: /^[A-Z0-9]+$/,
   URL: /^https?:\/\/(?:[-\w.])+(?::[0-9]+)?(?:\/(?:[\w/_.])*(?:\?(?:[\w&=%.])*)?(?:#(?:[\w.])*)?)?$/,
@@ -1,3 +1,5 @@
+import { DiffPart, PasswordPolicy, PasswordRule, PasswordStrength, SurveyAnswerValue, SurveyQuestion } from '../types';
+
 // Date formatting utilities
 export const formatDate = (date: string | Date): string => {
   const d = new Date(date);
@@ -19,6 +21,14 @@ export const formatDateTime = (date: string | Date): string => {
   });
 };
 
+export const formatTime = (date: string | Date): string => {
+  const d = new Date(date);
+  return d.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
 export const formatRelativeTime = (date: string | Date): string => {
   const now = new Date();
   const d = new Date(date);
@@ -40,11 +50,41 @@ export const formatRelativeTime = (date: string | Date): string => {
   }
 };
 
+// Time left until a date as "3d 4h", "4h 12m" or "12m 30s" (empty once it has passed)
+export const formatCountdown = (target: string | Date, now: Date = new Date()): string => {
+  const totalSeconds = Math.floor((new Date(target).getTime() - now.getTime()) / 1000);
+  if (totalSeconds <= 0) return '';
+
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+};
+
+// Whether a term's feedback window is open at the given time
+export const isFeedbackWindowOpen = (
+  term: { feedbackOpensAt: string; feedbackClosesAt: string },
+  now: Date = new Date()
+): boolean => {
+  return new Date(term.feedbackOpensAt) <= now && now < new Date(term.feedbackClosesAt);
+};
+
 export const formatDateForInput = (date: string | Date): string => {
   const d = new Date(date);
   return d.toISOString().split('T')[0];
 };
 
+// Local date and time in the format datetime-local inputs expect (YYYY-MM-DDTHH:mm)
+export const formatDateTimeForInput = (date: string | Date): string => {
+  const d = new Date(date);
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
 // Number and string utilities
 export const truncateText = (text: string, maxLength: number): string => {
   if (text.length <= maxLength) return text;
@@ -207,6 +247,8 @@ export const getSystemTheme = (): 'light' | 'dark' => {
 // Error handling utilities
 export const getErrorMessage = (error: any): string => {
   if (typeof error === 'string') return error;
+  // Prefer the first field error over the generic "Validation failed"
+  if (error?.response?.data?.errors?.[0]?.msg) return error.response.data.errors[0].msg;
   if (error?.response?.data?.message) return error.response.data.message;
   if (error?.message) return error.message;
   return 'An unexpected error occurred';
@@ -310,3 +352,166 @@ export const downloadFile = (blob: Blob, filename: string): void => {
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 };
+
+// Password utilities
+// Anything that isn't a letter, digit or whitespace counts as a symbol (same as the server)
+const SYMBOL_PATTERN = /[^A-Za-z0-9\s]/;
+
+export const getPasswordRules = (policy: PasswordPolicy): PasswordRule[] => {
+  const rules: PasswordRule[] = [{
+    label: `${policy.minLength}+ characters`,
+    message: `Password must be at least ${policy.minLength} characters`,
+    test: (password) => password.length >= policy.minLength,
+  }];
+
+  if (policy.requireUppercase) {
+    rules.push({
+      label: 'Uppercase letter',
+      message: 'Password must contain an uppercase letter',
+      test: (password) => /[A-Z]/.test(password),
+    });
+  }
+  if (policy.requireLowercase) {
+    rules.push({
+      label: 'Lowercase letter',
+      message: 'Password must contain a lowercase letter',
+      test: (password) => /[a-z]/.test(password),
+    });
+  }
+  if (policy.requireNumber) {
+    rules.push({
+      label: 'One number',
+      message: 'Password must contain a number',
+      test: (password) => /\d/.test(password),
+    });
+  }
+  if (policy.requireSymbol) {
+    rules.push({
+      label: 'Special char',
+      message: 'Password must contain a special character',
+      test: (password) => SYMBOL_PATTERN.test(password),
+    });
+  }
+
+  return rules;
+};
+
+// Rough strength estimate from length and variety; a password breaking a rule is never better than weak
+export const getPasswordStrength = (password: string, policy: PasswordPolicy): PasswordStrength => {
+  const labels = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+  if (!password) return { score: 0, label: labels[0] };
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, SYMBOL_PATTERN].filter(pattern => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= policy.minLength) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  if (classes === 4) score++;
+  if (/(.)\1{2,}/.test(password)) score--; // runs like "aaa" or "111"
+
+  if (!getPasswordRules(policy).every(rule => rule.test(password))) {
+    score = Math.min(score, 1);
+  }
+
+  const clamped = Math.max(0, Math.min(score, 4)) as PasswordStrength['score'];
+  return { score: clamped, label: labels[clamped] };
+};
+
+// Survey utilities
+// Likert questions use the same 1-5 scale as the overall rating
+export const LIKERT_SCALE = [1, 2, 3, 4, 5];
+const DEFAULT_TEXT_ANSWER_MAX_LENGTH = 1000;
+
+const isBlankAnswer = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Form inputs hold strings; convert an answer to the type the server stores for its question
+export const toSurveyAnswerValue = (question: SurveyQuestion, value: SurveyAnswerValue): SurveyAnswerValue => {
+  switch (question.type) {
+    case 'likert':
+    case 'numeric':
+      return typeof value === 'string' ? Number(value.trim()) : value;
+    case 'yes-no':
+      return typeof value === 'string' ? value === 'yes' : value;
+    case 'text':
+      return typeof value === 'string' ? value.trim() : value;
+    default:
+      return value;
+  }
+};
+
+// Same checks as the server; returns a message for an invalid answer or null
+export const getSurveyAnswerError = (question: SurveyQuestion, value: unknown): string | null => {
+  if (isBlankAnswer(value)) {
+    return question.required ? 'An answer is required' : null;
+  }
+
+  const answer = toSurveyAnswerValue(question, value as SurveyAnswerValue);
+
+  switch (question.type) {
+    case 'likert':
+      return LIKERT_SCALE.includes(answer as number) ? null : 'Choose a value from 1 to 5';
+    case 'numeric':
+      if (typeof answer !== 'number' || !Number.isFinite(answer)) return 'Enter a number';
+      if (answer < (question.min ?? -Infinity) || answer > (question.max ?? Infinity)) {
+        return `Enter a number from ${question.min} to ${question.max}`;
+      }
+      return null;
+    case 'multiple-choice':
+      return (question.options || []).includes(answer as string) ? null : 'Choose one of the listed options';
+    case 'yes-no':
+      return typeof answer === 'boolean' ? null : 'Answer yes or no';
+    case 'text': {
+      const maxLength = question.maxLength || DEFAULT_TEXT_ANSWER_MAX_LENGTH;
+      return (answer as string).length > maxLength ? `Answer cannot exceed ${maxLength} characters` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Text diff utilities
+// Word-level diff between two versions of a text, from the longest common run of words
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const oldWords = before.split(/(\s+)/).filter(Boolean);
+  const newWords = after.split(/(\s+)/).filter(Boolean);
+
+  // lengths[i][j] = longest common subsequence of oldWords[i..] and newWords[j..]
+  const lengths: number[][] = Array.from({ length: oldWords.length + 1 }, () => new Array(newWords.length + 1).fill(0));
+  for (let i = oldWords.length - 1; i >= 0; i--) {
+    for (let j = newWords.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldWords[i] === newWords[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < oldWords.length && j < newWords.length) {
+    if (oldWords[i] === newWords[j]) {
+      push('same', oldWords[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', oldWords[i++]);
+    } else {
+      push('added', newWords[j++]);
+    }
+  }
+  oldWords.slice(i).forEach(word => push('removed', word));
+  newWords.slice(j).forEach(word => push('added', word));
+
+  return parts;
+};
@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { FeedbackFormData, QueuedFeedback } from '../types';
+import { OFFLINE_CONFIG } from './constants';
+import { feedbackApi } from './api';
+import { getErrorMessage } from './helpers';
+import { randomHex } from './blindSignature';
+import { submitUnlinkableFeedback } from './anonymousFeedback';
+
+// Feedback submitted without a connection is kept in IndexedDB and sent when the connection returns.
+// Each entry's ID goes with it as an Idempotency-Key, so a submission that reached the server but
+// lost its response is answered from the first attempt instead of being rejected as a duplicate.
+// Unlinkable feedback is sent without the account, and its one-time token keeps it from being
+// submitted twice instead.
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_CONFIG.databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OFFLINE_CONFIG.storeName, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(OFFLINE_CONFIG.storeName, mode);
+    const request = run(transaction.objectStore(OFFLINE_CONFIG.storeName));
+    transaction.oncomplete = () => {
+      database.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      database.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const notifyChange = () => window.dispatchEvent(new Event(OFFLINE_CONFIG.queueEvent));
+
+const saveEntry = async (entry: QueuedFeedback): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+  notifyChange();
+};
+
+export const newIdempotencyKey = (): string => randomHex(16);
+
+// No response at all means the request never got an answer, so it is worth sending again
+export const isNetworkError = (error: unknown): boolean => axios.isAxiosError(error) && !error.response;
+
+export const getQueuedFeedback = async (userId: string): Promise<QueuedFeedback[]> => {
+  const entries = await withStore<QueuedFeedback[]>('readonly', store => store.getAll());
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const removeQueuedFeedback = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  notifyChange();
+};
+
+// Background Sync isn't in the DOM typings yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+// Ask the service worker to tell the app when the connection is back, where Background Sync is supported
+const requestBackgroundSync = async () => {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    await (registration as SyncRegistration | undefined)?.sync?.register(OFFLINE_CONFIG.syncTag);
+  } catch (error) {
+    // The app also sends the queue when the browser reports it is back online
+  }
+};
+
+export const queueFeedback = async (userId: string, data: FeedbackFormData, id: string): Promise<QueuedFeedback> => {
+  const entry: QueuedFeedback = { id, userId, data, status: 'pending', queuedAt: new Date().toISOString() };
+  await saveEntry(entry);
+  requestBackgroundSync();
+  return entry;
+};
+
+let syncing: Promise<number> | null = null;
+
+// Send the user's pending feedback, oldest first; resolves with how many were sent. Stops at the first
+// network error, as the rest would fail the same way. Only one sync runs at a time.
+export const syncQueuedFeedback = (userId: string): Promise<number> => {
+  if (!syncing) {
+    syncing = sendPending(userId).finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+};
+
+const sendPending = async (userId: string): Promise<number> => {
+  const entries = await getQueuedFeedback(userId);
+  let sent = 0;
+
+  for (const entry of entries.filter(queued => queued.status === 'pending')) {
+    try {
+      const feedback = entry.data.isAnonymous && entry.data.unlinkable
+        ? await submitUnlinkableFeedback(userId, entry.data)
+        : await feedbackApi.submitFeedback(entry.data, entry.id);
+      await saveEntry({ ...entry, status: 'synced', feedbackId: feedback._id, syncedAt: new Date().toISOString() });
+      sent++;
+    } catch (error) {
+      const response = axios.isAxiosError<{ code?: string }>(error) ? error.response : undefined;
+      const status = response?.status ?? 0;
+      // Still offline, signed out, a server error, or the first attempt still running: try again later
+      if (isNetworkError(error) || status === 401 || status === 429 || status >= 500
+        || response?.data?.code === 'REQUEST_IN_PROGRESS') break;
+      await saveEntry({ ...entry, status: 'failed', error: getErrorMessage(error) });
+    }
+  }
+
+  // Sent entries stay for a while so the list can show what was synced
+  const cutoff = Date.now() - OFFLINE_CONFIG.syncedRetentionMs;
+  await Promise.all(entries
+    .filter(entry => entry.status === 'synced' && new Date(entry.syncedAt || entry.queuedAt).getTime() < cutoff)
+    .map(entry => removeQueuedFeedback(entry.id)));
+
+  return sent;
+};
@@ -1,4 +1,7 @@
 import * as yup from 'yup';
+import { PasswordPolicy, SurveyQuestionFormData, SurveyTemplate } from '../types';
+import { VALIDATION_CONFIG } from './constants';
+import { getPasswordRules, getSurveyAnswerError } from './helpers';
 
 // Common validation schemas
 export const emailSchema = yup
@@ -6,14 +9,20 @@ export const emailSchema = yup
   .email('Please enter a valid email address')
   .required('Email is required');
 
+// Checks the server's password policy, passed as { passwordPolicy } context (defaults until it loads)
 export const passwordSchema = yup
   .string()
-  .min(8, 'Password must be at least 8 characters')
-  .matches(
-    /^(?=.*[!@#$%^&*(),.?":{}|<>])(?=.*\d).{8,}$/,
-    'Password must contain at least 1 special character and 1 number'
-  )
-  .required('Password is required');
+  .required('Password is required')
+  .test('password-policy', function(value) {
+    const policy: PasswordPolicy = this.options.context?.passwordPolicy || VALIDATION_CONFIG.password;
+
+    if (value && value.length > policy.maxLength) {
+      return this.createError({ message: `Password cannot exceed ${policy.maxLength} characters` });
+    }
+
+    const brokenRule = getPasswordRules(policy).find(rule => !rule.test(value || ''));
+    return brokenRule ? this.createError({ message: brokenRule.message }) : true;
+  });
 
 export const nameSchema = yup
   .string()
@@ -42,6 +51,18 @@ export const registerSchema = yup.object({
     .required('Please confirm your password'),
 });
 
+export const forgotPasswordSchema = yup.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = yup.object({
+  password: passwordSchema,
+  confirmPassword: yup
+    .string()
+    .oneOf([yup.ref('password')], 'Passwords must match')
+    .required('Please confirm your password'),
+});
+
 export const changePasswordSchema = yup.object({
   currentPassword: yup.string().required('Current password is required'),
   newPassword: passwordSchema,
@@ -51,6 +72,16 @@ export const changePasswordSchema = yup.object({
     .required('Please confirm your new password'),
 });
 
+// Delete account schema (pass { requirePassword } as context; single sign-on accounts have none)
+export const deleteAccountSchema = yup.object({
+  confirmEmail: emailSchema,
+  password: yup.string().when('$requirePassword', {
+    is: true,
+    then: schema => schema.required('Password is required'),
+    otherwise: schema => schema.optional(),
+  }),
+});
+
 // Profile schema
 export const profileSchema = yup.object({
   name: nameSchema,
@@ -81,7 +112,25 @@ export const feedbackSchema = yup.object({
     .max(1000, 'Feedback message cannot exceed 1000 characters')
     .required('Feedback message is required'),
   isAnonymous: yup.boolean().default(false),
+  unlinkable: yup.boolean().default(false),
   tags: yup.array().of(yup.string()).default([]),
+  // Checks answers against the course's survey, passed as { surveyTemplate } context
+  answers: yup
+    .object()
+    .test('survey-answers', function(value) {
+      const template: SurveyTemplate | null = this.options.context?.surveyTemplate || null;
+      if (!template) return true;
+
+      const answers = (value || {}) as Record<string, unknown>;
+      const questionErrors = template.questions
+        .map(question => {
+          const message = getSurveyAnswerError(question, answers[question._id]);
+          return message ? this.createError({ path: `answers.${question._id}`, message }) : null;
+        })
+        .filter((error): error is yup.ValidationError => error !== null);
+
+      return questionErrors.length > 0 ? new yup.ValidationError(questionErrors) : true;
+    }),
 });
 
 // Course schema
@@ -103,7 +152,9 @@ export const courseSchema = yup.object({
     .optional(),
   instructor: yup
     .string()
-    .max(100, 'Instructor name cannot exceed 100 characters')
+    .optional(),
+  surveyTemplate: yup
+    .string()
     .optional(),
   department: yup
     .string()
@@ -117,6 +168,132 @@ export const courseSchema = yup.object({
     .optional(),
 });
 
+const surveyQuestionSchema = yup.object({
+  text: yup
+    .string()
+    .trim()
+    .max(300, 'Question text cannot exceed 300 characters')
+    .required('Question text is required'),
+  type: yup
+    .string()
+    .oneOf(['likert', 'multiple-choice', 'numeric', 'text', 'yes-no'])
+    .required('Question type is required'),
+  required: yup.boolean().default(true),
+  options: yup
+    .array()
+    .of(yup.string().trim().max(100, 'Options cannot exceed 100 characters'))
+    .when('type', {
+      is: 'multiple-choice',
+      then: schema => schema
+        .min(2, 'Add at least 2 options')
+        .max(10, 'A question can have at most 10 options')
+        .test('options-filled', 'Options cannot be empty', options => (options || []).every(option => !!option?.trim()))
+        .test('options-unique', 'Options must be different from each other', options => {
+          const normalized = (options || []).map(option => option?.trim().toLowerCase());
+          return new Set(normalized).size === normalized.length;
+        }),
+    }),
+  min: yup
+    .number()
+    .transform((value, original) => (original === '' || Number.isNaN(value) ? undefined : value))
+    .when('type', {
+      is: 'numeric',
+      then: schema => schema.required('Minimum is required'),
+    }),
+  max: yup
+    .number()
+    .transform((value, original) => (original === '' || Number.isNaN(value) ? undefined : value))
+    .when('type', {
+      is: 'numeric',
+      then: schema => schema
+        .required('Maximum is required')
+        .test('above-min', 'Maximum must be greater than the minimum', function(max) {
+          const { min } = this.parent as SurveyQuestionFormData;
+          return min === undefined || max === undefined || max > min;
+        }),
+    }),
+  maxLength: yup
+    .number()
+    .transform((value, original) => (original === '' || Number.isNaN(value) ? undefined : value))
+    .integer('Maximum length must be a whole number')
+    .min(1, 'Maximum length must be at least 1')
+    .max(2000, 'Maximum length cannot exceed 2000')
+    .optional(),
+});
+
+export const surveyTemplateSchema = yup.object({
+  name: yup
+    .string()
+    .trim()
+    .min(2, 'Template name must be at least 2 characters')
+    .max(100, 'Template name cannot exceed 100 characters')
+    .required('Template name is required'),
+  description: yup
+    .string()
+    .max(500, 'Description cannot exceed 500 characters')
+    .optional(),
+  questions: yup
+    .array()
+    .of(surveyQuestionSchema)
+    .min(1, 'Add at least one question')
+    .max(30, 'A template can have at most 30 questions')
+    .required(),
+});
+
+// Dates come from date and datetime-local inputs as strings
+const isAfter = (field: string) => function(this: yup.TestContext, value?: string) {
+  const earlier = this.parent[field];
+  return !value || !earlier || new Date(value) > new Date(earlier);
+};
+
+export const termSchema = yup.object({
+  name: yup
+    .string()
+    .trim()
+    .min(2, 'Term name must be at least 2 characters')
+    .max(50, 'Term name cannot exceed 50 characters')
+    .required('Term name is required'),
+  startDate: yup.string().required('Start date is required'),
+  endDate: yup
+    .string()
+    .required('End date is required')
+    .test('after-start', 'End date must be after the start date', isAfter('startDate')),
+  feedbackOpensAt: yup.string().required('Opening date is required'),
+  feedbackClosesAt: yup
+    .string()
+    .required('Closing date is required')
+    .test('after-open', 'Feedback must close after it opens', isAfter('feedbackOpensAt')),
+});
+
+export const screeningWordSchema = yup.object({
+  word: yup
+    .string()
+    .trim()
+    .min(2, 'Word must be at least 2 characters')
+    .max(50, 'Word cannot exceed 50 characters')
+    .required('Word is required'),
+  category: yup
+    .string()
+    .oneOf(['profanity', 'insult'] as const, 'Please select a category')
+    .required('Please select a category'),
+});
+
+export const invitationSchema = yup.object({
+  email: yup
+    .string()
+    .email('Please enter a valid email address')
+    .optional(),
+  role: yup
+    .string()
+    .required('Please select a role'),
+  expiresInDays: yup
+    .number()
+    .min(1, 'Expiry must be at least 1 day')
+    .max(30, 'Expiry cannot exceed 30 days')
+    .integer('Expiry must be a whole number of days')
+    .required('Expiry is required'),
+});
+
 // Validation helper functions
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -185,3 +362,15 @@ export const validateFile = (
 
   return { isValid: true };
 };
+
+export const feedbackResponseSchema = yup.object({
+  message: yup
+    .string()
+    .trim()
+    .max(1000, 'Reply cannot exceed 1000 characters')
+    .required('Please write a reply'),
+  visibility: yup
+    .string()
+    .oneOf(['public', 'private'] as const, 'Please choose who can see the reply')
+    .required('Please choose who can see the reply'),
+});